@@ -6,12 +6,18 @@ import type {
 import { createActor } from "xstate";
 
 import {
+  AgentConfigUpdatedMessage,
+  NestedEventMessage,
   AIChatMessage,
+  CancelledMessage,
   createServerMessage,
   InteractionCompleteMessage,
   SentenceMessage,
   ServerMessageFormat,
+  SlashCommandsMessage,
+  ToolApprovalRequestMessage,
   ToolStatusMessage,
+  UsageMessage,
 } from "./AIServiceTypes";
 import { AIStateMachine } from "./AIStateMachine";
 import webSocketService, { type AIServicePayload } from "./WebSocketService";
@@ -22,6 +28,12 @@ type AIStateData = {
   tool_running: ToolStatusMessage;
   tool_complete: ToolStatusMessage;
   complete: InteractionCompleteMessage;
+  cancelled: CancelledMessage;
+  usage: UsageMessage;
+  tool_approval_request: ToolApprovalRequestMessage;
+  agent_config_updated: AgentConfigUpdatedMessage;
+  slash_commands: SlashCommandsMessage;
+  nested_event: NestedEventMessage;
   error: { error: string | Error }; // Keep as-is for error handling
   chat_message: AIChatMessage;
   thinking: { userInput: string }; // Keep as-is for UI state
@@ -137,6 +149,24 @@ class AIService {
       ) {
         this.actor.send({ type: "TOOL_EXECUTION_COMPLETE" });
         this.notifyStateObservers("tool_complete", parsed);
+      } else if (parsed instanceof ToolApprovalRequestMessage) {
+        // The turn is paused on the server until respondToToolApproval is called
+        this.notifyStateObservers("tool_approval_request", parsed);
+      } else if (parsed instanceof UsageMessage) {
+        // Informational only; arrives after the turn is done
+        this.notifyStateObservers("usage", parsed);
+      } else if (parsed instanceof AgentConfigUpdatedMessage) {
+        // Arrives between turns; the next turn runs with the new configuration
+        this.notifyStateObservers("agent_config_updated", parsed);
+      } else if (parsed instanceof SlashCommandsMessage) {
+        // Informational only; the commands are typed as ordinary input
+        this.notifyStateObservers("slash_commands", parsed);
+      } else if (parsed instanceof NestedEventMessage) {
+        // Progress of a delegated agent; the caller's own turn carries on around it
+        this.notifyStateObservers("nested_event", parsed);
+      } else if (parsed instanceof CancelledMessage) {
+        this.actor.send({ type: "CANCELLED" });
+        this.notifyStateObservers("cancelled", parsed);
       } else if (parsed instanceof InteractionCompleteMessage) {
         this.actor.send({ type: "RECEIVE_INTERACTION_COMPLETE" });
         this.notifyStateObservers("complete", parsed);
@@ -204,6 +234,16 @@ class AIService {
     this.config.onResponseStart?.();
   }
 
+  // Ask the server to stop the in-flight turn; it answers with a cancelled + done pair
+  public cancelRequest() {
+    webSocketService.sendCancel();
+  }
+
+  // Answer a tool_approval_request; the server runs the tool or tells the model it was denied
+  public respondToToolApproval(approvalId: string, approved: boolean) {
+    webSocketService.sendToolApproval(approvalId, approved);
+  }
+
   public completeInteraction() {
     this.actor.send({ type: "RECEIVE_INTERACTION_COMPLETE" });
   }
@@ -1,7 +1,9 @@
 import { beforeEach, describe, expect, it } from "vitest";
 
 import {
+  AgentConfigUpdatedMessage,
   AnthropicMessageFormat,
+  CancelledMessage,
   ContentArrayMessage,
   ContentStringMessage,
   createServerMessage,
@@ -11,13 +13,19 @@ import {
   normalizeMessageContent,
   OpenAIMessageFormat,
   GeminiMessageFormat,
+  InteractionCompleteMessage,
+  NestedEventMessage,
+  ToolApprovalRequestMessage,
   ToolStatusFormat,
+  ToolStatusMessage,
   PartsArrayMessage,
+  UsageMessage,
   Part,
   Role,
   ServerMessageFormat,
   ServerMessageHistory,
   shouldDisplayMessage,
+  SlashCommandsMessage,
 } from "./AIServiceTypes";
 
 describe("AIServiceTypes utils", () => {
@@ -611,6 +619,133 @@ describe("WebSocket Integration Tests", () => {
   });
 });
 
+describe("Cancelled turn messages", () => {
+  it("parses the server's cancelled frame", () => {
+    const message = createServerMessage({
+      cancelled: true,
+      conversation_id: "conv-1",
+    } as ServerMessageFormat);
+
+    expect(message).toBeInstanceOf(CancelledMessage);
+    expect((message as CancelledMessage).messageType).toBe("cancelled");
+    expect((message as CancelledMessage).cancelled).toBe(true);
+  });
+});
+
+describe("Turn usage messages", () => {
+  it("parses the server's usage frame", () => {
+    const usage = {
+      calls: 2,
+      input_tokens: 1200,
+      output_tokens: 300,
+      cache_creation_input_tokens: 0,
+      cache_read_input_tokens: 0,
+      total_tokens: 1500,
+      latency_ms: 2100,
+      cost: 0.0081,
+      currency: "USD",
+    };
+
+    const message = createServerMessage({ usage, conversation_id: "conv-1" });
+
+    expect(message).toBeInstanceOf(UsageMessage);
+    expect((message as UsageMessage).usage).toEqual(usage);
+  });
+});
+
+describe("Tool approval request messages", () => {
+  it("parses the server's approval request frame", () => {
+    const request = {
+      approval_id: "approval-1",
+      tool_name: "delete_agent",
+      arguments: { agentKey: "old-agent" },
+    };
+
+    const message = createServerMessage({
+      tool_approval_request: request,
+      conversation_id: "conv-1",
+    });
+
+    expect(message).toBeInstanceOf(ToolApprovalRequestMessage);
+    expect((message as ToolApprovalRequestMessage).request).toEqual(request);
+    expect((message as ToolApprovalRequestMessage).messageType).toBe("tool_approval_request");
+  });
+});
+
+describe("Agent config updated messages", () => {
+  it("parses the server's configuration change frame", () => {
+    const update = {
+      agent_name: "AIlumina",
+      changed_fields: ["system_prompt"],
+      removed: false,
+    };
+
+    const message = createServerMessage({
+      agent_config_updated: update,
+      conversation_id: "conv-1",
+    });
+
+    expect(message).toBeInstanceOf(AgentConfigUpdatedMessage);
+    expect((message as AgentConfigUpdatedMessage).update).toEqual(update);
+    expect((message as AgentConfigUpdatedMessage).messageType).toBe("agent_config_updated");
+  });
+});
+
+describe("Slash command messages", () => {
+  it("parses the prompts offered as slash-commands", () => {
+    const commands = [
+      {
+        command: "/notes_summarize",
+        description: "Summarize a note",
+        arguments: [{ name: "title", required: true }],
+      },
+    ];
+    const message = createServerMessage({
+      slash_commands: commands,
+      conversation_id: "conv-1",
+    });
+
+    expect(message).toBeInstanceOf(SlashCommandsMessage);
+    expect((message as SlashCommandsMessage).commands).toEqual(commands);
+    expect((message as SlashCommandsMessage).messageType).toBe(
+      "slash_commands",
+    );
+  });
+});
+
+describe("Nested event messages", () => {
+  it("parses a delegated agent's frame inside the wrapper", () => {
+    const message = createServerMessage({
+      nested_event: {
+        agent_name: "researcher",
+        conversation_id: "conv-1-researcher",
+        depth: 1,
+        event: { tool_status: "started", tool_name: "web_search" },
+      },
+    });
+
+    expect(message).toBeInstanceOf(NestedEventMessage);
+    const nested = message as NestedEventMessage;
+    expect(nested.messageType).toBe("nested_event");
+    expect(nested.nested.agent_name).toBe("researcher");
+    expect(nested.event).toBeInstanceOf(ToolStatusMessage);
+  });
+
+  it("does not take a delegated agent's done frame for the caller's", () => {
+    const message = createServerMessage({
+      nested_event: {
+        agent_name: "researcher",
+        conversation_id: "conv-1-researcher",
+        depth: 1,
+        event: { done: true },
+      },
+    });
+
+    expect(message).toBeInstanceOf(NestedEventMessage);
+    expect((message as NestedEventMessage).event).toBeInstanceOf(InteractionCompleteMessage);
+  });
+});
+
 describe("Message Flow Tests", () => {
   it("maintains complete conversation flow with tool calls", () => {
     const history = new ServerMessageHistory();
@@ -85,11 +85,96 @@ export interface InteractionCompleteFormat {
   timestamp?: string;
 }
 
+export interface CancelledFormat {
+  cancelled: true;
+  reason?: string;
+  id?: string | number;
+  timestamp?: string;
+}
+
+// Token usage and cost summed over every API call of one turn
+export interface TurnUsage {
+  calls: number;
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_input_tokens: number;
+  cache_read_input_tokens: number;
+  total_tokens: number;
+  latency_ms: number;
+  cost: number | null;
+  currency: string;
+}
+
+export interface UsageFormat {
+  usage: TurnUsage;
+  conversation_id?: string;
+  id?: string | number;
+  timestamp?: string;
+}
+
+// A tool call the server will only run once the user approves it
+export interface ToolApprovalRequest {
+  approval_id: string;
+  tool_name: string;
+  arguments: Record<string, unknown>;
+}
+
+export interface ToolApprovalRequestFormat {
+  tool_approval_request: ToolApprovalRequest;
+  conversation_id?: string;
+  id?: string | number;
+  timestamp?: string;
+}
+
+// Sent when the agent's configuration changed; the next turn uses the new one
+export interface AgentConfigUpdate {
+  agent_name: string;
+  changed_fields: string[];
+  removed: boolean;
+}
+
+export interface AgentConfigUpdatedFormat {
+  agent_config_updated: AgentConfigUpdate;
+  conversation_id?: string;
+  id?: string | number;
+  timestamp?: string;
+}
+
+// A prompt from one of the agent's MCP servers, run by typing its command in the chat
+export interface SlashCommand {
+  command: string;
+  description?: string;
+  arguments: { name: string; description?: string; required?: boolean }[];
+}
+
+export interface SlashCommandsFormat {
+  slash_commands: SlashCommand[];
+  conversation_id?: string;
+  id?: string | number;
+  timestamp?: string;
+}
+
+// A frame from an agent this one delegated to, wrapped so it isn't taken for the caller's own
+export interface NestedEvent {
+  agent_name: string;
+  conversation_id: string;
+  depth: number;
+  event: ServerMessageFormat | string;
+}
+
+export interface NestedEventFormat {
+  nested_event: NestedEvent;
+  id?: string | number;
+  timestamp?: string;
+}
+
 export interface StatusFormat {
   messageType: "status";
   connection: string;
   status: string;
   error?: Error;
+  agent_name?: string;
+  conversation_id?: string;
   id?: string | number;
   timestamp?: string;
 }
@@ -103,6 +188,12 @@ export type ServerMessageFormat =
   | VisualizationFormat
   | SentenceFormat
   | InteractionCompleteFormat
+  | CancelledFormat
+  | UsageFormat
+  | ToolApprovalRequestFormat
+  | AgentConfigUpdatedFormat
+  | SlashCommandsFormat
+  | NestedEventFormat
   | StatusFormat;
 
 // Import shared constants to eliminate duplication
@@ -273,6 +364,32 @@ export interface IInteractionCompleteMessage extends IInfoMessage {
   done: boolean;
 }
 
+export interface ICancelledMessage extends IInfoMessage {
+  cancelled: boolean;
+  reason?: string;
+}
+
+export interface IUsageMessage extends IInfoMessage {
+  usage: TurnUsage;
+}
+
+export interface IToolApprovalRequestMessage extends IInfoMessage {
+  request: ToolApprovalRequest;
+}
+
+export interface IAgentConfigUpdatedMessage extends IInfoMessage {
+  update: AgentConfigUpdate;
+}
+
+export interface ISlashCommandsMessage extends IInfoMessage {
+  commands: SlashCommand[];
+}
+
+export interface INestedEventMessage extends IInfoMessage {
+  nested: NestedEvent;
+  event: ServerMessage | null;
+}
+
 // Base class for AI chat messages
 export abstract class AIChatMessage
   extends ServerMessage
@@ -335,6 +452,94 @@ export class InteractionCompleteMessage
   }
 }
 
+// Sent by the server when an in-flight turn was cancelled; always followed by a done message
+export class CancelledMessage
+  extends InfoMessage
+  implements ICancelledMessage
+{
+  cancelled: boolean;
+  reason?: string;
+
+  constructor(data: CancelledFormat) {
+    super(data);
+    this.messageType = "cancelled";
+    this.cancelled = data.cancelled;
+    this.reason = data.reason;
+  }
+}
+
+// Sent by the server after each turn with the tokens and cost it used
+export class UsageMessage extends InfoMessage implements IUsageMessage {
+  usage: TurnUsage;
+
+  constructor(data: UsageFormat) {
+    super(data);
+    this.messageType = "usage";
+    this.usage = data.usage;
+  }
+}
+
+// Sent by the server when a tool call waits for the user to approve or deny it
+export class ToolApprovalRequestMessage
+  extends InfoMessage
+  implements IToolApprovalRequestMessage
+{
+  request: ToolApprovalRequest;
+
+  constructor(data: ToolApprovalRequestFormat) {
+    super(data);
+    this.messageType = "tool_approval_request";
+    this.request = data.tool_approval_request;
+  }
+}
+
+// Sent by the server between turns when the agent's configuration was edited
+export class AgentConfigUpdatedMessage
+  extends InfoMessage
+  implements IAgentConfigUpdatedMessage
+{
+  update: AgentConfigUpdate;
+
+  constructor(data: AgentConfigUpdatedFormat) {
+    super(data);
+    this.messageType = "agent_config_updated";
+    this.update = data.agent_config_updated;
+  }
+}
+
+// Sent on connect, and when asked with a list_commands frame
+export class SlashCommandsMessage
+  extends InfoMessage
+  implements ISlashCommandsMessage
+{
+  commands: SlashCommand[];
+
+  constructor(data: SlashCommandsFormat) {
+    super(data);
+    this.messageType = "slash_commands";
+    this.commands = data.slash_commands;
+  }
+}
+
+// Sent while a delegated agent works; event is that agent's own frame, parsed
+export class NestedEventMessage
+  extends InfoMessage
+  implements INestedEventMessage
+{
+  nested: NestedEvent;
+  event: ServerMessage | null;
+
+  constructor(data: NestedEventFormat) {
+    super(data);
+    this.messageType = "nested_event";
+    this.nested = data.nested_event;
+    this.event =
+      typeof data.nested_event.event === "object" && data.nested_event.event !== null
+        ? createServerMessage(data.nested_event.event)
+        : null;
+  }
+}
+
 // Add to your concrete implementations section
 export class SentenceMessage extends InfoMessage implements ISentenceMessage {
   sentence: string;
@@ -510,6 +715,34 @@ export function createServerMessage(data: ServerMessageFormat): ServerMessage {
   ): d is InteractionCompleteFormat =>
     "done" in d && d.done === true && Object.keys(d).length <= 3; // id, timestamp, done
 
+  const isCancelled = (d: ServerMessageFormat): d is CancelledFormat =>
+    "cancelled" in d && d.cancelled === true;
+
+  const isUsage = (d: ServerMessageFormat): d is UsageFormat =>
+    "usage" in d && typeof d.usage === "object" && d.usage !== null;
+
+  const isToolApprovalRequest = (
+    d: ServerMessageFormat,
+  ): d is ToolApprovalRequestFormat =>
+    "tool_approval_request" in d &&
+    typeof d.tool_approval_request === "object" &&
+    d.tool_approval_request !== null;
+
+  const isAgentConfigUpdated = (
+    d: ServerMessageFormat,
+  ): d is AgentConfigUpdatedFormat =>
+    "agent_config_updated" in d &&
+    typeof d.agent_config_updated === "object" &&
+    d.agent_config_updated !== null;
+
+  const isSlashCommands = (d: ServerMessageFormat): d is SlashCommandsFormat =>
+    "slash_commands" in d && Array.isArray(d.slash_commands);
+
+  const isNestedEvent = (d: ServerMessageFormat): d is NestedEventFormat =>
+    "nested_event" in d &&
+    typeof d.nested_event === "object" &&
+    d.nested_event !== null;
+
   const isSentence = (d: ServerMessageFormat): d is SentenceFormat =>
     "sentence" in d;
 
@@ -540,6 +773,36 @@ export function createServerMessage(data: ServerMessageFormat): ServerMessage {
     return new InteractionCompleteMessage(data);
   }
 
+  // Cancelled turn messages
+  if (isCancelled(data)) {
+    return new CancelledMessage(data);
+  }
+
+  // Turn usage messages
+  if (isUsage(data)) {
+    return new UsageMessage(data);
+  }
+
+  // Tool calls waiting for approval
+  if (isToolApprovalRequest(data)) {
+    return new ToolApprovalRequestMessage(data);
+  }
+
+  // Agent configuration edits
+  if (isAgentConfigUpdated(data)) {
+    return new AgentConfigUpdatedMessage(data);
+  }
+
+  // Prompts offered as slash-commands
+  if (isSlashCommands(data)) {
+    return new SlashCommandsMessage(data);
+  }
+
+  // Frames from delegated agents
+  if (isNestedEvent(data)) {
+    return new NestedEventMessage(data);
+  }
+
   // Sentence messages
   if (isSentence(data)) {
     return new SentenceMessage(data);
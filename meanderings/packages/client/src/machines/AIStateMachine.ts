@@ -13,6 +13,7 @@ export type AIEvent =
   | { type: "TOOL_EXECUTION_COMPLETE" }
   | { type: "RECEIVE_INTERACTION_COMPLETE" }
   | { type: "CLEAR" }
+  | { type: "CANCELLED" }
   | { type: "ERROR"; error: string };
 
 export const AIStateMachine = createMachine({
@@ -51,6 +52,7 @@ export const AIStateMachine = createMachine({
               event?.type === "RECEIVE_SENTENCE" ? event.content : "",
           }),
         },
+        CANCELLED: "waiting",
         ERROR: {
           target: "error",
           actions: assign({
@@ -63,6 +65,7 @@ export const AIStateMachine = createMachine({
     responding: {
       on: {
         RECEIVE_INTERACTION_COMPLETE: "complete",
+        CANCELLED: "waiting",
       },
     },
     complete: {
@@ -1,5 +1,12 @@
 // Import and use the comprehensive Message interface from AIServiceTypes
-import type { Message, Role } from "./AIServiceTypes";
+import type {
+  AgentConfigUpdate,
+  Message,
+  Role,
+  SlashCommand,
+  ToolApprovalRequest,
+  TurnUsage,
+} from "./AIServiceTypes";
 
 // Re-export for convenient access
 export type { Message, Role };
@@ -14,6 +21,8 @@ export type ChatContextType = {
   isTyping: boolean;
 
   sendMessage: (message: string) => void;
+  cancelResponse: () => void;
+  respondToToolApproval: (approved: boolean) => void;
   pushMessage: (message: Message) => void;
   toggleVoiceMode: () => void;
   clearTranscript: () => void;
@@ -22,6 +31,11 @@ export type ChatContextType = {
   interimTranscript: string; // Add interim transcript property
   aiResponse: string;
   aiError: Error | null;
+  lastTurnUsage: TurnUsage | null;
+  pendingToolApproval: ToolApprovalRequest | null;
+  agentConfigUpdate: AgentConfigUpdate | null;
+  delegatedAgent: string | null;
+  slashCommands: SlashCommand[];
 
   currentTool: unknown;
   setCurrentTool: (tool: unknown) => void;
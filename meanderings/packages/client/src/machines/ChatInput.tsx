@@ -1,4 +1,4 @@
-import { Mic, Send } from "lucide-react";
+import { Mic, Send, Square } from "lucide-react";
 import React, { useCallback, useEffect, useRef, useState } from "react";
 
 import { useChat } from "./useChat";
@@ -7,6 +7,7 @@ import { useChat } from "./useChat";
 const ChatInput: React.FC = React.memo(() => {
   const {
     sendMessage,
+    cancelResponse,
     clearTranscript,
     isVoiceMode,
     toggleVoiceMode,
@@ -14,6 +15,10 @@ const ChatInput: React.FC = React.memo(() => {
     speechRecognitionState,
     transcription,
     interimTranscript,
+    lastTurnUsage,
+    agentConfigUpdate,
+    delegatedAgent,
+    slashCommands,
   } = useChat();
 
   // Using useState for the input value - this is a controlled component
@@ -44,6 +49,14 @@ const ChatInput: React.FC = React.memo(() => {
   // Determine if input should be disabled
   const inputDisabled = isThinking() || isResponding();
 
+  // Input starting with "/" lists the slash-commands whose names start with what was typed
+  const typedCommand = /^\s*(\/\S*)/.exec(inputValue)?.[1];
+  const matchingCommands = typedCommand
+    ? slashCommands.filter((command) =>
+        command.command.startsWith(typedCommand),
+      )
+    : [];
+
   const focusInput = useCallback(() => {
     if (inputRef.current) {
       inputRef.current.focus();
@@ -222,25 +235,60 @@ const ChatInput: React.FC = React.memo(() => {
           />
         )}
 
-        {/* Send button */}
-        <button
-          onClick={handleSendMessage}
-          disabled={inputValue.trim() === "" || inputDisabled}
-          className={`p-2 rounded-full ml-2 ${
-            inputValue.trim() === "" || inputDisabled
-              ? "text-gray-400 dark:text-gray-600"
-              : "text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300"
-          }`}
-          aria-label="Send message"
-        >
-          <Send size={20} />
-        </button>
+        {/* Stop button replaces send while the AI is working */}
+        {inputDisabled ? (
+          <button
+            onClick={cancelResponse}
+            className="p-2 rounded-full ml-2 text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300"
+            aria-label="Stop response"
+          >
+            <Square size={20} />
+          </button>
+        ) : (
+          <button
+            onClick={handleSendMessage}
+            disabled={inputValue.trim() === "" || inputDisabled}
+            className={`p-2 rounded-full ml-2 ${
+              inputValue.trim() === "" || inputDisabled
+                ? "text-gray-400 dark:text-gray-600"
+                : "text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300"
+            }`}
+            aria-label="Send message"
+          >
+            <Send size={20} />
+          </button>
+        )}
       </div>
 
+      {/* Prompts from the agent's MCP servers that match the command being typed */}
+      {matchingCommands.length > 0 && (
+        <ul className="text-xs text-gray-600 mt-2 dark:text-gray-300">
+          {matchingCommands.map((command) => (
+            <li key={command.command}>
+              <span className="font-mono">
+                {[
+                  command.command,
+                  ...command.arguments.map((argument) =>
+                    argument.required
+                      ? `${argument.name}=…`
+                      : `[${argument.name}=…]`,
+                  ),
+                ].join(" ")}
+              </span>
+              {command.description && (
+                <span className="text-gray-500 ml-2 dark:text-gray-400">
+                  {command.description}
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
       {/* Status indicators */}
       {isThinking() && (
         <div className="text-xs text-gray-500 mt-2 dark:text-gray-400">
-          AI is thinking...
+          {delegatedAgent ? `${delegatedAgent} is working on it...` : "AI is thinking..."}
         </div>
       )}
 
@@ -259,6 +307,20 @@ const ChatInput: React.FC = React.memo(() => {
       {isWaiting() && !isVoiceMode && (
         <div className="text-xs text-blue-500 mt-2 dark:text-blue-400">
           Ready for your message
+          {lastTurnUsage && (
+            <span className="text-gray-500 ml-2 dark:text-gray-400">
+              · Last turn: {lastTurnUsage.total_tokens.toLocaleString()} tokens
+              {lastTurnUsage.cost !== null &&
+                ` · ${lastTurnUsage.cost.toFixed(4)} ${lastTurnUsage.currency}`}
+            </span>
+          )}
+          {agentConfigUpdate && (
+            <span className="text-amber-600 ml-2 dark:text-amber-400">
+              {agentConfigUpdate.removed
+                ? "· This agent was removed from the configuration"
+                : `· Agent settings updated (${agentConfigUpdate.changed_fields.join(", ")})`}
+            </span>
+          )}
         </div>
       )}
     </div>
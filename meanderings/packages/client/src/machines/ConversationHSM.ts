@@ -58,6 +58,7 @@ export type ConversationEvent =
   | { type: "AI_RESPONSE_RECEIVED"; response: string; message?: any }
   | { type: "AI_COMPLETE" }
   | { type: "AI_ERROR"; message: string }
+  | { type: "AI_CANCELLED" }
   | { type: "SPEECH_RECOGNIZED"; text: string }
   | { type: "SPEECH_RECOGNITION_ERROR"; message: string }
   | { type: "TTS_COMPLETE" }
@@ -113,6 +114,10 @@ export const ConversationMachine = createMachine(
                   "addAIMessage",
                 ],
               },
+              AI_CANCELLED: {
+                target: AIState.WAITING,
+                actions: assign({ currentTool: null }),
+              },
               AI_ERROR: {
                 target: AIState.ERROR,
                 actions: assign({
@@ -143,6 +148,10 @@ export const ConversationMachine = createMachine(
                 ],
               },
               AI_COMPLETE: AIState.WAITING,
+              AI_CANCELLED: {
+                target: AIState.WAITING,
+                actions: assign({ currentTool: null }),
+              },
             },
           },
           [AIState.ERROR]: {
@@ -190,6 +199,10 @@ export const ConversationMachine = createMachine(
                   "addAIMessage",
                 ],
               },
+              AI_CANCELLED: {
+                target: AIState.WAITING,
+                actions: assign({ currentTool: null }),
+              },
               AI_ERROR: {
                 target: AIState.ERROR,
                 actions: assign({
@@ -220,6 +233,10 @@ export const ConversationMachine = createMachine(
                 ],
               },
               AI_COMPLETE: AIState.WAITING,
+              AI_CANCELLED: {
+                target: AIState.WAITING,
+                actions: assign({ currentTool: null }),
+              },
             },
           },
           [AIState.ERROR]: {
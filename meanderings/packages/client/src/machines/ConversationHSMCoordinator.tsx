@@ -4,7 +4,19 @@ import { useMachine } from "@xstate/react";
 import React, { createContext, useContext, useEffect, useRef, useState } from "react";
 
 import AIService from "./AIService";
-import { Message } from "./AIServiceTypes";
+import {
+  AgentConfigUpdate,
+  AgentConfigUpdatedMessage,
+  InteractionCompleteMessage,
+  NestedEventMessage,
+  Message,
+  SlashCommand,
+  SlashCommandsMessage,
+  ToolApprovalRequest,
+  ToolApprovalRequestMessage,
+  TurnUsage,
+  UsageMessage,
+} from "./AIServiceTypes";
 import { AIState, ConversationMachine, Mode } from "./ConversationHSM";
 import srService from "./SRService";
 import ttsService from "./ttsservice";
@@ -29,11 +41,18 @@ export interface ConversationService {
     hasError: boolean;
     errorMessage?: string;
   } | null;
+  lastTurnUsage: TurnUsage | null;
+  pendingToolApproval: ToolApprovalRequest | null;
+  agentConfigUpdate: AgentConfigUpdate | null;
+  delegatedAgent: string | null;
+  slashCommands: SlashCommand[];
 
   // Actions
   sendText: (input: string) => void;
   switchMode: (isVoice: boolean) => void;
   sendMessageToAI: (message: string) => void;
+  cancelResponse: () => void;
+  respondToToolApproval: (approved: boolean) => void;
   clearTranscript: () => void;
   isToolMessage: (message: any) => boolean;
 }
@@ -50,6 +69,13 @@ export const ConversationHSMCoordinator: React.FC<{
   const [interimTranscript, setInterimTranscript] = useState(""); // For storing interim transcripts
   const [transcript, setTranscript] = useState(""); // For storing interim transcripts
   const [speechRecognitionState, setSpeechRecognitionState] = useState("ready"); // Track SR state
+  const [lastTurnUsage, setLastTurnUsage] = useState<TurnUsage | null>(null);
+  const [pendingToolApproval, setPendingToolApproval] =
+    useState<ToolApprovalRequest | null>(null);
+  const [agentConfigUpdate, setAgentConfigUpdate] =
+    useState<AgentConfigUpdate | null>(null);
+  const [delegatedAgent, setDelegatedAgent] = useState<string | null>(null);
+  const [slashCommands, setSlashCommands] = useState<SlashCommand[]>([]);
 
   // Use the machine with minimal options to avoid type errors
   const [state, send] = useMachine(ConversationMachine);
@@ -99,6 +125,22 @@ export const ConversationHSMCoordinator: React.FC<{
     }
   };
 
+  const cancelResponse = () => {
+    console.log("[Coordinator] Cancelling in-flight response");
+    // The state only changes once the server confirms with a cancelled message
+    AIService.cancelRequest();
+    ttsService.stopSpeaking();
+  };
+
+  const respondToToolApproval = (approved: boolean) => {
+    if (!pendingToolApproval) return;
+    console.log(
+      `[Coordinator] Tool ${pendingToolApproval.tool_name} ${approved ? "approved" : "denied"}`,
+    );
+    AIService.respondToToolApproval(pendingToolApproval.approval_id, approved);
+    setPendingToolApproval(null);
+  };
+
   const clearTranscript = () => {
     console.log("[Coordinator] Clearing transcript");
     setTranscript("");
@@ -283,6 +325,8 @@ export const ConversationHSMCoordinator: React.FC<{
             clearTimeout(responseTimeoutRef.current);
             responseTimeoutRef.current = null;
           }
+          setPendingToolApproval(null);
+          setDelegatedAgent(null);
 
           // Defensive check: Only send AI_COMPLETE if we're in RESPONDING state
           // This prevents premature transitions back to WAITING during tool execution
@@ -307,6 +351,60 @@ export const ConversationHSMCoordinator: React.FC<{
           }
           break;
 
+        case "tool_approval_request":
+          // The turn waits for the user, so the stuck-response timeout must not fire
+          if (responseTimeoutRef.current) {
+            clearTimeout(responseTimeoutRef.current);
+            responseTimeoutRef.current = null;
+          }
+          setPendingToolApproval((data as ToolApprovalRequestMessage).request);
+          break;
+
+        case "usage":
+          // Tokens and cost of the turn that just finished
+          setLastTurnUsage((data as UsageMessage).usage);
+          // The turn that just finished already used any earlier configuration update
+          setAgentConfigUpdate(null);
+          break;
+
+        case "agent_config_updated":
+          console.log("[Coordinator] Agent configuration updated");
+          setAgentConfigUpdate((data as AgentConfigUpdatedMessage).update);
+          break;
+
+        case "slash_commands":
+          setSlashCommands((data as SlashCommandsMessage).commands);
+          break;
+
+        case "nested_event":
+          // The agent this one delegated to is still working until it reports done
+          const nestedEvent = data as NestedEventMessage;
+          setDelegatedAgent(
+            nestedEvent.event instanceof InteractionCompleteMessage
+              ? null
+              : nestedEvent.nested.agent_name
+          );
+          break;
+
+        case "cancelled":
+          // The server stopped the turn at our request; a "complete" follows and is ignored
+          console.log("[Coordinator] AI response cancelled");
+          // The server denies any approval still waiting when a turn is cancelled
+          setPendingToolApproval(null);
+          setDelegatedAgent(null);
+
+          if (responseTimeoutRef.current) {
+            clearTimeout(responseTimeoutRef.current);
+            responseTimeoutRef.current = null;
+          }
+
+          send({ type: "AI_CANCELLED" });
+
+          if (isVoiceMode && !ttsService.isPlaying) {
+            srService.start();
+          }
+          break;
+
         case AIState.ERROR:
           // An error occurred
           const errorData = data as any;
@@ -562,9 +660,16 @@ export const ConversationHSMCoordinator: React.FC<{
     aiResponse: state.context.aiResponse || aiResponse,
     messages: state.context.messages || [],
     currentTool: state.context.currentTool,
+    lastTurnUsage,
+    pendingToolApproval,
+    agentConfigUpdate,
+    delegatedAgent,
+    slashCommands,
     sendText,
     switchMode,
     sendMessageToAI,
+    cancelResponse,
+    respondToToolApproval,
     clearTranscript,
     isToolMessage: (message) => AIService.isToolMessage(message),
   };
@@ -2,6 +2,7 @@
 import React from "react";
 
 import { useConversation } from "./ConversationHSMCoordinator";
+import ToolRunDisplay from "./ToolRunDisplay";
 import ToolStatusIndicator from "./ToolStatusIndicator";
 
 /**
@@ -11,7 +12,23 @@ import ToolStatusIndicator from "./ToolStatusIndicator";
  */
 const CurrentToolDisplay: React.FC = () => {
   // Get the current tool status from the conversation context
-  const { currentTool } = useConversation();
+  const { currentTool, pendingToolApproval } = useConversation();
+
+  // A call waiting on the user is shown as a tool run with its approval controls
+  if (pendingToolApproval) {
+    return (
+      <div className="mx-4 my-2">
+        <ToolRunDisplay
+          toolRun={{
+            name: pendingToolApproval.tool_name,
+            input: pendingToolApproval.arguments,
+            startTime: currentTool?.startTime,
+            approval_id: pendingToolApproval.approval_id,
+          }}
+        />
+      </div>
+    );
+  }
 
   // Only render if there's an active tool
   if (!currentTool) {
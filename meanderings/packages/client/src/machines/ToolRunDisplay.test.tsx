@@ -0,0 +1,59 @@
+import { fireEvent, render } from "@testing-library/react";
+import React from "react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import ToolRunDisplay from "./ToolRunDisplay";
+
+const respondToToolApproval = vi.fn();
+
+vi.mock("./ConversationHSMCoordinator", () => ({
+  useConversation: () => ({
+    pendingToolApproval: {
+      approval_id: "approval-2",
+      tool_name: "delete_agent",
+      arguments: { agentKey: "old" },
+    },
+    respondToToolApproval,
+  }),
+}));
+
+describe("<ToolRunDisplay />", () => {
+  beforeEach(() => {
+    respondToToolApproval.mockClear();
+  });
+
+  it("shows the approval controls on the run the request is for", () => {
+    const { getByText } = render(
+      <ToolRunDisplay
+        toolRun={{
+          name: "delete_agent",
+          input: { agentKey: "old" },
+          approval_id: "approval-2",
+        }}
+      />,
+    );
+
+    fireEvent.click(getByText("Approve"));
+    expect(respondToToolApproval).toHaveBeenCalledWith(true);
+  });
+
+  it("leaves other runs of the same tool alone", () => {
+    const { queryByText } = render(
+      <>
+        <ToolRunDisplay
+          toolRun={{ name: "delete_agent", input: { agentKey: "older" } }}
+        />
+        <ToolRunDisplay
+          toolRun={{
+            name: "delete_agent",
+            input: { agentKey: "oldest" },
+            approval_id: "approval-1",
+          }}
+        />
+      </>,
+    );
+
+    expect(queryByText("Approve")).toBeNull();
+    expect(queryByText("Deny")).toBeNull();
+  });
+});
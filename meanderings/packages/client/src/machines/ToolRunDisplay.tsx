@@ -1,5 +1,7 @@
 import React from "react";
 
+import { useConversation } from "./ConversationHSMCoordinator";
+
 interface ToolRun {
   name: string;
   input?: any;
@@ -7,6 +9,8 @@ interface ToolRun {
   startTime?: number;
   endTime?: number;
   error?: string;
+  // Id of the approval request the run waits on, if the server is holding it back
+  approval_id?: string;
 }
 
 interface ToolRunDisplayProps {
@@ -14,7 +18,13 @@ interface ToolRunDisplayProps {
 }
 
 const ToolRunDisplay: React.FC<ToolRunDisplayProps> = ({ toolRun }) => {
-  const { name, input, output, error } = toolRun;
+  const { name, input, output, error, approval_id } = toolRun;
+  const { pendingToolApproval, respondToToolApproval } = useConversation();
+
+  // The server holds this call back until the user approves or denies it
+  const awaitingApproval =
+    approval_id !== undefined &&
+    pendingToolApproval?.approval_id === approval_id;
 
   // Calculate duration if startTime and endTime exist
   const duration =
@@ -23,7 +33,9 @@ const ToolRunDisplay: React.FC<ToolRunDisplayProps> = ({ toolRun }) => {
       : null;
 
   return (
-    <div className="text-sm border border-gray-300 dark:border-gray-600 rounded-md p-2 my-1">
+    <div
+      className={`text-sm border rounded-md p-2 my-1 ${awaitingApproval ? "border-amber-400 dark:border-amber-600 bg-amber-50 dark:bg-amber-900/20" : "border-gray-300 dark:border-gray-600"}`}
+    >
       <div className="font-semibold flex justify-between items-center">
         <span>{name}</span>
         {duration && <span className="text-xs text-gray-500">{duration}s</span>}
@@ -59,6 +71,26 @@ const ToolRunDisplay: React.FC<ToolRunDisplayProps> = ({ toolRun }) => {
           </pre>
         </div>
       )}
+
+      {awaitingApproval && (
+        <div className="mt-2 flex justify-between items-center">
+          <span className="text-xs">Allow the agent to run this tool?</span>
+          <div className="flex gap-2">
+            <button
+              onClick={() => respondToToolApproval(false)}
+              className="px-3 py-1 rounded-md border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700"
+            >
+              Deny
+            </button>
+            <button
+              onClick={() => respondToToolApproval(true)}
+              className="px-3 py-1 rounded-md bg-blue-600 text-white hover:bg-blue-700"
+            >
+              Approve
+            </button>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -17,6 +17,19 @@ export interface AIServicePayload {
   fileId?: string;
 }
 
+// Outbound control message that cancels the in-flight turn
+export interface CancelRequest {
+  type: "cancel";
+}
+
+// Outbound answer to a tool_approval_request
+export interface ToolApprovalReply {
+  type: "tool_approval";
+  approval_id: string;
+  approved: boolean;
+  reason?: string;
+}
+
 // Inbound messages from AI service
 type AIServiceMessage = ServerMessageFormat;
 
@@ -27,6 +40,8 @@ class WebSocketService {
   private wsState = initialWebSocketState;
   private reconnectTimeout: NodeJS.Timeout | null = null;
   private rawMessageListeners: RawMessageListener[] = [];
+  // Conversation assigned by the server handshake, reused when reconnecting
+  private conversation: { agentType: string; id: string } | null = null;
 
   private dispatchWSEvent(event: WebSocketEvent) {
     this.wsState = webSocketReducer(this.wsState, event);
@@ -58,7 +73,11 @@ class WebSocketService {
         override && override.length > 0
           ? override.replace(/\/$/, "")
           : window.location.origin.replace(/^http/, "ws");
-      const url = `${base}/ws/${agentType}`;
+      const resumeQuery =
+        this.conversation?.agentType === agentType
+          ? `?conversation_id=${encodeURIComponent(this.conversation.id)}`
+          : "";
+      const url = `${base}/ws/${agentType}${resumeQuery}`;
       this.aiSocket = new WebSocket(url);
 
       this.aiSocket.onopen = () => {
@@ -86,6 +105,12 @@ class WebSocketService {
       this.aiSocket.onmessage = (event) => {
         try {
           const data = JSON.parse(event.data);
+          if (
+            data?.messageType === "status" &&
+            typeof data.conversation_id === "string"
+          ) {
+            this.conversation = { agentType, id: data.conversation_id };
+          }
           this.rawMessageListeners.forEach((fn) => fn(data));
         } catch (e) {
           console.error("[WebSocketService] Failed to parse message:", e);
@@ -112,6 +137,10 @@ class WebSocketService {
     this.dispatchWSEvent({ type: WS_EVENTS.DISCONNECT });
   }
 
+  public getConversationId(): string | null {
+    return this.conversation?.id ?? null;
+  }
+
   public onRawMessage(listener: RawMessageListener): () => void {
     this.rawMessageListeners.push(listener);
     return () => {
@@ -134,7 +163,9 @@ class WebSocketService {
     }, 5000);
   }
 
-  public send(data: AIServicePayload): void {
+  public send(
+    data: AIServicePayload | CancelRequest | ToolApprovalReply,
+  ): void {
     if (!this.aiSocket || this.aiSocket.readyState !== WebSocket.OPEN) {
       console.error("[WebSocketService] Cannot send — socket not open");
       return;
@@ -146,6 +177,19 @@ class WebSocketService {
       console.error("[WebSocketService] Failed to send message:", err);
     }
   }
+
+  public sendCancel(): void {
+    this.send({ type: "cancel" });
+  }
+
+  public sendToolApproval(approvalId: string, approved: boolean): void {
+    this.send({
+      type: "tool_approval",
+      approval_id: approvalId,
+      approved,
+      reason: approved ? undefined : "The user denied this tool call",
+    });
+  }
 }
 
 const webSocketService = new WebSocketService();
@@ -103,6 +103,11 @@ export const useChat = (): ChatContextType => {
     aiState: getAIState(),
     conversationState: currentSubstate,
     aiError: null, // Not tracking errors in minimal implementation
+    lastTurnUsage: conversation.lastTurnUsage,
+    pendingToolApproval: conversation.pendingToolApproval,
+    agentConfigUpdate: conversation.agentConfigUpdate,
+    delegatedAgent: conversation.delegatedAgent,
+    slashCommands: conversation.slashCommands,
     isConnected: true, // We assume the service is connected
 
     // Voice-specific states
@@ -122,6 +127,8 @@ export const useChat = (): ChatContextType => {
 
     // Actions
     sendMessage: conversation.sendMessageToAI,
+    cancelResponse: conversation.cancelResponse,
+    respondToToolApproval: conversation.respondToToolApproval,
     toggleVoiceMode: () => conversation.switchMode(!mode.isVoice),
     clearTranscript: conversation.clearTranscript,
 
@@ -4,8 +4,10 @@ import { createServer } from './server.js';
 import { config } from './config/settings.js';
 import { ServiceFactory } from '../shared/services/service-factory.js';
 import { MCPClientManager } from '../shared/tools/mcp-manager.js';
-import { loadServerConfigs } from '../shared/config/server-config.js';
-import * as path from 'path';
+import { getServerConfigPath, loadServerConfigs } from '../shared/config/server-config.js';
+import { AgentConfigManager } from '../shared/config/agent-config.js';
+import { TriggerManager } from '../shared/services/trigger-manager.js';
+import { createMCPSamplingHandler } from '../shared/services/mcp-sampling.js';
 import winston from 'winston';
 
 // Initialize Sentry early in the application
@@ -94,25 +96,33 @@ async function main() {
 
     // Initialize MCP client manager
     logger.info('🔗 Initializing MCP client manager...');
-    const serverConfigPath = path.join(process.cwd(), 'server_config.json');
-    const serverConfigs = loadServerConfigs(logger, serverConfigPath);
+    const serverConfigs = loadServerConfigs(logger, getServerConfigPath());
     logger.info(`📋 Loaded ${Object.keys(serverConfigs).length} MCP server configurations`);
 
-    let mcpClientManager: MCPClientManager | undefined;
+    // Runs even with no servers, so they can be added through /api/mcp/servers
     if (Object.keys(serverConfigs).length > 0) {
       logger.info('🚀 Starting MCP servers (this may take a moment)...');
-      mcpClientManager = new MCPClientManager(logger, serverConfigs);
-      await mcpClientManager.startup();
-      logger.info('✅ MCP client manager initialized');
     } else {
       logger.warn('⚠️ No MCP server configurations found, proceeding without MCP tools');
     }
+    const mcpClientManager = new MCPClientManager(logger, serverConfigs);
+    await mcpClientManager.startup();
+    logger.info('✅ MCP client manager initialized');
 
     // Initialize the dynamic tool registry with MCP tools
     logger.info('🔧 Building dynamic tool registry...');
     await ServiceFactory.initializeTools(logger, mcpClientManager);
     logger.info('✅ Dynamic tool registry initialized');
 
+    // MCP servers' sampling requests are answered by the agents
+    mcpClientManager.setSamplingHandler(createMCPSamplingHandler(logger));
+
+    // Pick up edits to agents.json without a restart; live sessions switch between turns
+    AgentConfigManager.getInstance().watch();
+
+    // Start agents on their cron schedules; webhooks are served by /api/triggers
+    TriggerManager.getInstance().startScheduler();
+
     logger.info('📦 Starting HTTP server...');
     const { server, wss } = createServer(logger, mcpClientManager);
 
@@ -148,12 +158,12 @@ async function main() {
           logger.info('✅ WebSocket server closed');
         }
 
-        // Shutdown MCP client manager if it exists
-        if (mcpClientManager) {
-          logger.info('🔗 Shutting down MCP client manager...');
-          await mcpClientManager.shutdown();
-          logger.info('✅ MCP client manager shut down');
-        }
+        AgentConfigManager.getInstance().unwatch();
+        TriggerManager.getInstance().stopScheduler();
+
+        logger.info('🔗 Shutting down MCP client manager...');
+        await mcpClientManager.shutdown();
+        logger.info('✅ MCP client manager shut down');
 
         // Close HTTP server
         server.close(() => {
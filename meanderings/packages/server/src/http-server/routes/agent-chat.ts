@@ -0,0 +1,258 @@
+/**
+ * Agent Chat REST API
+ *
+ * Runs one turn with an agent over plain HTTP, for scripts and callers that can't hold a
+ * WebSocket open. The turn goes through the same provider, context fitting and conversation
+ * store as /ws/{agent}; the answer comes back as JSON or, when asked for, as a stream of
+ * Server-Sent Events. There is nobody to ask, so tools with a confirm policy are refused.
+ */
+
+import { Router, Request, Response } from 'express';
+import { randomUUID } from 'crypto';
+import { AppState } from '../server.js';
+import { AgentConfigManager } from '../../shared/config/agent-config.js';
+import { ServiceFactory } from '../../shared/services/service-factory.js';
+import {
+  ConversationStore,
+  isValidConversationId,
+} from '../../shared/services/conversation-store.js';
+import { AgentWebSocketHandler } from '../../websockets/agent.js';
+import { resolveGenerationSettings } from '../../shared/services/generation-settings.js';
+import { extractToolCalls, lastMessageText } from '../../shared/utils/message-content.js';
+import { MESSAGE_ROLES } from '../../shared/constants/message-constants.js';
+import type { Message, UserRequest } from '../../shared/types/index.js';
+
+export const agentChatRouter = Router();
+
+function wantsEventStream(req: Request): boolean {
+  return req.query.stream === 'true' || (req.get('Accept') ?? '').includes('text/event-stream');
+}
+
+function writeEvent(res: Response, event: string, data: unknown): void {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Name a WebSocket frame from the providers as an SSE event.
+ * Returns null for frames the stream reports another way.
+ */
+function eventForFrame(frame: Record<string, unknown>): string | null {
+  if (frame.done) {
+    // The stream ends with its own result event
+    return null;
+  }
+  if (typeof frame.sentence === 'string') {
+    // The final sentence repeats the assistant message that follows it
+    return frame.final_sentence ? null : 'text_delta';
+  }
+  if (frame.tool_status) {
+    return 'tool_status';
+  }
+  if (frame.nested_event) {
+    return 'nested_event';
+  }
+  if (frame.error) {
+    // A failed tool call; the model carries on with the error as its result
+    return 'tool_error';
+  }
+  if (frame.role === MESSAGE_ROLES.ASSISTANT) {
+    return 'message';
+  }
+  return 'tool_result';
+}
+
+/**
+ * POST /api/agents/:key/chat
+ * Send a UserRequest to the agent and get its answer, tool calls, usage and the
+ * conversation's complete messages. Without chat_messages the stored conversation named
+ * by conversation_id is continued; without conversation_id a new one is started.
+ * generation overrides the agent's generation settings, within its generation_limits.
+ * An agent with a response_schema also returns structured_result, the object read from
+ * its answer (null if it never gave one matching the schema).
+ * Query: stream=true (or Accept: text/event-stream) for conversation, text_delta, message,
+ * tool_status, tool_result, tool_error, nested_event and usage events, closed by a result
+ * event or, if the turn fails, an error event
+ */
+agentChatRouter.post('/:key/chat', async (req: Request, res: Response) => {
+  const state = req.app.locals.state as AppState;
+  const { key } = req.params as { key: string };
+  const userRequest = (req.body ?? {}) as Partial<UserRequest>;
+  const stream = wantsEventStream(req);
+
+  try {
+    const agentConfig = AgentConfigManager.getInstance().getAgentConfig(key);
+    if (!agentConfig) {
+      res.status(404).json({
+        success: false,
+        message: `Agent '${key}' not found`,
+      });
+      return;
+    }
+    if (typeof userRequest.user_input !== 'string' || !userRequest.user_input.trim()) {
+      res.status(400).json({
+        success: false,
+        message: 'user_input is required',
+      });
+      return;
+    }
+    if (userRequest.chat_messages !== undefined && !Array.isArray(userRequest.chat_messages)) {
+      res.status(400).json({
+        success: false,
+        message: 'chat_messages must be an array',
+      });
+      return;
+    }
+    if (userRequest.conversation_id && !isValidConversationId(userRequest.conversation_id)) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid conversation_id',
+      });
+      return;
+    }
+    const generation = resolveGenerationSettings(agentConfig, userRequest.generation);
+    if ('error' in generation) {
+      res.status(400).json({
+        success: false,
+        message: generation.error,
+      });
+      return;
+    }
+
+    const serviceProvider = ServiceFactory.createServiceProvider(agentConfig);
+    serviceProvider.agent_key = key;
+    const contextManager = AgentWebSocketHandler.createContextManager(agentConfig, serviceProvider);
+    serviceProvider.conversation_id = userRequest.conversation_id || randomUUID();
+    const conversationId = serviceProvider.conversation_id;
+
+    let chatMessages = userRequest.chat_messages || [];
+    if (chatMessages.length === 0) {
+      const stored = ConversationStore.getInstance().get(conversationId);
+      if (stored) {
+        chatMessages = stored.messages;
+      }
+    }
+    const filteredMessages = AgentWebSocketHandler.filterMessages(chatMessages);
+
+    // A caller that goes away cancels the turn, as closing the WebSocket does
+    const turn = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) {
+        turn.abort();
+      }
+    });
+    serviceProvider.setAbortSignal?.(turn.signal);
+    serviceProvider.resetTurnUsage?.();
+    serviceProvider.setGeneration?.(generation.settings);
+
+    // Streamed turns get the provider's WebSocket frames, renamed as events
+    let events: { send(data: string): void } | undefined;
+    if (stream) {
+      res.status(200);
+      res.set({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+      });
+      res.flushHeaders();
+      writeEvent(res, 'conversation', { agent_name: key, conversation_id: conversationId });
+
+      events = {
+        send(data: string) {
+          if (res.writableEnded) {
+            return;
+          }
+          const frame = JSON.parse(data) as Record<string, unknown>;
+          const event = eventForFrame(frame);
+          if (event) {
+            writeEvent(res, event, frame);
+          }
+        },
+      };
+    }
+
+    let completeMessages: Message[];
+    let structuredResult: unknown;
+    try {
+      const context = await contextManager.fitToWindow(
+        filteredMessages,
+        userRequest.user_input,
+        turn.signal
+      );
+      const result = (await serviceProvider.makeApiCall(
+        context.messages,
+        userRequest.user_input,
+        events,
+        stream && agentConfig.do_stream
+      )) as { completeMessages: Message[]; structured_result?: unknown };
+      structuredResult = result.structured_result ?? null;
+
+      // Store the full history, not the trimmed one the model saw
+      completeMessages = [
+        ...filteredMessages,
+        ...result.completeMessages.slice(context.messages.length),
+      ];
+      serviceProvider.logConversationMemory(completeMessages);
+    } catch (error: unknown) {
+      if (turn.signal.aborted) {
+        state.logger.info(
+          `HTTP chat turn cancelled for '${key}' (conversation '${conversationId}')`
+        );
+        return;
+      }
+
+      state.logger.error(`HTTP chat turn failed for '${key}':`, error);
+      const failure = {
+        success: false,
+        error: 'Agent turn failed',
+        message: AgentWebSocketHandler.translateError(error, serviceProvider.service_provider),
+        conversation_id: conversationId,
+        usage: serviceProvider.getTurnUsage?.() ?? null,
+      };
+      if (stream) {
+        writeEvent(res, 'error', failure);
+        res.end();
+      } else {
+        res.status(502).json(failure);
+      }
+      return;
+    } finally {
+      serviceProvider.setAbortSignal?.(undefined);
+    }
+
+    const usage = serviceProvider.getTurnUsage?.() ?? null;
+    const newMessages = completeMessages.slice(filteredMessages.length);
+    const body = {
+      success: true,
+      agent_name: key,
+      conversation_id: conversationId,
+      response: lastMessageText(completeMessages),
+      tool_calls: extractToolCalls(newMessages),
+      usage,
+      ...(agentConfig.response_schema ? { structured_result: structuredResult } : {}),
+      completeMessages,
+    };
+
+    if (stream) {
+      if (usage && usage.calls > 0) {
+        writeEvent(res, 'usage', usage);
+      }
+      writeEvent(res, 'result', body);
+      res.end();
+    } else {
+      res.json(body);
+    }
+  } catch (error: unknown) {
+    state.logger.error('Agent chat error:', error);
+
+    if (res.headersSent) {
+      writeEvent(res, 'error', { success: false, error: 'Failed to run agent turn' });
+      res.end();
+      return;
+    }
+    res.status(500).json({
+      success: false,
+      error: 'Failed to run agent turn',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
@@ -10,9 +10,29 @@ import { AppState } from '../server.js';
 import { AgentManager } from '../../shared/services/agent-manager.js';
 import { AgentConfigManager } from '../../shared/config/agent-config.js';
 import { AgentConfig } from '../../shared/types/index.js';
+import { AgentChange, HUMAN_CHANGE } from '../../shared/services/agent-history.js';
 
 export const agentsCrudRouter = Router();
 
+/**
+ * Who is making a change, for the agent's history. Agent tools send their name in
+ * X-Agent-Name; anything else is a person. The reason comes from X-Change-Reason
+ * (URI-encoded) or the request body.
+ */
+function changeFromRequest(req: Request, bodyReason?: unknown): AgentChange {
+  const agentName = req.get('X-Agent-Name');
+  const headerReason = req.get('X-Change-Reason');
+  let reason = typeof bodyReason === 'string' && bodyReason ? bodyReason : undefined;
+  if (!reason && headerReason) {
+    reason = decodeURIComponent(headerReason);
+  }
+
+  const author: AgentChange = agentName
+    ? { author: agentName, author_type: 'agent' }
+    : HUMAN_CHANGE;
+  return reason ? { ...author, reason } : author;
+}
+
 /**
  * POST /api/agents
  * Create a new agent with specified configuration
@@ -34,7 +54,11 @@ agentsCrudRouter.post('/', async (req: Request, res: Response) => {
       return;
     }
 
-    const result = await agentManager.createAgent(agentKey, config as AgentConfig);
+    const result = await agentManager.createAgent(
+      agentKey,
+      config as AgentConfig,
+      changeFromRequest(req, req.body.reason)
+    );
 
     if (!result.success) {
       res.status(400).json(result);
@@ -95,8 +119,8 @@ agentsCrudRouter.get('/', async (req: Request, res: Response) => {
 });
 
 /**
- * GET /api/agents/:key
- * Get details about a specific agent
+ * GET /api/agents/:key?resolved=true
+ * Get details about a specific agent; resolved=true applies everything it extends
  */
 agentsCrudRouter.get('/:key', async (req: Request, res: Response) => {
   try {
@@ -105,7 +129,7 @@ agentsCrudRouter.get('/:key', async (req: Request, res: Response) => {
     const agentManager = new AgentManager(logger);
 
     const { key } = req.params;
-    const result = await agentManager.getAgent(key);
+    const result = await agentManager.getAgent(key, req.query.resolved === 'true');
 
     if (!result.success) {
       res.status(404).json(result);
@@ -150,7 +174,11 @@ agentsCrudRouter.put('/:key', async (req: Request, res: Response) => {
       return;
     }
 
-    const result = await agentManager.updateAgent(key, updates as Partial<AgentConfig>);
+    const result = await agentManager.updateAgent(
+      key,
+      updates as Partial<AgentConfig>,
+      changeFromRequest(req)
+    );
 
     if (!result.success) {
       res.status(404).json(result);
@@ -190,7 +218,7 @@ agentsCrudRouter.delete('/:key', async (req: Request, res: Response) => {
 
     const { key } = req.params;
 
-    const result = await agentManager.deleteAgent(key);
+    const result = await agentManager.deleteAgent(key, changeFromRequest(req));
 
     if (!result.success) {
       res.status(404).json(result);
@@ -280,7 +308,11 @@ agentsCrudRouter.post('/:key/functions', async (req: Request, res: Response) =>
       return;
     }
 
-    const result = await agentManager.addFunctionToAgent(key, functionName);
+    const result = await agentManager.addFunctionToAgent(
+      key,
+      functionName,
+      changeFromRequest(req, req.body.reason)
+    );
 
     if (!result.success) {
       res.status(404).json(result);
@@ -320,7 +352,11 @@ agentsCrudRouter.delete('/:key/functions/:functionName', async (req: Request, re
 
     const { key, functionName } = req.params;
 
-    const result = await agentManager.removeFunctionFromAgent(key, functionName);
+    const result = await agentManager.removeFunctionFromAgent(
+      key,
+      functionName,
+      changeFromRequest(req)
+    );
 
     if (!result.success) {
       res.status(404).json(result);
@@ -347,3 +383,139 @@ agentsCrudRouter.delete('/:key/functions/:functionName', async (req: Request, re
     });
   }
 });
+
+/**
+ * GET /api/agents/:key/history
+ * List an agent's configuration revisions, newest first
+ */
+agentsCrudRouter.get('/:key/history', async (req: Request, res: Response) => {
+  try {
+    const state = req.app.locals.state as AppState;
+    const logger = state.logger;
+    const agentManager = new AgentManager(logger);
+
+    const { key } = req.params as { key: string };
+
+    const result = await agentManager.getAgentHistory(key);
+
+    if (!result.success) {
+      res.status(404).json(result);
+      return;
+    }
+
+    res.json({
+      success: true,
+      agentKey: key,
+      revisions: result.revisions,
+      count: result.revisions?.length || 0,
+    });
+
+  } catch (error: unknown) {
+    const state = req.app.locals.state as AppState;
+    const logger = state.logger;
+
+    logger.error('Get agent history error:', error);
+
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get agent history',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * GET /api/agents/:key/diff?from=&to=
+ * Compare two revisions of an agent (defaults: the latest revision against the one before it)
+ */
+agentsCrudRouter.get('/:key/diff', async (req: Request, res: Response) => {
+  try {
+    const state = req.app.locals.state as AppState;
+    const logger = state.logger;
+    const agentManager = new AgentManager(logger);
+
+    const { key } = req.params as { key: string };
+    const from = req.query.from === undefined ? undefined : Number(req.query.from);
+    const to = req.query.to === undefined ? undefined : Number(req.query.to);
+
+    if ((from !== undefined && !Number.isInteger(from)) || (to !== undefined && !Number.isInteger(to))) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid revision',
+        message: 'from and to must be revision numbers',
+      });
+      return;
+    }
+
+    const result = await agentManager.diffAgentRevisions(key, from, to);
+
+    if (!result.success) {
+      res.status(404).json(result);
+      return;
+    }
+
+    res.json({ agentKey: key, ...result });
+
+  } catch (error: unknown) {
+    const state = req.app.locals.state as AppState;
+    const logger = state.logger;
+
+    logger.error('Diff agent revisions error:', error);
+
+    res.status(500).json({
+      success: false,
+      error: 'Failed to diff agent revisions',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * POST /api/agents/:key/rollback
+ * Restore an agent to the configuration of an earlier revision
+ */
+agentsCrudRouter.post('/:key/rollback', async (req: Request, res: Response) => {
+  try {
+    const state = req.app.locals.state as AppState;
+    const logger = state.logger;
+    const agentManager = new AgentManager(logger);
+
+    const { key } = req.params as { key: string };
+    const { revision, reason } = req.body;
+
+    if (!Number.isInteger(revision)) {
+      res.status(400).json({
+        success: false,
+        error: 'Missing revision',
+        message: 'Request body must include the revision number to roll back to',
+      });
+      return;
+    }
+
+    const result = await agentManager.rollbackAgent(key, revision, changeFromRequest(req, reason));
+
+    if (!result.success) {
+      res.status(404).json(result);
+      return;
+    }
+
+    // Reload agent configurations so new connections pick up the restored configuration
+    const configManager = AgentConfigManager.getInstance();
+    configManager.reload();
+    logger.info('🔄 Agent configurations reloaded after rolling back agent');
+
+    res.json(result);
+
+  } catch (error: unknown) {
+    const state = req.app.locals.state as AppState;
+    const logger = state.logger;
+
+    logger.error('Rollback agent error:', error);
+
+    res.status(500).json({
+      success: false,
+      error: 'Failed to roll back agent',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
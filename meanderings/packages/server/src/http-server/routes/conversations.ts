@@ -0,0 +1,195 @@
+/**
+ * Conversations REST API
+ *
+ * Lists, fetches, searches and deletes persisted agent conversations, and
+ * prepares a stored conversation to be resumed on /ws/{agent}.
+ */
+
+import { Router, Request, Response } from 'express';
+import { AppState } from '../server.js';
+import { ConversationStore } from '../../shared/services/conversation-store.js';
+
+export const conversationsRouter = Router();
+
+function parseLimit(value: unknown, fallback: number): number {
+  const parsed = typeof value === 'string' ? parseInt(value, 10) : NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? Math.min(parsed, 500) : fallback;
+}
+
+/**
+ * GET /api/conversations
+ * List conversations, most recently updated first.
+ * Query: agent (optional), limit (default 50), offset (default 0)
+ */
+conversationsRouter.get('/', (req: Request, res: Response) => {
+  try {
+    const store = ConversationStore.getInstance();
+    const agentName = typeof req.query.agent === 'string' ? req.query.agent : undefined;
+    const limit = parseLimit(req.query.limit, 50);
+    const offset = typeof req.query.offset === 'string' ? parseInt(req.query.offset, 10) || 0 : 0;
+
+    const conversations = store.list({ agentName, limit, offset });
+
+    res.json({
+      success: true,
+      conversations,
+      count: conversations.length,
+      total: store.count(agentName),
+    });
+  } catch (error: unknown) {
+    const state = req.app.locals.state as AppState;
+    state.logger.error('List conversations error:', error);
+
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list conversations',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * GET /api/conversations/search?q=...
+ * Full-text search across message text.
+ * Query: q (required), agent (optional), limit (default 20)
+ */
+conversationsRouter.get('/search', (req: Request, res: Response) => {
+  try {
+    const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+    if (!query) {
+      res.status(400).json({
+        success: false,
+        error: 'Missing search query',
+        message: 'Provide a search query with ?q=',
+      });
+      return;
+    }
+
+    const agentName = typeof req.query.agent === 'string' ? req.query.agent : undefined;
+    const results = ConversationStore.getInstance().search(query, {
+      agentName,
+      limit: parseLimit(req.query.limit, 20),
+    });
+
+    res.json({
+      success: true,
+      query,
+      results,
+      count: results.length,
+    });
+  } catch (error: unknown) {
+    const state = req.app.locals.state as AppState;
+    state.logger.error('Search conversations error:', error);
+
+    res.status(500).json({
+      success: false,
+      error: 'Failed to search conversations',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * GET /api/conversations/:id
+ * Get a conversation including its full message history
+ */
+conversationsRouter.get('/:id', (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const conversation = ConversationStore.getInstance().get(req.params.id);
+
+    if (!conversation) {
+      res.status(404).json({
+        success: false,
+        message: `Conversation '${req.params.id}' not found`,
+      });
+      return;
+    }
+
+    res.json({ success: true, conversation });
+  } catch (error: unknown) {
+    const state = req.app.locals.state as AppState;
+    state.logger.error('Get conversation error:', error);
+
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get conversation',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * POST /api/conversations/:id/resume
+ * Returns the stored history and the WebSocket path that continues this conversation.
+ * Connecting to that path and sending a request with empty chat_messages makes the
+ * server continue from the stored history.
+ */
+conversationsRouter.post('/:id/resume', (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const conversation = ConversationStore.getInstance().get(req.params.id);
+
+    if (!conversation) {
+      res.status(404).json({
+        success: false,
+        message: `Conversation '${req.params.id}' not found`,
+      });
+      return;
+    }
+
+    // Conversations stored before agent keys were recorded only have the agent's name
+    const agentKey = conversation.agent_key ?? conversation.agent_name;
+
+    res.json({
+      success: true,
+      conversation_id: conversation.conversation_id,
+      agent_name: conversation.agent_name,
+      agent_key: agentKey,
+      websocket_path: `/ws/${encodeURIComponent(agentKey)}?conversation_id=${encodeURIComponent(conversation.conversation_id)}`,
+      chat_messages: conversation.messages,
+    });
+  } catch (error: unknown) {
+    const state = req.app.locals.state as AppState;
+    state.logger.error('Resume conversation error:', error);
+
+    res.status(500).json({
+      success: false,
+      error: 'Failed to resume conversation',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * DELETE /api/conversations/:id
+ * Delete a conversation from the store (sinks such as scratchpad files are left untouched)
+ */
+conversationsRouter.delete('/:id', (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const state = req.app.locals.state as AppState;
+    const deleted = ConversationStore.getInstance().delete(req.params.id);
+
+    if (!deleted) {
+      res.status(404).json({
+        success: false,
+        message: `Conversation '${req.params.id}' not found`,
+      });
+      return;
+    }
+
+    state.logger.info(`🗑️ Conversation '${req.params.id}' deleted`);
+
+    res.json({
+      success: true,
+      message: `Conversation '${req.params.id}' deleted`,
+    });
+  } catch (error: unknown) {
+    const state = req.app.locals.state as AppState;
+    state.logger.error('Delete conversation error:', error);
+
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete conversation',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
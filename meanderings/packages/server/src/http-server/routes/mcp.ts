@@ -1,6 +1,13 @@
 import { Router, Request, Response } from 'express';
 import { AppState } from '../server.js';
 import { ServiceFactory } from '../../shared/services/service-factory.js';
+import {
+  getServerConfigPath,
+  readRawServerConfig,
+  resolveServerConfig,
+  saveServerConfig,
+} from '../../shared/config/server-config.js';
+import { MCPClientManager } from '../../shared/tools/mcp-manager.js';
 
 export const mcpRouter = Router();
 
@@ -155,3 +162,182 @@ mcpRouter.post('/tools/reload', async (req: Request, res: Response) => {
     });
   }
 });
+
+function requireManager(req: Request, res: Response): MCPClientManager | null {
+  const mcpManager = (req.app.locals.state as AppState).mcpManager;
+  if (!mcpManager) {
+    res.status(503).json({
+      error: 'MCP Manager not available',
+      message: 'MCP services are not initialized',
+    });
+    return null;
+  }
+  return mcpManager;
+}
+
+function serverNotFound(res: Response, name: string) {
+  res.status(404).json({ error: 'Server not found', message: `MCP server '${name}' not found` });
+}
+
+function sendServerError(req: Request, res: Response, error: unknown, failure: string) {
+  const message = error instanceof Error ? error.message : String(error);
+  (req.app.locals.state as AppState).logger.error(`${failure}: ${message}`);
+  res.status(500).json({ error: failure, message });
+}
+
+// Config sent to the servers API is checked before it is saved; the raw entry, with its
+// <ENV_VAR> placeholders, is what goes to server_config.json
+function resolveRequestConfig(res: Response, rawConfig: unknown) {
+  if (!rawConfig || typeof rawConfig !== 'object' || Array.isArray(rawConfig)) {
+    res.status(400).json({ error: 'Invalid server config', message: 'config must be an object' });
+    return null;
+  }
+  try {
+    return { raw: rawConfig as Record<string, unknown>, resolved: resolveServerConfig(rawConfig) };
+  } catch (error: unknown) {
+    res.status(400).json({
+      error: 'Invalid server config',
+      message: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
+// List configured MCP servers with their connection status
+mcpRouter.get('/servers', (req: Request, res: Response) => {
+  const mcpManager = requireManager(req, res);
+  if (!mcpManager) return;
+
+  res.json({ servers: mcpManager.listServerStatuses() });
+});
+
+// Get one MCP server's connection status
+mcpRouter.get('/servers/:name', (req: Request<{ name: string }>, res: Response) => {
+  const mcpManager = requireManager(req, res);
+  if (!mcpManager) return;
+
+  const status = mcpManager.getServerStatus(req.params.name);
+  if (!status) {
+    serverNotFound(res, req.params.name);
+    return;
+  }
+  res.json(status);
+});
+
+// Add an MCP server, save it to server_config.json and connect to it
+mcpRouter.post('/servers', async (req: Request, res: Response) => {
+  const mcpManager = requireManager(req, res);
+  if (!mcpManager) return;
+
+  try {
+    const { name, config } = (req.body ?? {}) as { name?: unknown; config?: unknown };
+    if (typeof name !== 'string' || !name.trim()) {
+      res.status(400).json({ error: 'Invalid server name', message: 'name is required' });
+      return;
+    }
+    if (mcpManager.hasServer(name)) {
+      res.status(409).json({
+        error: 'Server already exists',
+        message: `MCP server '${name}' already exists`,
+      });
+      return;
+    }
+    const serverConfig = resolveRequestConfig(res, config);
+    if (!serverConfig) return;
+
+    saveServerConfig(getServerConfigPath(), name, serverConfig.raw);
+    const status = await mcpManager.addServer(name, serverConfig.resolved);
+    res.status(201).json(status);
+  } catch (error: unknown) {
+    sendServerError(req, res, error, 'Failed to add MCP server');
+  }
+});
+
+// Replace an MCP server's config and reconnect with it
+mcpRouter.put('/servers/:name', async (req: Request<{ name: string }>, res: Response) => {
+  const mcpManager = requireManager(req, res);
+  if (!mcpManager) return;
+
+  try {
+    const { name } = req.params;
+    if (!mcpManager.hasServer(name)) {
+      serverNotFound(res, name);
+      return;
+    }
+    const serverConfig = resolveRequestConfig(res, (req.body as { config?: unknown })?.config);
+    if (!serverConfig) return;
+
+    saveServerConfig(getServerConfigPath(), name, serverConfig.raw);
+    res.json(await mcpManager.updateServer(name, serverConfig.resolved));
+  } catch (error: unknown) {
+    sendServerError(req, res, error, 'Failed to update MCP server');
+  }
+});
+
+// Disconnect an MCP server and remove it from server_config.json
+mcpRouter.delete('/servers/:name', async (req: Request<{ name: string }>, res: Response) => {
+  const mcpManager = requireManager(req, res);
+  if (!mcpManager) return;
+
+  try {
+    const { name } = req.params;
+    if (!(await mcpManager.removeServer(name))) {
+      serverNotFound(res, name);
+      return;
+    }
+    saveServerConfig(getServerConfigPath(), name, null);
+    res.json({ success: true, message: `MCP server '${name}' removed` });
+  } catch (error: unknown) {
+    sendServerError(req, res, error, 'Failed to remove MCP server');
+  }
+});
+
+// Enable or disable an MCP server; the choice is saved to server_config.json
+for (const action of ['enable', 'disable'] as const) {
+  mcpRouter.post(
+    `/servers/:name/${action}`,
+    async (req: Request<{ name: string }>, res: Response) => {
+      const mcpManager = requireManager(req, res);
+      if (!mcpManager) return;
+
+      try {
+        const { name } = req.params;
+        const enabled = action === 'enable';
+        const status = await mcpManager.setServerEnabled(name, enabled);
+        if (!status) {
+          serverNotFound(res, name);
+          return;
+        }
+
+        const configPath = getServerConfigPath();
+        const rawConfig = readRawServerConfig(configPath, name);
+        if (rawConfig) {
+          saveServerConfig(configPath, name, { ...rawConfig, enabled });
+        }
+        res.json(status);
+      } catch (error: unknown) {
+        sendServerError(req, res, error, `Failed to ${action} MCP server`);
+      }
+    }
+  );
+}
+
+// Reconnect to an MCP server now, without waiting for its next retry
+mcpRouter.post(
+  '/servers/:name/reconnect',
+  async (req: Request<{ name: string }>, res: Response) => {
+    const mcpManager = requireManager(req, res);
+    if (!mcpManager) return;
+
+    try {
+      const status = await mcpManager.reconnectServer(req.params.name);
+      if (!status) {
+        serverNotFound(res, req.params.name);
+        return;
+      }
+      res.json(status);
+    } catch (error: unknown) {
+      sendServerError(req, res, error, 'Failed to reconnect MCP server');
+    }
+  }
+);
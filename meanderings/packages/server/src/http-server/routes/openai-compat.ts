@@ -0,0 +1,338 @@
+/**
+ * OpenAI-compatible API
+ *
+ * Serves the configured agents through the OpenAI chat completions API, so tooling built
+ * on the OpenAI SDKs can talk to them by setting its base URL to /v1. Each agent is a
+ * model named by its key. The agent answers with its own system prompt, tools and MCP
+ * servers, running any tool calls server-side; the caller only sees the text.
+ * Tools in the request are ignored, and tools with a confirm policy are refused.
+ * Sampling parameters and response_format override the agent's generation settings,
+ * within its generation_limits.
+ */
+
+import { Router, Request, Response } from 'express';
+import { randomUUID } from 'crypto';
+import { AppState } from '../server.js';
+import { AgentConfigManager } from '../../shared/config/agent-config.js';
+import { ServiceFactory } from '../../shared/services/service-factory.js';
+import { ProviderMessageAdapter } from '../../shared/adapters/provider-message-adapter.js';
+import { AgentWebSocketHandler } from '../../websockets/agent.js';
+import { resolveGenerationSettings } from '../../shared/services/generation-settings.js';
+import { lastMessageText } from '../../shared/utils/message-content.js';
+import { MESSAGE_ROLES } from '../../shared/constants/message-constants.js';
+import type { Message, TurnUsage } from '../../shared/types/index.js';
+
+export const openaiCompatRouter = Router();
+
+interface ChatCompletionMessage {
+  role: string;
+  content?: string | { type: string; text?: string }[] | null;
+  name?: string;
+  tool_calls?: Message['tool_calls'];
+  tool_call_id?: string;
+}
+
+interface ChatCompletionRequest {
+  model?: unknown;
+  messages?: unknown;
+  stream?: unknown;
+  stream_options?: { include_usage?: boolean };
+  temperature?: unknown;
+  top_p?: unknown;
+  max_tokens?: unknown;
+  max_completion_tokens?: unknown;
+  stop?: unknown;
+  seed?: unknown;
+  response_format?: unknown;
+}
+
+/**
+ * Errors in the shape the OpenAI SDKs parse
+ */
+function sendError(res: Response, status: number, message: string, type: string, param?: string) {
+  res.status(status).json({ error: { message, type, param: param ?? null, code: null } });
+}
+
+function toCompletionUsage(usage: TurnUsage | undefined) {
+  return {
+    prompt_tokens: usage?.input_tokens ?? 0,
+    completion_tokens: usage?.output_tokens ?? 0,
+    total_tokens: usage?.total_tokens ?? 0,
+    prompt_tokens_details: { cached_tokens: usage?.cache_read_input_tokens ?? 0 },
+  };
+}
+
+// Text parts are kept; images and other parts have no equivalent here
+function contentText(content: ChatCompletionMessage['content']): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+  return (content ?? [])
+    .filter((part) => part.type === 'text' && typeof part.text === 'string')
+    .map((part) => part.text)
+    .join('\n');
+}
+
+/**
+ * Split the request's messages into extra system instructions, the earlier history and
+ * the new user input. Null if the last message isn't from the user.
+ */
+function splitMessages(
+  messages: ChatCompletionMessage[]
+): { instructions: string; history: Message[]; userInput: string } | null {
+  const last = messages[messages.length - 1];
+  if (last?.role !== MESSAGE_ROLES.USER) {
+    return null;
+  }
+
+  const instructions: string[] = [];
+  const history: Message[] = [];
+  for (const message of messages.slice(0, -1)) {
+    if (message.role === MESSAGE_ROLES.SYSTEM || message.role === 'developer') {
+      instructions.push(contentText(message.content));
+      continue;
+    }
+    history.push({
+      role: message.role as Message['role'],
+      content: contentText(message.content),
+      ...(message.name && { name: message.name }),
+      ...(message.tool_calls && { tool_calls: message.tool_calls }),
+      ...(message.tool_call_id && { tool_call_id: message.tool_call_id }),
+    });
+  }
+
+  return {
+    instructions: instructions.filter(Boolean).join('\n\n'),
+    history,
+    userInput: contentText(last.content),
+  };
+}
+
+/**
+ * The request's parameters as overrides of the agent's generation settings, or undefined
+ * if it sets none. tool_choice is left out with the request's tools.
+ */
+function generationOverrides(body: ChatCompletionRequest): Record<string, unknown> | undefined {
+  const format = body.response_format as { type?: unknown; json_schema?: object } | null;
+  const overrides: Record<string, unknown> = {
+    temperature: body.temperature,
+    top_p: body.top_p,
+    max_tokens: body.max_completion_tokens ?? body.max_tokens,
+    stop: typeof body.stop === 'string' ? [body.stop] : body.stop,
+    seed: body.seed,
+    response_format:
+      format?.type === 'json_schema' ? { type: 'json_schema', ...format.json_schema } : format,
+  };
+
+  // Parameters sent as null keep the agent's settings, as if left out
+  const set = Object.entries(overrides).filter(
+    ([, value]) => value !== undefined && value !== null
+  );
+  return set.length > 0 ? Object.fromEntries(set) : undefined;
+}
+
+/**
+ * GET /v1/models
+ * List the agents that can be used as models
+ */
+openaiCompatRouter.get('/models', (req: Request, res: Response) => {
+  try {
+    const created = Math.floor(Date.now() / 1000);
+
+    res.json({
+      object: 'list',
+      data: AgentConfigManager.getInstance()
+        .getAgentNames()
+        .map((name) => ({ id: name, object: 'model', created, owned_by: 'ailumina' })),
+    });
+  } catch (error: unknown) {
+    const state = req.app.locals.state as AppState;
+    state.logger.error('List models error:', error);
+    sendError(res, 500, 'Failed to list models', 'server_error');
+  }
+});
+
+/**
+ * POST /v1/chat/completions
+ * Run one turn with the agent named by model. System and developer messages are added to
+ * the agent's system prompt; the rest of the history is converted to the agent provider's
+ * message shapes. With stream: true the answer is sent as chat.completion.chunk events,
+ * including any text the agent writes before its tool calls.
+ */
+openaiCompatRouter.post('/chat/completions', async (req: Request, res: Response) => {
+  const state = req.app.locals.state as AppState;
+  const body = (req.body ?? {}) as ChatCompletionRequest;
+
+  try {
+    if (typeof body.model !== 'string' || !body.model) {
+      sendError(res, 400, 'model is required', 'invalid_request_error', 'model');
+      return;
+    }
+    const agentConfig = AgentConfigManager.getInstance().getAgentConfig(body.model);
+    if (!agentConfig) {
+      sendError(
+        res,
+        404,
+        `The model '${body.model}' does not exist`,
+        'invalid_request_error',
+        'model'
+      );
+      return;
+    }
+    if (!Array.isArray(body.messages) || body.messages.length === 0) {
+      sendError(
+        res,
+        400,
+        'messages must be a non-empty array',
+        'invalid_request_error',
+        'messages'
+      );
+      return;
+    }
+    const request = splitMessages(body.messages as ChatCompletionMessage[]);
+    if (!request) {
+      sendError(
+        res,
+        400,
+        'The last message must have the user role',
+        'invalid_request_error',
+        'messages'
+      );
+      return;
+    }
+
+    const generation = resolveGenerationSettings(agentConfig, generationOverrides(body));
+    if ('error' in generation) {
+      sendError(res, 400, generation.error, 'invalid_request_error');
+      return;
+    }
+
+    const config = request.instructions
+      ? {
+          ...agentConfig,
+          system_prompt: `${agentConfig.system_prompt}\n\n${request.instructions}`,
+        }
+      : agentConfig;
+    const serviceProvider = ServiceFactory.createServiceProvider(config);
+    const contextManager = AgentWebSocketHandler.createContextManager(config, serviceProvider);
+    serviceProvider.conversation_id = randomUUID();
+    const history = new ProviderMessageAdapter({
+      serviceProvider: config.service_provider,
+    }).convertHistoryForProvider(request.history);
+
+    // A caller that goes away cancels the turn
+    const turn = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) {
+        turn.abort();
+      }
+    });
+    serviceProvider.setAbortSignal?.(turn.signal);
+    serviceProvider.resetTurnUsage?.();
+    serviceProvider.setGeneration?.(generation.settings);
+
+    const id = `chatcmpl-${randomUUID()}`;
+    const created = Math.floor(Date.now() / 1000);
+    const stream = body.stream === true;
+    const writeChunk = (chunk: Record<string, unknown>) =>
+      res.write(
+        `data: ${JSON.stringify({ id, object: 'chat.completion.chunk', created, model: body.model, ...chunk })}\n\n`
+      );
+
+    // Streamed completions forward the provider's partial sentences as content deltas
+    let streamedText = false;
+    let events: { send(data: string): void } | undefined;
+    if (stream) {
+      res.status(200);
+      res.set({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+      });
+      res.flushHeaders();
+      writeChunk({
+        choices: [{ index: 0, delta: { role: MESSAGE_ROLES.ASSISTANT }, finish_reason: null }],
+      });
+
+      events = {
+        send(data: string) {
+          const frame = JSON.parse(data) as { sentence?: unknown; final_sentence?: boolean };
+          if (res.writableEnded || typeof frame.sentence !== 'string' || frame.final_sentence) {
+            return;
+          }
+          streamedText = true;
+          writeChunk({
+            choices: [{ index: 0, delta: { content: frame.sentence }, finish_reason: null }],
+          });
+        },
+      };
+    }
+
+    let text: string;
+    try {
+      const context = await contextManager.fitToWindow(history, request.userInput, turn.signal);
+      const result = (await serviceProvider.makeApiCall(
+        context.messages,
+        request.userInput,
+        events,
+        stream && config.do_stream
+      )) as { completeMessages: Message[] };
+      text = lastMessageText(result.completeMessages);
+    } catch (error: unknown) {
+      if (turn.signal.aborted) {
+        state.logger.info(`Chat completion cancelled for '${body.model}'`);
+        return;
+      }
+
+      state.logger.error(`Chat completion failed for '${body.model}':`, error);
+      const message = AgentWebSocketHandler.translateError(error, serviceProvider.service_provider);
+      if (stream) {
+        res.write(`data: ${JSON.stringify({ error: { message, type: 'server_error' } })}\n\n`);
+        res.end();
+      } else {
+        sendError(res, 502, message, 'server_error');
+      }
+      return;
+    } finally {
+      serviceProvider.setAbortSignal?.(undefined);
+    }
+
+    const usage = toCompletionUsage(serviceProvider.getTurnUsage?.());
+    if (stream) {
+      // Agents that don't stream send their answer in one piece
+      if (!streamedText && text) {
+        writeChunk({ choices: [{ index: 0, delta: { content: text }, finish_reason: null }] });
+      }
+      writeChunk({ choices: [{ index: 0, delta: {}, finish_reason: 'stop' }] });
+      if (body.stream_options?.include_usage) {
+        writeChunk({ choices: [], usage });
+      }
+      res.write('data: [DONE]\n\n');
+      res.end();
+      return;
+    }
+
+    res.json({
+      id,
+      object: 'chat.completion',
+      created,
+      model: body.model,
+      choices: [
+        {
+          index: 0,
+          message: { role: MESSAGE_ROLES.ASSISTANT, content: text },
+          finish_reason: 'stop',
+        },
+      ],
+      usage,
+    });
+  } catch (error: unknown) {
+    state.logger.error('Chat completion error:', error);
+
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    sendError(res, 500, error instanceof Error ? error.message : String(error), 'server_error');
+  }
+});
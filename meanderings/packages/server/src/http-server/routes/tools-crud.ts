@@ -10,6 +10,7 @@ import multer from 'multer';
 import { AppState } from '../server.js';
 import { ToolManager } from '../../shared/services/tool-manager.js';
 import { ServiceFactory } from '../../shared/services/service-factory.js';
+import { getToolValidationStats } from '../../shared/tools/tool-argument-validation.js';
 
 export const toolsCrudRouter = Router();
 
@@ -139,6 +140,19 @@ toolsCrudRouter.get('/', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/tools/validation-stats
+ * Argument validation counts per tool since the server started
+ */
+toolsCrudRouter.get('/validation-stats', (_req: Request, res: Response) => {
+  const stats = getToolValidationStats();
+  res.json({
+    success: true,
+    stats,
+    count: Object.keys(stats).length,
+  });
+});
+
 /**
  * GET /api/tools/:name
  * Get details about a specific tool
@@ -0,0 +1,224 @@
+/**
+ * Triggers REST API
+ *
+ * Lists the triggers from triggers.json and their runs, receives webhooks that start a
+ * trigger's agent, and replays earlier runs.
+ */
+
+import { Router, Request, Response } from 'express';
+import { createHash, timingSafeEqual } from 'crypto';
+import { AppState } from '../server.js';
+import { TriggerManager, StartedTriggerRun } from '../../shared/services/trigger-manager.js';
+import { TriggerEventStore } from '../../shared/services/trigger-event-store.js';
+
+export const triggersRouter = Router();
+
+function parseLimit(value: unknown, fallback: number): number {
+  const parsed = typeof value === 'string' ? parseInt(value, 10) : NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? Math.min(parsed, 500) : fallback;
+}
+
+// Hash both sides so the comparison takes the same time whatever the secret's length
+function secretMatches(expected: string, provided: unknown): boolean {
+  if (typeof provided !== 'string') {
+    return false;
+  }
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(expected), digest(provided));
+}
+
+/**
+ * Answer with the run as soon as it starts, or with its outcome when ?wait=true
+ */
+async function respondWithRun(req: Request, res: Response, started: StartedTriggerRun) {
+  if (req.query.wait === 'true') {
+    const run = await started.finished;
+    res
+      .status(run.status === 'succeeded' ? 200 : 502)
+      .json({ success: run.status === 'succeeded', run });
+    return;
+  }
+
+  res.status(202).json({
+    success: true,
+    run_id: started.run.id,
+    status: started.run.status,
+    message: `Run of '${started.run.trigger_name}' started`,
+  });
+}
+
+/**
+ * GET /api/triggers
+ * List configured triggers with their next scheduled run
+ */
+triggersRouter.get('/', (req: Request, res: Response) => {
+  try {
+    const triggers = TriggerManager.getInstance().listTriggers();
+    res.json({ success: true, triggers, count: triggers.length });
+  } catch (error: unknown) {
+    const state = req.app.locals.state as AppState;
+    state.logger.error('List triggers error:', error);
+
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list triggers',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * POST /api/triggers/reload
+ * Re-read triggers.json and re-arm the schedules
+ */
+triggersRouter.post('/reload', (req: Request, res: Response) => {
+  const state = req.app.locals.state as AppState;
+  try {
+    const manager = TriggerManager.getInstance();
+    manager.reload();
+    state.logger.info('🔄 Triggers reloaded');
+
+    const triggers = manager.listTriggers();
+    res.json({ success: true, triggers, count: triggers.length });
+  } catch (error: unknown) {
+    state.logger.error('Reload triggers error:', error);
+
+    res.status(400).json({
+      success: false,
+      error: 'Failed to reload triggers',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * GET /api/triggers/runs
+ * List runs, most recent first (transcripts omitted).
+ * Query: trigger, status (running | succeeded | failed), limit (default 50), offset (default 0)
+ */
+triggersRouter.get('/runs', (req: Request, res: Response) => {
+  try {
+    const runs = TriggerEventStore.getInstance().listRuns({
+      triggerName: typeof req.query.trigger === 'string' ? req.query.trigger : undefined,
+      status: typeof req.query.status === 'string' ? req.query.status : undefined,
+      limit: parseLimit(req.query.limit, 50),
+      offset: typeof req.query.offset === 'string' ? parseInt(req.query.offset, 10) || 0 : 0,
+    });
+
+    res.json({ success: true, runs, count: runs.length });
+  } catch (error: unknown) {
+    const state = req.app.locals.state as AppState;
+    state.logger.error('List trigger runs error:', error);
+
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list trigger runs',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * GET /api/triggers/runs/:id
+ * Get a run including its prompt, transcript and tool calls
+ */
+triggersRouter.get('/runs/:id', (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const run = TriggerEventStore.getInstance().getRun(req.params.id);
+
+    if (!run) {
+      res.status(404).json({
+        success: false,
+        message: `Run '${req.params.id}' not found`,
+      });
+      return;
+    }
+
+    res.json({ success: true, run });
+  } catch (error: unknown) {
+    const state = req.app.locals.state as AppState;
+    state.logger.error('Get trigger run error:', error);
+
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get trigger run',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * POST /api/triggers/runs/:id/replay
+ * Run an earlier run's prompt again with the same agent.
+ * Query: wait=true to respond with the outcome instead of as soon as it starts
+ */
+triggersRouter.post('/runs/:id/replay', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const started = TriggerManager.getInstance().replay(req.params.id);
+
+    if (!started) {
+      res.status(404).json({
+        success: false,
+        message: `Run '${req.params.id}' not found`,
+      });
+      return;
+    }
+
+    await respondWithRun(req, res, started);
+  } catch (error: unknown) {
+    const state = req.app.locals.state as AppState;
+    state.logger.error('Replay trigger run error:', error);
+
+    res.status(500).json({
+      success: false,
+      error: 'Failed to replay trigger run',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * POST /api/triggers/:name
+ * Webhook: start the trigger's agent with the request body as {{payload}}.
+ * Triggers with a secret require it in the X-Trigger-Secret header.
+ * Query: wait=true to respond with the outcome instead of as soon as it starts
+ */
+triggersRouter.post('/:name', async (req: Request<{ name: string }>, res: Response) => {
+  try {
+    const manager = TriggerManager.getInstance();
+    const trigger = manager.getTrigger(req.params.name);
+
+    if (!trigger?.webhook) {
+      res.status(404).json({
+        success: false,
+        message: `No webhook trigger named '${req.params.name}'`,
+      });
+      return;
+    }
+    if (trigger.secret && !secretMatches(trigger.secret, req.headers['x-trigger-secret'])) {
+      res.status(401).json({
+        success: false,
+        message: 'Missing or wrong X-Trigger-Secret',
+      });
+      return;
+    }
+    if (!trigger.enabled) {
+      res.status(409).json({
+        success: false,
+        message: `Trigger '${req.params.name}' is disabled`,
+      });
+      return;
+    }
+
+    await respondWithRun(req, res, manager.start(req.params.name, 'webhook', req.body ?? null));
+  } catch (error: unknown) {
+    const state = req.app.locals.state as AppState;
+    state.logger.error('Webhook trigger error:', error);
+
+    res.status(500).json({
+      success: false,
+      error: 'Failed to start trigger',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
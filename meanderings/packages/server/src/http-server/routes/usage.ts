@@ -0,0 +1,125 @@
+/**
+ * Usage REST API
+ *
+ * Token usage and cost from the usage ledger, aggregated by day, agent or model,
+ * plus the individual API calls and the price table used to cost them.
+ */
+
+import { Router, Request, Response } from 'express';
+import { AppState } from '../server.js';
+import {
+  UsageLedger,
+  UsageFilter,
+  UsageGrouping,
+  USAGE_GROUPINGS,
+} from '../../shared/services/usage-ledger.js';
+
+export const usageRouter = Router();
+
+function parseFilter(query: Request['query']): UsageFilter {
+  return {
+    agentName: typeof query.agent === 'string' ? query.agent : undefined,
+    conversationId: typeof query.conversation_id === 'string' ? query.conversation_id : undefined,
+    from: typeof query.from === 'string' ? query.from : undefined,
+    to: typeof query.to === 'string' ? query.to : undefined,
+  };
+}
+
+function isUsageGrouping(value: unknown): value is UsageGrouping {
+  return typeof value === 'string' && (USAGE_GROUPINGS as readonly string[]).includes(value);
+}
+
+/**
+ * GET /api/usage
+ * Totals plus per-group breakdown.
+ * Query: group_by (day | agent | model, default day), agent, conversation_id,
+ *        from (inclusive), to (exclusive) as ISO dates or timestamps
+ */
+usageRouter.get('/', (req: Request, res: Response) => {
+  try {
+    const groupBy = req.query.group_by ?? 'day';
+    if (!isUsageGrouping(groupBy)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid group_by',
+        message: `group_by must be one of: ${USAGE_GROUPINGS.join(', ')}`,
+      });
+      return;
+    }
+
+    const ledger = UsageLedger.getInstance();
+    const filter = parseFilter(req.query);
+
+    res.json({
+      success: true,
+      group_by: groupBy,
+      currency: ledger.getPricing().getCurrency(),
+      totals: ledger.totals(filter),
+      groups: ledger.aggregate(groupBy, filter),
+    });
+  } catch (error: unknown) {
+    const state = req.app.locals.state as AppState;
+    state.logger.error('Get usage error:', error);
+
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get usage',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * GET /api/usage/calls
+ * Individual API calls, most recent first.
+ * Query: agent, conversation_id, from, to, limit (default 100), offset (default 0)
+ */
+usageRouter.get('/calls', (req: Request, res: Response) => {
+  try {
+    const limit = typeof req.query.limit === 'string' ? parseInt(req.query.limit, 10) : NaN;
+    const offset = typeof req.query.offset === 'string' ? parseInt(req.query.offset, 10) || 0 : 0;
+
+    const calls = UsageLedger.getInstance().list(
+      parseFilter(req.query),
+      Number.isFinite(limit) && limit > 0 ? Math.min(limit, 1000) : 100,
+      offset
+    );
+
+    res.json({
+      success: true,
+      calls,
+      count: calls.length,
+    });
+  } catch (error: unknown) {
+    const state = req.app.locals.state as AppState;
+    state.logger.error('List usage calls error:', error);
+
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list usage calls',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * GET /api/usage/pricing
+ * The price table (per million tokens) used to cost new calls
+ */
+usageRouter.get('/pricing', (req: Request, res: Response) => {
+  try {
+    res.json({
+      success: true,
+      pricing: UsageLedger.getInstance().getPricing().getTable(),
+    });
+  } catch (error: unknown) {
+    const state = req.app.locals.state as AppState;
+    state.logger.error('Get pricing error:', error);
+
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get pricing',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
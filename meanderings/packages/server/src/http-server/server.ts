@@ -17,6 +17,12 @@ import { mcpRouter } from './routes/mcp.js';
 import { consciousnessRouter } from './routes/consciousness.js';
 import { toolsCrudRouter } from './routes/tools-crud.js';
 import { agentsCrudRouter } from './routes/agents-crud.js';
+import { agentChatRouter } from './routes/agent-chat.js';
+import { conversationsRouter } from './routes/conversations.js';
+import { usageRouter } from './routes/usage.js';
+import { triggersRouter } from './routes/triggers.js';
+import { openaiCompatRouter } from './routes/openai-compat.js';
+import { authMiddleware } from './middleware/auth.js';
 import winston from 'winston';
 
 const __filename = fileURLToPath(import.meta.url);
@@ -114,6 +120,13 @@ export function createServer(
   app.use('/api/consciousness', consciousnessRouter);
   app.use('/api/tools', toolsCrudRouter);
   app.use('/api/agents', agentsCrudRouter);
+  app.use('/api/agents', agentChatRouter);
+  app.use('/api/conversations', conversationsRouter);
+  app.use('/api/usage', usageRouter);
+  app.use('/api/triggers', triggersRouter);
+
+  // OpenAI-compatible API; SDKs always send a key, checked when AUTH_ENABLED is set
+  app.use('/v1', authMiddleware, openaiCompatRouter);
 
   // Static file serving - updated for monorepo structure
   const baseDir = resolve(__dirname, '../../..');
@@ -146,6 +159,8 @@ export function createServer(
           websocket: {
             agents: '/ws/{agent_type} - Using agents.json configuration',
           },
+          conversations: '/api/conversations',
+          usage: '/api/usage',
         },
       });
     });
@@ -200,12 +215,16 @@ export function createServer(
 
   // WebSocket connection handler
   wss.on('connection', (ws, req) => {
-    const path = req.url;
-    logger.info(`WebSocket connection established: ${path}`);
+    logger.info(`WebSocket connection established: ${req.url}`);
+
+    // Separate the query string (e.g. ?conversation_id=...) from the path
+    const requestUrl = new URL(req.url || '/', 'http://localhost');
+    const path = requestUrl.pathname;
+    const conversationId = requestUrl.searchParams.get('conversation_id') || undefined;
 
     // Route WebSocket connections based on path
     // Handle both /ws/endpoint (direct) and /endpoint (via Tailscale proxy that strips /ws)
-    const pathWithWs = path?.startsWith('/ws/') ? path : `/ws${path}`;
+    const pathWithWs = path.startsWith('/ws/') ? path : `/ws${path}`;
 
     if (pathWithWs.startsWith('/ws/')) {
       const pathParts = pathWithWs.split('/');
@@ -217,7 +236,7 @@ export function createServer(
           TTSWebSocketHandler.handleConnection(logger, ws);
         } else {
           // Handle agent WebSocket (original functionality)
-          AgentWebSocketHandler.handleConnection(logger, ws, endpoint);
+          AgentWebSocketHandler.handleConnection(logger, ws, endpoint, conversationId);
         }
       } else {
         ws.close(1008, 'Invalid WebSocket path format. Expected: /ws/{endpoint} or /{endpoint}');
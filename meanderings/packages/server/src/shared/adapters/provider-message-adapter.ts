@@ -20,7 +20,13 @@ import {
   MessagePart,
 } from '../types/message-types.js';
 import type { ToolCall } from '../types/index.js';
-import { MessageBuilder } from '../composition/message-shape-builders.js';
+import {
+  MessageBuilder,
+  ContentBlocksMessageBuilder,
+  PartsMessageBuilder,
+  StringMessageBuilder,
+  ToolCallsMessageBuilder,
+} from '../composition/message-shape-builders.js';
 
 /**
  * Adapter configuration options
@@ -32,6 +38,17 @@ export interface ProviderMessageAdapterConfig {
   strictMode?: boolean; // Fail on validation warnings in strict mode
 }
 
+/**
+ * Provider-neutral view of one message, used when converting histories between providers
+ */
+interface NeutralMessageParts {
+  text: string;
+  toolCalls: { id?: string; name: string; args: Record<string, unknown> }[];
+  toolResults: { id?: string; name?: string; content: string }[];
+}
+
+type ToolMessageFormat = 'parts' | 'content_blocks' | 'tool_calls';
+
 /**
  * Adapter for bridging providers with shape-driven message composition
  */
@@ -352,6 +369,225 @@ export class ProviderMessageAdapter {
     return messages;
   }
 
+  /**
+   * Rewrite a conversation history into the shapes this adapter's provider expects.
+   * Used when a conversation moves to another provider (e.g. a fallback), so tool calls
+   * and tool results recorded in one provider's shape stay paired in the other's:
+   * calls keep their ids (Google calls, which have none, get one), results are matched
+   * to their call by id or by name, and duplicate calls or orphaned results are dropped.
+   */
+  convertHistoryForProvider(messages: Message[]): Message[] {
+    const format = this.getToolMessageFormat();
+    const converted: Message[] = [];
+    const callNamesById = new Map<string, string>();
+    const unansweredIdsByName = new Map<string, string[]>();
+
+    for (const message of messages) {
+      const { text, toolCalls, toolResults } = this.extractNeutralParts(message);
+      const role = message.role === MESSAGE_ROLES.MODEL ? MESSAGE_ROLES.ASSISTANT : message.role;
+
+      // Assign ids and drop calls already seen (some histories repeat a call in two shapes)
+      const calls = toolCalls
+        .map((call) => ({ ...call, id: call.id || ToolCallsMessageBuilder.generateToolCallId() }))
+        .filter((call) => !callNamesById.has(call.id));
+      for (const call of calls) {
+        callNamesById.set(call.id, call.name);
+        unansweredIdsByName.set(call.name, [
+          ...(unansweredIdsByName.get(call.name) || []),
+          call.id,
+        ]);
+      }
+
+      const results: { id: string; name: string; content: string }[] = [];
+      for (const result of toolResults) {
+        const id =
+          result.id ?? (result.name ? unansweredIdsByName.get(result.name)?.[0] : undefined);
+        const name = id ? callNamesById.get(id) : undefined;
+        if (!id || !name) {
+          console.warn(`Dropping tool result without a matching tool call (${result.name || id})`);
+          continue;
+        }
+        unansweredIdsByName.set(
+          name,
+          (unansweredIdsByName.get(name) || []).filter((pendingId) => pendingId !== id)
+        );
+        results.push({ id, name, content: result.content });
+      }
+
+      if (calls.length > 0) {
+        converted.push(this.buildToolCallMessage(format, calls, text));
+      } else if (toolCalls.length > 0) {
+        // Repeat of calls already converted, along with their text
+        continue;
+      } else if (results.length > 0) {
+        converted.push(...this.buildToolResultMessages(format, results));
+      } else if (text || role === MESSAGE_ROLES.SYSTEM) {
+        converted.push(StringMessageBuilder.text(role, text));
+      } else if (toolResults.length === 0) {
+        console.warn(`Dropping empty ${role} message during history conversion`);
+      }
+    }
+
+    return converted;
+  }
+
+  private getToolMessageFormat(): ToolMessageFormat {
+    switch (this.serviceProvider) {
+      case SERVICE_PROVIDERS.GOOGLE:
+        return 'parts';
+      case SERVICE_PROVIDERS.ANTHROPIC:
+        return 'content_blocks';
+      default:
+        return 'tool_calls';
+    }
+  }
+
+  /**
+   * Read text, tool calls and tool results from a message of any shape
+   */
+  private extractNeutralParts(message: Message): NeutralMessageParts {
+    const parts: NeutralMessageParts = { text: '', toolCalls: [], toolResults: [] };
+    const texts: string[] = [];
+    const stringify = (value: unknown): string =>
+      typeof value === 'string' ? value : JSON.stringify(value ?? '');
+
+    if (typeof message.content === 'string') {
+      if (message.role === MESSAGE_ROLES.TOOL || message.tool_call_id) {
+        parts.toolResults.push({
+          id: message.tool_call_id,
+          name: message.name,
+          content: message.content,
+        });
+      } else {
+        texts.push(message.content);
+      }
+    } else if (Array.isArray(message.content)) {
+      for (const block of message.content) {
+        if (block.type === 'text' && block.text) {
+          texts.push(block.text);
+        } else if (block.type === 'tool_use' && typeof block.name === 'string') {
+          parts.toolCalls.push({
+            id: typeof block.id === 'string' ? block.id : undefined,
+            name: block.name,
+            args: block.input || {},
+          });
+        } else if (block.type === 'tool_result') {
+          parts.toolResults.push({ id: block.tool_use_id, content: stringify(block.content) });
+        }
+      }
+    }
+
+    for (const part of message.parts || []) {
+      const functionCall = part.functionCall as
+        { name?: string; args?: Record<string, unknown> } | undefined;
+      const functionResponse = part.functionResponse as
+        { name?: string; response?: unknown } | undefined;
+
+      if (typeof part.text === 'string' && part.text) {
+        texts.push(part.text);
+      } else if (functionCall?.name) {
+        parts.toolCalls.push({ name: functionCall.name, args: functionCall.args || {} });
+      } else if (functionResponse?.name) {
+        // Google providers wrap the result as { content } or { result }
+        const response = functionResponse.response as Record<string, unknown> | undefined;
+        const wrapped = response?.content ?? response?.result;
+        parts.toolResults.push({
+          name: functionResponse.name,
+          content: stringify(wrapped ?? response),
+        });
+      }
+    }
+
+    for (const toolCall of message.tool_calls || []) {
+      const name = toolCall.function?.name || toolCall.name;
+      if (!name) {
+        continue;
+      }
+      let args = toolCall.input || toolCall.args || {};
+      if (toolCall.function?.arguments) {
+        try {
+          args = JSON.parse(toolCall.function.arguments) as Record<string, unknown>;
+        } catch {
+          args = { input: toolCall.function.arguments };
+        }
+      }
+      parts.toolCalls.push({ id: toolCall.id, name, args });
+    }
+
+    parts.text = texts.join('\n');
+    return parts;
+  }
+
+  private buildToolCallMessage(
+    format: ToolMessageFormat,
+    calls: { id: string; name: string; args: Record<string, unknown> }[],
+    text: string
+  ): Message {
+    switch (format) {
+      case 'parts':
+        return PartsMessageBuilder.multiPart(MESSAGE_ROLES.ASSISTANT, [
+          ...(text ? [{ text }] : []),
+          ...calls.map((call) => ({ functionCall: { name: call.name, args: call.args } })),
+        ]);
+
+      case 'content_blocks':
+        return ContentBlocksMessageBuilder.multiBlock(MESSAGE_ROLES.ASSISTANT, [
+          ...(text ? [{ type: 'text', text }] : []),
+          ...calls.map((call) => ({
+            type: 'tool_use',
+            id: call.id,
+            name: call.name,
+            input: call.args,
+          })),
+        ]);
+
+      case 'tool_calls':
+        return ToolCallsMessageBuilder.toolCall(
+          calls.map((call) => ({
+            id: call.id,
+            type: 'function' as const,
+            function: { name: call.name, arguments: JSON.stringify(call.args) },
+          })),
+          text || undefined
+        );
+    }
+  }
+
+  private buildToolResultMessages(
+    format: ToolMessageFormat,
+    results: { id: string; name: string; content: string }[]
+  ): Message[] {
+    switch (format) {
+      case 'parts':
+        // One user message carrying every function response, as the Google provider sends them
+        return [
+          PartsMessageBuilder.multiPart(
+            MESSAGE_ROLES.USER,
+            results.map((result) => ({
+              functionResponse: { name: result.name, response: { content: result.content } },
+            }))
+          ),
+        ];
+
+      case 'content_blocks':
+        return [
+          ContentBlocksMessageBuilder.multiBlock(
+            MESSAGE_ROLES.USER,
+            results.flatMap(
+              (result) =>
+                ContentBlocksMessageBuilder.toolResult(result.id, result.content)
+                  .content as ContentBlock[]
+            )
+          ),
+        ];
+
+      case 'tool_calls':
+        return results.map((result) =>
+          ToolCallsMessageBuilder.toolResponse(result.id, result.name, result.content)
+        );
+    }
+  }
+
   /**
    * Get provider metadata
    */
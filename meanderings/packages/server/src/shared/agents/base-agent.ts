@@ -6,6 +6,7 @@ import { GoogleProvider } from '../services/google-provider.js';
 import { GroqProvider } from '../services/groq-provider.js';
 import { OllamaProvider } from '../services/ollama-provider.js';
 import { LMStudioProvider } from '../services/lmstudio-provider.js';
+import { ScriptedProvider } from '../services/scripted-provider.js';
 
 export class BaseAgent {
   private config: AgentConfig;
@@ -36,6 +37,9 @@ export class BaseAgent {
       case SERVICE_PROVIDERS.LMSTUDIO:
         this.provider = new LMStudioProvider(this.config);
         break;
+      case SERVICE_PROVIDERS.SCRIPTED:
+        this.provider = new ScriptedProvider(this.config);
+        break;
       default:
         throw new Error(`Unsupported provider: ${String(this.config.service_provider)}`);
     }
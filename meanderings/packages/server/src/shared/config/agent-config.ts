@@ -1,18 +1,37 @@
-import { readFileSync } from 'fs';
-import { resolve, dirname } from 'path';
+import { readFileSync, watch, FSWatcher } from 'fs';
+import { resolve, dirname, basename } from 'path';
 import { fileURLToPath } from 'url';
 import { AgentConfig, AgentConfigCollection } from '../types/index.js';
 import { validateAgentsFile, REQUIRED_AGENTS } from '../schemas/agents-schema.js';
+import { resolveAgentConfigs } from './agent-inheritance.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
+// Editors often write a file in several steps, so wait for them to settle before reloading
+const WATCH_DEBOUNCE_MS = 250;
+
+/**
+ * One agent whose configuration changed on reload; config is null when it was removed
+ */
+export interface AgentConfigChange {
+  agent_name: string;
+  config: AgentConfig | null;
+  changed_fields: string[];
+}
+
+export type AgentConfigChangeListener = (change: AgentConfigChange) => void;
+
 export class AgentConfigManager {
   private static instance: AgentConfigManager;
   private agentConfigs: AgentConfigCollection = {};
   private configPath: string;
+  private loadedContent = '';
+  private listeners = new Set<AgentConfigChangeListener>();
+  private watcher?: FSWatcher;
+  private watchTimer?: ReturnType<typeof setTimeout>;
 
-  private constructor(configPath?: string) {
+  constructor(configPath?: string) {
     this.configPath = configPath || this.findAgentsJsonPath();
     this.loadConfigurations();
   }
@@ -44,28 +63,40 @@ export class AgentConfigManager {
     throw new Error('agents.json file not found. Checked paths: ' + possiblePaths.join(', '));
   }
 
+  /**
+   * Resolve and validate the contents of agents.json, filling in agent_name from each key.
+   * Templates are left out. Throws the schema's ZodError when invalid.
+   */
+  static validateAgents(rawConfigs: unknown): AgentConfigCollection {
+    // Transform configs to match AgentConfig interface (key -> agent_name)
+    const transformedConfigs: Record<string, object> = {};
+    if (rawConfigs && typeof rawConfigs === 'object' && !Array.isArray(rawConfigs)) {
+      for (const [agentName, config] of Object.entries(rawConfigs)) {
+        if (config && typeof config === 'object') {
+          const configObj = config as Record<string, unknown>;
+          transformedConfigs[agentName] = {
+            ...configObj,
+            agent_name: configObj.agent_name || agentName, // Use key if present, fallback to agentName
+          };
+        }
+      }
+    }
+
+    return validateAgentsFile(resolveAgentConfigs(transformedConfigs));
+  }
+
+  /**
+   * Read and validate agents.json. Throws without touching the loaded configurations,
+   * so an invalid edit leaves the last good configuration in place.
+   */
   private loadConfigurations(): void {
     try {
       const configData = readFileSync(this.configPath, 'utf8');
       const rawConfigs = JSON.parse(configData) as unknown;
 
-      // Transform configs to match AgentConfig interface (key -> agent_name)
-      const transformedConfigs: Record<string, unknown> = {};
-      if (rawConfigs && typeof rawConfigs === 'object' && !Array.isArray(rawConfigs)) {
-        for (const [agentName, config] of Object.entries(rawConfigs)) {
-          if (config && typeof config === 'object') {
-            const configObj = config as Record<string, unknown>;
-            transformedConfigs[agentName] = {
-              ...configObj,
-              agent_name: configObj.agent_name || agentName, // Use key if present, fallback to agentName
-            };
-          }
-        }
-      }
-
       // Validate entire agents file with Zod schema
       try {
-        const validatedConfigs = validateAgentsFile(transformedConfigs);
+        const validatedConfigs = AgentConfigManager.validateAgents(rawConfigs);
         console.info(`✅ Agents configuration validated successfully`);
         console.info(
           `✅ All required agents are present: ${REQUIRED_AGENTS.filter((name) => name in validatedConfigs).join(', ')}`
@@ -73,6 +104,7 @@ export class AgentConfigManager {
 
         // Store validated configurations
         this.agentConfigs = validatedConfigs;
+        this.loadedContent = configData;
       } catch (validationError: unknown) {
         const errorMessage =
           validationError instanceof Error ? validationError.message : 'Unknown validation error';
@@ -124,9 +156,103 @@ export class AgentConfigManager {
     return filteredAgents;
   }
 
-  reload(): void {
-    this.agentConfigs = {};
+  /**
+   * Reload agents.json and notify listeners about each agent that changed.
+   * Throws if the file is invalid; the previous configurations stay loaded.
+   */
+  reload(): AgentConfigChange[] {
+    const previous = this.agentConfigs;
     this.loadConfigurations();
+
+    const changes: AgentConfigChange[] = [];
+    for (const agentName of new Set([
+      ...Object.keys(previous),
+      ...Object.keys(this.agentConfigs),
+    ])) {
+      const before: Record<string, unknown> = { ...previous[agentName] };
+      const after: Record<string, unknown> = { ...this.agentConfigs[agentName] };
+      const changedFields = [...new Set([...Object.keys(before), ...Object.keys(after)])].filter(
+        (field) => JSON.stringify(before[field]) !== JSON.stringify(after[field])
+      );
+
+      if (changedFields.length > 0) {
+        changes.push({
+          agent_name: agentName,
+          config: this.agentConfigs[agentName] ?? null,
+          changed_fields: changedFields,
+        });
+      }
+    }
+
+    for (const change of changes) {
+      for (const listener of this.listeners) {
+        try {
+          listener(change);
+        } catch (error) {
+          console.error(`Agent config listener failed for ${change.agent_name}:`, error);
+        }
+      }
+    }
+    return changes;
+  }
+
+  /**
+   * Subscribe to configuration changes; returns the unsubscribe function
+   */
+  onChange(listener: AgentConfigChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Reload whenever agents.json changes on disk, whether edited by hand or through the API.
+   * The directory is watched rather than the file, because editors often replace the file.
+   */
+  watch(): void {
+    if (this.watcher) {
+      return;
+    }
+
+    const fileName = basename(this.configPath);
+    this.watcher = watch(dirname(this.configPath), (_event, changedFile) => {
+      if (changedFile !== fileName) {
+        return;
+      }
+      clearTimeout(this.watchTimer);
+      this.watchTimer = setTimeout(() => this.reloadFromWatcher(), WATCH_DEBOUNCE_MS);
+    });
+    console.info(`👀 Watching ${this.configPath} for changes`);
+  }
+
+  unwatch(): void {
+    clearTimeout(this.watchTimer);
+    this.watcher?.close();
+    this.watcher = undefined;
+  }
+
+  private reloadFromWatcher(): void {
+    let content: string;
+    try {
+      content = readFileSync(this.configPath, 'utf8');
+    } catch {
+      return; // Mid-replace; the next event will pick up the new file
+    }
+    // The API reloads right after writing, so its own writes are already loaded
+    if (content === this.loadedContent) {
+      return;
+    }
+
+    try {
+      const changes = this.reload();
+      console.info(
+        `🔄 Reloaded ${this.configPath}: ${changes.length} agent(s) changed${changes.length > 0 ? ` (${changes.map((c) => c.agent_name).join(', ')})` : ''}`
+      );
+    } catch (error: unknown) {
+      console.error(
+        `❌ Ignoring invalid edit to ${this.configPath}; keeping the last good configuration:`,
+        error instanceof Error ? error.message : error
+      );
+    }
   }
 
   getConfigFilePath(): string {
@@ -0,0 +1,125 @@
+/**
+ * Agent inheritance
+ *
+ * An agent in agents.json can name another agent in `extends` and inherit its
+ * configuration, so variants only list what differs. Agents marked `template: true`
+ * exist only to be extended: they may leave required fields out and can't be
+ * connected to.
+ *
+ * Merge rules, applied from the root of the chain down to the agent:
+ * - available_functions and mcp_servers: the agent's entries are added to the inherited
+ *   ones; an entry written as "!name" removes an inherited entry instead
+ * - custom_settings, context_management, tool_policies, generation and
+ *   generation_limits: merged key by key, the agent's keys winning
+ * - every other field, including other arrays such as fallbacks: the agent's value
+ *   replaces the inherited one
+ * - agent_name, extends and template are never inherited
+ */
+
+type RawAgentConfig = Record<string, unknown>;
+
+const MERGED_LIST_FIELDS = ['available_functions', 'mcp_servers'];
+const MERGED_OBJECT_FIELDS = [
+  'custom_settings',
+  'context_management',
+  'tool_policies',
+  'generation',
+  'generation_limits',
+];
+const NOT_INHERITED = ['agent_name', 'extends', 'template'];
+const REMOVE_PREFIX = '!';
+
+export function isTemplateAgent(config: unknown): boolean {
+  return !!config && typeof config === 'object' && (config as RawAgentConfig).template === true;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function mergeList(inherited: unknown, own: unknown): unknown[] {
+  const result = Array.isArray(inherited) ? [...(inherited as unknown[])] : [];
+  for (const entry of Array.isArray(own) ? (own as unknown[]) : []) {
+    if (typeof entry === 'string' && entry.startsWith(REMOVE_PREFIX)) {
+      const removed = entry.slice(REMOVE_PREFIX.length);
+      const index = result.indexOf(removed);
+      if (index !== -1) {
+        result.splice(index, 1);
+      }
+    } else if (!result.includes(entry)) {
+      result.push(entry);
+    }
+  }
+  return result;
+}
+
+/**
+ * The agents an agent inherits from, root first, ending with the agent itself
+ */
+function inheritanceChain(agents: Record<string, object>, agentKey: string): string[] {
+  const chain = [agentKey];
+  let current = agents[agentKey] as RawAgentConfig | undefined;
+
+  while (current?.extends !== undefined) {
+    const parent = current.extends;
+    if (typeof parent !== 'string' || !agents[parent]) {
+      throw new Error(`Agent '${chain[0]}' extends unknown agent ${JSON.stringify(parent)}`);
+    }
+    if (chain.includes(parent)) {
+      throw new Error(`Circular extends: ${[...chain].reverse().join(' -> ')} -> ${parent}`);
+    }
+    chain.unshift(parent);
+    current = agents[parent] as RawAgentConfig;
+  }
+  return chain;
+}
+
+/**
+ * The configuration an agent runs with, after applying everything it extends
+ */
+export function resolveAgentConfig(
+  agents: Record<string, object>,
+  agentKey: string
+): RawAgentConfig {
+  if (!agents[agentKey]) {
+    throw new Error(`Agent '${agentKey}' not found`);
+  }
+
+  const resolved: RawAgentConfig = {};
+  for (const key of inheritanceChain(agents, agentKey)) {
+    const isAgentItself = key === agentKey;
+
+    for (const [field, value] of Object.entries(agents[key])) {
+      if (NOT_INHERITED.includes(field) && !isAgentItself) {
+        continue;
+      }
+      if (MERGED_LIST_FIELDS.includes(field)) {
+        resolved[field] = mergeList(resolved[field], value);
+      } else if (MERGED_OBJECT_FIELDS.includes(field) && isPlainObject(value)) {
+        resolved[field] = {
+          ...(isPlainObject(resolved[field]) ? resolved[field] : {}),
+          ...value,
+        };
+      } else {
+        resolved[field] = value;
+      }
+    }
+  }
+
+  delete resolved.extends;
+  delete resolved.template;
+  return resolved;
+}
+
+/**
+ * Resolve every agent that can be connected to; templates are left out
+ */
+export function resolveAgentConfigs(
+  agents: Record<string, object>
+): Record<string, RawAgentConfig> {
+  return Object.fromEntries(
+    Object.keys(agents)
+      .filter((agentKey) => !isTemplateAgent(agents[agentKey]))
+      .map((agentKey) => [agentKey, resolveAgentConfig(agents, agentKey)])
+  );
+}
@@ -0,0 +1,109 @@
+import { existsSync, readFileSync } from 'fs';
+import { resolve } from 'path';
+import {
+  validateModelPricingFile,
+  type ModelPrice,
+  type ModelPricingFile,
+} from '../schemas/model-pricing-schema.js';
+
+/**
+ * Token counts that a price is applied to
+ */
+export interface BillableTokens {
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_input_tokens: number;
+  cache_read_input_tokens: number;
+}
+
+const TOKENS_PER_PRICE_UNIT = 1_000_000;
+
+/**
+ * Price table used to turn token usage into cost.
+ * Loaded from model_pricing.json in the working directory, or MODEL_PRICING_PATH.
+ * A missing file means an empty table: usage is still recorded, just without cost.
+ */
+export class ModelPricing {
+  private static instance: ModelPricing;
+  private table: ModelPricingFile;
+
+  constructor(table?: ModelPricingFile) {
+    this.table = table ?? ModelPricing.loadTable();
+  }
+
+  static getInstance(): ModelPricing {
+    if (!ModelPricing.instance) {
+      ModelPricing.instance = new ModelPricing();
+    }
+    return ModelPricing.instance;
+  }
+
+  private static loadTable(): ModelPricingFile {
+    const pricingPath =
+      process.env.MODEL_PRICING_PATH || resolve(process.cwd(), 'model_pricing.json');
+
+    if (!existsSync(pricingPath)) {
+      console.warn(`[ModelPricing] No price table at ${pricingPath}; costs will not be calculated`);
+      return validateModelPricingFile({});
+    }
+
+    const table = validateModelPricingFile(JSON.parse(readFileSync(pricingPath, 'utf8')));
+    console.info(
+      `✅ Loaded prices for ${Object.keys(table.models).length} models from ${pricingPath}`
+    );
+    return table;
+  }
+
+  /**
+   * Re-read the price table from disk
+   */
+  reload(): void {
+    this.table = ModelPricing.loadTable();
+  }
+
+  getCurrency(): string {
+    return this.table.currency;
+  }
+
+  getTable(): ModelPricingFile {
+    return this.table;
+  }
+
+  /**
+   * Find the price for a model: exact name, then longest matching prefix, then provider default
+   */
+  getPrice(serviceProvider: string, modelName: string): ModelPrice | null {
+    const exact = this.table.models[modelName];
+    if (exact) {
+      return exact;
+    }
+
+    const prefix = Object.keys(this.table.models)
+      .filter((key) => modelName.startsWith(key))
+      .sort((a, b) => b.length - a.length)[0];
+    if (prefix) {
+      return this.table.models[prefix];
+    }
+
+    return this.table.providers[serviceProvider] ?? null;
+  }
+
+  /**
+   * Cost of a call, or null when the model has no price.
+   * Cache tokens fall back to the input price when the table has no cache price.
+   */
+  calculateCost(serviceProvider: string, modelName: string, tokens: BillableTokens): number | null {
+    const price = this.getPrice(serviceProvider, modelName);
+    if (!price) {
+      return null;
+    }
+
+    const cost =
+      tokens.input_tokens * price.input +
+      tokens.output_tokens * price.output +
+      tokens.cache_creation_input_tokens * (price.cache_write ?? price.input) +
+      tokens.cache_read_input_tokens * (price.cache_read ?? price.input);
+
+    return cost / TOKENS_PER_PRICE_UNIT;
+  }
+}
@@ -1,11 +1,24 @@
 import fs from 'fs';
+import path from 'path';
 import { TRANSPORT_TYPES } from '../constants/message-constants.js';
 import winston from 'winston';
 import {
+  validateServerConfig,
   validateServerConfigFile,
+  type ServerConfig as ServerConfigEntry,
   type ServerConfigFile,
 } from '../schemas/server-config-schema.js';
 
+/**
+ * Answering an MCP server's sampling requests
+ */
+export interface MCPSamplingConfig {
+  enabled?: boolean; // Defaults to true
+  agent?: string; // Answers requests that don't come from an agent's tool call
+  max_tokens?: number; // Limit on the maxTokens a request can ask for
+  requests_per_minute?: number; // Defaults to 10
+}
+
 /**
  * MCP Server Configuration Interface
  */
@@ -16,6 +29,15 @@ export interface ServerConfig {
   args?: string[]; // For STDIO transport
   env?: Record<string, string>;
   auth_token?: string; // For HTTP transport
+  enabled?: boolean; // Defaults to true
+  sampling?: MCPSamplingConfig;
+}
+
+/**
+ * server_config.json in the working directory, or SERVER_CONFIG_PATH
+ */
+export function getServerConfigPath(): string {
+  return process.env.SERVER_CONFIG_PATH || path.join(process.cwd(), 'server_config.json');
 }
 
 /**
@@ -45,6 +67,67 @@ function loadServerConfigSecrets(config: unknown): unknown {
   return config;
 }
 
+function toServerConfig(serverInfo: ServerConfigEntry): ServerConfig {
+  return {
+    transport_type: serverInfo.transport_type,
+    url: serverInfo.transport_type === TRANSPORT_TYPES.HTTP ? serverInfo.url : undefined,
+    command: serverInfo.transport_type === TRANSPORT_TYPES.STDIO ? serverInfo.command : undefined,
+    args: serverInfo.transport_type === TRANSPORT_TYPES.STDIO ? serverInfo.args || [] : undefined,
+    env: serverInfo.transport_type === TRANSPORT_TYPES.STDIO ? serverInfo.env : undefined,
+    auth_token:
+      serverInfo.transport_type === TRANSPORT_TYPES.HTTP ? serverInfo.auth_token : undefined,
+    enabled: serverInfo.enabled,
+    sampling: serverInfo.sampling,
+  };
+}
+
+/**
+ * Validate one server's entry as written in server_config.json and fill in its
+ * <ENV_VAR> placeholders. Throws if the entry is invalid.
+ */
+export function resolveServerConfig(rawConfig: unknown): ServerConfig {
+  return toServerConfig(validateServerConfig(loadServerConfigSecrets(rawConfig)));
+}
+
+/**
+ * Write one server's entry to server_config.json as given, placeholders and all,
+ * or remove it when rawConfig is null
+ */
+export function saveServerConfig(
+  configPath: string,
+  serverName: string,
+  rawConfig: Record<string, unknown> | null
+): void {
+  const file: { mcpServers?: Record<string, unknown> } = fs.existsSync(configPath)
+    ? (JSON.parse(fs.readFileSync(configPath, 'utf8')) as { mcpServers?: Record<string, unknown> })
+    : {};
+  const mcpServers = { ...file.mcpServers };
+
+  if (rawConfig) {
+    mcpServers[serverName] = rawConfig;
+  } else {
+    delete mcpServers[serverName];
+  }
+
+  fs.writeFileSync(configPath, `${JSON.stringify({ ...file, mcpServers }, null, 2)}\n`);
+}
+
+/**
+ * Read one server's entry from server_config.json as written, placeholders and all
+ */
+export function readRawServerConfig(
+  configPath: string,
+  serverName: string
+): Record<string, unknown> | null {
+  if (!fs.existsSync(configPath)) {
+    return null;
+  }
+  const file = JSON.parse(fs.readFileSync(configPath, 'utf8')) as {
+    mcpServers?: Record<string, Record<string, unknown>>;
+  };
+  return file.mcpServers?.[serverName] ?? null;
+}
+
 /**
  * Load server configurations with resilient error handling
  */
@@ -90,17 +173,7 @@ export function loadServerConfigs(
     for (const [serverName, serverInfo] of Object.entries(mcpServers)) {
       try {
         // serverInfo is already validated by Zod schema, so we can use it directly
-        serverConfigs[serverName] = {
-          transport_type: serverInfo.transport_type,
-          url: serverInfo.transport_type === TRANSPORT_TYPES.HTTP ? serverInfo.url : undefined,
-          command:
-            serverInfo.transport_type === TRANSPORT_TYPES.STDIO ? serverInfo.command : undefined,
-          args:
-            serverInfo.transport_type === TRANSPORT_TYPES.STDIO ? serverInfo.args || [] : undefined,
-          env: serverInfo.transport_type === TRANSPORT_TYPES.STDIO ? serverInfo.env : undefined,
-          auth_token:
-            serverInfo.transport_type === TRANSPORT_TYPES.HTTP ? serverInfo.auth_token : undefined,
-        };
+        serverConfigs[serverName] = toServerConfig(serverInfo);
 
         logger.debug(`Loaded config for ${serverName} (${serverInfo.transport_type})`);
       } catch (error) {
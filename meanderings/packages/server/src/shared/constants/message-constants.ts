@@ -29,6 +29,7 @@ export const SERVICE_PROVIDERS = {
   GROQ: 'GROQ',
   OLLAMA: 'OLLAMA',
   LMSTUDIO: 'LMSTUDIO',
+  SCRIPTED: 'SCRIPTED',
 } as const;
 
 export const MESSAGE_COMPOSITION_TYPES = {
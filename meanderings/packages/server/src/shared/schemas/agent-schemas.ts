@@ -15,8 +15,74 @@ export const ServiceProviderSchema = z.enum([
   'GROQ',
   'OLLAMA',
   'LMSTUDIO',
+  'SCRIPTED',
 ]);
 
+/**
+ * Fallback provider/model, tried in order when the primary provider fails transiently
+ */
+export const ProviderFallbackSchema = z.object({
+  service_provider: ServiceProviderSchema,
+  model_name: z.string().min(1, 'Fallback model name is required'),
+});
+
+/**
+ * Context window management: how the history is trimmed when it outgrows the model's window
+ */
+export const ContextManagementSchema = z.object({
+  strategy: z.enum(['sliding_window', 'drop_tool_results', 'summarize']).optional(),
+  context_window: z.number().int().positive().optional(),
+  reserve_output_tokens: z.number().int().nonnegative().optional(),
+  keep_recent_turns: z.number().int().nonnegative().optional(),
+});
+
+/**
+ * MCP resource read into the agent's system prompt; the uri may be a URI template
+ */
+export const MCPResourceRefSchema = z.object({
+  server: z.string().min(1, 'MCP server name is required'),
+  uri: z.string().min(1, 'Resource URI is required'),
+  arguments: z.record(z.string()).optional(),
+});
+
+/**
+ * Model parameters sent with every completion; also checks a request's overrides
+ */
+export const GenerationSettingsSchema = z
+  .object({
+    temperature: z.number().min(0).max(2).optional(),
+    top_p: z.number().gt(0).max(1).optional(),
+    max_tokens: z.number().int().positive().optional(),
+    stop: z.array(z.string().min(1)).max(4).optional(),
+    seed: z.number().int().optional(),
+    tool_choice: z
+      .union([z.enum(['auto', 'none', 'required']), z.object({ name: z.string().min(1) })])
+      .optional(),
+    response_format: z
+      .discriminatedUnion('type', [
+        z.object({ type: z.literal('text') }),
+        z.object({ type: z.literal('json_object') }),
+        z.object({
+          type: z.literal('json_schema'),
+          name: z.string().min(1).optional(),
+          schema: z.record(z.unknown()),
+          strict: z.boolean().optional(),
+        }),
+      ])
+      .optional(),
+  })
+  .strict();
+
+/**
+ * What a request may change of the generation settings
+ */
+export const GenerationLimitsSchema = z.object({
+  overridable: z.array(GenerationSettingsSchema.keyof()).optional(),
+  max_tokens: z.number().int().positive().optional(),
+  min_temperature: z.number().min(0).max(2).optional(),
+  max_temperature: z.number().min(0).max(2).optional(),
+});
+
 /**
  * Agent configuration schema - matches AgentConfig interface
  */
@@ -30,6 +96,18 @@ export const AgentConfigSchema = z.object({
   available_functions: z.array(z.string()).optional().default([]),
   custom_settings: z.record(z.unknown()).optional(),
   mcp_servers: z.array(z.string()).optional(),
+  fallbacks: z.array(ProviderFallbackSchema).optional(),
+  context_management: ContextManagementSchema.optional(),
+  tool_policies: z.record(z.enum(['auto', 'confirm', 'deny'])).optional(),
+  tool_concurrency: z.number().int().positive().optional(),
+  tool_call_retries: z.number().int().nonnegative().optional(),
+  max_tool_iterations: z.number().int().positive().optional(),
+  mcp_resources: z.array(MCPResourceRefSchema).optional(),
+  generation: GenerationSettingsSchema.optional(),
+  generation_limits: GenerationLimitsSchema.optional(),
+  response_schema: z.record(z.unknown()).optional(),
+  extends: z.string().min(1).optional(),
+  template: z.boolean().optional(),
 });
 
 /**
@@ -9,6 +9,7 @@ const ServiceProviderSchema = z.enum([
   SERVICE_PROVIDERS.GROQ,
   SERVICE_PROVIDERS.OLLAMA,
   SERVICE_PROVIDERS.LMSTUDIO,
+  SERVICE_PROVIDERS.SCRIPTED,
 ] as const);
 
 // Custom settings schema for flexible agent configuration
@@ -17,6 +18,88 @@ const CustomSettingsSchema = z.record(z.string(), z.unknown()).optional();
 // MCP servers schema
 const MCPServersSchema = z.array(z.string()).optional();
 
+// Fallback providers, tried in order when the primary provider fails with a transient error
+const FallbacksSchema = z
+  .array(
+    z.object({
+      service_provider: ServiceProviderSchema,
+      model_name: z.string().min(1, 'Fallback model name is required'),
+    })
+  )
+  .optional();
+
+// Context window management, applied when the history outgrows the model's window
+const ContextManagementSchema = z
+  .object({
+    strategy: z.enum(['sliding_window', 'drop_tool_results', 'summarize']).optional(),
+    context_window: z.number().int().positive().optional(),
+    reserve_output_tokens: z.number().int().nonnegative().optional(),
+    keep_recent_turns: z.number().int().nonnegative().optional(),
+  })
+  .optional();
+
+// Approval policy per tool name: run directly, ask the user first, or never run
+const ToolPoliciesSchema = z.record(z.string(), z.enum(['auto', 'confirm', 'deny'])).optional();
+
+// MCP resources read into the system prompt; a uri may be a URI template such as
+// notes://{agent_name}, filled from arguments, agent_name and conversation_id
+const MCPResourcesSchema = z
+  .array(
+    z.object({
+      server: z.string().min(1, 'MCP server name is required'),
+      uri: z.string().min(1, 'Resource URI is required'),
+      arguments: z.record(z.string(), z.string()).optional(),
+    })
+  )
+  .optional();
+
+// Model parameters sent with every completion; a forced tool_choice names a tool
+const GenerationSettingNames = [
+  'temperature',
+  'top_p',
+  'max_tokens',
+  'stop',
+  'seed',
+  'tool_choice',
+  'response_format',
+] as const;
+
+const GenerationSchema = z
+  .object({
+    temperature: z.number().min(0).max(2).optional(),
+    top_p: z.number().gt(0).max(1).optional(),
+    max_tokens: z.number().int().positive().optional(),
+    stop: z.array(z.string().min(1)).max(4).optional(),
+    seed: z.number().int().optional(),
+    tool_choice: z
+      .union([z.enum(['auto', 'none', 'required']), z.object({ name: z.string().min(1) })])
+      .optional(),
+    response_format: z
+      .discriminatedUnion('type', [
+        z.object({ type: z.literal('text') }),
+        z.object({ type: z.literal('json_object') }),
+        z.object({
+          type: z.literal('json_schema'),
+          name: z.string().min(1).optional(),
+          schema: z.record(z.string(), z.unknown()),
+          strict: z.boolean().optional(),
+        }),
+      ])
+      .optional(),
+  })
+  .strict()
+  .optional();
+
+// What a request may change of the generation settings
+const GenerationLimitsSchema = z
+  .object({
+    overridable: z.array(z.enum(GenerationSettingNames)).optional(),
+    max_tokens: z.number().int().positive().optional(),
+    min_temperature: z.number().min(0).max(2).optional(),
+    max_temperature: z.number().min(0).max(2).optional(),
+  })
+  .optional();
+
 // Agent configuration schema
 const AgentConfigSchema = z.object({
   agent_name: z.string().min(1, 'Agent name is required'),
@@ -28,6 +111,18 @@ const AgentConfigSchema = z.object({
   available_functions: z.array(z.string()).optional().default([]),
   custom_settings: CustomSettingsSchema,
   mcp_servers: MCPServersSchema,
+  fallbacks: FallbacksSchema,
+  context_management: ContextManagementSchema,
+  tool_policies: ToolPoliciesSchema,
+  tool_concurrency: z.number().int().positive().optional(),
+  tool_call_retries: z.number().int().nonnegative().optional(),
+  max_tool_iterations: z.number().int().positive().optional(),
+  mcp_resources: MCPResourcesSchema,
+  generation: GenerationSchema,
+  generation_limits: GenerationLimitsSchema,
+  response_schema: z.record(z.string(), z.unknown()).optional(),
+  extends: z.string().min(1).optional(),
+  template: z.boolean().optional(),
 });
 
 // Required agents that must exist in the configuration
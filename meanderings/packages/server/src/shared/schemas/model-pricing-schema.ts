@@ -0,0 +1,44 @@
+import { z } from 'zod';
+
+// Prices are per million tokens in the table's currency
+const ModelPriceSchema = z
+  .object({
+    input: z.number().nonnegative(),
+    output: z.number().nonnegative(),
+    cache_write: z.number().nonnegative().optional(),
+    cache_read: z.number().nonnegative().optional(),
+  })
+  .strict();
+
+// Model keys match exactly or as a prefix of the model name (longest prefix wins);
+// provider entries price every model of a provider that has no model entry (e.g. local models)
+export const ModelPricingFileSchema = z
+  .object({
+    currency: z.string().min(1).default('USD'),
+    models: z.record(z.string().min(1, 'Model name cannot be empty'), ModelPriceSchema).default({}),
+    providers: z.record(z.string().min(1), ModelPriceSchema).default({}),
+  })
+  .strict();
+
+// Type exports
+export type ModelPrice = z.infer<typeof ModelPriceSchema>;
+export type ModelPricingFile = z.infer<typeof ModelPricingFileSchema>;
+
+// Validation function with detailed error reporting
+export function validateModelPricingFile(data: unknown): ModelPricingFile {
+  try {
+    return ModelPricingFileSchema.parse(data);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const issues = error.issues
+        .map((issue) => {
+          const path = issue.path.join('.');
+          return `  - ${path}: ${issue.message}`;
+        })
+        .join('\n');
+
+      throw new Error(`Model pricing validation failed:\n${issues}`);
+    }
+    throw error;
+  }
+}
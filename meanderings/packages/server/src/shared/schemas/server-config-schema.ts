@@ -4,6 +4,16 @@ import { TRANSPORT_TYPES } from '../constants/message-constants.js';
 // Environment variables schema - optional for STDIO
 const EnvironmentVariablesSchema = z.record(z.string(), z.string());
 
+// How the server's sampling/createMessage requests are answered
+const SamplingConfigSchema = z
+  .object({
+    enabled: z.boolean().optional(),
+    agent: z.string().min(1, 'Sampling agent cannot be empty').optional(),
+    max_tokens: z.number().int().positive().optional(),
+    requests_per_minute: z.number().int().positive().optional(),
+  })
+  .strict();
+
 // STDIO server configuration - strict schema
 const StdioServerConfigSchema = z
   .object({
@@ -11,6 +21,8 @@ const StdioServerConfigSchema = z
     command: z.string().min(1, 'Command is required for STDIO servers'),
     args: z.array(z.string()).optional(),
     env: EnvironmentVariablesSchema.optional(),
+    enabled: z.boolean().optional(), // Disabled servers are kept but not connected
+    sampling: SamplingConfigSchema.optional(),
   })
   .strict(); // Reject extra properties
 
@@ -20,6 +32,8 @@ const HttpServerConfigSchema = z
     transport_type: z.literal(TRANSPORT_TYPES.HTTP),
     url: z.string().url('URL must be a valid URL for HTTP servers'),
     auth_token: z.string().optional(),
+    enabled: z.boolean().optional(),
+    sampling: SamplingConfigSchema.optional(),
   })
   .strict(); // Reject extra properties
 
@@ -41,6 +55,17 @@ export const ServerConfigFileSchema = z
 export type ServerConfig = z.infer<typeof ServerConfigSchema>;
 export type ServerConfigFile = z.infer<typeof ServerConfigFileSchema>;
 
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map((issue) => {
+      const path = issue.path.join('.');
+      return `  - ${path}: ${issue.message}`;
+    })
+    .join('\n');
+}
+
+const COMMON_ISSUES = `Common issues:\n  - Use 'transport_type' not 'type'\n  - HTTP servers need 'url'\n  - STDIO servers need 'command'`;
+
 // Validation function with detailed error reporting
 export function validateServerConfigFile(data: unknown): ServerConfigFile {
   try {
@@ -48,15 +73,22 @@ export function validateServerConfigFile(data: unknown): ServerConfigFile {
   } catch (error) {
     if (error instanceof z.ZodError) {
       // Format the error nicely
-      const issues = error.issues
-        .map((issue) => {
-          const path = issue.path.join('.');
-          return `  - ${path}: ${issue.message}`;
-        })
-        .join('\n');
+      throw new Error(
+        `Server configuration validation failed:\n${formatIssues(error)}\n\n${COMMON_ISSUES}`
+      );
+    }
+    throw error;
+  }
+}
 
+// Validate one server's entry, as sent to the MCP servers API
+export function validateServerConfig(data: unknown): ServerConfig {
+  try {
+    return ServerConfigSchema.parse(data);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
       throw new Error(
-        `Server configuration validation failed:\n${issues}\n\nCommon issues:\n  - Use 'transport_type' not 'type'\n  - HTTP servers need 'url'\n  - STDIO servers need 'command'`
+        `Server configuration validation failed:\n${formatIssues(error)}\n\n${COMMON_ISSUES}`
       );
     }
     throw error;
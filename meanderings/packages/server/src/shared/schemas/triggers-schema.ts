@@ -0,0 +1,66 @@
+import { z } from 'zod';
+import { isValidCron } from '../utils/cron.js';
+
+// Names appear in webhook URLs and conversation ids
+const TRIGGER_NAME_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+// POST /api/triggers/reload is matched before POST /api/triggers/:name
+const RESERVED_TRIGGER_NAMES = ['reload'];
+
+// A trigger starts its agent headlessly, on a cron schedule and/or from POST /api/triggers/:name
+const TriggerSchema = z
+  .object({
+    agent: z.string().min(1, 'Agent is required'),
+    // {{payload.field}}, {{trigger}}, {{source}} and {{now}} are filled in per run
+    prompt: z.string().min(1, 'Prompt is required'),
+    description: z.string().optional(),
+    schedule: z
+      .string()
+      .refine(isValidCron, { message: 'Schedule must be a five-field cron expression' })
+      .optional(),
+    webhook: z.boolean().default(false),
+    // Webhook callers must send this in the X-Trigger-Secret header
+    secret: z.string().min(1).optional(),
+    enabled: z.boolean().default(true),
+    // Further attempts after a failed run, waiting retry_delay_ms times the attempt number
+    retries: z.number().int().nonnegative().max(10).default(2),
+    retry_delay_ms: z.number().int().nonnegative().default(5000),
+    timeout_ms: z.number().int().positive().default(300_000),
+  })
+  .strict()
+  .refine((trigger) => trigger.schedule !== undefined || trigger.webhook, {
+    message: 'A trigger needs a schedule, webhook: true, or both',
+  });
+
+export const TriggersFileSchema = z.record(
+  z
+    .string()
+    .regex(TRIGGER_NAME_PATTERN, 'Trigger names may only use letters, digits, - and _')
+    .refine((name) => !RESERVED_TRIGGER_NAMES.includes(name), {
+      message: `Trigger names may not be ${RESERVED_TRIGGER_NAMES.join(', ')}`,
+    }),
+  TriggerSchema
+);
+
+// Type exports
+export type TriggerConfig = z.infer<typeof TriggerSchema>;
+export type TriggersFile = z.infer<typeof TriggersFileSchema>;
+
+// Validation function with detailed error reporting
+export function validateTriggersFile(data: unknown): TriggersFile {
+  try {
+    return TriggersFileSchema.parse(data);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const issues = error.issues
+        .map((issue) => {
+          const path = issue.path.join('.');
+          return `  - ${path}: ${issue.message}`;
+        })
+        .join('\n');
+
+      throw new Error(`Triggers validation failed:\n${issues}`);
+    }
+    throw error;
+  }
+}
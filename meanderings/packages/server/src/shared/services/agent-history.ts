@@ -0,0 +1,149 @@
+/**
+ * Agent History
+ *
+ * Keeps a numbered revision of an agent's configuration for every change made through
+ * AgentManager, with who made it (a person or an agent) and why. Revisions are stored
+ * per agent in backups/agents/history/<agentKey>.json and can be listed, compared and
+ * restored.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { AgentConfig } from '../types/index.js';
+
+export type AgentChangeAction =
+  'baseline' | 'create' | 'update' | 'delete' | 'add_function' | 'remove_function' | 'rollback';
+
+/**
+ * Who made a change and why; changes without an author are attributed to a person
+ */
+export interface AgentChange {
+  author: string; // 'human' or the name of the agent that made the change
+  author_type: 'human' | 'agent' | 'unknown';
+  reason?: string;
+}
+
+export const HUMAN_CHANGE: AgentChange = { author: 'human', author_type: 'human' };
+
+export interface AgentRevision extends AgentChange {
+  revision: number;
+  timestamp: string;
+  action: AgentChangeAction;
+  rolled_back_to?: number;
+  config: AgentConfig | null; // null once the agent is deleted
+}
+
+/**
+ * One top-level field that differs between two revisions
+ */
+export interface AgentConfigChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+  added?: unknown[]; // for array fields such as available_functions
+  removed?: unknown[];
+}
+
+interface AgentHistoryFile {
+  agent_key: string;
+  revisions: AgentRevision[];
+}
+
+export class AgentHistory {
+  constructor(private historyDir = path.join(process.cwd(), 'backups/agents/history')) {}
+
+  private filePath(agentKey: string): string {
+    return path.join(this.historyDir, `${encodeURIComponent(agentKey)}.json`);
+  }
+
+  /**
+   * All revisions of an agent, oldest first
+   */
+  async list(agentKey: string): Promise<AgentRevision[]> {
+    try {
+      const content = await fs.readFile(this.filePath(agentKey), 'utf-8');
+      return (JSON.parse(content) as AgentHistoryFile).revisions;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  async get(agentKey: string, revision: number): Promise<AgentRevision | undefined> {
+    const revisions = await this.list(agentKey);
+    return revisions.find((entry) => entry.revision === revision);
+  }
+
+  /**
+   * Append a revision. The first change to an agent that existed before history was
+   * kept also records its previous configuration as a baseline, so it can be restored.
+   */
+  async record(
+    agentKey: string,
+    entry: {
+      action: AgentChangeAction;
+      config: AgentConfig | null;
+      previous?: AgentConfig | null;
+      change?: AgentChange;
+      rolled_back_to?: number;
+    }
+  ): Promise<AgentRevision> {
+    const revisions = await this.list(agentKey);
+
+    if (revisions.length === 0 && entry.previous) {
+      revisions.push({
+        revision: 1,
+        timestamp: new Date().toISOString(),
+        action: 'baseline',
+        author: 'unknown',
+        author_type: 'unknown',
+        reason: 'Configuration before history was recorded',
+        config: entry.previous,
+      });
+    }
+
+    const revision: AgentRevision = {
+      revision: revisions.length + 1,
+      timestamp: new Date().toISOString(),
+      action: entry.action,
+      ...(entry.change ?? HUMAN_CHANGE),
+      ...(entry.rolled_back_to !== undefined && { rolled_back_to: entry.rolled_back_to }),
+      config: entry.config,
+    };
+    revisions.push(revision);
+
+    await fs.mkdir(this.historyDir, { recursive: true });
+    const file: AgentHistoryFile = { agent_key: agentKey, revisions };
+    await fs.writeFile(this.filePath(agentKey), JSON.stringify(file, null, 2) + '\n', 'utf-8');
+
+    return revision;
+  }
+
+  /**
+   * Field-by-field differences between two configurations
+   */
+  static diff(from: AgentConfig | null, to: AgentConfig | null): AgentConfigChange[] {
+    const before = (from ?? {}) as Record<string, unknown>;
+    const after = (to ?? {}) as Record<string, unknown>;
+    const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+
+    return fields.flatMap((field): AgentConfigChange[] => {
+      const oldValue = before[field];
+      const newValue = after[field];
+      if (JSON.stringify(oldValue) === JSON.stringify(newValue)) {
+        return [];
+      }
+
+      const change: AgentConfigChange = { field, from: oldValue, to: newValue };
+      if (Array.isArray(oldValue) || Array.isArray(newValue)) {
+        const oldItems = Array.isArray(oldValue) ? oldValue : [];
+        const newItems = Array.isArray(newValue) ? newValue : [];
+        change.added = newItems.filter((item) => !oldItems.includes(item));
+        change.removed = oldItems.filter((item) => !newItems.includes(item));
+      }
+      return [change];
+    });
+  }
+}
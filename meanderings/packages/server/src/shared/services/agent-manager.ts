@@ -9,17 +9,29 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import winston from 'winston';
 import lockfile from 'proper-lockfile';
+import { ZodError } from 'zod';
 import { AgentConfig } from '../types/index.js';
+import { AgentConfigManager } from '../config/agent-config.js';
+import { resolveAgentConfig } from '../config/agent-inheritance.js';
+import {
+  AgentChange,
+  AgentChangeAction,
+  AgentConfigChange,
+  AgentHistory,
+  AgentRevision,
+} from './agent-history.js';
 
 export class AgentManager {
   private logger: winston.Logger;
   private agentsFilePath: string;
   private backupDir: string;
+  private history: AgentHistory;
 
   constructor(logger: winston.Logger) {
     this.logger = logger;
     this.agentsFilePath = path.join(process.cwd(), 'agents.json');
     this.backupDir = path.join(process.cwd(), 'backups/agents');
+    this.history = new AgentHistory(path.join(this.backupDir, 'history'));
   }
 
   /**
@@ -31,9 +43,30 @@ export class AgentManager {
   }
 
   /**
-   * Save agents.json with file locking and backup
+   * Save agents.json with file locking and backup, recording a revision of the changed agent
    */
-  private async saveAgents(agents: Record<string, AgentConfig>): Promise<void> {
+  private async saveAgents(
+    agents: Record<string, AgentConfig>,
+    revision: {
+      agentKey: string;
+      action: AgentChangeAction;
+      change?: AgentChange;
+      rolled_back_to?: number;
+    }
+  ): Promise<void> {
+    // Reject changes the server could not load, before anything is written
+    try {
+      AgentConfigManager.validateAgents(agents);
+    } catch (error) {
+      let problems = String(error);
+      if (error instanceof ZodError) {
+        problems = error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join('; ');
+      } else if (error instanceof Error) {
+        problems = error.message;
+      }
+      throw new Error(`Invalid agent configuration: ${problems}`);
+    }
+
     // Acquire lock on agents.json
     let release;
     try {
@@ -64,10 +97,25 @@ export class AgentManager {
         this.logger.warn('Failed to create backup:', error);
       }
 
+      const previous = (await this.loadAgents())[revision.agentKey] ?? null;
+
       // Direct write with lock held (no rename needed - lock protects us)
       await fs.writeFile(this.agentsFilePath, JSON.stringify(agents, null, 2) + '\n', 'utf-8');
 
       this.logger.info('✅ Agents configuration saved');
+
+      // Recorded under the same lock so revision numbers follow the order of writes
+      try {
+        await this.history.record(revision.agentKey, {
+          action: revision.action,
+          config: agents[revision.agentKey] ?? null,
+          previous,
+          change: revision.change,
+          rolled_back_to: revision.rolled_back_to,
+        });
+      } catch (error) {
+        this.logger.warn(`Failed to record history for agent ${revision.agentKey}:`, error);
+      }
     } finally {
       // Always release lock
       await release();
@@ -77,7 +125,7 @@ export class AgentManager {
   /**
    * Create a new agent
    */
-  async createAgent(agentKey: string, config: AgentConfig): Promise<{
+  async createAgent(agentKey: string, config: AgentConfig, change?: AgentChange): Promise<{
     success: boolean;
     message: string;
     agent?: AgentConfig;
@@ -92,8 +140,12 @@ export class AgentManager {
         };
       }
 
-      // Validate required fields
-      if (!config.service_provider || !config.model_name || !config.description) {
+      // Validate required fields; an agent that extends another can inherit them
+      if (
+        !config.extends &&
+        !config.template &&
+        (!config.service_provider || !config.model_name || !config.description)
+      ) {
         return {
           success: false,
           message: 'Missing required fields: service_provider, model_name, description',
@@ -107,7 +159,7 @@ export class AgentManager {
       };
 
       agents[agentKey] = newAgent;
-      await this.saveAgents(agents);
+      await this.saveAgents(agents, { agentKey, action: 'create', change });
 
       this.logger.info(`🎉 Created new agent: ${agentKey}`);
 
@@ -134,9 +186,9 @@ export class AgentManager {
   }
 
   /**
-   * Get a specific agent
+   * Get a specific agent, as written in agents.json or resolved with everything it extends
    */
-  async getAgent(agentKey: string): Promise<{
+  async getAgent(agentKey: string, resolved = false): Promise<{
     success: boolean;
     agent?: AgentConfig;
     message?: string;
@@ -151,6 +203,18 @@ export class AgentManager {
         };
       }
 
+      if (resolved) {
+        const config = resolveAgentConfig(agents, agentKey) as unknown as AgentConfig;
+        return {
+          success: true,
+          agent: {
+            key: agentKey,
+            ...config,
+            agent_name: config.agent_name || agentKey,
+          },
+        };
+      }
+
       return {
         success: true,
         agent: {
@@ -171,7 +235,7 @@ export class AgentManager {
   /**
    * Update an agent
    */
-  async updateAgent(agentKey: string, updates: Partial<AgentConfig>): Promise<{
+  async updateAgent(agentKey: string, updates: Partial<AgentConfig>, change?: AgentChange): Promise<{
     success: boolean;
     message: string;
     agent?: AgentConfig;
@@ -193,7 +257,7 @@ export class AgentManager {
       };
 
       agents[agentKey] = updatedAgent;
-      await this.saveAgents(agents);
+      await this.saveAgents(agents, { agentKey, action: 'update', change });
 
       this.logger.info(`🔄 Updated agent: ${agentKey}`);
 
@@ -215,7 +279,7 @@ export class AgentManager {
   /**
    * Delete an agent
    */
-  async deleteAgent(agentKey: string): Promise<{
+  async deleteAgent(agentKey: string, change?: AgentChange): Promise<{
     success: boolean;
     message: string;
   }> {
@@ -230,7 +294,7 @@ export class AgentManager {
       }
 
       delete agents[agentKey];
-      await this.saveAgents(agents);
+      await this.saveAgents(agents, { agentKey, action: 'delete', change });
 
       this.logger.info(`🗑️  Deleted agent: ${agentKey}`);
 
@@ -251,7 +315,7 @@ export class AgentManager {
   /**
    * Add function to agent's available_functions
    */
-  async addFunctionToAgent(agentKey: string, functionName: string): Promise<{
+  async addFunctionToAgent(agentKey: string, functionName: string, change?: AgentChange): Promise<{
     success: boolean;
     message: string;
     available_functions?: string[];
@@ -281,7 +345,7 @@ export class AgentManager {
       agent.available_functions = availableFunctions;
 
       agents[agentKey] = agent;
-      await this.saveAgents(agents);
+      await this.saveAgents(agents, { agentKey, action: 'add_function', change });
 
       this.logger.info(`➕ Added function ${functionName} to agent ${agentKey}`);
 
@@ -303,7 +367,7 @@ export class AgentManager {
   /**
    * Remove function from agent's available_functions
    */
-  async removeFunctionFromAgent(agentKey: string, functionName: string): Promise<{
+  async removeFunctionFromAgent(agentKey: string, functionName: string, change?: AgentChange): Promise<{
     success: boolean;
     message: string;
     available_functions?: string[];
@@ -331,7 +395,7 @@ export class AgentManager {
       agent.available_functions = availableFunctions.filter(f => f !== functionName);
 
       agents[agentKey] = agent;
-      await this.saveAgents(agents);
+      await this.saveAgents(agents, { agentKey, action: 'remove_function', change });
 
       this.logger.info(`➖ Removed function ${functionName} from agent ${agentKey}`);
 
@@ -349,4 +413,137 @@ export class AgentManager {
       };
     }
   }
+
+  /**
+   * List an agent's revisions, newest first
+   */
+  async getAgentHistory(agentKey: string): Promise<{
+    success: boolean;
+    message?: string;
+    revisions?: AgentRevision[];
+  }> {
+    try {
+      const revisions = await this.history.list(agentKey);
+
+      if (revisions.length === 0) {
+        return {
+          success: false,
+          message: `No history recorded for agent ${agentKey}`,
+        };
+      }
+
+      return {
+        success: true,
+        revisions: [...revisions].reverse(),
+      };
+
+    } catch (error: unknown) {
+      this.logger.error('Get agent history failed:', error);
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Get agent history failed',
+      };
+    }
+  }
+
+  /**
+   * Compare two revisions of an agent. Defaults to the latest revision and the one before it.
+   */
+  async diffAgentRevisions(agentKey: string, from?: number, to?: number): Promise<{
+    success: boolean;
+    message?: string;
+    from?: number;
+    to?: number;
+    changes?: AgentConfigChange[];
+  }> {
+    try {
+      const revisions = await this.history.list(agentKey);
+
+      if (revisions.length === 0) {
+        return {
+          success: false,
+          message: `No history recorded for agent ${agentKey}`,
+        };
+      }
+
+      const toRevision = to ?? revisions[revisions.length - 1].revision;
+      const fromRevision = from ?? toRevision - 1;
+      const after = revisions.find((entry) => entry.revision === toRevision);
+      // Revision 0 is the agent before it existed
+      const before =
+        fromRevision === 0 ? undefined : revisions.find((entry) => entry.revision === fromRevision);
+
+      if (!after || (fromRevision !== 0 && !before)) {
+        return {
+          success: false,
+          message: `Revision ${after ? fromRevision : toRevision} not found for agent ${agentKey}`,
+        };
+      }
+
+      return {
+        success: true,
+        from: fromRevision,
+        to: toRevision,
+        changes: AgentHistory.diff(before?.config ?? null, after.config),
+      };
+
+    } catch (error: unknown) {
+      this.logger.error('Diff agent revisions failed:', error);
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Diff agent revisions failed',
+      };
+    }
+  }
+
+  /**
+   * Restore an agent to the configuration of an earlier revision, re-creating it if deleted
+   */
+  async rollbackAgent(agentKey: string, revision: number, change?: AgentChange): Promise<{
+    success: boolean;
+    message: string;
+    agent?: AgentConfig;
+  }> {
+    try {
+      const target = await this.history.get(agentKey, revision);
+
+      if (!target) {
+        return {
+          success: false,
+          message: `Revision ${revision} not found for agent ${agentKey}`,
+        };
+      }
+
+      if (!target.config) {
+        return {
+          success: false,
+          message: `Revision ${revision} of ${agentKey} is a deletion; use delete instead`,
+        };
+      }
+
+      const agents = await this.loadAgents();
+      agents[agentKey] = target.config;
+      await this.saveAgents(agents, {
+        agentKey,
+        action: 'rollback',
+        change,
+        rolled_back_to: revision,
+      });
+
+      this.logger.info(`⏪ Rolled back agent ${agentKey} to revision ${revision}`);
+
+      return {
+        success: true,
+        message: `Agent ${agentKey} rolled back to revision ${revision}`,
+        agent: target.config,
+      };
+
+    } catch (error: unknown) {
+      this.logger.error('Rollback agent failed:', error);
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Rollback agent failed',
+      };
+    }
+  }
 }
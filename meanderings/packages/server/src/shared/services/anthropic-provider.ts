@@ -3,6 +3,7 @@ import { BaseServiceProvider } from './base-provider.js';
 import { MessageShapeComposer } from '../composition/message-shape-composer.js';
 import { AnthropicAPITransport } from '../transport/anthropic-api-transport.js';
 import { SERVICE_PROVIDERS, MESSAGE_ROLES, PART_TYPES } from '../constants/message-constants.js';
+import { mapWithConcurrency } from '../tools/tool-execution.js';
 import {
   TransportResult,
   NonStreamingTransportResult,
@@ -40,6 +41,9 @@ export class AnthropicProvider extends BaseServiceProvider {
     streamResponse = false
   ): Promise<{ response: unknown; completeMessages: Message[] }> {
     try {
+      // Every tool iteration re-enters here, so a cancelled turn stops at the next step
+      this.throwIfCancelled();
+
       // Add user input to messages if provided
       const allMessages = userInput
         ? [...messages, { role: MESSAGE_ROLES.USER, content: userInput }]
@@ -55,12 +59,13 @@ export class AnthropicProvider extends BaseServiceProvider {
       const tools = this.transformToolRegistry();
 
       // Use transport layer for API call
+      this.beginApiCall();
       const transportResult = await this.transport.send(composedMessages, {
         tools,
         systemPrompt: this.system_prompt,
         stream: streamResponse,
-        temperature: 0.7,
-        maxTokens: 8192,
+        signal: this.abortSignal,
+        ...this.generationOptions(messages, 8192),
       });
 
       if (streamResponse && websocket) {
@@ -118,12 +123,18 @@ export class AnthropicProvider extends BaseServiceProvider {
         inputTokens?: number;
         outputTokens?: number;
         totalTokens?: number;
+        cacheCreationInputTokens?: number;
+        cacheReadInputTokens?: number;
       };
-      this.usage_info = {
+      this.recordUsage({
         input_tokens: usage.inputTokens || 0,
         output_tokens: usage.outputTokens || 0,
         total_tokens: usage.totalTokens || 0,
-      };
+        cache_creation_input_tokens: usage.cacheCreationInputTokens || 0,
+        cache_read_input_tokens: usage.cacheReadInputTokens || 0,
+      });
+    } else {
+      this.recordUsage({});
     }
 
     // Handle tool use
@@ -136,6 +147,18 @@ export class AnthropicProvider extends BaseServiceProvider {
     ) {
       console.log('Tool use detected in stream, executing server-side...');
 
+      // A request stuck in a tool loop is wrapped up instead of running this round
+      const wrapUp = await this.guardToolLoop(
+        processedResult.toolUse,
+        processedResult.fullText || null,
+        allMessages,
+        websocket,
+        true
+      );
+      if (wrapUp) {
+        return wrapUp;
+      }
+
       // Add assistant's response with tool use to conversation
       const assistantMessage: Message = {
         role: MESSAGE_ROLES.ASSISTANT,
@@ -161,9 +184,9 @@ export class AnthropicProvider extends BaseServiceProvider {
 
       allMessages.push(assistantMessage);
 
-      const response = await this.synchronizeMessageContextToClient(
+      const response = await this.handleMultipleToolCalls(
         (processedRes as { fullText?: string }).fullText || null,
-        processedRes.toolUse[0],
+        processedRes.toolUse,
         allMessages,
         websocket,
         true
@@ -172,19 +195,7 @@ export class AnthropicProvider extends BaseServiceProvider {
     } else {
       // No function calls, send final response
       const processedRes = processedResult as { fullText?: string };
-      if (websocket) {
-        this.sendWebSocketMessages(websocket, processedRes.fullText || '', undefined, true);
-      }
-
-      const response = {
-        role: MESSAGE_ROLES.ASSISTANT,
-        content: processedRes.fullText || '',
-      };
-
-      // Add final response to conversation
-      allMessages.push(response);
-
-      return { response, completeMessages: allMessages };
+      return await this.finishResponse(processedRes.fullText || '', allMessages, websocket, true);
     }
   }
 
@@ -213,18 +224,34 @@ export class AnthropicProvider extends BaseServiceProvider {
       parsedResponse.usage &&
       typeof parsedResponse.usage === 'object'
     ) {
-      const usage = parsedResponse.usage as { input_tokens?: number; output_tokens?: number };
-      this.usage_info = {
-        input_tokens: usage.input_tokens || 0,
-        output_tokens: usage.output_tokens || 0,
-        total_tokens: (usage.input_tokens || 0) + (usage.output_tokens || 0),
-      };
+      const usage = parsedResponse.usage;
+      this.recordUsage({
+        input_tokens: usage.inputTokens || 0,
+        output_tokens: usage.outputTokens || 0,
+        total_tokens: (usage.inputTokens || 0) + (usage.outputTokens || 0),
+        cache_creation_input_tokens: usage.cacheCreationInputTokens || 0,
+        cache_read_input_tokens: usage.cacheReadInputTokens || 0,
+      });
+    } else {
+      this.recordUsage({});
     }
 
     // Handle tool use
     if (parsedResponse.toolUse && parsedResponse.toolUse.length > 0) {
       console.log('Tool use detected, executing server-side...');
 
+      // A request stuck in a tool loop is wrapped up instead of running this round
+      const wrapUp = await this.guardToolLoop(
+        parsedResponse.toolUse,
+        parsedResponse.content || null,
+        allMessages,
+        websocket,
+        false
+      );
+      if (wrapUp) {
+        return wrapUp;
+      }
+
       // Add assistant's response with tool use to conversation
       const assistantMessage: Message = {
         role: MESSAGE_ROLES.ASSISTANT,
@@ -249,9 +276,9 @@ export class AnthropicProvider extends BaseServiceProvider {
 
       allMessages.push(assistantMessage);
 
-      const response = await this.synchronizeMessageContextToClient(
+      const response = await this.handleMultipleToolCalls(
         parsedResponse.content || null,
-        parsedResponse.toolUse[0],
+        parsedResponse.toolUse,
         allMessages,
         websocket,
         false
@@ -259,19 +286,7 @@ export class AnthropicProvider extends BaseServiceProvider {
       return { response, completeMessages: allMessages };
     } else {
       // No function calls, send normal response
-      if (websocket) {
-        this.sendWebSocketMessages(websocket, parsedResponse.content || '', undefined, true);
-      }
-
-      const response = {
-        role: MESSAGE_ROLES.ASSISTANT,
-        content: parsedResponse.content,
-      };
-
-      // Add final response to conversation
-      allMessages.push(response);
-
-      return { response, completeMessages: allMessages };
+      return await this.finishResponse(parsedResponse.content || '', allMessages, websocket, false);
     }
   }
 
@@ -454,106 +469,87 @@ export class AnthropicProvider extends BaseServiceProvider {
   }
 
   /**
-   * Override synchronizeMessageContextToClient for Anthropic-specific tool response handling
-   * Anthropic requires tool results to be wrapped in content blocks array
+   * Run every tool_use block of a response, side by side up to the agent's concurrency cap.
+   * Anthropic expects one tool_result per tool_use, together in the next user message.
    */
-  protected async synchronizeMessageContextToClient(
+  protected async handleMultipleToolCalls(
     messageContent: string | null,
-    toolCall: unknown,
+    toolCalls: unknown[],
     messages: Message[],
     websocket?: { send(data: string): void },
     doStream = false
   ): Promise<unknown> {
     try {
-      // If no tool call, just return the message content
-      if (!toolCall) {
-        if (messageContent) {
-          this.sendWebSocketMessages(websocket, messageContent, undefined, true);
-        }
-        return {
-          role: MESSAGE_ROLES.ASSISTANT,
-          content: messageContent || '',
-        };
-      }
-
-      // Extract tool call information using provider-specific method
-      const {
-        id: toolCallId,
-        name: toolName,
-        arguments: toolArgs,
-      } = this.extractToolCallInfo(toolCall as Record<string, unknown>);
-      console.log(`Executing tool: ${toolName} with args: ${toolArgs}`);
-
       // Send assistant message with tool_calls to WebSocket for complete conversation history
       if (websocket) {
-        this.sendWebSocketMessages(websocket, messageContent || '', [toolCall], false);
+        this.sendWebSocketMessages(websocket, messageContent || '', toolCalls, false);
       }
 
-      // Send tool execution status to WebSocket
-      if (websocket) {
-        const statusMessage = {
-          tool_call: true,
-          tool_name: toolName,
-          tool_status: 'executing',
-        };
-        websocket.send(JSON.stringify(statusMessage));
-      }
-
-      // Execute the tool
-      const functionResult = await this.invokeTool(toolName, toolArgs);
-      console.log(`Tool ${toolName} result:`, functionResult);
+      // Results come back in the order the model made the calls
+      const toolResults = await mapWithConcurrency(
+        toolCalls,
+        this.toolConcurrency,
+        async (toolCall): Promise<ContentBlock> => {
+          const {
+            id: toolCallId,
+            name: toolName,
+            arguments: toolArgs,
+          } = this.extractToolCallInfo(toolCall as Record<string, unknown>);
+          console.log(`Executing tool: ${toolName} with args: ${toolArgs}`);
+
+          if (websocket) {
+            websocket.send(
+              JSON.stringify({ tool_call: true, tool_name: toolName, tool_status: 'executing' })
+            );
+          }
 
-      // Send tool completion status to WebSocket
-      if (websocket) {
-        const statusMessage = {
-          tool_call: true,
-          tool_name: toolName,
-          tool_status: 'completed',
-          tool_result: functionResult,
-        };
-        websocket.send(JSON.stringify(statusMessage));
-      }
+          this.throwIfCancelled();
 
-      // Create tool response using Anthropic format (tool_result block)
-      const toolResponseBlock = this.formatToolResponseMessage(
-        functionResult,
-        toolName,
-        toolCallId
-      );
+          let functionResult: string;
+          try {
+            functionResult = await this.invokeTool(toolName, toolArgs, websocket);
+            console.log(`Tool ${toolName} result:`, functionResult);
+          } catch (error) {
+            functionResult = `Error: ${error instanceof Error ? error.message : 'Tool execution failed'}`;
+            console.error(`Tool ${toolName} failed:`, error);
+          }
 
-      // Anthropic requires tool results to be wrapped in a user message with content blocks array
-      const toolResponseMessage: Message = {
-        role: MESSAGE_ROLES.USER,
-        content: [toolResponseBlock as unknown as ContentBlock],
-      };
+          if (websocket) {
+            websocket.send(
+              JSON.stringify({
+                tool_call: true,
+                tool_name: toolName,
+                tool_status: 'completed',
+                tool_result: functionResult,
+              })
+            );
+            websocket.send(
+              JSON.stringify({
+                role: MESSAGE_ROLES.TOOL,
+                name: toolName,
+                content: functionResult,
+                tool_call_id: toolCallId,
+              })
+            );
+          }
 
-      // Add tool result to conversation
-      console.log(
-        'Adding tool response message to conversation:',
-        JSON.stringify(toolResponseMessage, null, 2)
+          return {
+            type: PART_TYPES.TOOL_RESULT,
+            tool_use_id: toolCallId,
+            content: functionResult,
+          };
+        }
       );
-      messages.push(toolResponseMessage);
 
-      // Send tool result message to WebSocket for complete conversation history
-      if (websocket) {
-        websocket.send(
-          JSON.stringify({
-            role: MESSAGE_ROLES.TOOL,
-            name: toolName,
-            content: functionResult,
-            tool_call_id: toolCallId,
-          })
-        );
-      }
+      messages.push({ role: MESSAGE_ROLES.USER, content: toolResults });
 
-      // Make recursive API call with updated messages
-      console.log('Making recursive API call after tool execution...');
       const result = await this.makeApiCall(messages, '', websocket, doStream);
       return result.response;
     } catch (error) {
-      console.error('Error in Anthropic synchronizeMessageContextToClient:', error);
+      console.error('Error handling Anthropic tool calls:', error);
 
-      if (websocket) {
+      // A cancelled turn is reported by the connection handler, not as a tool failure
+      if (websocket && !this.abortSignal?.aborted) {
         websocket.send(
           JSON.stringify({
             error: `Tool execution failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -565,5 +561,5 @@ export class AnthropicProvider extends BaseServiceProvider {
     }
   }
 
-  // logConversationMemory and manageConversationId are now inherited from BaseServiceProvider
+  // logConversationMemory is inherited from BaseServiceProvider
 }
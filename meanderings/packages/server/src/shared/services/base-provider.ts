@@ -1,10 +1,47 @@
-import { writeFileSync, mkdirSync } from 'fs';
-import { dirname } from 'path';
-import { AgentConfig, Message, ServiceProvider, ToolRegistry, UsageInfo } from '../types/index.js';
+import {
+  AgentConfig,
+  GenerationSettings,
+  Message,
+  ServiceProvider,
+  ToolRegistry,
+  TurnUsage,
+  UsageInfo,
+} from '../types/index.js';
 import { ToolRegistryManagerAdapter } from '../tools/dynamic-tool-registry.js';
-import { _TOOL_REGISTRY } from '../tools/tool-function-decorator.js';
+import { _TOOL_REGISTRY, ToolContext } from '../tools/tool-function-decorator.js';
+import {
+  formatToolRefusal,
+  resolveToolApprovalPolicy,
+  ToolApprovalDecision,
+  ToolApprovalHandler,
+  ToolApprovalPolicy,
+} from '../tools/tool-approval.js';
+import { DEFAULT_TOOL_CONCURRENCY } from '../tools/tool-execution.js';
+import { getToolArgumentSchema } from '../tools/tool-argument-validation.js';
+import {
+  DEFAULT_TOOL_CALL_RETRIES,
+  formatToolCallCorrection,
+  repairToolCall,
+} from '../tools/tool-call-repair.js';
+import {
+  DEFAULT_MAX_TOOL_ITERATIONS,
+  formatToolLoopStop,
+  ToolLoopGuard,
+} from '../tools/tool-loop-guard.js';
+import { randomUUID } from 'crypto';
 import { MESSAGE_ROLES } from '@ailumina/shared';
 import { sanitizeToolName, ToolNameMapping } from '../utils/tool-name-sanitizer.js';
+import { ConversationStore } from './conversation-store.js';
+import { UsageLedger } from './usage-ledger.js';
+import { ModelPricing } from '../config/model-pricing.js';
+import { DEFAULT_TEMPERATURE } from './generation-settings.js';
+import {
+  DEFAULT_RESPONSE_SCHEMA_RETRIES,
+  formatStructuredOutputCorrection,
+  readStructuredResult,
+  responseSchemaFormat,
+} from './structured-output.js';
+import { GenerationOptions } from '../types/transport-types.js';
 
 /**
  * Base class for all AI service providers
@@ -16,9 +53,37 @@ export abstract class BaseServiceProvider implements ServiceProvider {
   public model_name: string;
   public tool_registry?: ToolRegistry;
   public usage_info: UsageInfo = {};
+  public conversation_id?: string;
+  public agent_key?: string;
+  // Agents that delegated to this one, outermost first; empty for a top-level agent
+  public delegation_chain: string[] = [];
   protected system_prompt?: string;
   protected toolRegistryAdapter?: ToolRegistryManagerAdapter;
   protected toolNameMapping: Map<string, ToolNameMapping> = new Map();
+  protected abortSignal?: AbortSignal;
+  // Overrides the provider's output token limit, e.g. for MCP sampling requests
+  protected maxTokens?: number;
+  // The agent's generation settings, with the current request's overrides applied
+  protected generation: GenerationSettings;
+  private agentGeneration: GenerationSettings;
+  // Schema the final answer must match, and how often each request was asked again for it
+  protected responseSchema?: Record<string, unknown>;
+  private structuredOutputRetries = new WeakMap<Message[], number>();
+  protected toolPolicies: Record<string, ToolApprovalPolicy>;
+  protected toolConcurrency: number;
+  protected toolCallRetries: number;
+  // Tool calls each request made that couldn't be repaired, and the request whose round runs
+  private malformedToolCalls = new WeakMap<Message[], number>();
+  private toolCallRequest?: Message[];
+  protected maxToolIterations: number;
+  // One guard per request, keyed by the message list its tool loop passes along
+  private toolLoops = new WeakMap<Message[], ToolLoopGuard>();
+  // Why the tool loop was stopped, while its wrap-up completion runs; tools are off then
+  protected toolLoopStopReason?: string;
+  private toolApprovalHandler?: ToolApprovalHandler;
+  private approvalQueue: Promise<unknown> = Promise.resolve();
+  private apiCallStartedAt = performance.now();
+  private turnUsage: TurnUsage = BaseServiceProvider.emptyTurnUsage();
 
   constructor(
     agentConfig: AgentConfig,
@@ -31,6 +96,13 @@ export abstract class BaseServiceProvider implements ServiceProvider {
     this.model_name = agentConfig.model_name;
     this.tool_registry = toolRegistry;
     this.system_prompt = agentConfig.system_prompt;
+    this.toolPolicies = agentConfig.tool_policies ?? {};
+    this.toolConcurrency = agentConfig.tool_concurrency ?? DEFAULT_TOOL_CONCURRENCY;
+    this.toolCallRetries = agentConfig.tool_call_retries ?? DEFAULT_TOOL_CALL_RETRIES;
+    this.maxToolIterations = agentConfig.max_tool_iterations ?? DEFAULT_MAX_TOOL_ITERATIONS;
+    this.agentGeneration = agentConfig.generation ?? {};
+    this.generation = this.agentGeneration;
+    this.responseSchema = agentConfig.response_schema;
 
     // Use provided adapter if provided
     this.toolRegistryAdapter = toolRegistryAdapter;
@@ -59,7 +131,9 @@ export abstract class BaseServiceProvider implements ServiceProvider {
     websocket: unknown,
     content: string,
     toolCalls?: unknown[],
-    isFinal = true
+    isFinal = true,
+    // Added to the final assistant message, e.g. structured_result
+    finalFields?: Record<string, unknown>
   ): void {
     if (!websocket) return;
 
@@ -88,6 +162,7 @@ export abstract class BaseServiceProvider implements ServiceProvider {
           role: MESSAGE_ROLES.ASSISTANT,
           content: content,
           final_sentence: true,
+          ...finalFields,
         };
 
         if (toolCalls && toolCalls.length > 0) {
@@ -124,33 +199,24 @@ export abstract class BaseServiceProvider implements ServiceProvider {
 
   /**
    * Common conversation memory logging
+   * Persists the conversation in the ConversationStore, which forwards it to its sinks.
+   * Every turn of a conversation is written under the same conversation id.
    */
   logConversationMemory(messages: Message[]): string | null {
     try {
-      const conversationId = this.manageConversationId();
-
-      const scratchPadDir = process.env.SCRATCH_PAD_DIR || 'api/scratchpad';
-      const filename = `${scratchPadDir}/${conversationId}.json`;
-
-      const memoryLog = {
-        identity_info: {
-          agent_name: this.agent_name,
-          conversation_id: conversationId,
-          created_datetime: new Date().toISOString(),
-          model: this.model_name,
-          service_provider: this.service_provider,
-        },
+      // Providers used outside a WebSocket connection get an id on first use
+      this.conversation_id ??= randomUUID();
+      const conversationId = this.conversation_id;
+
+      ConversationStore.getInstance().save({
+        conversation_id: conversationId,
+        agent_name: this.agent_name,
+        agent_key: this.agent_key,
+        service_provider: this.service_provider,
+        model_name: this.model_name,
         messages: messages,
         usage_info: this.formatUsageInfo(),
-      };
-
-      // Ensure directory exists
-      mkdirSync(dirname(filename), { recursive: true });
-
-      // Write conversation log
-      writeFileSync(filename, JSON.stringify(memoryLog, null, 2), 'utf8');
-
-      console.log(`Conversation memory updated in ${filename}`);
+      });
 
       return conversationId;
     } catch (error) {
@@ -163,32 +229,96 @@ export abstract class BaseServiceProvider implements ServiceProvider {
    * Format usage info for different providers
    */
   protected formatUsageInfo(): Record<string, unknown> {
-    // Handle different provider token naming conventions
-    const inputTokens = this.usage_info.input_tokens || this.usage_info.prompt_tokens || 0;
-    const outputTokens = this.usage_info.output_tokens || this.usage_info.completion_tokens || 0;
-    const totalTokens = this.usage_info.total_tokens || inputTokens + outputTokens;
+    return {
+      ...BaseServiceProvider.normalizeUsage(this.usage_info),
+      original: this.usage_info,
+    };
+  }
+
+  /**
+   * Handle different provider token naming conventions
+   */
+  private static normalizeUsage(usage: UsageInfo) {
+    const inputTokens = usage.input_tokens || usage.prompt_tokens || 0;
+    const outputTokens = usage.output_tokens || usage.completion_tokens || 0;
 
     return {
-      cache_creation_input_tokens: this.usage_info.cache_creation_input_tokens || 0,
-      cache_read_input_tokens: this.usage_info.cache_read_input_tokens || 0,
+      cache_creation_input_tokens: usage.cache_creation_input_tokens || 0,
+      cache_read_input_tokens: usage.cache_read_input_tokens || 0,
       input_tokens: inputTokens,
       output_tokens: outputTokens,
-      total_tokens: totalTokens,
-      original: this.usage_info,
+      total_tokens: usage.total_tokens || inputTokens + outputTokens,
+    };
+  }
+
+  private static emptyTurnUsage(): TurnUsage {
+    return {
+      calls: 0,
+      input_tokens: 0,
+      output_tokens: 0,
+      cache_creation_input_tokens: 0,
+      cache_read_input_tokens: 0,
+      total_tokens: 0,
+      latency_ms: 0,
+      cost: null,
+      currency: ModelPricing.getInstance().getCurrency(),
     };
   }
 
   /**
-   * Generate conversation ID
+   * Mark the start of a provider API call; its latency runs until recordUsage
    */
-  protected manageConversationId(): string {
-    const timestamp = new Date()
-      .toISOString()
-      .replace(/[:.]/g, '')
-      .replace('T', '_')
-      .substring(0, 15);
-
-    return `${timestamp}_${this.agent_name}`;
+  protected beginApiCall(): void {
+    this.apiCallStartedAt = performance.now();
+  }
+
+  /**
+   * Store the usage reported for the API call that just finished and add it to the
+   * usage ledger and the running turn totals. Called once per call, with an empty
+   * object when the provider reported no usage, so every call is counted.
+   */
+  protected recordUsage(usage: UsageInfo): void {
+    this.usage_info = usage;
+
+    try {
+      const tokens = BaseServiceProvider.normalizeUsage(usage);
+      const record = UsageLedger.getInstance().record({
+        agent_name: this.agent_name,
+        conversation_id: this.conversation_id,
+        service_provider: this.service_provider,
+        model_name: this.model_name,
+        ...tokens,
+        latency_ms: performance.now() - this.apiCallStartedAt,
+      });
+
+      const turn = this.turnUsage;
+      turn.calls += 1;
+      turn.input_tokens += tokens.input_tokens;
+      turn.output_tokens += tokens.output_tokens;
+      turn.cache_creation_input_tokens += tokens.cache_creation_input_tokens;
+      turn.cache_read_input_tokens += tokens.cache_read_input_tokens;
+      turn.total_tokens += tokens.total_tokens;
+      turn.latency_ms += record.latency_ms;
+      if (record.cost !== null) {
+        turn.cost = (turn.cost ?? 0) + record.cost;
+      }
+    } catch (error) {
+      console.error('Error recording usage:', error);
+    }
+  }
+
+  /**
+   * Start counting usage for a new user request
+   */
+  public resetTurnUsage(): void {
+    this.turnUsage = BaseServiceProvider.emptyTurnUsage();
+  }
+
+  /**
+   * Usage summed over every API call since the last resetTurnUsage
+   */
+  public getTurnUsage(): TurnUsage {
+    return { ...this.turnUsage };
   }
 
   /**
@@ -296,6 +426,213 @@ export abstract class BaseServiceProvider implements ServiceProvider {
     toolCallId: string
   ): Message;
 
+  /**
+   * Set the signal that cancels the current turn (pass undefined once the turn is over).
+   * It is forwarded to the transport and to tools, and checked between tool iterations.
+   */
+  public setAbortSignal(signal?: AbortSignal): void {
+    this.abortSignal = signal;
+  }
+
+  /**
+   * Limit the output tokens of later API calls (undefined restores the provider default)
+   */
+  public setMaxTokens(maxTokens?: number): void {
+    this.maxTokens = maxTokens;
+  }
+
+  /**
+   * Use these generation settings for later API calls, e.g. the agent's with a request's
+   * overrides applied (undefined restores the agent's own)
+   */
+  public setGeneration(settings?: GenerationSettings): void {
+    this.generation = settings ?? this.agentGeneration;
+  }
+
+  /**
+   * Generation settings for the transport, for an API call with these messages.
+   * A forced tool_choice only applies until the request's first round of tool calls, and
+   * tools are off while a stopped tool loop is wrapped up.
+   */
+  protected generationOptions(messages: Message[], defaultMaxTokens?: number): GenerationOptions {
+    const { temperature, top_p, max_tokens, stop, seed, tool_choice, response_format } =
+      this.generation;
+
+    let toolChoice = tool_choice;
+    if (this.toolLoopStopReason) {
+      toolChoice = 'none';
+    } else if (typeof tool_choice === 'object') {
+      toolChoice = this.toolLoops.has(messages)
+        ? 'auto'
+        : { name: sanitizeToolName(tool_choice.name) };
+    } else if (tool_choice === 'required' && this.toolLoops.has(messages)) {
+      toolChoice = 'auto';
+    }
+
+    return {
+      // Only top_p is sent when it's set without a temperature
+      temperature: temperature ?? (top_p === undefined ? DEFAULT_TEMPERATURE : undefined),
+      topP: top_p,
+      maxTokens: this.maxTokens ?? max_tokens ?? defaultMaxTokens,
+      stop,
+      seed,
+      toolChoice,
+      responseFormat: this.responseSchema
+        ? responseSchemaFormat(this.responseSchema)
+        : response_format,
+    };
+  }
+
+  /**
+   * Finish the request with the model's final answer: add it to the messages and send it
+   * to the client. For an agent with a response_schema the object read from the answer is
+   * returned and sent as structured_result, and an answer that doesn't match is sent back
+   * with the problems and asked for again while retries are left.
+   */
+  protected async finishResponse(
+    text: string,
+    messages: Message[],
+    websocket: unknown,
+    doStream: boolean
+  ): Promise<{ response: unknown; completeMessages: Message[]; structured_result?: unknown }> {
+    const response: Message = { role: MESSAGE_ROLES.ASSISTANT, content: text };
+    messages.push(response);
+    if (!this.responseSchema) {
+      this.sendWebSocketMessages(websocket, text, undefined, true);
+      return { response, completeMessages: messages };
+    }
+
+    const result = readStructuredResult(text, this.responseSchema);
+    if ('problems' in result) {
+      const retries = this.structuredOutputRetries.get(messages) ?? 0;
+      if (retries < DEFAULT_RESPONSE_SCHEMA_RETRIES) {
+        console.warn(
+          `Asking ${this.agent_name} again for an answer matching its response_schema: ${result.problems.join('; ')}`
+        );
+        this.structuredOutputRetries.set(messages, retries + 1);
+        messages.push({
+          role: MESSAGE_ROLES.USER,
+          content: formatStructuredOutputCorrection(result.problems, this.responseSchema),
+        });
+        return await this.makeApiCall(messages, '', websocket, doStream);
+      }
+      console.warn(
+        `${this.agent_name} gave no answer matching its response_schema: ${result.problems.join('; ')}`
+      );
+    }
+
+    const structuredResult = 'value' in result ? result.value : null;
+    this.sendWebSocketMessages(websocket, text, undefined, true, {
+      structured_result: structuredResult,
+    });
+    return { response, completeMessages: messages, structured_result: structuredResult };
+  }
+
+  /**
+   * Stop the turn if the client has cancelled it
+   */
+  protected throwIfCancelled(): void {
+    if (this.abortSignal?.aborted) {
+      throw new Error('Turn cancelled by client');
+    }
+  }
+
+  /**
+   * Set who is asked about tool calls with a `confirm` policy.
+   * Without a handler those calls are refused.
+   */
+  public setToolApprovalHandler(handler?: ToolApprovalHandler): void {
+    this.toolApprovalHandler = handler;
+  }
+
+  /**
+   * Decide whether a tool call may run, asking the user when its policy is `confirm`
+   */
+  protected async checkToolApproval(
+    toolName: string,
+    toolArgsString: string
+  ): Promise<ToolApprovalDecision> {
+    let toolArgs: Record<string, unknown> = {};
+    try {
+      toolArgs = JSON.parse(toolArgsString || '{}') as Record<string, unknown>;
+    } catch {
+      // Unparseable arguments are reported by invokeTool if the call goes ahead
+    }
+
+    const originalName = this.getOriginalToolName(toolName);
+    const policy = resolveToolApprovalPolicy(originalName, toolArgs, this.toolPolicies);
+
+    if (policy === 'auto') {
+      return { approved: true };
+    }
+    if (policy === 'deny') {
+      return { approved: false, reason: `Tool '${originalName}' is not allowed for this agent` };
+    }
+    const handler = this.toolApprovalHandler;
+    if (!handler) {
+      return {
+        approved: false,
+        reason: `Tool '${originalName}' needs the user's confirmation, but there is no one to ask`,
+      };
+    }
+
+    // Tool calls running in parallel ask in turn, so the user answers one request at a time
+    const pendingDecision = this.approvalQueue.then(() =>
+      handler({ tool_name: originalName, arguments: toolArgs })
+    );
+    this.approvalQueue = pendingDecision.catch(() => undefined);
+
+    const decision = await pendingDecision;
+    this.throwIfCancelled();
+    return decision;
+  }
+
+  /**
+   * Check a round of tool calls against the request's tool loop guard before it runs.
+   * Returns null if the round may run. A loop that has to stop is wrapped up instead:
+   * the model is told why and asked for a final answer with tool_choice none, and that
+   * answer is returned as the result of the request.
+   */
+  protected async guardToolLoop(
+    toolCalls: unknown[],
+    messageContent: string | null,
+    messages: Message[],
+    websocket?: unknown,
+    doStream = false
+  ): Promise<{ response: unknown; completeMessages: Message[] } | null> {
+    if (this.toolLoopStopReason) {
+      // Some servers ignore tool_choice; calls made in the wrap-up are dropped
+      const response: Message = {
+        role: MESSAGE_ROLES.ASSISTANT,
+        content: messageContent || `I stopped because ${this.toolLoopStopReason}.`,
+      };
+      this.sendWebSocketMessages(websocket, response.content as string, undefined, true);
+      messages.push(response);
+      return { response, completeMessages: messages };
+    }
+
+    let guard = this.toolLoops.get(messages);
+    if (!guard) {
+      guard = new ToolLoopGuard(this.maxToolIterations);
+      this.toolLoops.set(messages, guard);
+    }
+    const calls = toolCalls.map((toolCall) => this.extractToolCallInfo(toolCall));
+    const reason = this.malformedToolCallStop(calls, messages) ?? guard.check(calls);
+    if (!reason) {
+      this.toolCallRequest = messages;
+      return null;
+    }
+
+    console.warn(`Stopping the tool loop of ${this.agent_name}: ${reason}`);
+    messages.push({ role: MESSAGE_ROLES.USER, content: formatToolLoopStop(reason) });
+    this.toolLoopStopReason = reason;
+    try {
+      return await this.makeApiCall(messages, '', websocket, doStream);
+    } finally {
+      this.toolLoopStopReason = undefined;
+    }
+  }
+
   /**
    * Update the tool registry adapter with a new dynamic registry
    */
@@ -324,6 +661,8 @@ export abstract class BaseServiceProvider implements ServiceProvider {
         return null;
       }
 
+      this.throwIfCancelled();
+
       // Extract tool call information using provider-specific method
       const {
         id: toolCallId,
@@ -365,7 +704,7 @@ export abstract class BaseServiceProvider implements ServiceProvider {
       const startTime = performance.now();
 
       try {
-        functionResult = await this.invokeTool(toolName, toolArgs);
+        functionResult = await this.invokeTool(toolName, toolArgs, websocket, toolCall);
       } catch (error) {
         // Convert tool execution error to a result that can be fed back to the AI
         functionResult = `Error: ${error instanceof Error ? error.message : 'Tool execution failed'}`;
@@ -421,6 +760,7 @@ export abstract class BaseServiceProvider implements ServiceProvider {
       // which are handled by the individual service providers
 
       // Make recursive API call to get final response after tool execution
+      this.throwIfCancelled();
       console.log('Making recursive API call after tool execution...');
       const recursiveResult = await this.makeApiCall(messages, '', undefined, doStream);
 
@@ -448,7 +788,8 @@ export abstract class BaseServiceProvider implements ServiceProvider {
     } catch (error) {
       console.error('Error in synchronizeMessageContextToClient:', error);
 
-      if (websocket) {
+      // A cancelled turn is reported by the connection handler, not as a tool failure
+      if (websocket && !this.abortSignal?.aborted) {
         const ws = websocket as { send: (data: string) => void };
         ws.send(
           JSON.stringify({
@@ -461,31 +802,137 @@ export abstract class BaseServiceProvider implements ServiceProvider {
     }
   }
 
+  private knownToolNames(): string[] {
+    return this.tool_registry
+      ? Object.keys(this.tool_registry)
+      : [..._TOOL_REGISTRY.entries()]
+          .filter(([, entry]) => entry.definition.enabled)
+          .map(([name]) => name);
+  }
+
+  /**
+   * Why the tool loop should stop for calls that can't be read: the request has already
+   * used up its retries and makes another one. Null otherwise.
+   */
+  private malformedToolCallStop(
+    calls: { name: string; arguments: string }[],
+    messages: Message[]
+  ): string | null {
+    const used = this.malformedToolCalls.get(messages) ?? 0;
+    if (used <= this.toolCallRetries) {
+      return null;
+    }
+    const knownNames = this.knownToolNames();
+    const malformed = calls.filter((call) => {
+      const repair = repairToolCall(call.name, call.arguments, knownNames, this.toolNameMapping);
+      return !repair.name || !repair.arguments;
+    }).length;
+    return malformed > 0 ? `it made ${used + malformed} tool calls that could not be read` : null;
+  }
+
+  /**
+   * Repair a tool call's name and arguments before it runs (see tools/tool-call-repair.ts).
+   * The call in the conversation gets the repaired arguments, so the history stays valid
+   * JSON for the next request. A call that can't be repaired is answered with a
+   * correction instead; once the request has used up its retries, the next one stops the
+   * tool loop (see malformedToolCallStop).
+   */
+  private repairToolCall(
+    toolName: string,
+    toolArgsString: string,
+    toolCall?: unknown
+  ): { name: string; args: Record<string, unknown>; repairs: string[] } | { result: string } {
+    const knownNames = this.knownToolNames();
+    const repair = repairToolCall(toolName, toolArgsString, knownNames, this.toolNameMapping);
+
+    const call = toolCall as { function?: { arguments?: unknown } } | undefined;
+    if (
+      (repair.problem || repair.repairs.length > 0) &&
+      typeof call?.function?.arguments === 'string'
+    ) {
+      call.function.arguments = JSON.stringify(repair.arguments ?? {});
+    }
+
+    if (!repair.name || !repair.arguments) {
+      // Calls made outside a guarded tool loop are corrected on their own
+      const request = this.toolCallRequest ?? [];
+      const malformed = (this.malformedToolCalls.get(request) ?? 0) + 1;
+      this.malformedToolCalls.set(request, malformed);
+      const retriesLeft = this.toolCallRetries - malformed + 1;
+      console.warn(`Malformed tool call '${toolName}': ${repair.problem}`);
+      return {
+        result: formatToolCallCorrection(
+          toolName,
+          repair.problem ?? 'The call could not be read',
+          knownNames.map(sanitizeToolName),
+          retriesLeft
+        ),
+      };
+    }
+
+    if (repair.repairs.length > 0) {
+      console.log(`Repaired tool call '${toolName}': ${repair.repairs.join('; ')}`);
+    }
+    return { name: repair.name, args: repair.arguments, repairs: repair.repairs };
+  }
+
   /**
    * Invoke a tool by name with arguments
    * Uses the dynamic tool registry to execute the tool
    */
-  protected async invokeTool(toolName: string, toolArgsString: string): Promise<string> {
-    try {
-      // Parse tool arguments with proper type safety
-      let toolArgs = JSON.parse(toolArgsString) as Record<string, unknown>;
-
-      // Unwrap incorrectly nested parameters (some LLMs wrap params under dummy keys)
-      // If there's only one key and its value is an object, unwrap it
-      const keys = Object.keys(toolArgs);
-      if (keys.length === 1 && typeof toolArgs[keys[0]] === 'object' && toolArgs[keys[0]] !== null) {
-        const potentialWrapper = toolArgs[keys[0]] as Record<string, unknown>;
-        // Check if the wrapped object has the expected parameter names
-        if (Object.keys(potentialWrapper).length > 0) {
-          console.log(`[invokeTool] Unwrapping nested parameters for ${toolName}: ${keys[0]} -> direct params`);
-          toolArgs = potentialWrapper;
-        }
+  protected async invokeTool(
+    calledName: string,
+    toolArgsString: string,
+    websocket?: unknown,
+    toolCall?: unknown
+  ): Promise<string> {
+    const repaired = this.repairToolCall(calledName, toolArgsString, toolCall);
+    if ('result' in repaired) {
+      return repaired.result;
+    }
+    const toolName = repaired.name;
+    let toolArgs = repaired.args;
+
+    // Unwrap incorrectly nested parameters (some LLMs wrap params under dummy keys)
+    // If there's only one key, it isn't a declared parameter and its value is an object, unwrap it
+    const keys = Object.keys(toolArgs);
+    const declared = getToolArgumentSchema(this.tool_registry?.[toolName] ?? {}).properties;
+    if (
+      keys.length === 1 &&
+      !(declared && typeof declared === 'object' && keys[0] in declared) &&
+      typeof toolArgs[keys[0]] === 'object' &&
+      toolArgs[keys[0]] !== null
+    ) {
+      const potentialWrapper = toolArgs[keys[0]] as Record<string, unknown>;
+      // Check if the wrapped object has the expected parameter names
+      if (Object.keys(potentialWrapper).length > 0) {
+        console.log(
+          `[invokeTool] Unwrapping nested parameters for ${toolName}: ${keys[0]} -> direct params`
+        );
+        toolArgs = potentialWrapper;
       }
+    }
+
+    // Tools with a confirm policy wait here for the user; refusals go back to the model as the result.
+    // The check sees the arguments the tool will run with, after any unwrapping
+    const approval = await this.checkToolApproval(toolName, JSON.stringify(toolArgs));
+    if (!approval.approved) {
+      console.log(`Tool call '${toolName}' not approved: ${approval.reason || 'declined'}`);
+      return formatToolRefusal(toolName, approval.reason || 'The user declined this tool call');
+    }
 
+    try {
       // Create tool context
-      const toolContext = {
+      const toolContext: ToolContext = {
         agentName: this.agent_name,
-        // Add any custom settings if available
+        sessionId: this.conversation_id,
+        signal: this.abortSignal,
+        websocket:
+          websocket && typeof websocket === 'object' && 'send' in websocket
+            ? (websocket as { send(data: string): void })
+            : undefined,
+        delegationChain: [...this.delegation_chain, this.agent_name],
+        requestApproval: this.toolApprovalHandler,
       };
 
       // Execute the tool using the dynamic registry adapter
@@ -494,8 +941,12 @@ export abstract class BaseServiceProvider implements ServiceProvider {
       }
       const result = await this.toolRegistryAdapter.executeTool(toolName, toolArgs, toolContext);
 
-      // Convert result to string for consistency
-      return typeof result === 'string' ? result : JSON.stringify(result);
+      // Convert result to string for consistency; repairs are noted with the result, so
+      // the conversation log and the model both see what was changed
+      const resultString = typeof result === 'string' ? result : JSON.stringify(result);
+      return repaired.repairs.length > 0
+        ? `${resultString}\n\n[Tool call repaired: ${repaired.repairs.join('; ')}]`
+        : resultString;
     } catch (error) {
       console.error(`Error executing tool '${toolName}':`, error);
       throw new Error(
@@ -0,0 +1,441 @@
+/**
+ * Context Manager
+ *
+ * Fits a conversation history into the model's context window before it is sent.
+ * The client resends the whole history every turn, so long sessions would otherwise
+ * fail with context-length errors. Histories are trimmed a whole turn at a time
+ * (a user message plus every assistant message, tool call and tool result it led to),
+ * so tool calls are never separated from their results.
+ */
+
+import { AgentConfig, ContextStrategy, Message, ServiceProvider } from '../types/index.js';
+import { MESSAGE_ROLES } from '../constants/message-constants.js';
+
+/**
+ * Context window sizes in tokens, matched by longest model name prefix
+ */
+const MODEL_CONTEXT_WINDOWS: Record<string, number> = {
+  claude: 200_000,
+  'gpt-4.1': 1_047_576,
+  'gpt-4o': 128_000,
+  'gpt-4-turbo': 128_000,
+  'gpt-4': 8_192,
+  'gpt-3.5-turbo': 16_385,
+  o1: 200_000,
+  o3: 200_000,
+  'o4-mini': 200_000,
+  'gemini-1.5-pro': 2_097_152,
+  gemini: 1_048_576,
+  'llama-3.1': 131_072,
+  'llama-3.3': 131_072,
+  'meta-llama/llama-4': 131_072,
+  'qwen/qwen3': 131_072,
+  'gemma2-9b': 8_192,
+};
+
+/**
+ * Used when the model is not in the table
+ */
+const PROVIDER_CONTEXT_WINDOWS: Record<string, number> = {
+  ANTHROPIC: 200_000,
+  OPENAI: 128_000,
+  GOOGLE: 1_048_576,
+  GROQ: 131_072,
+  OLLAMA: 8_192,
+  LMSTUDIO: 8_192,
+};
+
+const DEFAULT_CONTEXT_WINDOW = 8_192;
+const DEFAULT_RESERVE_OUTPUT_TOKENS = 8_192;
+const DEFAULT_KEEP_RECENT_TURNS = 2;
+const CHARS_PER_TOKEN = 4;
+
+export const DROPPED_TOOL_RESULT = '[Tool result removed to fit the context window]';
+const SUMMARY_PREFIX = 'Summary of the earlier conversation:';
+
+const SUMMARY_PROMPT = `You summarise conversations so they can be continued with less context.
+Write a concise summary of the conversation below: the user's goals, facts and decisions
+established, tool results that are still relevant, and anything left unresolved.
+Reply with the summary only.`;
+
+/**
+ * Context window size for a model: longest matching prefix, then the provider default
+ */
+export function getContextWindow(serviceProvider: string, modelName: string): number {
+  const prefix = Object.keys(MODEL_CONTEXT_WINDOWS)
+    .filter((key) => modelName.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  if (prefix) {
+    return MODEL_CONTEXT_WINDOWS[prefix];
+  }
+
+  return PROVIDER_CONTEXT_WINDOWS[serviceProvider] ?? DEFAULT_CONTEXT_WINDOW;
+}
+
+/**
+ * Rough token count; good enough to decide when to trim without a tokenizer per provider
+ */
+export function estimateTokens(value: unknown): number {
+  const text = typeof value === 'string' ? value : JSON.stringify(value ?? '');
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+function isToolResultMessage(message: Message): boolean {
+  if (message.role === MESSAGE_ROLES.TOOL || message.tool_call_id) {
+    return true;
+  }
+  if (Array.isArray(message.content)) {
+    return message.content.some((block) => block.type === 'tool_result');
+  }
+  return (message.parts || []).some((part) => part.functionResponse !== undefined);
+}
+
+function messageText(message: Message): string {
+  if (typeof message.content === 'string') {
+    return message.content;
+  }
+  const texts = [
+    ...(Array.isArray(message.content) ? message.content : []).map((block) => block.text),
+    ...(message.parts || []).map((part) => part.text),
+  ];
+  return texts.filter((text): text is string => typeof text === 'string').join('\n');
+}
+
+/**
+ * Replace tool result payloads with a placeholder, keeping the message so its call stays paired
+ */
+function dropToolResult(message: Message): Message {
+  if (message.role === MESSAGE_ROLES.TOOL || message.tool_call_id) {
+    return { ...message, content: DROPPED_TOOL_RESULT };
+  }
+  if (Array.isArray(message.content)) {
+    return {
+      ...message,
+      content: message.content.map((block) =>
+        block.type === 'tool_result' ? { ...block, content: DROPPED_TOOL_RESULT } : block
+      ),
+    };
+  }
+  return {
+    ...message,
+    parts: (message.parts || []).map((part) => {
+      const functionResponse = part.functionResponse as { name?: string } | undefined;
+      return functionResponse
+        ? {
+            functionResponse: {
+              name: functionResponse.name,
+              response: { content: DROPPED_TOOL_RESULT },
+            },
+          }
+        : part;
+    }),
+  };
+}
+
+export interface ContextManagerOptions {
+  agentConfig: AgentConfig;
+  /** Tool definitions sent with every request, counted against the window */
+  toolRegistry?: Record<string, unknown>;
+  /**
+   * Builds the provider that summarises older turns (summarize strategy), given the
+   * summariser's system prompt. Called once, on first use.
+   */
+  createSummarizer?: (systemPrompt: string) => ServiceProvider;
+}
+
+/**
+ * A history fitted to the window, with what was done to it
+ */
+export interface FittedContext {
+  messages: Message[];
+  estimated_tokens: number;
+  budget_tokens: number;
+  dropped_turns: number;
+  dropped_tool_results: number;
+  summarized_turns: number;
+}
+
+interface SummaryCache {
+  coveredMessages: number;
+  lastCovered: string;
+  summary: string;
+}
+
+export class ContextManager {
+  private agentConfig: AgentConfig;
+  private toolRegistry?: Record<string, unknown>;
+  private createSummarizer?: (systemPrompt: string) => ServiceProvider;
+  private summarizer?: ServiceProvider;
+  private summaryCache?: SummaryCache;
+
+  constructor(options: ContextManagerOptions) {
+    this.agentConfig = options.agentConfig;
+    this.toolRegistry = options.toolRegistry;
+    this.createSummarizer = options.createSummarizer;
+  }
+
+  getStrategy(): ContextStrategy {
+    return this.agentConfig.context_management?.strategy ?? 'sliding_window';
+  }
+
+  /**
+   * Window of the smallest model the agent may run on, including its fallbacks
+   */
+  getContextWindow(): number {
+    const configured = this.agentConfig.context_management?.context_window;
+    if (configured) {
+      return configured;
+    }
+
+    return Math.min(
+      ...[this.agentConfig, ...(this.agentConfig.fallbacks || [])].map((model) =>
+        getContextWindow(model.service_provider, model.model_name)
+      )
+    );
+  }
+
+  /**
+   * Tokens available for the history once the reply, system prompt, tools and new input are set aside
+   */
+  getHistoryBudget(userInput = ''): number {
+    const window = this.getContextWindow();
+    // Small local models can't set aside the default reply size, so cap it at a quarter of the window
+    const reserve =
+      this.agentConfig.context_management?.reserve_output_tokens ??
+      Math.min(DEFAULT_RESERVE_OUTPUT_TOKENS, Math.floor(window / 4));
+    const overhead =
+      estimateTokens(this.agentConfig.system_prompt) +
+      (this.toolRegistry ? estimateTokens(this.toolRegistry) : 0) +
+      estimateTokens(userInput);
+
+    return Math.max(window - reserve - overhead, 0);
+  }
+
+  /**
+   * Trim the history to the budget using the agent's strategy.
+   * Histories that already fit are returned unchanged.
+   */
+  async fitToWindow(
+    messages: Message[],
+    userInput = '',
+    signal?: AbortSignal
+  ): Promise<FittedContext> {
+    const budget = this.getHistoryBudget(userInput);
+    const fitted: FittedContext = {
+      messages,
+      estimated_tokens: estimateTokens(messages),
+      budget_tokens: budget,
+      dropped_turns: 0,
+      dropped_tool_results: 0,
+      summarized_turns: 0,
+    };
+
+    if (fitted.estimated_tokens <= budget) {
+      return fitted;
+    }
+
+    const { system, turns } = ContextManager.splitTurns(messages);
+    const keepRecent =
+      this.agentConfig.context_management?.keep_recent_turns ?? DEFAULT_KEEP_RECENT_TURNS;
+    const trimmable = Math.max(turns.length - keepRecent, 0);
+
+    switch (this.getStrategy()) {
+      case 'drop_tool_results':
+        this.dropOldToolResults(system, turns, trimmable, budget, fitted);
+        if (fitted.estimated_tokens > budget) {
+          this.slideWindow(system, turns, trimmable, budget, fitted);
+        }
+        break;
+
+      case 'summarize':
+        try {
+          await this.summarizeOldTurns(system, turns, trimmable, budget, fitted, signal);
+        } catch (error) {
+          if (signal?.aborted) {
+            throw error;
+          }
+          console.warn(
+            `⚠️ Summarising context for ${this.agentConfig.agent_name} failed, dropping old turns instead:`,
+            error
+          );
+          this.slideWindow(system, turns, trimmable, budget, fitted);
+        }
+        break;
+
+      case 'sliding_window':
+        this.slideWindow(system, turns, trimmable, budget, fitted);
+        break;
+    }
+
+    if (fitted.estimated_tokens > budget) {
+      console.warn(
+        `⚠️ Context for ${this.agentConfig.agent_name} is still ~${fitted.estimated_tokens} tokens after trimming (budget ${budget}); the last ${keepRecent} turns are always kept`
+      );
+    }
+
+    return fitted;
+  }
+
+  /**
+   * Split a history into leading system messages and turns. A turn starts at each user
+   * message that is not a tool result, so every tool call/result pair lives in one turn.
+   */
+  static splitTurns(messages: Message[]): { system: Message[]; turns: Message[][] } {
+    const system: Message[] = [];
+    const turns: Message[][] = [];
+
+    for (const message of messages) {
+      if (message.role === MESSAGE_ROLES.SYSTEM && turns.length === 0) {
+        system.push(message);
+      } else if (
+        turns.length === 0 ||
+        (message.role === MESSAGE_ROLES.USER && !isToolResultMessage(message))
+      ) {
+        turns.push([message]);
+      } else {
+        turns[turns.length - 1].push(message);
+      }
+    }
+
+    return { system, turns };
+  }
+
+  private slideWindow(
+    system: Message[],
+    turns: Message[][],
+    trimmable: number,
+    budget: number,
+    fitted: FittedContext
+  ): void {
+    let dropped = 0;
+    let kept = [...system, ...turns.flat()];
+
+    while (estimateTokens(kept) > budget && dropped < trimmable) {
+      dropped++;
+      kept = [...system, ...turns.slice(dropped).flat()];
+    }
+
+    fitted.messages = kept;
+    fitted.estimated_tokens = estimateTokens(kept);
+    fitted.dropped_turns = dropped;
+  }
+
+  /**
+   * Replace tool results in older turns with a placeholder, oldest first.
+   * Turns are updated in place so a following sliding window sees the smaller turns.
+   */
+  private dropOldToolResults(
+    system: Message[],
+    turns: Message[][],
+    trimmable: number,
+    budget: number,
+    fitted: FittedContext
+  ): void {
+    for (let index = 0; index < trimmable; index++) {
+      if (estimateTokens([...system, ...turns.flat()]) <= budget) {
+        break;
+      }
+      turns[index] = turns[index].map((message) => {
+        if (!isToolResultMessage(message)) {
+          return message;
+        }
+        fitted.dropped_tool_results++;
+        return dropToolResult(message);
+      });
+    }
+
+    fitted.messages = [...system, ...turns.flat()];
+    fitted.estimated_tokens = estimateTokens(fitted.messages);
+  }
+
+  /**
+   * Replace the oldest turns with a summary written by the agent's own model
+   */
+  private async summarizeOldTurns(
+    system: Message[],
+    turns: Message[][],
+    trimmable: number,
+    budget: number,
+    fitted: FittedContext,
+    signal?: AbortSignal
+  ): Promise<void> {
+    // Leave room for the summary itself when deciding how many turns it replaces
+    const summaryAllowance = Math.floor(budget / 10);
+    let summarized = 0;
+    while (
+      summarized < trimmable &&
+      estimateTokens([...system, ...turns.slice(summarized).flat()]) + summaryAllowance > budget
+    ) {
+      summarized++;
+    }
+
+    if (summarized === 0) {
+      return;
+    }
+
+    const summary = await this.summarize(turns.slice(0, summarized).flat(), signal);
+    const summaryMessage: Message = {
+      role: MESSAGE_ROLES.USER,
+      content: `${SUMMARY_PREFIX}\n${summary}`,
+    };
+
+    fitted.messages = [...system, summaryMessage, ...turns.slice(summarized).flat()];
+    fitted.estimated_tokens = estimateTokens(fitted.messages);
+    fitted.summarized_turns = summarized;
+  }
+
+  /**
+   * Summarise messages, extending the previous summary when they continue the same history
+   */
+  private async summarize(messages: Message[], signal?: AbortSignal): Promise<string> {
+    const cache = this.summaryCache;
+    const continuesCache =
+      cache !== undefined &&
+      messages.length >= cache.coveredMessages &&
+      JSON.stringify(messages[cache.coveredMessages - 1]) === cache.lastCovered;
+
+    const newMessages = continuesCache ? messages.slice(cache.coveredMessages) : messages;
+    if (continuesCache && newMessages.length === 0) {
+      return cache.summary;
+    }
+
+    const transcript = newMessages
+      .map((message) => {
+        const text = isToolResultMessage(message)
+          ? `[tool result] ${JSON.stringify(message.content ?? message.parts ?? '')}`
+          : messageText(message);
+        return text ? `${message.role}: ${text}` : null;
+      })
+      .filter((line): line is string => line !== null)
+      .join('\n\n');
+
+    const request = continuesCache
+      ? `${SUMMARY_PREFIX}\n${cache.summary}\n\nThe conversation continued:\n\n${transcript}`
+      : transcript;
+
+    if (!this.createSummarizer) {
+      throw new Error('No summarizer configured');
+    }
+    this.summarizer ??= this.createSummarizer(SUMMARY_PROMPT);
+    this.summarizer.setAbortSignal?.(signal);
+
+    const result = (await this.summarizer.makeApiCall([], request, undefined, false)) as {
+      completeMessages?: Message[];
+    };
+
+    const reply = [...(result.completeMessages || [])]
+      .reverse()
+      .find((message) => message.role !== MESSAGE_ROLES.USER);
+    const summary = reply ? messageText(reply).trim() : '';
+    if (!summary) {
+      throw new Error('Summarizer returned no text');
+    }
+
+    this.summaryCache = {
+      coveredMessages: messages.length,
+      lastCovered: JSON.stringify(messages[messages.length - 1]),
+      summary,
+    };
+    return summary;
+  }
+}
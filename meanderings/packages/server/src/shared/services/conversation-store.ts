@@ -0,0 +1,439 @@
+/**
+ * Conversation Store
+ *
+ * Persists every agent conversation in SQLite, keyed by a stable conversation id,
+ * with a full-text index over the message text so past conversations can be listed,
+ * searched and resumed. Additional sinks (e.g. the scratchpad JSON writer) receive a
+ * copy of every saved conversation.
+ * Uses Bun's native bun:sqlite module
+ */
+import { Database } from 'bun:sqlite';
+import { join, dirname } from 'path';
+import { existsSync, mkdirSync, writeFileSync } from 'fs';
+import { Message } from '../types/index.js';
+import { MESSAGE_ROLES } from '../constants/message-constants.js';
+
+/**
+ * Conversation ids double as file names in sinks, so only allow a safe character set
+ */
+const CONVERSATION_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+export function isValidConversationId(conversationId: string): boolean {
+  return CONVERSATION_ID_PATTERN.test(conversationId);
+}
+
+/**
+ * A single persisted conversation
+ */
+export interface ConversationRecord {
+  conversation_id: string;
+  agent_name: string;
+  // agents.json key the conversation ran under, which /ws/{agent} resumes it by
+  agent_key?: string;
+  service_provider: string;
+  model_name: string;
+  messages: Message[];
+  usage_info: Record<string, unknown>;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Conversation metadata returned by list and search (messages omitted)
+ */
+export interface ConversationSummary {
+  conversation_id: string;
+  agent_name: string;
+  service_provider: string;
+  model_name: string;
+  title: string;
+  message_count: number;
+  created_at: string;
+  updated_at: string;
+  snippet?: string;
+}
+
+/**
+ * Pluggable destination for saved conversations
+ */
+export interface ConversationSink {
+  readonly name: string;
+  write(record: ConversationRecord): void;
+}
+
+/**
+ * Sink that writes each conversation to SCRATCH_PAD_DIR/<conversation_id>.json
+ * (the original conversation memory log format)
+ */
+export class ScratchpadConversationSink implements ConversationSink {
+  readonly name = 'scratchpad';
+  private directory: string;
+
+  constructor(directory?: string) {
+    this.directory = directory || process.env.SCRATCH_PAD_DIR || 'api/scratchpad';
+  }
+
+  write(record: ConversationRecord): void {
+    const filename = `${this.directory}/${record.conversation_id}.json`;
+
+    const memoryLog = {
+      identity_info: {
+        agent_name: record.agent_name,
+        conversation_id: record.conversation_id,
+        created_datetime: record.updated_at,
+        model: record.model_name,
+        service_provider: record.service_provider,
+      },
+      messages: record.messages,
+      usage_info: record.usage_info,
+    };
+
+    // Ensure directory exists
+    mkdirSync(dirname(filename), { recursive: true });
+
+    // Write conversation log
+    writeFileSync(filename, JSON.stringify(memoryLog, null, 2), 'utf8');
+
+    console.log(`Conversation memory updated in ${filename}`);
+  }
+}
+
+export interface ConversationStoreOptions {
+  dbPath?: string;
+  sinks?: ConversationSink[];
+}
+
+interface ConversationRow {
+  id: string;
+  agent_name: string;
+  agent_key: string | null;
+  service_provider: string;
+  model_name: string;
+  title: string;
+  message_count: number;
+  messages: string;
+  usage_info: string;
+  created_at: string;
+  updated_at: string;
+  snippet?: string;
+}
+
+const SUMMARY_COLUMNS = `c.id, c.agent_name, c.service_provider, c.model_name, c.title,
+  c.message_count, c.created_at, c.updated_at`;
+
+export class ConversationStore {
+  private static instance: ConversationStore;
+  private db: Database;
+  private sinks: ConversationSink[];
+
+  constructor(options: ConversationStoreOptions = {}) {
+    const dbPath =
+      options.dbPath ||
+      process.env.CONVERSATION_DB_PATH ||
+      join(process.cwd(), 'data', 'conversations.db');
+
+    if (dbPath !== ':memory:' && !existsSync(dirname(dbPath))) {
+      mkdirSync(dirname(dbPath), { recursive: true });
+    }
+
+    console.log(`[ConversationStore] Opening database: ${dbPath}`);
+    this.db = new Database(dbPath, { create: true });
+
+    // Enable Write-Ahead Logging for better concurrency
+    this.db.exec('PRAGMA journal_mode = WAL;');
+
+    this.initializeSchema();
+    this.sinks = options.sinks ?? [new ScratchpadConversationSink()];
+  }
+
+  static getInstance(): ConversationStore {
+    if (!ConversationStore.instance) {
+      ConversationStore.instance = new ConversationStore();
+    }
+    return ConversationStore.instance;
+  }
+
+  /**
+   * Initialize database schema
+   */
+  private initializeSchema(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS conversations (
+        id TEXT PRIMARY KEY,
+        agent_name TEXT NOT NULL,
+        service_provider TEXT NOT NULL,
+        model_name TEXT NOT NULL,
+        title TEXT NOT NULL,
+        message_count INTEGER NOT NULL,
+        messages TEXT NOT NULL,
+        usage_info TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_conversations_agent ON conversations(agent_name);
+      CREATE INDEX IF NOT EXISTS idx_conversations_updated ON conversations(updated_at);
+
+      CREATE VIRTUAL TABLE IF NOT EXISTS conversations_fts USING fts5(
+        conversation_id UNINDEXED,
+        content
+      );
+    `);
+
+    // Databases created before agent keys were recorded gain the column
+    const columns = (
+      this.db.query('PRAGMA table_info(conversations)').all() as { name: string }[]
+    ).map((column) => column.name);
+    if (!columns.includes('agent_key')) {
+      this.db.exec('ALTER TABLE conversations ADD COLUMN agent_key TEXT');
+    }
+  }
+
+  addSink(sink: ConversationSink): void {
+    this.removeSink(sink.name);
+    this.sinks.push(sink);
+  }
+
+  removeSink(name: string): void {
+    this.sinks = this.sinks.filter((sink) => sink.name !== name);
+  }
+
+  getSinks(): string[] {
+    return this.sinks.map((sink) => sink.name);
+  }
+
+  /**
+   * Create or replace a conversation and forward it to every sink.
+   * A failing sink is logged but never prevents the conversation from being stored.
+   */
+  save(conversation: Omit<ConversationRecord, 'created_at' | 'updated_at'>): ConversationRecord {
+    if (!isValidConversationId(conversation.conversation_id)) {
+      throw new Error(`Invalid conversation id: ${conversation.conversation_id}`);
+    }
+
+    const now = new Date().toISOString();
+    const existing = this.db
+      .query('SELECT created_at FROM conversations WHERE id = ?')
+      .get(conversation.conversation_id) as { created_at: string } | null;
+
+    const record: ConversationRecord = {
+      ...conversation,
+      created_at: existing?.created_at || now,
+      updated_at: now,
+    };
+
+    const save = this.db.transaction(() => {
+      this.db
+        .query(
+          `INSERT OR REPLACE INTO conversations
+            (id, agent_name, agent_key, service_provider, model_name, title, message_count,
+             messages, usage_info, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+        )
+        .run(
+          record.conversation_id,
+          record.agent_name,
+          record.agent_key ?? null,
+          record.service_provider,
+          record.model_name,
+          ConversationStore.deriveTitle(record.messages),
+          record.messages.length,
+          JSON.stringify(record.messages),
+          JSON.stringify(record.usage_info),
+          record.created_at,
+          record.updated_at
+        );
+
+      this.db
+        .query('DELETE FROM conversations_fts WHERE conversation_id = ?')
+        .run(record.conversation_id);
+      this.db
+        .query('INSERT INTO conversations_fts (conversation_id, content) VALUES (?, ?)')
+        .run(record.conversation_id, ConversationStore.extractText(record.messages).join('\n'));
+    });
+    save();
+
+    for (const sink of this.sinks) {
+      try {
+        sink.write(record);
+      } catch (error) {
+        console.error(`[ConversationStore] Sink '${sink.name}' failed:`, error);
+      }
+    }
+
+    return record;
+  }
+
+  /**
+   * List conversations, most recently updated first
+   */
+  list(
+    options: { agentName?: string; limit?: number; offset?: number } = {}
+  ): ConversationSummary[] {
+    const limit = options.limit ?? 50;
+    const offset = options.offset ?? 0;
+
+    const rows = options.agentName
+      ? this.db
+          .query(
+            `SELECT ${SUMMARY_COLUMNS} FROM conversations c WHERE c.agent_name = ?
+             ORDER BY c.updated_at DESC LIMIT ? OFFSET ?`
+          )
+          .all(options.agentName, limit, offset)
+      : this.db
+          .query(
+            `SELECT ${SUMMARY_COLUMNS} FROM conversations c
+             ORDER BY c.updated_at DESC LIMIT ? OFFSET ?`
+          )
+          .all(limit, offset);
+
+    return (rows as ConversationRow[]).map((row) => ConversationStore.toSummary(row));
+  }
+
+  count(agentName?: string): number {
+    const row = agentName
+      ? this.db
+          .query('SELECT COUNT(*) AS total FROM conversations WHERE agent_name = ?')
+          .get(agentName)
+      : this.db.query('SELECT COUNT(*) AS total FROM conversations').get();
+    return (row as { total: number }).total;
+  }
+
+  get(conversationId: string): ConversationRecord | null {
+    const row = this.db
+      .query('SELECT * FROM conversations WHERE id = ?')
+      .get(conversationId) as ConversationRow | null;
+
+    if (!row) {
+      return null;
+    }
+
+    return {
+      conversation_id: row.id,
+      agent_name: row.agent_name,
+      ...(row.agent_key !== null && { agent_key: row.agent_key }),
+      service_provider: row.service_provider,
+      model_name: row.model_name,
+      messages: JSON.parse(row.messages) as Message[],
+      usage_info: JSON.parse(row.usage_info) as Record<string, unknown>,
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+    };
+  }
+
+  /**
+   * Full-text search over message text. Every whitespace-separated term must match.
+   */
+  search(
+    query: string,
+    options: { agentName?: string; limit?: number } = {}
+  ): ConversationSummary[] {
+    const matchExpression = ConversationStore.toMatchExpression(query);
+    if (!matchExpression) {
+      return [];
+    }
+
+    const agentFilter = options.agentName ? 'AND c.agent_name = ?' : '';
+    const params: (string | number)[] = [matchExpression];
+    if (options.agentName) {
+      params.push(options.agentName);
+    }
+    params.push(options.limit ?? 20);
+
+    const rows = this.db
+      .query(
+        `SELECT ${SUMMARY_COLUMNS},
+           snippet(conversations_fts, 1, '[', ']', '…', 16) AS snippet
+         FROM conversations_fts
+         JOIN conversations c ON c.id = conversations_fts.conversation_id
+         WHERE conversations_fts MATCH ? ${agentFilter}
+         ORDER BY rank LIMIT ?`
+      )
+      .all(...params) as ConversationRow[];
+
+    return rows.map((row) => ConversationStore.toSummary(row));
+  }
+
+  delete(conversationId: string): boolean {
+    const remove = this.db.transaction(() => {
+      this.db.query('DELETE FROM conversations_fts WHERE conversation_id = ?').run(conversationId);
+      return this.db.query('DELETE FROM conversations WHERE id = ?').run(conversationId).changes;
+    });
+    return remove() > 0;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private static toSummary(row: ConversationRow): ConversationSummary {
+    const summary: ConversationSummary = {
+      conversation_id: row.id,
+      agent_name: row.agent_name,
+      service_provider: row.service_provider,
+      model_name: row.model_name,
+      title: row.title,
+      message_count: row.message_count,
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+    };
+    if (row.snippet !== undefined) {
+      summary.snippet = row.snippet;
+    }
+    return summary;
+  }
+
+  /**
+   * Quote each term so user input cannot inject FTS5 query syntax
+   */
+  private static toMatchExpression(query: string): string {
+    return query
+      .split(/\s+/)
+      .filter((term) => term.length > 0)
+      .map((term) => `"${term.replace(/"/g, '""')}"`)
+      .join(' ');
+  }
+
+  /**
+   * Use the first user message as a human-readable title
+   */
+  private static deriveTitle(messages: Message[]): string {
+    const firstUser = messages.find((msg) => msg.role === MESSAGE_ROLES.USER);
+    const text = firstUser ? ConversationStore.extractText([firstUser]).join(' ') : '';
+    return text.length > 80 ? `${text.substring(0, 77)}...` : text;
+  }
+
+  /**
+   * Collect the searchable text from any provider message format
+   * (string content, content blocks, or parts)
+   */
+  private static extractText(messages: Message[]): string[] {
+    const texts: string[] = [];
+
+    for (const msg of messages) {
+      if (typeof msg.content === 'string') {
+        texts.push(msg.content);
+      } else if (Array.isArray(msg.content)) {
+        for (const block of msg.content) {
+          if (block && typeof block === 'object') {
+            if ('text' in block && typeof block.text === 'string') {
+              texts.push(block.text);
+            } else if ('content' in block && typeof block.content === 'string') {
+              texts.push(block.content);
+            }
+          }
+        }
+      }
+
+      if (Array.isArray(msg.parts)) {
+        for (const part of msg.parts) {
+          if (part && typeof part.text === 'string') {
+            texts.push(part.text);
+          }
+        }
+      }
+    }
+
+    return texts.filter((text) => text.trim().length > 0);
+  }
+}
@@ -0,0 +1,292 @@
+/**
+ * Fallback Service Provider
+ *
+ * Wraps an agent's primary provider and its configured fallbacks. A turn runs on the
+ * first provider; if it fails with a transient error (connection refused, rate limit,
+ * 5xx) before anything reached the client or any tool ran, the same turn is retried on
+ * the next one.
+ * The conversation history is rewritten for each provider's message shapes first; the
+ * turn's completeMessages are returned on the caller's history, as from any provider.
+ */
+
+import {
+  GenerationSettings,
+  Message,
+  ServiceProvider,
+  TurnUsage,
+  UsageInfo,
+} from '../types/index.js';
+import { ProviderMessageAdapter } from '../adapters/provider-message-adapter.js';
+import { ServiceProvider as ServiceProviderName } from '../constants/message-constants.js';
+import { ToolApprovalHandler } from '../tools/tool-approval.js';
+
+const TRANSIENT_ERROR_PATTERNS: RegExp[] = [
+  /HTTP (429|5\d\d)\b/,
+  /\b(429|5\d\d) (Too Many Requests|Internal Server Error|Bad Gateway|Service Unavailable)/i,
+  /rate.?limit/i,
+  /overloaded/i,
+  /ECONNREFUSED|ConnectionRefused|Connection refused|Unable to connect/i,
+  /ECONNRESET|ETIMEDOUT|ENOTFOUND|EAI_AGAIN|socket hang up/i,
+  /fetch failed|timed out/i,
+];
+
+/**
+ * Whether an error is worth retrying on another provider.
+ * Transports report failures as plain errors ("HTTP 503: ...", "... transport error: ..."),
+ * so classification is by message.
+ */
+export function isTransientProviderError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return TRANSIENT_ERROR_PATTERNS.some((pattern) => pattern.test(message));
+}
+
+interface ProviderLink {
+  provider: ServiceProvider;
+  adapter: ProviderMessageAdapter;
+}
+
+interface ToolExecutor {
+  executeTool(...args: unknown[]): Promise<unknown>;
+}
+
+export class FallbackServiceProvider implements ServiceProvider {
+  private chain: ProviderLink[];
+  private active: ProviderLink;
+  private abortSignal?: AbortSignal;
+  private conversationId?: string;
+  // Tool calls started through the shared tool registry adapter
+  private toolRuns = 0;
+
+  constructor(providers: ServiceProvider[]) {
+    if (providers.length === 0) {
+      throw new Error('FallbackServiceProvider requires at least one provider');
+    }
+
+    this.chain = providers.map((provider) => ({
+      provider,
+      adapter: new ProviderMessageAdapter({
+        serviceProvider: provider.service_provider as ServiceProviderName,
+        enableValidation: false,
+      }),
+    }));
+    this.active = this.chain[0];
+  }
+
+  get agent_name(): string {
+    return this.active.provider.agent_name;
+  }
+
+  get service_provider(): string {
+    return this.active.provider.service_provider;
+  }
+
+  get model_name(): string {
+    return this.active.provider.model_name;
+  }
+
+  get tool_registry(): Record<string, unknown> | undefined {
+    return this.active.provider.tool_registry;
+  }
+
+  get usage_info(): UsageInfo {
+    return this.active.provider.usage_info;
+  }
+
+  set usage_info(usage: UsageInfo) {
+    this.active.provider.usage_info = usage;
+  }
+
+  get conversation_id(): string | undefined {
+    return this.conversationId;
+  }
+
+  set conversation_id(conversationId: string | undefined) {
+    this.conversationId = conversationId;
+    for (const { provider } of this.chain) {
+      provider.conversation_id = conversationId;
+    }
+  }
+
+  get agent_key(): string | undefined {
+    return this.active.provider.agent_key;
+  }
+
+  set agent_key(agentKey: string | undefined) {
+    for (const { provider } of this.chain) {
+      provider.agent_key = agentKey;
+    }
+  }
+
+  get delegation_chain(): string[] {
+    return this.active.provider.delegation_chain ?? [];
+  }
+
+  set delegation_chain(delegationChain: string[]) {
+    for (const { provider } of this.chain) {
+      provider.delegation_chain = delegationChain;
+    }
+  }
+
+  /**
+   * The providers tried in order, primary first
+   */
+  getProviders(): ServiceProvider[] {
+    return this.chain.map(({ provider }) => provider);
+  }
+
+  async makeApiCall(
+    messages: Message[],
+    userInput: string,
+    websocket?: { send(data: string): void },
+    streamResponse?: boolean
+  ): Promise<unknown> {
+    // Once a tool has run, retrying the turn would run it again
+    const toolRunsBefore = this.toolRuns;
+
+    for (let index = 0; index < this.chain.length; index++) {
+      const link = this.chain[index];
+      this.active = link;
+
+      // Once the client has seen output from a provider, retrying would duplicate it
+      let sentToClient = false;
+      const trackedSocket = websocket && {
+        send: (data: string) => {
+          sentToClient = true;
+          websocket.send(data);
+        },
+      };
+
+      try {
+        const history = link.adapter.convertHistoryForProvider(messages);
+        const result = await link.provider.makeApiCall(
+          history,
+          userInput,
+          trackedSocket,
+          streamResponse
+        );
+
+        // The converted history may be shorter or longer than the one given, so callers
+        // that slice off the messages they passed would lose or repeat some
+        const turn = result as { completeMessages?: Message[] };
+        if (!Array.isArray(turn.completeMessages)) {
+          return result;
+        }
+        return {
+          ...turn,
+          completeMessages: [...messages, ...turn.completeMessages.slice(history.length)],
+        };
+      } catch (error) {
+        const next = this.chain[index + 1];
+        if (
+          !next ||
+          sentToClient ||
+          this.toolRuns > toolRunsBefore ||
+          this.abortSignal?.aborted ||
+          !isTransientProviderError(error)
+        ) {
+          throw error;
+        }
+
+        console.warn(
+          `⚠️ ${link.provider.service_provider}/${link.provider.model_name} failed for agent ${link.provider.agent_name} (${error instanceof Error ? error.message : String(error)}); falling back to ${next.provider.service_provider}/${next.provider.model_name}`
+        );
+      }
+    }
+
+    // Unreachable: the last provider's error is always rethrown
+    throw new Error('No provider available');
+  }
+
+  transformToolRegistry(): unknown {
+    return this.active.provider.transformToolRegistry();
+  }
+
+  logConversationMemory(messages: Message[]): string | null {
+    const conversationId = this.active.provider.logConversationMemory(messages);
+    if (conversationId) {
+      this.conversation_id = conversationId;
+    }
+    return conversationId;
+  }
+
+  setToolRegistryAdapter(adapter: unknown): void {
+    const executor = adapter as ToolExecutor;
+    const counted = Object.create(executor) as ToolExecutor;
+    counted.executeTool = (...args: unknown[]) => {
+      this.toolRuns++;
+      return executor.executeTool(...args);
+    };
+
+    for (const { provider } of this.chain) {
+      provider.setToolRegistryAdapter?.(counted);
+    }
+  }
+
+  setAbortSignal(signal?: AbortSignal): void {
+    this.abortSignal = signal;
+    for (const { provider } of this.chain) {
+      provider.setAbortSignal?.(signal);
+    }
+  }
+
+  setMaxTokens(maxTokens?: number): void {
+    for (const { provider } of this.chain) {
+      provider.setMaxTokens?.(maxTokens);
+    }
+  }
+
+  setGeneration(settings?: GenerationSettings): void {
+    for (const { provider } of this.chain) {
+      provider.setGeneration?.(settings);
+    }
+  }
+
+  setToolApprovalHandler(handler?: ToolApprovalHandler): void {
+    for (const { provider } of this.chain) {
+      provider.setToolApprovalHandler?.(handler);
+    }
+  }
+
+  resetTurnUsage(): void {
+    // A new turn starts on the primary provider again
+    this.active = this.chain[0];
+    for (const { provider } of this.chain) {
+      provider.resetTurnUsage?.();
+    }
+  }
+
+  /**
+   * Usage summed over every provider the turn touched, including failed attempts
+   */
+  getTurnUsage(): TurnUsage {
+    const usages = this.chain
+      .map(({ provider }) => provider.getTurnUsage?.())
+      .filter((usage): usage is TurnUsage => usage !== undefined);
+
+    return usages.reduce(
+      (total, usage) => ({
+        calls: total.calls + usage.calls,
+        input_tokens: total.input_tokens + usage.input_tokens,
+        output_tokens: total.output_tokens + usage.output_tokens,
+        cache_creation_input_tokens:
+          total.cache_creation_input_tokens + usage.cache_creation_input_tokens,
+        cache_read_input_tokens: total.cache_read_input_tokens + usage.cache_read_input_tokens,
+        total_tokens: total.total_tokens + usage.total_tokens,
+        latency_ms: total.latency_ms + usage.latency_ms,
+        cost: usage.cost === null ? total.cost : (total.cost ?? 0) + usage.cost,
+        currency: usage.currency,
+      }),
+      {
+        calls: 0,
+        input_tokens: 0,
+        output_tokens: 0,
+        cache_creation_input_tokens: 0,
+        cache_read_input_tokens: 0,
+        total_tokens: 0,
+        latency_ms: 0,
+        cost: null,
+        currency: usages[0]?.currency ?? 'USD',
+      } as TurnUsage
+    );
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * Generation settings
+ *
+ * An agent's `generation` block sets the model parameters sent with each completion:
+ * temperature, top_p, max_tokens, stop, seed, tool_choice and response_format. The
+ * providers pass them to their transports, which map them to their API's own parameters.
+ * A request may override them within the agent's generation_limits: settings left out of
+ * `overridable` can't be set, and max_tokens and temperature are brought within the
+ * agent's bounds, as server_config.json's sampling max_tokens is for sampling requests.
+ * A temperature above what the agent's provider accepts is refused rather than sent.
+ * Without generation_limits, tool_choice and response_format stay the agent's own, and
+ * max_tokens can't go above the agent's setting.
+ */
+
+import { SERVICE_PROVIDERS } from '../constants/message-constants.js';
+import { GenerationSettingsSchema } from '../schemas/agent-schemas.js';
+import type {
+  AgentConfig,
+  GenerationResponseFormat,
+  GenerationSettingName,
+  GenerationSettings,
+} from '../types/index.js';
+
+export const DEFAULT_TEMPERATURE = Number(process.env.DEFAULT_TEMPERATURE) || 0.7;
+
+// Settings that change what the agent does rather than how it samples; a request may only
+// set them when the agent's overridable list names them
+const BEHAVIOUR_SETTINGS: GenerationSettingName[] = ['tool_choice', 'response_format'];
+
+// Highest temperature each provider's API accepts, where it is below the schema's 2
+const PROVIDER_MAX_TEMPERATURE: Record<string, number> = {
+  [SERVICE_PROVIDERS.ANTHROPIC]: 1,
+};
+
+/**
+ * The agent's generation settings with a request's overrides applied. Returns why
+ * instead if the overrides are invalid or set something the agent doesn't allow.
+ */
+export function resolveGenerationSettings(
+  agentConfig: AgentConfig,
+  overrides?: unknown
+): { settings: GenerationSettings } | { error: string } {
+  const settings = { ...agentConfig.generation };
+  if (overrides === undefined || overrides === null) {
+    return { settings };
+  }
+
+  const result = GenerationSettingsSchema.safeParse(overrides);
+  if (!result.success) {
+    const problems = result.error.errors.map((e) =>
+      e.path.length > 0 ? `${e.path.join('.')}: ${e.message}` : e.message
+    );
+    return { error: `Invalid generation settings: ${problems.join('; ')}` };
+  }
+  const requested = result.data;
+
+  const limits = agentConfig.generation_limits ?? {};
+  const refused = (Object.keys(requested) as GenerationSettingName[]).filter((name) =>
+    limits.overridable ? !limits.overridable.includes(name) : BEHAVIOUR_SETTINGS.includes(name)
+  );
+  if (refused.length > 0) {
+    return {
+      error: `Agent '${agentConfig.agent_name}' does not allow requests to set ${refused.join(', ')}`,
+    };
+  }
+
+  const providerMaxTemperature = PROVIDER_MAX_TEMPERATURE[agentConfig.service_provider] ?? 2;
+  if (requested.temperature !== undefined && requested.temperature > providerMaxTemperature) {
+    return {
+      error: `Agent '${agentConfig.agent_name}' uses ${agentConfig.service_provider}, which takes a temperature of at most ${providerMaxTemperature}`,
+    };
+  }
+
+  Object.assign(settings, requested);
+  const maxTokens = limits.max_tokens ?? agentConfig.generation?.max_tokens;
+  if (requested.max_tokens !== undefined && maxTokens) {
+    settings.max_tokens = Math.min(requested.max_tokens, maxTokens);
+  }
+  if (requested.temperature !== undefined) {
+    settings.temperature = Math.min(
+      Math.max(requested.temperature, limits.min_temperature ?? 0),
+      Math.min(limits.max_temperature ?? 2, providerMaxTemperature)
+    );
+  }
+  return { settings };
+}
+
+/**
+ * System prompt instruction asking for a JSON response format, for models that can't
+ * be held to it natively; null for plain text
+ */
+export function responseFormatInstruction(format?: GenerationResponseFormat): string | null {
+  if (format?.type === 'json_object') {
+    return 'Respond with a single JSON object and nothing else.';
+  }
+  if (format?.type === 'json_schema') {
+    return (
+      'Respond with a single JSON object that matches this JSON schema, and nothing else:\n' +
+      JSON.stringify(format.schema)
+    );
+  }
+  return null;
+}
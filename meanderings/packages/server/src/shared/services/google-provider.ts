@@ -1,8 +1,9 @@
-import { AgentConfig, Message, ToolRegistry } from '../types/index.js';
+import { AgentConfig, Message, MessagePart, ToolRegistry } from '../types/index.js';
 import { BaseServiceProvider } from './base-provider.js';
 import { MessageShapeComposer } from '../composition/message-shape-composer.js';
 import { GoogleAPITransport } from '../transport/google-api-transport.js';
 import { SERVICE_PROVIDERS, MESSAGE_ROLES } from '../constants/message-constants.js';
+import { mapWithConcurrency } from '../tools/tool-execution.js';
 
 export class GoogleProvider extends BaseServiceProvider {
   private transport: GoogleAPITransport;
@@ -30,6 +31,9 @@ export class GoogleProvider extends BaseServiceProvider {
   ): Promise<{ response: unknown; completeMessages: Message[] }> {
     console.log('GoogleProvider.makeApiCall called with:', { userInput, streamResponse });
     try {
+      // Every tool iteration re-enters here, so a cancelled turn stops at the next step
+      this.throwIfCancelled();
+
       // Add user input to messages if provided
       const allMessages = userInput
         ? [...messages, { role: MESSAGE_ROLES.USER, content: userInput }]
@@ -56,11 +60,13 @@ export class GoogleProvider extends BaseServiceProvider {
       }
 
       // Use transport layer for API call
+      this.beginApiCall();
       const transportResult = await this.transport.send(composedMessages, {
         tools,
         systemInstruction: this.system_prompt,
         stream: streamResponse,
-        temperature: 0.7,
+        signal: this.abortSignal,
+        ...this.generationOptions(messages),
       });
 
       if (streamResponse && websocket) {
@@ -115,17 +121,31 @@ export class GoogleProvider extends BaseServiceProvider {
         outputTokens?: number;
         totalTokens?: number;
       };
-      this.usage_info = {
+      this.recordUsage({
         input_tokens: typeof usage.inputTokens === 'number' ? usage.inputTokens : 0,
         output_tokens: typeof usage.outputTokens === 'number' ? usage.outputTokens : 0,
         total_tokens: typeof usage.totalTokens === 'number' ? usage.totalTokens : 0,
-      };
+      });
+    } else {
+      this.recordUsage({});
     }
 
     // Handle function calls
     if (streamingResult.functionCalls && streamingResult.functionCalls.length > 0) {
       console.log('Function calls detected in stream, executing server-side...');
 
+      // A request stuck in a tool loop is wrapped up instead of running this round
+      const wrapUp = await this.guardToolLoop(
+        streamingResult.functionCalls,
+        streamingResult.fullText || null,
+        allMessages,
+        websocket,
+        true
+      );
+      if (wrapUp) {
+        return wrapUp;
+      }
+
       // Add assistant's response with function call to conversation
       const assistantMessage: Message = {
         role: MESSAGE_ROLES.ASSISTANT,
@@ -144,9 +164,9 @@ export class GoogleProvider extends BaseServiceProvider {
 
       allMessages.push(assistantMessage);
 
-      const response = await this.synchronizeMessageContextToClient(
+      const response = await this.handleMultipleToolCalls(
         streamingResult.fullText,
-        streamingResult.functionCalls[0],
+        streamingResult.functionCalls,
         allMessages,
         websocket,
         true
@@ -154,19 +174,7 @@ export class GoogleProvider extends BaseServiceProvider {
       return { response, completeMessages: allMessages };
     } else {
       // No function calls, send final response
-      if (websocket) {
-        void this.sendWebSocketMessages(websocket, streamingResult.fullText, undefined, true);
-      }
-
-      const response: Message = {
-        role: MESSAGE_ROLES.ASSISTANT,
-        content: streamingResult.fullText,
-      };
-
-      // Add final response to conversation
-      allMessages.push(response);
-
-      return { response, completeMessages: allMessages };
+      return await this.finishResponse(streamingResult.fullText, allMessages, websocket, true);
     }
   }
 
@@ -197,17 +205,31 @@ export class GoogleProvider extends BaseServiceProvider {
         outputTokens?: number;
         totalTokens?: number;
       };
-      this.usage_info = {
+      this.recordUsage({
         input_tokens: typeof usage.inputTokens === 'number' ? usage.inputTokens : 0,
         output_tokens: typeof usage.outputTokens === 'number' ? usage.outputTokens : 0,
         total_tokens: typeof usage.totalTokens === 'number' ? usage.totalTokens : 0,
-      };
+      });
+    } else {
+      this.recordUsage({});
     }
 
     // Handle function calls
     if (parsedResponse.functionCalls && parsedResponse.functionCalls.length > 0) {
       console.log('Function calls detected, executing server-side...');
 
+      // A request stuck in a tool loop is wrapped up instead of running this round
+      const wrapUp = await this.guardToolLoop(
+        parsedResponse.functionCalls,
+        parsedResponse.content || null,
+        allMessages,
+        websocket,
+        false
+      );
+      if (wrapUp) {
+        return wrapUp;
+      }
+
       // Add assistant's response with function call to conversation
       const assistantMessage: Message = {
         role: MESSAGE_ROLES.ASSISTANT,
@@ -226,9 +248,9 @@ export class GoogleProvider extends BaseServiceProvider {
 
       allMessages.push(assistantMessage);
 
-      const response = await this.synchronizeMessageContextToClient(
+      const response = await this.handleMultipleToolCalls(
         parsedResponse.content || null,
-        parsedResponse.functionCalls[0],
+        parsedResponse.functionCalls,
         allMessages,
         websocket,
         false
@@ -236,19 +258,7 @@ export class GoogleProvider extends BaseServiceProvider {
       return { response, completeMessages: allMessages };
     } else {
       // No function calls, send normal response
-      if (websocket) {
-        void this.sendWebSocketMessages(websocket, parsedResponse.content || '', undefined, true);
-      }
-
-      const response: Message = {
-        role: MESSAGE_ROLES.ASSISTANT,
-        content: parsedResponse.content,
-      };
-
-      // Add final response to conversation
-      allMessages.push(response);
-
-      return { response, completeMessages: allMessages };
+      return await this.finishResponse(parsedResponse.content || '', allMessages, websocket, false);
     }
   }
 
@@ -524,93 +534,82 @@ export class GoogleProvider extends BaseServiceProvider {
   }
 
   /**
-   * Override synchronizeMessageContextToClient for Google-specific tool response handling
-   * Google requires function responses to be wrapped in a single user message with parts array
+   * Run every function call of a response, side by side up to the agent's concurrency cap.
+   * Gemini expects one functionResponse part per functionCall, together in the next user
+   * message.
    */
-  protected async synchronizeMessageContextToClient(
+  protected async handleMultipleToolCalls(
     messageContent: string | null,
-    toolCall: unknown,
+    toolCalls: unknown[],
     messages: Message[],
     websocket?: unknown,
     doStream = false
   ): Promise<unknown> {
-    try {
-      // If no tool call, just return the message content
-      if (!toolCall) {
-        if (messageContent) {
-          this.sendWebSocketMessages(websocket, messageContent, undefined, true);
-        }
-        return {
-          role: MESSAGE_ROLES.ASSISTANT,
-          content: messageContent || '',
-        };
-      }
-
-      // Extract tool call information using provider-specific method
-      const {
-        id: _toolCallId,
-        name: sanitizedToolName,
-        arguments: toolArgs,
-      } = this.extractToolCallInfo(toolCall);
-
-      // Reverse sanitized name back to original tool name
-      const toolName = this.getOriginalToolName(sanitizedToolName);
-
-      console.log(`Executing tool: ${toolName} (sanitized: ${sanitizedToolName}) with args: ${toolArgs}`);
+    const ws =
+      websocket && typeof websocket === 'object' && 'send' in websocket
+        ? (websocket as { send: (data: string) => void })
+        : undefined;
 
+    try {
       // Send assistant message with tool_calls to WebSocket for complete conversation history
-      if (websocket) {
-        void this.sendWebSocketMessages(websocket, messageContent || '', [toolCall], false);
+      if (ws) {
+        void this.sendWebSocketMessages(ws, messageContent || '', toolCalls, false);
       }
 
-      // Send tool execution status to WebSocket with type guard
-      if (websocket && typeof websocket === 'object' && 'send' in websocket) {
-        const ws = websocket as { send: (data: string) => void };
-        const statusMessage = {
-          tool_call: true,
-          tool_name: toolName,
-          tool_status: 'executing',
-        };
-        ws.send(JSON.stringify(statusMessage));
-      }
-
-      // Execute the tool with original name
-      const functionResult = await this.invokeTool(toolName, toolArgs);
-      console.log(`Tool ${toolName} result:`, functionResult);
-
-      // Send tool completion status to WebSocket with type guard
-      if (websocket && typeof websocket === 'object' && 'send' in websocket) {
-        const ws = websocket as { send: (data: string) => void };
-        const statusMessage = {
-          tool_call: true,
-          tool_name: toolName,
-          tool_status: 'completed',
-          tool_result: functionResult,
-        };
-        ws.send(JSON.stringify(statusMessage));
-      }
-
-      // Create tool response using Google format (complete message structure)
-      const toolResponseMessage = this.formatToolResponseMessage(functionResult, toolName);
+      // Responses come back in the order the model made the calls
+      const responseParts = await mapWithConcurrency(
+        toolCalls,
+        this.toolConcurrency,
+        async (toolCall): Promise<MessagePart[]> => {
+          const { name: sanitizedToolName, arguments: toolArgs } =
+            this.extractToolCallInfo(toolCall);
+
+          // Reverse sanitized name back to original tool name
+          const toolName = this.getOriginalToolName(sanitizedToolName);
+          console.log(
+            `Executing tool: ${toolName} (sanitized: ${sanitizedToolName}) with args: ${toolArgs}`
+          );
+
+          ws?.send(
+            JSON.stringify({ tool_call: true, tool_name: toolName, tool_status: 'executing' })
+          );
+
+          this.throwIfCancelled();
+
+          let functionResult: string;
+          try {
+            functionResult = await this.invokeTool(toolName, toolArgs, websocket);
+            console.log(`Tool ${toolName} result:`, functionResult);
+          } catch (error) {
+            functionResult = `Error: ${error instanceof Error ? error.message : 'Tool execution failed'}`;
+            console.error(`Tool ${toolName} failed:`, error);
+          }
 
-      // Add tool result to conversation
-      messages.push(toolResponseMessage);
+          // The client gets each result in the same format as sent to Google API
+          const toolResponseMessage = this.formatToolResponseMessage(functionResult, toolName);
+          ws?.send(
+            JSON.stringify({
+              tool_call: true,
+              tool_name: toolName,
+              tool_status: 'completed',
+              tool_result: functionResult,
+            })
+          );
+          ws?.send(JSON.stringify(toolResponseMessage));
+
+          return toolResponseMessage.parts ?? [];
+        }
+      );
 
-      // Send tool result message to WebSocket for complete conversation history
-      // Use the same format as sent to Google API to maintain consistency
-      if (websocket && typeof websocket === 'object' && 'send' in websocket) {
-        const ws = websocket as { send: (data: string) => void };
-        ws.send(JSON.stringify(toolResponseMessage));
-      }
+      messages.push({ role: MESSAGE_ROLES.USER, parts: responseParts.flat() });
 
-      // Make recursive API call with updated messages
       const result = await this.makeApiCall(messages, '', websocket, doStream);
       return result.response;
     } catch (error) {
-      console.error('Error in Google synchronizeMessageContextToClient:', error);
+      console.error('Error handling Google function calls:', error);
 
-      if (websocket && typeof websocket === 'object' && 'send' in websocket) {
-        const ws = websocket as { send: (data: string) => void };
+      // A cancelled turn is reported by the connection handler, not as a tool failure
+      if (ws && !this.abortSignal?.aborted) {
         ws.send(
           JSON.stringify({
             error: `Tool execution failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -630,7 +629,8 @@ export class GoogleProvider extends BaseServiceProvider {
     websocket: unknown,
     content: string,
     toolCalls?: unknown[],
-    isFinal = true
+    isFinal = true,
+    finalFields?: Record<string, unknown>
   ): void {
     if (!websocket) return;
 
@@ -657,6 +657,7 @@ export class GoogleProvider extends BaseServiceProvider {
         role: MESSAGE_ROLES.MODEL, // Use "model" role for Gemini
         content: content,
         final_sentence: true,
+        ...finalFields,
       };
 
       // Convert tool_calls to Gemini parts format
@@ -780,5 +781,5 @@ export class GoogleProvider extends BaseServiceProvider {
     }
   }
 
-  // logConversationMemory and manageConversationId are now inherited from BaseServiceProvider
+  // logConversationMemory is inherited from BaseServiceProvider
 }
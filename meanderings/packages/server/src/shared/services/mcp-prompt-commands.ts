@@ -0,0 +1,132 @@
+/**
+ * MCP Prompt Commands
+ *
+ * The prompts offered by an agent's MCP servers, as slash-commands named like their
+ * tools: "/<server>_<prompt>". A command expands to the prompt's messages; the last
+ * user message becomes the turn's input and the ones before it join the history.
+ * Arguments are written as key=value pairs (quote values with spaces); a prompt with
+ * a single argument also takes the rest of the line as its value.
+ */
+
+import type { GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+import type { MCPClientManager } from '../tools/mcp-manager.js';
+import { MESSAGE_ROLES } from '../constants/message-constants.js';
+import type { Message } from '../types/index.js';
+
+export interface SlashCommandArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+export interface SlashCommand {
+  command: string;
+  description?: string;
+  arguments: SlashCommandArgument[];
+  server: string;
+  prompt: string;
+}
+
+export interface ExpandedCommand {
+  history: Message[];
+  userInput: string;
+}
+
+const ARGUMENT_PAIR = /(\w+)=(?:"([^"]*)"|(\S+))/g;
+
+export async function listPromptCommands(
+  manager: MCPClientManager,
+  serverNames: string[]
+): Promise<SlashCommand[]> {
+  const listed = await Promise.all(
+    serverNames.map(async (server) =>
+      (await manager.listPrompts(server)).map((prompt): SlashCommand => ({
+        command: `/${server}_${prompt.name}`,
+        description: prompt.description,
+        arguments: (prompt.arguments ?? []).map(({ name, description, required }) => ({
+          name,
+          description,
+          required,
+        })),
+        server,
+        prompt: prompt.name,
+      }))
+    )
+  );
+  return listed.flat();
+}
+
+/**
+ * The command an input starts with and the text after it; null if it names no known command
+ */
+export function findSlashCommand(
+  input: string,
+  commands: SlashCommand[]
+): { command: SlashCommand; rest: string } | null {
+  const match = /^\s*(\/\S+)\s*([\s\S]*)$/.exec(input);
+  const command = match && commands.find((candidate) => candidate.command === match[1]);
+  return command ? { command, rest: match[2].trim() } : null;
+}
+
+/**
+ * Read a command's arguments; throws naming any that are unknown or missing
+ */
+export function parseCommandArguments(command: SlashCommand, rest: string): Record<string, string> {
+  const names = command.arguments.map((argument) => argument.name);
+  const args: Record<string, string> = {};
+
+  if (names.length === 1 && rest && !rest.startsWith(`${names[0]}=`)) {
+    args[names[0]] = rest;
+  } else {
+    for (const match of rest.matchAll(ARGUMENT_PAIR)) {
+      if (!names.includes(match[1])) {
+        throw new Error(`${command.command} has no argument '${match[1]}'`);
+      }
+      args[match[1]] = match[2] ?? match[3];
+    }
+  }
+
+  const missing = command.arguments
+    .filter((argument) => argument.required && !(argument.name in args))
+    .map((argument) => argument.name);
+  if (missing.length > 0) {
+    throw new Error(`${command.command} needs: ${missing.join(', ')}`);
+  }
+  return args;
+}
+
+// Only text survives into the agent's messages; other content is named instead
+function promptText(content: GetPromptResult['messages'][number]['content']): string {
+  if (content.type === 'text') {
+    return content.text;
+  }
+  if (content.type === 'resource') {
+    return 'text' in content.resource
+      ? content.resource.text
+      : `[binary resource ${content.resource.uri} omitted]`;
+  }
+  return `[${content.type} omitted]`;
+}
+
+export async function expandPromptCommand(
+  manager: MCPClientManager,
+  command: SlashCommand,
+  rest: string
+): Promise<ExpandedCommand> {
+  const args = parseCommandArguments(command, rest);
+  const result = await manager.getPrompt(command.server, command.prompt, args);
+  const messages = result.messages.map((message): Message => ({
+    role: message.role,
+    content: promptText(message.content),
+  }));
+
+  const last = messages[messages.length - 1];
+  if (last?.role === MESSAGE_ROLES.USER) {
+    return { history: messages.slice(0, -1), userInput: last.content as string };
+  }
+  // A prompt that doesn't end with the user's turn is sent as one user message
+  return {
+    history: [],
+    userInput: messages.map((message) => message.content as string).join('\n\n'),
+  };
+}
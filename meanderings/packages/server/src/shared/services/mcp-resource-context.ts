@@ -0,0 +1,164 @@
+/**
+ * MCP Resource Context
+ *
+ * Reads the resources in an agent's mcp_resources into a section appended to its
+ * system prompt. The section is read before a session's first turn, and read again
+ * before the next turn whenever a subscribed resource changes or the template
+ * variables (agent_name, conversation_id) do. Resources that can't be read are left
+ * out and logged, so one unavailable server doesn't stop the agent from answering.
+ */
+
+import winston from 'winston';
+import type { ReadResourceResult } from '@modelcontextprotocol/sdk/types.js';
+import { UriTemplate } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import type { MCPClientManager } from '../tools/mcp-manager.js';
+import type { AgentConfig, MCPResourceRef } from '../types/index.js';
+
+interface ResolvedResource {
+  server: string;
+  uri: string;
+}
+
+/**
+ * Fill a URI template from the given values; null if one of its variables has no value
+ */
+export function expandResourceUri(
+  uri: string,
+  values: Record<string, string | undefined>
+): string | null {
+  if (!UriTemplate.isTemplate(uri)) {
+    return uri;
+  }
+
+  const template = new UriTemplate(uri);
+  const variables: Record<string, string> = {};
+  for (const name of template.variableNames) {
+    const value = values[name];
+    if (value === undefined) {
+      return null;
+    }
+    variables[name] = value;
+  }
+  return template.expand(variables);
+}
+
+function formatContents(resource: ResolvedResource, contents: ReadResourceResult['contents']) {
+  const body = contents
+    .map((content) =>
+      'text' in content
+        ? content.text
+        : `[binary content${content.mimeType ? ` (${content.mimeType})` : ''} omitted]`
+    )
+    .join('\n');
+  return `<resource server="${resource.server}" uri="${resource.uri}">\n${body}\n</resource>`;
+}
+
+export class MCPResourceContext {
+  private section = '';
+  private stale = true;
+  private variablesKey = '';
+  private watched: ResolvedResource[] = [];
+  private stopListening?: () => void;
+
+  constructor(
+    private logger: winston.Logger,
+    private manager: MCPClientManager | null,
+    private resources: MCPResourceRef[]
+  ) {
+    if (manager && resources.length > 0) {
+      this.stopListening = manager.onResourceUpdated((server, uri) => {
+        if (this.watched.some((watched) => watched.server === server && watched.uri === uri)) {
+          this.logger.debug(`MCP resource ${uri} on ${server} changed; rereading it next turn`);
+          this.stale = true;
+        }
+      });
+    }
+  }
+
+  /**
+   * Read the resources if they haven't been read, changed since, or depend on variables
+   * that changed. True when the system prompt section is different afterwards.
+   */
+  async refresh(variables: Record<string, string | undefined>): Promise<boolean> {
+    const variablesKey = JSON.stringify(variables);
+    if (!this.stale && variablesKey === this.variablesKey) {
+      return false;
+    }
+    // Cleared before reading, so an update that arrives mid-read isn't lost
+    this.stale = false;
+    this.variablesKey = variablesKey;
+
+    const resolved: ResolvedResource[] = [];
+    for (const resource of this.resources) {
+      const uri = expandResourceUri(resource.uri, { ...variables, ...resource.arguments });
+      if (uri === null) {
+        this.logger.warn(
+          `Skipping MCP resource ${resource.uri}: its template has unfilled variables`
+        );
+      } else {
+        resolved.push({ server: resource.server, uri });
+      }
+    }
+    await this.watch(resolved);
+
+    const parts = await Promise.all(resolved.map((resource) => this.read(resource)));
+    const section = parts.filter((part): part is string => part !== null).join('\n\n');
+    const changed = section !== this.section;
+    this.section = section;
+    return changed;
+  }
+
+  /**
+   * The agent's configuration with the resources appended to its system prompt
+   */
+  apply(config: AgentConfig): AgentConfig {
+    if (!this.section) {
+      return config;
+    }
+    return { ...config, system_prompt: `${config.system_prompt}\n\n${this.section}` };
+  }
+
+  async close(): Promise<void> {
+    this.stopListening?.();
+    this.stopListening = undefined;
+    await this.watch([]);
+  }
+
+  private async read(resource: ResolvedResource): Promise<string | null> {
+    if (!this.manager) {
+      this.logger.warn(`Skipping MCP resource ${resource.uri}: MCP services are not initialized`);
+      return null;
+    }
+
+    try {
+      const contents = (await this.manager.getResource(
+        resource.server,
+        resource.uri
+      )) as ReadResourceResult['contents'];
+      return formatContents(resource, contents);
+    } catch (error: unknown) {
+      this.logger.warn(
+        `Skipping MCP resource ${resource.uri} on ${resource.server}: ${error instanceof Error ? error.message : String(error)}`
+      );
+      return null;
+    }
+  }
+
+  // Subscribe to resources newly in the list and unsubscribe from ones no longer in it
+  private async watch(resources: ResolvedResource[]): Promise<void> {
+    if (!this.manager) {
+      return;
+    }
+    const manager = this.manager;
+    const same = (a: ResolvedResource) => (b: ResolvedResource) =>
+      a.server === b.server && a.uri === b.uri;
+
+    const added = resources.filter((resource) => !this.watched.some(same(resource)));
+    const removed = this.watched.filter((resource) => !resources.some(same(resource)));
+    this.watched = resources;
+    await Promise.all([
+      ...added.map((resource) => manager.subscribeResource(resource.server, resource.uri)),
+      ...removed.map((resource) => manager.unsubscribeResource(resource.server, resource.uri)),
+    ]);
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * MCP Sampling
+ *
+ * Answers sampling/createMessage requests from MCP servers with a configured agent's
+ * provider, run without tools. The agent is the first of:
+ * - one named by the request's model hints, by key or as part of its model name
+ * - the agent whose tool call the server is serving
+ * - the server's sampling agent in server_config.json
+ * The request's system prompt replaces the agent's, and its maxTokens caps the output.
+ * Its temperature and stopSequences replace the agent's generation settings.
+ */
+
+import winston from 'winston';
+import type { CreateMessageResult, SamplingMessage } from '@modelcontextprotocol/sdk/types.js';
+import { AgentConfigManager } from '../config/agent-config.js';
+import { ProviderMessageAdapter } from '../adapters/provider-message-adapter.js';
+import { ServiceFactory } from './service-factory.js';
+import { lastMessageText } from '../utils/message-content.js';
+import { MESSAGE_ROLES } from '../constants/message-constants.js';
+import type { MCPSamplingHandler, MCPSamplingRequest } from '../tools/mcp-manager.js';
+import type { AgentConfig, Message } from '../types/index.js';
+
+// Images and audio have no equivalent in the agent's text messages
+function samplingText(content: SamplingMessage['content']): string {
+  return (Array.isArray(content) ? content : [content])
+    .map((block) => (block.type === 'text' ? block.text : `[${block.type} omitted]`))
+    .join('\n');
+}
+
+function findSamplingAgent(request: MCPSamplingRequest): AgentConfig | null {
+  const agents = AgentConfigManager.getInstance();
+
+  for (const hint of request.params.modelPreferences?.hints ?? []) {
+    if (!hint.name) continue;
+    const hinted =
+      agents.getAgentConfig(hint.name) ??
+      agents
+        .getAgentNames()
+        .map((name) => agents.getAgentConfig(name) as AgentConfig)
+        .find((config) => config.model_name.includes(hint.name as string));
+    if (hinted) {
+      return hinted;
+    }
+  }
+
+  for (const name of [request.callerAgent, request.sampling.agent]) {
+    const config = name ? agents.getAgentConfig(name) : null;
+    if (config) {
+      return config;
+    }
+  }
+  return null;
+}
+
+export function createMCPSamplingHandler(logger: winston.Logger): MCPSamplingHandler {
+  return async (request: MCPSamplingRequest): Promise<CreateMessageResult> => {
+    const { serverName, params } = request;
+    const agentConfig = findSamplingAgent(request);
+    if (!agentConfig) {
+      throw new Error(`No agent is configured to answer sampling requests from ${serverName}`);
+    }
+
+    const last = params.messages[params.messages.length - 1];
+    if (last?.role !== MESSAGE_ROLES.USER) {
+      throw new Error('The last sampling message must have the user role');
+    }
+
+    const config: AgentConfig = {
+      ...agentConfig,
+      system_prompt: params.systemPrompt || agentConfig.system_prompt,
+      // The server asked for a text completion, not the agent's structured answer
+      response_schema: undefined,
+    };
+    const provider = ServiceFactory.createServiceProvider(config, {});
+    const history = new ProviderMessageAdapter({
+      serviceProvider: config.service_provider,
+    }).convertHistoryForProvider(
+      params.messages
+        .slice(0, -1)
+        .map((message): Message => ({ role: message.role, content: samplingText(message.content) }))
+    );
+    provider.setMaxTokens?.(params.maxTokens);
+    provider.setGeneration?.({
+      ...config.generation,
+      ...(params.temperature !== undefined && { temperature: params.temperature }),
+      ...(params.stopSequences && { stop: params.stopSequences }),
+    });
+    provider.setAbortSignal?.(request.signal);
+    provider.resetTurnUsage?.();
+
+    const startedAt = performance.now();
+    try {
+      const { completeMessages } = (await provider.makeApiCall(
+        history,
+        samplingText(last.content),
+        undefined,
+        false
+      )) as { completeMessages: Message[] };
+      const usage = provider.getTurnUsage?.();
+
+      logger.info(
+        `🧪 Sampled for ${serverName} with ${config.agent_name} (${config.model_name}): ` +
+          `${usage?.input_tokens ?? 0} in / ${usage?.output_tokens ?? 0} out tokens, ` +
+          `${Math.round(performance.now() - startedAt)}ms`
+      );
+      return {
+        role: MESSAGE_ROLES.ASSISTANT,
+        content: { type: 'text', text: lastMessageText(completeMessages) },
+        model: config.model_name,
+        stopReason: 'endTurn',
+      };
+    } catch (error: unknown) {
+      logger.error(`Sampling for ${serverName} with ${config.agent_name} failed:`, error);
+      throw error;
+    }
+  };
+}
@@ -17,7 +17,9 @@ import { AgentConfig, Message, ToolRegistry, ToolCall } from '../types/index.js'
 import { BaseServiceProvider } from './base-provider.js';
 import { MessageShapeComposer } from '../composition/message-shape-composer.js';
 import { OpenAIAPITransport } from '../transport/openai-api-transport.js';
+import { FetchFunction } from '../types/transport-types.js';
 import { MESSAGE_ROLES } from '../constants/message-constants.js';
+import { mapWithConcurrency } from '../tools/tool-execution.js';
 
 export interface OpenAICompatibleConfig {
   apiKey: string;
@@ -25,6 +27,7 @@ export interface OpenAICompatibleConfig {
   timeout?: number;
   maxTokens?: number;
   debugMode?: boolean;
+  fetch?: FetchFunction;
 }
 
 export abstract class OpenAICompatibleProvider extends BaseServiceProvider {
@@ -46,6 +49,7 @@ export abstract class OpenAICompatibleProvider extends BaseServiceProvider {
       model: agentConfig.model_name,
       baseUrl: config.baseUrl,
       timeout: config.timeout || 30000,
+      fetch: config.fetch,
     });
 
     // Initialize shape composer
@@ -63,12 +67,16 @@ export abstract class OpenAICompatibleProvider extends BaseServiceProvider {
   ): Promise<{ response: unknown; completeMessages: Message[] }> {
     if (this.debugMode) {
       console.log(`🔍 [${this.service_provider}] makeApiCall started`);
+      console.log('  - Conversation id:', this.conversation_id);
       console.log('  - Initial messages count:', messages.length);
       console.log('  - User input:', userInput?.substring(0, 100));
       console.log('  - Stream mode:', streamResponse);
     }
 
     try {
+      // Every tool iteration re-enters here, so a cancelled turn stops at the next step
+      this.throwIfCancelled();
+
       // Add user input to messages if provided
       const allMessages = userInput
         ? [...messages, { role: MESSAGE_ROLES.USER, content: userInput }]
@@ -99,12 +107,13 @@ export abstract class OpenAICompatibleProvider extends BaseServiceProvider {
       }
 
       // Use transport layer for API call
+      this.beginApiCall();
       const transportResult = await this.transport.send(composedMessages, {
         tools,
         systemPrompt: this.system_prompt,
         stream: streamResponse,
-        temperature: 0.7,
-        maxTokens: this.getMaxTokens(),
+        signal: this.abortSignal,
+        ...this.generationOptions(messages, this.getMaxTokens()),
       });
 
       if (streamResponse && websocket) {
@@ -172,11 +181,13 @@ export abstract class OpenAICompatibleProvider extends BaseServiceProvider {
         outputTokens?: number;
         totalTokens?: number;
       };
-      this.usage_info = {
+      this.recordUsage({
         input_tokens: usage.inputTokens || 0,
         output_tokens: usage.outputTokens || 0,
         total_tokens: usage.totalTokens || 0,
-      };
+      });
+    } else {
+      this.recordUsage({});
     }
 
     // Handle tool calls
@@ -189,8 +200,21 @@ export abstract class OpenAICompatibleProvider extends BaseServiceProvider {
     ) {
       console.log('Tool calls detected in stream, executing server-side...');
 
-      // Add assistant's response with tool calls to conversation
       const streamingRes = streamingResult as { fullText?: string; toolCalls: unknown[] };
+
+      // A request stuck in a tool loop is wrapped up instead of running this round
+      const wrapUp = await this.guardToolLoop(
+        streamingRes.toolCalls,
+        streamingRes.fullText || null,
+        allMessages,
+        websocket,
+        true
+      );
+      if (wrapUp) {
+        return wrapUp;
+      }
+
+      // Add assistant's response with tool calls to conversation
       const assistantMessage: Message = {
         role: MESSAGE_ROLES.ASSISTANT,
         content: streamingRes.fullText || '',
@@ -211,19 +235,7 @@ export abstract class OpenAICompatibleProvider extends BaseServiceProvider {
     } else {
       // No function calls, send final response
       const streamingRes = streamingResult as { fullText?: string };
-      if (websocket) {
-        void this.sendWebSocketMessages(websocket, streamingRes.fullText || '', undefined, true);
-      }
-
-      const response: Message = {
-        role: MESSAGE_ROLES.ASSISTANT,
-        content: streamingRes.fullText || '',
-      };
-
-      // Add final response to conversation
-      allMessages.push(response);
-
-      return { response, completeMessages: allMessages };
+      return await this.finishResponse(streamingRes.fullText || '', allMessages, websocket, true);
     }
   }
 
@@ -257,11 +269,13 @@ export abstract class OpenAICompatibleProvider extends BaseServiceProvider {
         outputTokens?: number;
         totalTokens?: number;
       };
-      this.usage_info = {
+      this.recordUsage({
         input_tokens: usage.inputTokens || 0,
         output_tokens: usage.outputTokens || 0,
         total_tokens: usage.totalTokens || 0,
-      };
+      });
+    } else {
+      this.recordUsage({});
     }
 
     // Handle tool calls
@@ -274,8 +288,21 @@ export abstract class OpenAICompatibleProvider extends BaseServiceProvider {
     ) {
       console.log('Tool calls detected, executing server-side...');
 
-      // Add assistant's response with tool calls to conversation
       const parsedRes = parsedResponse as { content?: string; toolCalls: unknown[] };
+
+      // A request stuck in a tool loop is wrapped up instead of running this round
+      const wrapUp = await this.guardToolLoop(
+        parsedRes.toolCalls,
+        parsedRes.content || null,
+        allMessages,
+        websocket,
+        false
+      );
+      if (wrapUp) {
+        return wrapUp;
+      }
+
+      // Add assistant's response with tool calls to conversation
       const assistantMessage: Message = {
         role: MESSAGE_ROLES.ASSISTANT,
         content: parsedRes.content || '',
@@ -296,19 +323,7 @@ export abstract class OpenAICompatibleProvider extends BaseServiceProvider {
     } else {
       // No function calls, send normal response
       const parsedRes = parsedResponse as { content?: string };
-      if (websocket) {
-        void this.sendWebSocketMessages(websocket, parsedRes.content || '', undefined, true);
-      }
-
-      const response: Message = {
-        role: MESSAGE_ROLES.ASSISTANT,
-        content: parsedRes.content || '',
-      };
-
-      // Add final response to conversation
-      allMessages.push(response);
-
-      return { response, completeMessages: allMessages };
+      return await this.finishResponse(parsedRes.content || '', allMessages, websocket, false);
     }
   }
 
@@ -558,71 +573,69 @@ export abstract class OpenAICompatibleProvider extends BaseServiceProvider {
     doStream = false
   ): Promise<unknown> {
     try {
-      // Execute all tool calls and collect responses
-      const toolResponses: Message[] = [];
-
-      for (const toolCall of toolCalls) {
-        // Extract tool call information
-        const {
-          id: toolCallId,
-          name: toolName,
-          arguments: toolArgs,
-        } = this.extractToolCallInfo(toolCall);
-        console.log(`Executing tool: ${toolName} with args: ${toolArgs}`);
-
-        // Send tool execution status to WebSocket
-        if (websocket) {
-          const statusMessage = {
-            tool_call: true,
-            tool_name: toolName,
-            tool_status: 'executing',
-          };
-          websocket.send(JSON.stringify(statusMessage));
-        }
+      // Execute the tool calls side by side, up to the agent's concurrency cap;
+      // responses come back in the order the model made the calls
+      const toolResponses = await mapWithConcurrency(
+        toolCalls,
+        this.toolConcurrency,
+        async (toolCall): Promise<Message> => {
+          // Extract tool call information
+          const {
+            id: toolCallId,
+            name: toolName,
+            arguments: toolArgs,
+          } = this.extractToolCallInfo(toolCall);
+          console.log(`Executing tool: ${toolName} with args: ${toolArgs}`);
+
+          // Send tool execution status to WebSocket
+          if (websocket) {
+            const statusMessage = {
+              tool_call: true,
+              tool_name: toolName,
+              tool_status: 'executing',
+            };
+            websocket.send(JSON.stringify(statusMessage));
+          }
 
-        // Execute the tool
-        let functionResult: string;
-        try {
-          functionResult = await this.invokeTool(toolName, toolArgs);
-          console.log(`Tool ${toolName} result:`, functionResult);
-        } catch (error) {
-          functionResult = `Error: ${error instanceof Error ? error.message : 'Tool execution failed'}`;
-          console.error(`Tool ${toolName} failed:`, error);
-        }
+          this.throwIfCancelled();
 
-        // Send tool completion status to WebSocket
-        if (websocket) {
-          const statusMessage = {
-            tool_call: true,
-            tool_name: toolName,
-            tool_status: 'completed',
-            tool_result: functionResult,
-          };
-          websocket.send(JSON.stringify(statusMessage));
-        }
+          // Execute the tool
+          let functionResult: string;
+          try {
+            functionResult = await this.invokeTool(toolName, toolArgs, websocket, toolCall);
+            console.log(`Tool ${toolName} result:`, functionResult);
+          } catch (error) {
+            functionResult = `Error: ${error instanceof Error ? error.message : 'Tool execution failed'}`;
+            console.error(`Tool ${toolName} failed:`, error);
+          }
 
-        // Create tool response message
-        const toolResponseMessage = this.formatToolResponseMessage(
-          functionResult,
-          toolName,
-          toolCallId
-        );
+          // Send tool completion status to WebSocket
+          if (websocket) {
+            const statusMessage = {
+              tool_call: true,
+              tool_name: toolName,
+              tool_status: 'completed',
+              tool_result: functionResult,
+            };
+            websocket.send(JSON.stringify(statusMessage));
+          }
+
+          // Send tool result message to WebSocket
+          if (websocket) {
+            websocket.send(
+              JSON.stringify({
+                role: MESSAGE_ROLES.TOOL,
+                name: toolName,
+                content: functionResult,
+                tool_call_id: toolCallId,
+              })
+            );
+          }
 
-        // Add to responses array
-        toolResponses.push(toolResponseMessage);
-
-        // Send tool result message to WebSocket
-        if (websocket) {
-          websocket.send(
-            JSON.stringify({
-              role: MESSAGE_ROLES.TOOL,
-              name: toolName,
-              content: functionResult,
-              tool_call_id: toolCallId,
-            })
-          );
+          // Create tool response message
+          return this.formatToolResponseMessage(functionResult, toolName, toolCallId);
         }
-      }
+      );
 
       // Add all tool responses to conversation in correct order
       for (const response of toolResponses) {
@@ -653,7 +666,8 @@ export abstract class OpenAICompatibleProvider extends BaseServiceProvider {
     } catch (error) {
       console.error(`Error handling multiple tool calls:`, error);
 
-      if (websocket) {
+      // A cancelled turn is reported by the connection handler, not as a tool failure
+      if (websocket && !this.abortSignal?.aborted) {
         websocket.send(
           JSON.stringify({
             error: `Tool execution failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -706,8 +720,10 @@ export abstract class OpenAICompatibleProvider extends BaseServiceProvider {
         websocket.send(JSON.stringify(statusMessage));
       }
 
+      this.throwIfCancelled();
+
       // Execute the tool
-      const functionResult = await this.invokeTool(toolName, toolArgs);
+      const functionResult = await this.invokeTool(toolName, toolArgs, websocket, toolCall);
       console.log(`Tool ${toolName} result:`, functionResult);
 
       // Send tool completion status to WebSocket
@@ -758,7 +774,8 @@ export abstract class OpenAICompatibleProvider extends BaseServiceProvider {
     } catch (error) {
       console.error(`Error in ${this.service_provider} synchronizeMessageContextToClient:`, error);
 
-      if (websocket) {
+      // A cancelled turn is reported by the connection handler, not as a tool failure
+      if (websocket && !this.abortSignal?.aborted) {
         websocket.send(
           JSON.stringify({
             error: `Tool execution failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -0,0 +1,185 @@
+/**
+ * Scripted Provider
+ *
+ * Offline provider that plays back a script of canned assistant turns. The script
+ * is served as OpenAI chat completion responses through the OpenAI transport, so
+ * streaming, tool execution and the recursive tool loop run exactly as they do
+ * against a live API.
+ *
+ * The agent's model_name is the script path (YAML or JSON), resolved against
+ * SCRIPTED_PROVIDER_DIR or the working directory:
+ *
+ *   turns:
+ *     - text: Let me check the time.
+ *       tool_calls:
+ *         - name: get_current_datetime
+ *           arguments: { timezone: UTC }
+ *     - text: It is noon in London.
+ *       usage: { input_tokens: 120, output_tokens: 8 }
+ *
+ * Each API call plays the next turn, including the calls made after tool results.
+ * Arguments given as a string are sent as written, e.g. to replay a malformed call.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { AgentConfig, ToolRegistry } from '../types/index.js';
+import { OpenAICompatibleProvider } from './openai-compatible-provider.js';
+import { MESSAGE_ROLES, SERVICE_PROVIDERS } from '../constants/message-constants.js';
+import { FetchFunction } from '../types/transport-types.js';
+
+const ScriptedTurnSchema = z.object({
+  text: z.string().optional(),
+  tool_calls: z
+    .array(
+      z.object({
+        id: z.string().optional(),
+        name: z.string().min(1, 'Tool call name is required'),
+        arguments: z.union([z.record(z.unknown()), z.string()]).optional(),
+      })
+    )
+    .optional(),
+  usage: z
+    .object({
+      input_tokens: z.number().int().nonnegative().optional(),
+      output_tokens: z.number().int().nonnegative().optional(),
+    })
+    .optional(),
+});
+
+const ProviderScriptSchema = z.object({
+  // Start again from the first turn once the script runs out, instead of failing
+  loop: z.boolean().optional(),
+  turns: z.array(ScriptedTurnSchema).min(1, 'A script needs at least one turn'),
+});
+
+export type ScriptedTurn = z.infer<typeof ScriptedTurnSchema>;
+export type ProviderScript = z.infer<typeof ProviderScriptSchema>;
+
+/**
+ * Read and validate a script file; JSON scripts are parsed as YAML too
+ */
+export function loadProviderScript(scriptPath: string): ProviderScript {
+  const resolvedPath = path.resolve(process.env.SCRIPTED_PROVIDER_DIR || process.cwd(), scriptPath);
+  const content = fs.readFileSync(resolvedPath, 'utf-8');
+
+  const result = ProviderScriptSchema.safeParse(parseYaml(content));
+  if (!result.success) {
+    const problems = result.error.errors.map((e) => `${e.path.join('.')}: ${e.message}`);
+    throw new Error(`Invalid provider script ${resolvedPath}: ${problems.join('; ')}`);
+  }
+  return result.data;
+}
+
+/**
+ * A fetch that answers chat completion requests with the script's turns, in order
+ */
+export function createScriptedFetch(script: ProviderScript, scriptName = 'script'): FetchFunction {
+  let nextTurn = 0;
+
+  return (_url, init) => {
+    if (nextTurn >= script.turns.length) {
+      if (!script.loop) {
+        return Promise.reject(new Error(`Provider script '${scriptName}' has no turns left`));
+      }
+      nextTurn = 0;
+    }
+
+    const turn = script.turns[nextTurn];
+    const callIndex = nextTurn++;
+    const request = JSON.parse(typeof init.body === 'string' ? init.body : '{}') as {
+      stream?: boolean;
+    };
+
+    return Promise.resolve(
+      request.stream
+        ? new Response(toEventStream(turn, callIndex), {
+            headers: { 'Content-Type': 'text/event-stream' },
+          })
+        : Response.json(toChatCompletion(turn, callIndex))
+    );
+  };
+}
+
+function toOpenAIToolCalls(turn: ScriptedTurn, callIndex: number) {
+  return (turn.tool_calls || []).map((call, index) => ({
+    id: call.id || `call_script_${callIndex}_${index}`,
+    type: 'function',
+    function: {
+      name: call.name,
+      arguments:
+        typeof call.arguments === 'string' ? call.arguments : JSON.stringify(call.arguments || {}),
+    },
+  }));
+}
+
+function toOpenAIUsage(turn: ScriptedTurn) {
+  const promptTokens = turn.usage?.input_tokens || 0;
+  const completionTokens = turn.usage?.output_tokens || 0;
+  return {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: promptTokens + completionTokens,
+  };
+}
+
+function toChatCompletion(turn: ScriptedTurn, callIndex: number) {
+  const toolCalls = toOpenAIToolCalls(turn, callIndex);
+
+  return {
+    id: `chatcmpl-script-${callIndex}`,
+    object: 'chat.completion',
+    choices: [
+      {
+        index: 0,
+        message: {
+          role: MESSAGE_ROLES.ASSISTANT,
+          content: turn.text ?? null,
+          ...(toolCalls.length > 0 && { tool_calls: toolCalls }),
+        },
+        finish_reason: toolCalls.length > 0 ? 'tool_calls' : 'stop',
+      },
+    ],
+    usage: toOpenAIUsage(turn),
+  };
+}
+
+/**
+ * Server-sent events for a turn: its text word by word, then the tool calls and usage
+ */
+function toEventStream(turn: ScriptedTurn, callIndex: number): string {
+  const toolCalls = toOpenAIToolCalls(turn, callIndex);
+  const chunks: unknown[] = (turn.text?.match(/\S*\s*/g) || [])
+    .filter((piece) => piece.length > 0)
+    .map((piece) => ({ choices: [{ index: 0, delta: { content: piece } }] }));
+
+  toolCalls.forEach((toolCall, index) => {
+    chunks.push({ choices: [{ index: 0, delta: { tool_calls: [{ index, ...toolCall }] } }] });
+  });
+  chunks.push({
+    choices: [{ index: 0, delta: {}, finish_reason: toolCalls.length > 0 ? 'tool_calls' : 'stop' }],
+    usage: toOpenAIUsage(turn),
+  });
+
+  return chunks.map((chunk) => `data: ${JSON.stringify(chunk)}\n\n`).join('') + 'data: [DONE]\n\n';
+}
+
+export class ScriptedProvider extends OpenAICompatibleProvider {
+  constructor(agentConfig: AgentConfig, toolRegistry?: ToolRegistry) {
+    super(
+      agentConfig,
+      SERVICE_PROVIDERS.SCRIPTED,
+      {
+        apiKey: 'scripted',
+        baseUrl: 'http://scripted.invalid/v1',
+        fetch: createScriptedFetch(
+          loadProviderScript(agentConfig.model_name),
+          agentConfig.model_name
+        ),
+      },
+      toolRegistry
+    );
+  }
+}
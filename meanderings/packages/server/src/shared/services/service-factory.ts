@@ -6,8 +6,11 @@ import { GoogleProvider } from './google-provider.js';
 import { GroqProvider } from './groq-provider.js';
 import { OllamaProvider } from './ollama-provider.js';
 import { LMStudioProvider } from './lmstudio-provider.js';
+import { ScriptedProvider } from './scripted-provider.js';
+import { FallbackServiceProvider } from './fallback-provider.js';
 import {
   initializeToolRegistry,
+  syncMCPServerTools,
   ToolRegistryManagerAdapter,
 } from '../tools/dynamic-tool-registry.js';
 import { MCPClientManager } from '../tools/mcp-manager.js';
@@ -16,6 +19,7 @@ import winston from 'winston';
 export class ServiceFactory {
   private static toolRegistryAdapter: ToolRegistryManagerAdapter | null = null;
   private static mcpClientManager: MCPClientManager | null = null;
+  private static unsubscribeMCPTools: (() => void) | null = null;
   private static logger: winston.Logger | null = null;
 
   /**
@@ -34,6 +38,13 @@ export class ServiceFactory {
 
     const dynamicRegistry = await initializeToolRegistry(logger, mcpClientManager);
     this.toolRegistryAdapter = new ToolRegistryManagerAdapter(dynamicRegistry, logger);
+
+    // Keep the registry in step with MCP servers that reconnect, or are added or removed
+    this.unsubscribeMCPTools?.();
+    this.unsubscribeMCPTools =
+      mcpClientManager?.onToolsChanged((serverName, tools) =>
+        syncMCPServerTools(logger, serverName, tools)
+      ) ?? null;
     logger.info('Dynamic tool registry initialized successfully');
   }
 
@@ -112,6 +123,38 @@ export class ServiceFactory {
       }
     }
 
+    const primary = this.createProviderInstance(agentConfig, agentToolRegistry);
+    const provider: ServiceProvider = agentConfig.fallbacks?.length
+      ? new FallbackServiceProvider([
+          primary,
+          ...agentConfig.fallbacks.map((fallback) =>
+            this.createProviderInstance(
+              {
+                ...agentConfig,
+                service_provider: fallback.service_provider,
+                model_name: fallback.model_name,
+              },
+              agentToolRegistry
+            )
+          ),
+        ])
+      : primary;
+
+    // Set the dynamic tool registry adapter if available
+    if (this.toolRegistryAdapter && provider.setToolRegistryAdapter) {
+      provider.setToolRegistryAdapter(this.toolRegistryAdapter);
+    }
+
+    return provider;
+  }
+
+  /**
+   * Instantiate the provider class for an agent's service_provider
+   */
+  private static createProviderInstance(
+    agentConfig: AgentConfig,
+    agentToolRegistry?: ToolRegistry
+  ): ServiceProvider {
     let provider: ServiceProvider;
     console.error(
       `ServiceFactory: Creating provider for ${agentConfig.agent_name} with service_provider: ${agentConfig.service_provider}`
@@ -145,15 +188,14 @@ export class ServiceFactory {
         provider = new LMStudioProvider(agentConfig, agentToolRegistry);
         break;
 
+      case SERVICE_PROVIDERS.SCRIPTED:
+        provider = new ScriptedProvider(agentConfig, agentToolRegistry);
+        break;
+
       default:
         throw new Error(`Unsupported service provider: ${String(agentConfig.service_provider)}`);
     }
 
-    // Set the dynamic tool registry adapter if available
-    if (this.toolRegistryAdapter && provider.setToolRegistryAdapter) {
-      provider.setToolRegistryAdapter(this.toolRegistryAdapter);
-    }
-
     return provider;
   }
 
@@ -165,6 +207,7 @@ export class ServiceFactory {
       SERVICE_PROVIDERS.GROQ,
       SERVICE_PROVIDERS.OLLAMA,
       SERVICE_PROVIDERS.LMSTUDIO,
+      SERVICE_PROVIDERS.SCRIPTED,
     ];
   }
 
@@ -195,6 +238,9 @@ export class ServiceFactory {
       case SERVICE_PROVIDERS.LMSTUDIO:
         return []; // These typically run locally without API keys
 
+      case SERVICE_PROVIDERS.SCRIPTED:
+        return []; // Plays back a script file, no API involved
+
       default:
         return [];
     }
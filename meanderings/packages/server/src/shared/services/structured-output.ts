@@ -0,0 +1,63 @@
+/**
+ * Structured output
+ *
+ * An agent with a response_schema answers with a JSON object matching that schema, for
+ * callers that act on the answer rather than show it. The schema is sent as the
+ * response format: OpenAI-compatible servers and Gemini enforce it natively, and Claude
+ * is asked for it in the system prompt. Every final answer is also checked here, since
+ * not every server or model keeps to it. An answer that doesn't match is sent back
+ * with the problems, and the model asked again up to RESPONSE_SCHEMA_RETRIES times. The
+ * object read from the answer is returned as structured_result: on the final assistant
+ * frame over WebSocket, and in the HTTP chat and trigger run responses. It is null if the
+ * model never gave a matching answer.
+ */
+
+import { parseToolArguments } from '../tools/tool-call-repair.js';
+import { validateToolArguments } from '../tools/tool-argument-validation.js';
+import type { GenerationResponseFormat } from '../types/index.js';
+
+export const DEFAULT_RESPONSE_SCHEMA_RETRIES = Number(process.env.RESPONSE_SCHEMA_RETRIES) || 2;
+
+/**
+ * Response format that asks for answers matching the agent's response_schema
+ */
+export function responseSchemaFormat(schema: Record<string, unknown>): GenerationResponseFormat {
+  return { type: 'json_schema', name: 'response', schema };
+}
+
+/**
+ * Read an answer as the object the schema describes. Returns the object, with values
+ * coerced where tool arguments would be, or what is wrong with the answer.
+ */
+export function readStructuredResult(
+  text: string,
+  schema: Record<string, unknown>
+): { value: Record<string, unknown> } | { problems: string[] } {
+  const parsed = text.trim() ? parseToolArguments(text) : null;
+  if (!parsed) {
+    return { problems: ['the answer is not a JSON object'] };
+  }
+
+  const validation = validateToolArguments(schema, parsed.value);
+  if (!validation.valid) {
+    return {
+      problems: validation.issues.map((issue) =>
+        issue.path ? `${issue.path} ${issue.message}` : issue.message
+      ),
+    };
+  }
+  return { value: validation.args };
+}
+
+/**
+ * User message that asks for the answer again when it doesn't match the schema
+ */
+export function formatStructuredOutputCorrection(
+  problems: string[],
+  schema: Record<string, unknown>
+): string {
+  return (
+    `[Your answer does not match the required JSON schema: ${problems.join('; ')}. ` +
+    `Answer again with only a JSON object that matches this schema:\n${JSON.stringify(schema)}]`
+  );
+}
@@ -0,0 +1,328 @@
+/**
+ * Trigger Event Store
+ *
+ * The trigger_events table in SQLite. It holds the events agents record with the
+ * log_trigger_event tool, and one row per triggered agent run (event_type 'agent_run')
+ * with the run's prompt, transcript, tool calls and outcome, and the structured result of
+ * an agent with a response_schema.
+ * Uses Bun's native bun:sqlite module
+ */
+import { Database } from 'bun:sqlite';
+import { join, dirname } from 'path';
+import { existsSync, mkdirSync } from 'fs';
+import { Message } from '../types/index.js';
+import type { ToolCallSummary } from '../utils/message-content.js';
+
+export const AGENT_RUN_EVENT = 'agent_run';
+
+export type TriggerRunSource = 'schedule' | 'webhook' | 'replay';
+export type TriggerRunStatus = 'running' | 'succeeded' | 'failed';
+
+export type TriggerToolCall = ToolCallSummary;
+
+/**
+ * Run metadata returned by list (transcript omitted)
+ */
+export interface TriggerRunSummary {
+  id: string;
+  trigger_name: string;
+  agent_name: string;
+  source: TriggerRunSource;
+  status: TriggerRunStatus;
+  attempts: number;
+  conversation_id: string | null;
+  outcome: string;
+  error: string | null;
+  started_at: string;
+  finished_at: string | null;
+  replay_of: string | null;
+}
+
+export interface TriggerRun extends TriggerRunSummary {
+  prompt: string;
+  payload: unknown;
+  tool_calls: TriggerToolCall[];
+  transcript: Message[];
+  structured_result: unknown;
+}
+
+export type TriggerRunUpdate = Partial<
+  Pick<
+    TriggerRun,
+    | 'status'
+    | 'attempts'
+    | 'conversation_id'
+    | 'outcome'
+    | 'error'
+    | 'finished_at'
+    | 'tool_calls'
+    | 'transcript'
+    | 'structured_result'
+  >
+>;
+
+export interface TriggerEventStoreOptions {
+  dbPath?: string;
+}
+
+interface TriggerEventRow {
+  id: string;
+  event_data: string;
+  analysis: string;
+  trigger_name: string;
+  agent_name: string;
+  source: TriggerRunSource;
+  status: TriggerRunStatus;
+  attempts: number;
+  prompt: string;
+  conversation_id: string | null;
+  transcript: string | null;
+  tool_calls: string | null;
+  structured_result: string | null;
+  error: string | null;
+  started_at: string;
+  finished_at: string | null;
+  replay_of: string | null;
+}
+
+// Columns added for agent runs; older databases get them on open
+const RUN_COLUMNS: Record<string, string> = {
+  trigger_name: 'TEXT',
+  agent_name: 'TEXT',
+  source: 'TEXT',
+  status: 'TEXT',
+  attempts: 'INTEGER NOT NULL DEFAULT 0',
+  prompt: 'TEXT',
+  conversation_id: 'TEXT',
+  transcript: 'TEXT',
+  tool_calls: 'TEXT',
+  structured_result: 'TEXT',
+  error: 'TEXT',
+  started_at: 'TEXT',
+  finished_at: 'TEXT',
+  replay_of: 'TEXT',
+};
+
+// Run fields stored under a column of another name
+const RUN_FIELD_COLUMNS: Record<string, string> = {
+  outcome: 'analysis',
+};
+
+const JSON_FIELDS = new Set(['tool_calls', 'transcript', 'structured_result']);
+
+function newEventId(prefix: string): string {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+}
+
+export class TriggerEventStore {
+  private static instance: TriggerEventStore;
+  private db: Database;
+
+  constructor(options: TriggerEventStoreOptions = {}) {
+    const dbPath =
+      options.dbPath ||
+      process.env.TRIGGER_EVENTS_DB_PATH ||
+      join(process.cwd(), 'data', 'trigger-events.db');
+
+    if (dbPath !== ':memory:' && !existsSync(dirname(dbPath))) {
+      mkdirSync(dirname(dbPath), { recursive: true });
+    }
+
+    console.log(`[TriggerEvents] Opening database: ${dbPath}`);
+    this.db = new Database(dbPath, { create: true });
+
+    // Enable Write-Ahead Logging for better concurrency
+    this.db.exec('PRAGMA journal_mode = WAL;');
+
+    this.initializeSchema();
+  }
+
+  static getInstance(): TriggerEventStore {
+    if (!TriggerEventStore.instance) {
+      TriggerEventStore.instance = new TriggerEventStore();
+    }
+    return TriggerEventStore.instance;
+  }
+
+  /**
+   * Initialize database schema, adding the run columns to an existing table
+   */
+  private initializeSchema(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS trigger_events (
+        id TEXT PRIMARY KEY,
+        event_type TEXT NOT NULL,
+        event_data TEXT NOT NULL,
+        analysis TEXT NOT NULL,
+        timestamp TEXT NOT NULL,
+        created_at TEXT DEFAULT (datetime('now'))
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_event_type ON trigger_events(event_type);
+      CREATE INDEX IF NOT EXISTS idx_timestamp ON trigger_events(timestamp);
+    `);
+
+    const existing = new Set(
+      (this.db.query('PRAGMA table_info(trigger_events)').all() as { name: string }[]).map(
+        (column) => column.name
+      )
+    );
+    for (const [column, type] of Object.entries(RUN_COLUMNS)) {
+      if (!existing.has(column)) {
+        this.db.exec(`ALTER TABLE trigger_events ADD COLUMN ${column} ${type}`);
+      }
+    }
+    this.db.exec(
+      'CREATE INDEX IF NOT EXISTS idx_trigger_name ON trigger_events(trigger_name, started_at)'
+    );
+  }
+
+  /**
+   * Record an event observed by an agent (the log_trigger_event tool)
+   */
+  logEvent(event: { event_type: string; event_data: string; analysis: string }): string {
+    const id = newEventId('evt');
+    this.db
+      .query(
+        `INSERT INTO trigger_events (id, event_type, event_data, analysis, timestamp)
+         VALUES (?, ?, ?, ?, ?)`
+      )
+      .run(id, event.event_type, event.event_data, event.analysis, new Date().toISOString());
+    return id;
+  }
+
+  /**
+   * Record the start of a triggered agent run
+   */
+  createRun(run: {
+    trigger_name: string;
+    agent_name: string;
+    source: TriggerRunSource;
+    prompt: string;
+    payload: unknown;
+    replay_of?: string;
+  }): TriggerRun {
+    const id = newEventId('run');
+    const startedAt = new Date().toISOString();
+
+    this.db
+      .query(
+        `INSERT INTO trigger_events
+          (id, event_type, event_data, analysis, timestamp, trigger_name, agent_name, source,
+           status, attempts, prompt, started_at, replay_of)
+        VALUES (?, ?, ?, '', ?, ?, ?, ?, 'running', 0, ?, ?, ?)`
+      )
+      .run(
+        id,
+        AGENT_RUN_EVENT,
+        JSON.stringify(run.payload ?? null),
+        startedAt,
+        run.trigger_name,
+        run.agent_name,
+        run.source,
+        run.prompt,
+        startedAt,
+        run.replay_of ?? null
+      );
+
+    return this.getRun(id) as TriggerRun;
+  }
+
+  updateRun(id: string, update: TriggerRunUpdate): TriggerRun | null {
+    const entries = Object.entries(update).filter(([, value]) => value !== undefined);
+    if (entries.length > 0) {
+      const assignments = entries
+        .map(([field]) => `${RUN_FIELD_COLUMNS[field] ?? field} = ?`)
+        .join(', ');
+      const values = entries.map(([field, value]) =>
+        JSON_FIELDS.has(field) ? JSON.stringify(value) : (value as string | number | null)
+      );
+      this.db
+        .query(`UPDATE trigger_events SET ${assignments} WHERE id = ? AND event_type = ?`)
+        .run(...values, id, AGENT_RUN_EVENT);
+    }
+    return this.getRun(id);
+  }
+
+  getRun(id: string): TriggerRun | null {
+    const row = this.db
+      .query('SELECT * FROM trigger_events WHERE id = ? AND event_type = ?')
+      .get(id, AGENT_RUN_EVENT) as TriggerEventRow | null;
+
+    if (!row) {
+      return null;
+    }
+
+    return {
+      ...TriggerEventStore.toSummary(row),
+      prompt: row.prompt,
+      payload: JSON.parse(row.event_data) as unknown,
+      tool_calls: row.tool_calls ? (JSON.parse(row.tool_calls) as TriggerToolCall[]) : [],
+      transcript: row.transcript ? (JSON.parse(row.transcript) as Message[]) : [],
+      structured_result: row.structured_result
+        ? (JSON.parse(row.structured_result) as unknown)
+        : null,
+    };
+  }
+
+  /**
+   * List runs, most recent first
+   */
+  listRuns(
+    options: { triggerName?: string; status?: string; limit?: number; offset?: number } = {}
+  ): TriggerRunSummary[] {
+    const conditions = ['event_type = ?'];
+    const params: (string | number)[] = [AGENT_RUN_EVENT];
+    if (options.triggerName) {
+      conditions.push('trigger_name = ?');
+      params.push(options.triggerName);
+    }
+    if (options.status) {
+      conditions.push('status = ?');
+      params.push(options.status);
+    }
+    params.push(options.limit ?? 50, options.offset ?? 0);
+
+    const rows = this.db
+      .query(
+        `SELECT * FROM trigger_events WHERE ${conditions.join(' AND ')}
+         ORDER BY started_at DESC, rowid DESC LIMIT ? OFFSET ?`
+      )
+      .all(...params) as TriggerEventRow[];
+
+    return rows.map((row) => TriggerEventStore.toSummary(row));
+  }
+
+  /**
+   * Runs that were still going when the server last stopped are marked failed
+   */
+  failInterruptedRuns(): number {
+    return this.db
+      .query(
+        `UPDATE trigger_events SET status = 'failed', error = ?, finished_at = ?
+         WHERE event_type = ? AND status = 'running'`
+      )
+      .run('Interrupted by a server restart', new Date().toISOString(), AGENT_RUN_EVENT).changes;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private static toSummary(row: TriggerEventRow): TriggerRunSummary {
+    return {
+      id: row.id,
+      trigger_name: row.trigger_name,
+      agent_name: row.agent_name,
+      source: row.source,
+      status: row.status,
+      attempts: row.attempts,
+      conversation_id: row.conversation_id,
+      outcome: row.analysis,
+      error: row.error,
+      started_at: row.started_at,
+      finished_at: row.finished_at,
+      replay_of: row.replay_of,
+    };
+  }
+}
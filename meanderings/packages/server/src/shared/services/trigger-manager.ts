@@ -0,0 +1,336 @@
+/**
+ * Trigger Manager
+ *
+ * Starts agents without a client, from the triggers in triggers.json (working directory,
+ * or TRIGGERS_PATH): on a cron schedule, from a webhook, or by replaying an earlier run.
+ * Each run sends the trigger's prompt, filled in from the event, to a fresh conversation
+ * with the agent and is recorded in trigger_events. Failed attempts are retried.
+ * Runs are headless, so tools with a confirm policy are refused.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { resolve } from 'path';
+import { AgentConfigManager } from '../config/agent-config.js';
+import { validateTriggersFile, TriggerConfig, TriggersFile } from '../schemas/triggers-schema.js';
+import { parseCron, nextCronTime } from '../utils/cron.js';
+import { ServiceFactory } from './service-factory.js';
+import { TriggerEventStore, TriggerRun, TriggerRunSource } from './trigger-event-store.js';
+import { extractToolCalls, lastMessageText } from '../utils/message-content.js';
+import type { Message } from '../types/index.js';
+
+// setTimeout can't wait longer than this; later runs are re-armed when it fires
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+type RunSettings = Pick<TriggerConfig, 'retries' | 'retry_delay_ms' | 'timeout_ms'>;
+
+// Used when replaying a run whose trigger has since been removed
+const DEFAULT_RUN_SETTINGS: RunSettings = { retries: 0, retry_delay_ms: 0, timeout_ms: 300_000 };
+
+export interface TriggerSummary {
+  name: string;
+  agent: string;
+  description?: string;
+  schedule?: string;
+  webhook: boolean;
+  enabled: boolean;
+  next_run_at: string | null;
+  running: number;
+}
+
+/**
+ * A run that has been recorded and is underway; finished settles once it succeeds or fails
+ */
+export interface StartedTriggerRun {
+  run: TriggerRun;
+  finished: Promise<TriggerRun>;
+}
+
+export interface TriggerManagerOptions {
+  triggers?: TriggersFile;
+  store?: TriggerEventStore;
+  agentConfigs?: AgentConfigManager;
+}
+
+/**
+ * Fill {{name}} and {{dotted.path}} placeholders; objects are inserted as JSON, missing values as ''
+ */
+export function renderTriggerPrompt(template: string, variables: Record<string, unknown>): string {
+  return template.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (_placeholder, path: string) => {
+    let value: unknown = variables;
+    for (const key of path.split('.')) {
+      value =
+        value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined;
+    }
+
+    if (value === undefined || value === null) {
+      return '';
+    }
+    return typeof value === 'string' ? value : JSON.stringify(value);
+  });
+}
+
+export class TriggerManager {
+  private static instance: TriggerManager;
+  private triggers: TriggersFile;
+  private store: TriggerEventStore;
+  private agentConfigs: AgentConfigManager;
+  private timers = new Map<string, { timer: ReturnType<typeof setTimeout>; next: Date }>();
+  private active = new Map<string, string>(); // run id -> trigger name
+  private scheduling = false;
+
+  constructor(options: TriggerManagerOptions = {}) {
+    this.triggers = options.triggers ?? TriggerManager.loadTriggers();
+    this.store = options.store ?? TriggerEventStore.getInstance();
+    this.agentConfigs = options.agentConfigs ?? AgentConfigManager.getInstance();
+  }
+
+  static getInstance(): TriggerManager {
+    if (!TriggerManager.instance) {
+      TriggerManager.instance = new TriggerManager();
+    }
+    return TriggerManager.instance;
+  }
+
+  private static loadTriggers(): TriggersFile {
+    const triggersPath = process.env.TRIGGERS_PATH || resolve(process.cwd(), 'triggers.json');
+
+    if (!existsSync(triggersPath)) {
+      console.info(`[Triggers] No triggers at ${triggersPath}`);
+      return {};
+    }
+
+    const triggers = validateTriggersFile(JSON.parse(readFileSync(triggersPath, 'utf8')));
+    console.info(`✅ Loaded ${Object.keys(triggers).length} triggers from ${triggersPath}`);
+    return triggers;
+  }
+
+  /**
+   * Arm every scheduled trigger. Runs left unfinished by a previous server are marked failed.
+   */
+  startScheduler(): void {
+    const interrupted = this.store.failInterruptedRuns();
+    if (interrupted > 0) {
+      console.warn(`[Triggers] Marked ${interrupted} interrupted run(s) as failed`);
+    }
+
+    this.scheduling = true;
+    for (const name of Object.keys(this.triggers)) {
+      this.schedule(name);
+    }
+  }
+
+  stopScheduler(): void {
+    this.scheduling = false;
+    for (const { timer } of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+  }
+
+  /**
+   * Re-read triggers.json and re-arm the schedules. Throws if the file is invalid;
+   * the previous triggers stay in place.
+   */
+  reload(): void {
+    const triggers = TriggerManager.loadTriggers();
+    const wasScheduling = this.scheduling;
+    this.stopScheduler();
+    this.triggers = triggers;
+    if (wasScheduling) {
+      this.scheduling = true;
+      for (const name of Object.keys(this.triggers)) {
+        this.schedule(name);
+      }
+    }
+  }
+
+  getTrigger(name: string): TriggerConfig | null {
+    return this.triggers[name] ?? null;
+  }
+
+  listTriggers(): TriggerSummary[] {
+    const running = [...this.active.values()];
+    return Object.entries(this.triggers).map(([name, trigger]) => ({
+      name,
+      agent: trigger.agent,
+      description: trigger.description,
+      schedule: trigger.schedule,
+      webhook: trigger.webhook,
+      enabled: trigger.enabled,
+      next_run_at: this.timers.get(name)?.next.toISOString() ?? null,
+      running: running.filter((triggerName) => triggerName === name).length,
+    }));
+  }
+
+  /**
+   * Start a trigger's agent with the prompt filled in from the payload
+   */
+  start(name: string, source: TriggerRunSource, payload: unknown = null): StartedTriggerRun {
+    const trigger = this.triggers[name];
+    if (!trigger) {
+      throw new Error(`Trigger '${name}' not found`);
+    }
+
+    const prompt = renderTriggerPrompt(trigger.prompt, {
+      trigger: name,
+      source,
+      now: new Date().toISOString(),
+      payload,
+    });
+    const run = this.store.createRun({
+      trigger_name: name,
+      agent_name: trigger.agent,
+      source,
+      prompt,
+      payload,
+    });
+    return this.launch(run, trigger);
+  }
+
+  /**
+   * Run an earlier run's prompt again with the same agent; null if the run doesn't exist
+   */
+  replay(runId: string): StartedTriggerRun | null {
+    const original = this.store.getRun(runId);
+    if (!original) {
+      return null;
+    }
+
+    const run = this.store.createRun({
+      trigger_name: original.trigger_name,
+      agent_name: original.agent_name,
+      source: 'replay',
+      prompt: original.prompt,
+      payload: original.payload,
+      replay_of: original.id,
+    });
+    return this.launch(run, this.triggers[original.trigger_name] ?? DEFAULT_RUN_SETTINGS);
+  }
+
+  private launch(run: TriggerRun, settings: RunSettings): StartedTriggerRun {
+    console.info(`[Triggers] Run ${run.id} of '${run.trigger_name}' started (${run.source})`);
+    this.active.set(run.id, run.trigger_name);
+
+    const finished = this.execute(run, settings).finally(() => this.active.delete(run.id));
+    // Webhooks answer before the run ends, so nothing else may be waiting to see a failure
+    finished.catch((error: unknown) =>
+      console.error(
+        `[Triggers] Run ${run.id} of '${run.trigger_name}' could not be recorded:`,
+        error
+      )
+    );
+    return { run, finished };
+  }
+
+  private async execute(run: TriggerRun, settings: RunSettings): Promise<TriggerRun> {
+    let lastError = '';
+
+    for (let attempt = 1; attempt <= settings.retries + 1; attempt++) {
+      if (attempt > 1) {
+        await new Promise((resolve) =>
+          setTimeout(resolve, settings.retry_delay_ms * (attempt - 1))
+        );
+      }
+      this.store.updateRun(run.id, { attempts: attempt });
+
+      try {
+        const result = await this.runAgent(run, settings.timeout_ms);
+        console.info(`[Triggers] Run ${run.id} of '${run.trigger_name}' succeeded`);
+        return this.store.updateRun(run.id, {
+          ...result,
+          status: 'succeeded',
+          error: null,
+          finished_at: new Date().toISOString(),
+        }) as TriggerRun;
+      } catch (error: unknown) {
+        lastError = error instanceof Error ? error.message : String(error);
+        console.warn(
+          `[Triggers] Run ${run.id} of '${run.trigger_name}' attempt ${attempt} failed: ${lastError}`
+        );
+      }
+    }
+
+    return this.store.updateRun(run.id, {
+      status: 'failed',
+      error: lastError,
+      finished_at: new Date().toISOString(),
+    }) as TriggerRun;
+  }
+
+  private async runAgent(run: TriggerRun, timeoutMs: number) {
+    const agentConfig = this.agentConfigs.getAgentConfig(run.agent_name);
+    if (!agentConfig) {
+      throw new Error(`Agent '${run.agent_name}' not found`);
+    }
+
+    const provider = ServiceFactory.createServiceProvider(agentConfig);
+    provider.agent_key = run.agent_name;
+    provider.conversation_id = `${run.trigger_name}-${run.id}`;
+    const timeout = new AbortController();
+    const timer = setTimeout(() => timeout.abort(), timeoutMs);
+    provider.setAbortSignal?.(timeout.signal);
+
+    try {
+      const { completeMessages, structured_result } = (await provider.makeApiCall(
+        [],
+        run.prompt,
+        undefined,
+        false
+      )) as { completeMessages: Message[]; structured_result?: unknown };
+      provider.logConversationMemory(completeMessages);
+
+      return {
+        conversation_id: provider.conversation_id,
+        transcript: completeMessages,
+        tool_calls: extractToolCalls(completeMessages),
+        outcome: lastMessageText(completeMessages),
+        structured_result: structured_result ?? null,
+      };
+    } catch (error: unknown) {
+      if (timeout.signal.aborted) {
+        throw new Error(`Timed out after ${timeoutMs}ms`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private schedule(name: string): void {
+    const trigger = this.triggers[name];
+    if (!this.scheduling || !trigger?.enabled || !trigger.schedule) {
+      return;
+    }
+
+    const next = nextCronTime(parseCron(trigger.schedule));
+    if (!next) {
+      console.warn(`[Triggers] Schedule '${trigger.schedule}' of '${name}' never fires`);
+      return;
+    }
+
+    const timer = setTimeout(
+      () => {
+        this.timers.delete(name);
+        if (Date.now() >= next.getTime()) {
+          this.fireScheduled(name);
+        }
+        this.schedule(name);
+      },
+      Math.min(next.getTime() - Date.now(), MAX_TIMER_DELAY_MS)
+    );
+    // A pending schedule shouldn't keep the process alive on its own
+    timer.unref?.();
+    this.timers.set(name, { timer, next });
+  }
+
+  private fireScheduled(name: string): void {
+    // A slow run isn't stacked up behind by the next tick of its own schedule
+    if ([...this.active.values()].includes(name)) {
+      console.warn(
+        `[Triggers] Skipping scheduled run of '${name}'; the previous one is still going`
+      );
+      return;
+    }
+    this.start(name, 'schedule');
+  }
+}
@@ -0,0 +1,257 @@
+/**
+ * Usage Ledger
+ *
+ * Records one row per provider API call (agent, conversation, provider, model,
+ * token counts, latency and cost) so usage can be aggregated by day, agent or model.
+ * Cost comes from the ModelPricing table at the time of the call.
+ * Uses Bun's native bun:sqlite module
+ */
+import { Database } from 'bun:sqlite';
+import { join, dirname } from 'path';
+import { existsSync, mkdirSync } from 'fs';
+import { ModelPricing } from '../config/model-pricing.js';
+
+/**
+ * A single API call as reported by a provider
+ */
+export interface UsageEntry {
+  agent_name: string;
+  conversation_id?: string | null;
+  service_provider: string;
+  model_name: string;
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_input_tokens: number;
+  cache_read_input_tokens: number;
+  total_tokens: number;
+  latency_ms: number;
+}
+
+/**
+ * A stored API call; cost is null when the model has no price
+ */
+export interface UsageRecord extends UsageEntry {
+  id: number;
+  conversation_id: string | null;
+  cost: number | null;
+  created_at: string;
+}
+
+/**
+ * Totals over a set of calls; cost only covers calls that have a price
+ */
+export interface UsageTotals {
+  calls: number;
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_input_tokens: number;
+  cache_read_input_tokens: number;
+  total_tokens: number;
+  cost: number;
+  unpriced_calls: number;
+  avg_latency_ms: number;
+}
+
+export interface UsageGroup extends UsageTotals {
+  key: string;
+}
+
+export const USAGE_GROUPINGS = ['day', 'agent', 'model'] as const;
+export type UsageGrouping = (typeof USAGE_GROUPINGS)[number];
+
+export interface UsageFilter {
+  agentName?: string;
+  conversationId?: string;
+  /** Inclusive lower bound, ISO date or timestamp */
+  from?: string;
+  /** Exclusive upper bound, ISO date or timestamp */
+  to?: string;
+}
+
+export interface UsageLedgerOptions {
+  dbPath?: string;
+  pricing?: ModelPricing;
+}
+
+const GROUP_COLUMNS: Record<UsageGrouping, string> = {
+  day: 'substr(created_at, 1, 10)',
+  agent: 'agent_name',
+  model: 'model_name',
+};
+
+const TOTAL_COLUMNS = `COUNT(*) AS calls,
+  COALESCE(SUM(input_tokens), 0) AS input_tokens,
+  COALESCE(SUM(output_tokens), 0) AS output_tokens,
+  COALESCE(SUM(cache_creation_input_tokens), 0) AS cache_creation_input_tokens,
+  COALESCE(SUM(cache_read_input_tokens), 0) AS cache_read_input_tokens,
+  COALESCE(SUM(total_tokens), 0) AS total_tokens,
+  COALESCE(SUM(cost), 0) AS cost,
+  COUNT(*) - COUNT(cost) AS unpriced_calls,
+  COALESCE(AVG(latency_ms), 0) AS avg_latency_ms`;
+
+export class UsageLedger {
+  private static instance: UsageLedger;
+  private db: Database;
+  private pricing: ModelPricing;
+
+  constructor(options: UsageLedgerOptions = {}) {
+    const dbPath =
+      options.dbPath || process.env.USAGE_DB_PATH || join(process.cwd(), 'data', 'usage.db');
+
+    if (dbPath !== ':memory:' && !existsSync(dirname(dbPath))) {
+      mkdirSync(dirname(dbPath), { recursive: true });
+    }
+
+    console.log(`[UsageLedger] Opening database: ${dbPath}`);
+    this.db = new Database(dbPath, { create: true });
+
+    // Enable Write-Ahead Logging for better concurrency
+    this.db.exec('PRAGMA journal_mode = WAL;');
+
+    this.initializeSchema();
+    this.pricing = options.pricing ?? ModelPricing.getInstance();
+  }
+
+  static getInstance(): UsageLedger {
+    if (!UsageLedger.instance) {
+      UsageLedger.instance = new UsageLedger();
+    }
+    return UsageLedger.instance;
+  }
+
+  /**
+   * Initialize database schema
+   */
+  private initializeSchema(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS api_calls (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        agent_name TEXT NOT NULL,
+        conversation_id TEXT,
+        service_provider TEXT NOT NULL,
+        model_name TEXT NOT NULL,
+        input_tokens INTEGER NOT NULL,
+        output_tokens INTEGER NOT NULL,
+        cache_creation_input_tokens INTEGER NOT NULL,
+        cache_read_input_tokens INTEGER NOT NULL,
+        total_tokens INTEGER NOT NULL,
+        latency_ms INTEGER NOT NULL,
+        cost REAL,
+        created_at TEXT NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_api_calls_created ON api_calls(created_at);
+      CREATE INDEX IF NOT EXISTS idx_api_calls_agent ON api_calls(agent_name);
+      CREATE INDEX IF NOT EXISTS idx_api_calls_conversation ON api_calls(conversation_id);
+    `);
+  }
+
+  getPricing(): ModelPricing {
+    return this.pricing;
+  }
+
+  /**
+   * Record an API call, pricing it with the current price table
+   */
+  record(entry: UsageEntry): UsageRecord {
+    const record: Omit<UsageRecord, 'id'> = {
+      ...entry,
+      conversation_id: entry.conversation_id ?? null,
+      latency_ms: Math.round(entry.latency_ms),
+      cost: this.pricing.calculateCost(entry.service_provider, entry.model_name, entry),
+      created_at: new Date().toISOString(),
+    };
+
+    const result = this.db
+      .query(
+        `INSERT INTO api_calls
+          (agent_name, conversation_id, service_provider, model_name, input_tokens, output_tokens,
+           cache_creation_input_tokens, cache_read_input_tokens, total_tokens, latency_ms,
+           cost, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        record.agent_name,
+        record.conversation_id,
+        record.service_provider,
+        record.model_name,
+        record.input_tokens,
+        record.output_tokens,
+        record.cache_creation_input_tokens,
+        record.cache_read_input_tokens,
+        record.total_tokens,
+        record.latency_ms,
+        record.cost,
+        record.created_at
+      );
+
+    return { id: Number(result.lastInsertRowid), ...record };
+  }
+
+  /**
+   * Individual calls, most recent first
+   */
+  list(filter: UsageFilter = {}, limit = 100, offset = 0): UsageRecord[] {
+    const { where, params } = UsageLedger.toWhereClause(filter);
+    return this.db
+      .query(`SELECT * FROM api_calls ${where} ORDER BY id DESC LIMIT ? OFFSET ?`)
+      .all(...params, limit, offset) as UsageRecord[];
+  }
+
+  totals(filter: UsageFilter = {}): UsageTotals {
+    const { where, params } = UsageLedger.toWhereClause(filter);
+    return this.db
+      .query(`SELECT ${TOTAL_COLUMNS} FROM api_calls ${where}`)
+      .get(...params) as UsageTotals;
+  }
+
+  /**
+   * Totals per day (UTC), agent or model
+   */
+  aggregate(groupBy: UsageGrouping, filter: UsageFilter = {}): UsageGroup[] {
+    const column = GROUP_COLUMNS[groupBy];
+    const { where, params } = UsageLedger.toWhereClause(filter);
+    const order = groupBy === 'day' ? 'key DESC' : 'cost DESC, total_tokens DESC';
+
+    return this.db
+      .query(
+        `SELECT ${column} AS key, ${TOTAL_COLUMNS} FROM api_calls ${where}
+         GROUP BY key ORDER BY ${order}`
+      )
+      .all(...params) as UsageGroup[];
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private static toWhereClause(filter: UsageFilter): {
+    where: string;
+    params: string[];
+  } {
+    const conditions: string[] = [];
+    const params: string[] = [];
+
+    if (filter.agentName) {
+      conditions.push('agent_name = ?');
+      params.push(filter.agentName);
+    }
+    if (filter.conversationId) {
+      conditions.push('conversation_id = ?');
+      params.push(filter.conversationId);
+    }
+    if (filter.from) {
+      conditions.push('created_at >= ?');
+      params.push(filter.from);
+    }
+    if (filter.to) {
+      conditions.push('created_at < ?');
+      params.push(filter.to);
+    }
+
+    return {
+      where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+      params,
+    };
+  }
+}
@@ -12,6 +12,8 @@ import { fileURLToPath } from 'url';
 import { _TOOL_REGISTRY, ToolFunction, ToolContext } from './tool-function-decorator.js';
 import { ToolDefinition, ToolRegistry } from '../types/index.js';
 import { MCPClientManager } from './mcp-manager.js';
+import { formatToolTimeout, getToolTimeout, NO_TOOL_TIMEOUT } from './tool-execution.js';
+import { checkToolArguments } from './tool-argument-validation.js';
 import winston from 'winston';
 
 // Directories containing the tool modules
@@ -134,7 +136,12 @@ export class DynamicToolRegistry {
   ): Promise<unknown> {
     const func = this.functionRegistry[functionName];
     if (func) {
-      return await func(parameters, context);
+      const definition = this.definitions.find((tool) => tool.name === functionName) ?? {};
+      const checked = checkToolArguments(this.logger, functionName, definition, parameters);
+      if ('result' in checked) {
+        return checked.result;
+      }
+      return await func(checked.args, context);
     }
     throw new Error(`Invalid function name: ${functionName}`);
   }
@@ -220,6 +227,9 @@ export async function initializeToolRegistry(
   return createDynamicToolRegistry(logger);
 }
 
+// Names each MCP server registered, so its tools can be replaced when it reconnects
+const mcpToolNames = new Map<string, string[]>();
+
 /**
  * Add MCP tools to the global tool registry
  */
@@ -231,25 +241,56 @@ function addMCPToolsToRegistry(logger: winston.Logger, mcpClientManager: MCPClie
 
   for (const [serverName, tools] of Object.entries(serverTools)) {
     logger.info(`  📡 Processing ${Object.keys(tools).length} tools from ${serverName}...`);
+    totalMcpTools += registerMCPServerTools(logger, serverName, tools);
+  }
 
-    for (const [toolName, toolData] of Object.entries(tools)) {
-      // MCP tools are already in the correct format from MCPClientManager
-      // Type assertion since we know the structure from MCPClientManager
-      const typedToolData = toolData as { definition: ToolDefinition; function: ToolFunction };
+  logger.info(`✅ Added ${totalMcpTools} MCP tools to dynamic registry`);
+  logger.info(`📊 Total tools in registry: ${_TOOL_REGISTRY.size}`);
+}
 
-      // Just add them to the global registry
-      _TOOL_REGISTRY.set(toolName, {
-        definition: typedToolData.definition,
-        function: typedToolData.function,
-      });
+function registerMCPServerTools(
+  logger: winston.Logger,
+  serverName: string,
+  tools: Record<string, unknown>
+): number {
+  for (const [toolName, toolData] of Object.entries(tools)) {
+    // MCP tools are already in the correct format from MCPClientManager
+    // Type assertion since we know the structure from MCPClientManager
+    const typedToolData = toolData as { definition: ToolDefinition; function: ToolFunction };
+
+    // Just add them to the global registry
+    _TOOL_REGISTRY.set(toolName, {
+      definition: typedToolData.definition,
+      function: typedToolData.function,
+    });
 
-      logger.info(`    ➕ Registered MCP tool: ${toolName}`);
-      totalMcpTools++;
-    }
+    logger.info(`    ➕ Registered MCP tool: ${toolName}`);
   }
 
-  logger.info(`✅ Added ${totalMcpTools} MCP tools to dynamic registry`);
-  logger.info(`📊 Total tools in registry: ${_TOOL_REGISTRY.size}`);
+  mcpToolNames.set(serverName, Object.keys(tools));
+  return Object.keys(tools).length;
+}
+
+/**
+ * Replace one MCP server's tools in the global registry, e.g. after it reconnects.
+ * With null, the server's tools are removed.
+ */
+export function syncMCPServerTools(
+  logger: winston.Logger,
+  serverName: string,
+  tools: Record<string, unknown> | null
+): void {
+  for (const toolName of mcpToolNames.get(serverName) ?? []) {
+    _TOOL_REGISTRY.delete(toolName);
+  }
+  mcpToolNames.delete(serverName);
+
+  if (tools) {
+    const count = registerMCPServerTools(logger, serverName, tools);
+    logger.info(`🔄 Refreshed ${count} MCP tools from ${serverName}`);
+  } else {
+    logger.info(`🔄 Removed MCP tools from ${serverName}`);
+  }
 }
 
 // For backwards compatibility with existing code
@@ -290,11 +331,41 @@ export class ToolRegistryManagerAdapter implements ToolRegistryManager {
       return `Error: Tool '${name}' is disabled`;
     }
 
+    // Arguments that don't fit the tool's schema go back to the model to correct
+    const checked = checkToolArguments(this.logger, name, tool.definition, parameters);
+    if ('result' in checked) {
+      return checked.result;
+    }
+
+    // A call that outlives its timeout is answered with a timeout result, and its
+    // signal is aborted so the tool can stop what it's doing
+    const timeoutMs = getToolTimeout(name);
+    const timeoutController = new AbortController();
+    const toolContext = context && {
+      ...context,
+      signal: context.signal
+        ? AbortSignal.any([context.signal, timeoutController.signal])
+        : timeoutController.signal,
+    };
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timedOut = new Promise<string>((resolve) => {
+      if (timeoutMs === NO_TOOL_TIMEOUT) {
+        return;
+      }
+      timer = setTimeout(() => {
+        this.logger.warn(`⏱️ Tool '${name}' timed out after ${timeoutMs}ms`);
+        timeoutController.abort();
+        resolve(formatToolTimeout(name, timeoutMs));
+      }, timeoutMs);
+    });
+
     try {
-      return await tool.function(parameters, context);
+      return await Promise.race([tool.function(checked.args, toolContext), timedOut]);
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       return `Error: Tool '${name}' execution failed: ${errorMessage}`;
+    } finally {
+      clearTimeout(timer);
     }
   }
 
@@ -1,7 +1,8 @@
 /**
  * Add Agent Function Tool
  *
- * Adds a newly created tool to an agent's available_functions array in agents.json.
+ * Adds a newly created tool to an agent's available_functions array in agents.json,
+ * through the agents API so the change is recorded in the agent's history.
  * This is the final step in AI self-evolution - making the new capability accessible
  * to specific AI agents.
  *
@@ -10,23 +11,21 @@
  */
 
 import { toolFunction, ToolContext } from '../tool-function-decorator.js';
-import * as fs from 'fs/promises';
-import * as path from 'path';
 
 /**
  * Add a function to an agent's available_functions array
  *
- * This function reads agents.json, adds the function name to the specified agent's
- * available_functions array (if not already present), and writes the updated
- * configuration back to disk.
+ * Goes through the agents API, which adds the function name to the agent's
+ * available_functions (if not already present), records the change in the agent's
+ * history and reloads the agent configurations.
  */
 export async function addAgentFunction(
   parameters: unknown = {},
-  _context?: ToolContext
+  context?: ToolContext
 ): Promise<string> {
   const params =
     parameters && typeof parameters === 'object'
-      ? (parameters as { agent_name?: string; function_name?: string })
+      ? (parameters as { agent_name?: string; function_name?: string; reason?: string })
       : {};
 
   const agentName = params.agent_name || 'AIlumina'; // Default to main consciousness agent
@@ -40,56 +39,34 @@ export async function addAgentFunction(
     });
   }
 
+  const serverUrl = process.env.SERVER_URL || 'http://localhost:8000';
+  const functionsEndpoint = `${serverUrl}/api/agents/${encodeURIComponent(agentName)}/functions`;
+
   try {
-    // Determine the path to agents.json
-    const agentsJsonPath = path.join(process.cwd(), 'agents.json');
+    const response = await fetch(functionsEndpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(context?.agentName && { 'X-Agent-Name': context.agentName }),
+      },
+      body: JSON.stringify({ functionName, reason: params.reason }),
+    });
 
-    // Read the current agents.json
-    const agentsJsonContent = await fs.readFile(agentsJsonPath, 'utf-8');
-    const agentsConfig = JSON.parse(agentsJsonContent);
+    const result = await response.json() as any;
 
-    // Check if the agent exists
-    if (!agentsConfig[agentName]) {
+    if (!response.ok) {
       return JSON.stringify({
         success: false,
-        error: `Agent '${agentName}' not found in agents.json`,
-        available_agents: Object.keys(agentsConfig),
+        error: result.message || `Agent '${agentName}' not found`,
       });
     }
 
-    // Initialize available_functions if it doesn't exist
-    if (!agentsConfig[agentName].available_functions) {
-      agentsConfig[agentName].available_functions = [];
-    }
-
-    // Check if the function is already in the array
-    const availableFunctions = agentsConfig[agentName].available_functions;
-    if (availableFunctions.includes(functionName)) {
-      return JSON.stringify({
-        success: true,
-        message: `Function '${functionName}' already available to agent '${agentName}'`,
-        agent: agentName,
-        function: functionName,
-        note: 'No changes needed',
-      });
-    }
-
-    // Add the function to the array
-    availableFunctions.push(functionName);
-
-    // Write the updated configuration back to agents.json
-    await fs.writeFile(
-      agentsJsonPath,
-      JSON.stringify(agentsConfig, null, 2) + '\n',
-      'utf-8'
-    );
-
     return JSON.stringify({
       success: true,
-      message: `Added function '${functionName}' to agent '${agentName}'`,
+      message: result.message,
       agent: agentName,
       function: functionName,
-      total_functions: availableFunctions.length,
+      total_functions: result.available_functions?.length,
       note: 'Agent will have access to this function on next initialization',
     }, null, 2);
 
@@ -98,7 +75,7 @@ export async function addAgentFunction(
       success: false,
       error: 'Failed to add function to agent',
       message: error instanceof Error ? error.message : String(error),
-      suggestion: 'Ensure agents.json exists and is writable',
+      suggestion: 'Ensure the server is running and SERVER_URL points to it',
     });
   }
 }
@@ -118,6 +95,10 @@ toolFunction(
         type: 'string',
         description: 'Name of the function to add to the agent\'s available functions',
       },
+      reason: {
+        type: 'string',
+        description: 'Why the agent needs this function; recorded in the agent\'s history',
+      },
     },
     required: ['function_name'],
   },
@@ -0,0 +1,293 @@
+/**
+ * Agent History Functions
+ *
+ * Let an AI inspect how an agent's configuration has changed, and undo changes,
+ * through the agent history API. Part of the self-evolution system.
+ */
+
+import { toolFunction, ToolContext } from '../tool-function-decorator.js';
+import type { AgentConfigChange, AgentRevision } from '../../services/agent-history.js';
+import type { AgentConfig } from '../../types/index.js';
+
+interface GetAgentHistoryParameters {
+  agentKey: string;
+}
+
+interface DiffAgentConfigParameters {
+  agentKey: string;
+  from?: number;
+  to?: number;
+}
+
+interface RollbackAgentParameters {
+  agentKey: string;
+  revision: number;
+  reason?: string;
+}
+
+// Bodies returned by the agent history API; failed requests carry error and message
+interface HistoryApiResponse {
+  error?: string;
+  message?: string;
+}
+
+interface GetAgentHistoryResponse extends HistoryApiResponse {
+  revisions?: AgentRevision[];
+  count?: number;
+}
+
+interface DiffAgentConfigResponse extends HistoryApiResponse {
+  from?: number;
+  to?: number;
+  changes?: AgentConfigChange[];
+}
+
+interface RollbackAgentResponse extends HistoryApiResponse {
+  agent?: AgentConfig;
+}
+
+/**
+ * List an agent's configuration revisions, newest first
+ *
+ * @param parameters.agentKey - Key of the agent
+ * @returns Revisions with who made each change, why, and the configuration at that point
+ */
+export async function getAgentHistory(
+  parameters: unknown = {},
+  _context?: ToolContext
+): Promise<string> {
+  const { agentKey } = parameters as GetAgentHistoryParameters;
+
+  const serverUrl = process.env.SERVER_URL || 'http://localhost:8000';
+  const historyEndpoint = `${serverUrl}/api/agents/${encodeURIComponent(agentKey)}/history`;
+
+  try {
+    const response = await fetch(historyEndpoint, {
+      method: 'GET',
+    });
+
+    const result = (await response.json()) as GetAgentHistoryResponse;
+
+    if (!response.ok) {
+      return JSON.stringify(
+        {
+          success: false,
+          error: result.error || 'Get agent history failed',
+          message: result.message || `HTTP ${response.status}`,
+        },
+        null,
+        2
+      );
+    }
+
+    return JSON.stringify(
+      {
+        success: true,
+        revisions: result.revisions,
+        count: result.count,
+      },
+      null,
+      2
+    );
+  } catch (error: unknown) {
+    return JSON.stringify(
+      {
+        success: false,
+        error: 'Get agent history failed',
+        message: error instanceof Error ? error.message : String(error),
+      },
+      null,
+      2
+    );
+  }
+}
+
+/**
+ * Compare two revisions of an agent's configuration
+ *
+ * @param parameters.agentKey - Key of the agent
+ * @param parameters.from - Older revision (default: the one before `to`)
+ * @param parameters.to - Newer revision (default: the latest)
+ * @returns The fields that changed between the two revisions
+ */
+export async function diffAgentConfig(
+  parameters: unknown = {},
+  _context?: ToolContext
+): Promise<string> {
+  const { agentKey, from, to } = parameters as DiffAgentConfigParameters;
+
+  const serverUrl = process.env.SERVER_URL || 'http://localhost:8000';
+  const query = new URLSearchParams();
+  if (from !== undefined) query.set('from', String(from));
+  if (to !== undefined) query.set('to', String(to));
+  const diffEndpoint = `${serverUrl}/api/agents/${encodeURIComponent(agentKey)}/diff?${query.toString()}`;
+
+  try {
+    const response = await fetch(diffEndpoint, {
+      method: 'GET',
+    });
+
+    const result = (await response.json()) as DiffAgentConfigResponse;
+
+    if (!response.ok) {
+      return JSON.stringify(
+        {
+          success: false,
+          error: result.error || 'Diff agent config failed',
+          message: result.message || `HTTP ${response.status}`,
+        },
+        null,
+        2
+      );
+    }
+
+    return JSON.stringify(
+      {
+        success: true,
+        from: result.from,
+        to: result.to,
+        changes: result.changes,
+      },
+      null,
+      2
+    );
+  } catch (error: unknown) {
+    return JSON.stringify(
+      {
+        success: false,
+        error: 'Diff agent config failed',
+        message: error instanceof Error ? error.message : String(error),
+      },
+      null,
+      2
+    );
+  }
+}
+
+/**
+ * Restore an agent's configuration to an earlier revision
+ *
+ * @param parameters.agentKey - Key of the agent
+ * @param parameters.revision - Revision to restore
+ * @param parameters.reason - Why the change is being undone
+ * @returns The restored configuration
+ */
+export async function rollbackAgent(
+  parameters: unknown = {},
+  context?: ToolContext
+): Promise<string> {
+  const { agentKey, revision, reason } = parameters as RollbackAgentParameters;
+
+  const serverUrl = process.env.SERVER_URL || 'http://localhost:8000';
+  const rollbackEndpoint = `${serverUrl}/api/agents/${encodeURIComponent(agentKey)}/rollback`;
+
+  try {
+    const response = await fetch(rollbackEndpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(context?.agentName && { 'X-Agent-Name': context.agentName }),
+      },
+      body: JSON.stringify({ revision, reason }),
+    });
+
+    const result = (await response.json()) as RollbackAgentResponse;
+
+    if (!response.ok) {
+      return JSON.stringify(
+        {
+          success: false,
+          error: result.error || 'Rollback agent failed',
+          message: result.message || `HTTP ${response.status}`,
+        },
+        null,
+        2
+      );
+    }
+
+    return JSON.stringify(
+      {
+        success: true,
+        message: result.message,
+        agent: result.agent,
+      },
+      null,
+      2
+    );
+  } catch (error: unknown) {
+    return JSON.stringify(
+      {
+        success: false,
+        error: 'Rollback agent failed',
+        message: error instanceof Error ? error.message : String(error),
+      },
+      null,
+      2
+    );
+  }
+}
+
+// Register the tools
+toolFunction(
+  'get_agent_history',
+  "List the revisions of an agent's configuration, newest first. Each revision shows who made the change (a human or an agent), why, what kind of change it was, and the full configuration after it.",
+  {
+    type: 'object',
+    properties: {
+      agentKey: {
+        type: 'string',
+        description: 'Key of the agent whose history to list',
+      },
+    },
+    required: ['agentKey'],
+  },
+  true
+)(getAgentHistory);
+
+toolFunction(
+  'diff_agent_config',
+  'Show which configuration fields changed between two revisions of an agent. Without revisions, compares the latest revision with the one before it.',
+  {
+    type: 'object',
+    properties: {
+      agentKey: {
+        type: 'string',
+        description: 'Key of the agent',
+      },
+      from: {
+        type: 'number',
+        description: 'Older revision number (0 means before the agent existed)',
+      },
+      to: {
+        type: 'number',
+        description: 'Newer revision number (default: latest)',
+      },
+    },
+    required: ['agentKey'],
+  },
+  true
+)(diffAgentConfig);
+
+toolFunction(
+  'rollback_agent',
+  "Restore an agent's configuration to an earlier revision from get_agent_history. The rollback is itself recorded, so it can be undone too.",
+  {
+    type: 'object',
+    properties: {
+      agentKey: {
+        type: 'string',
+        description: 'Key of the agent to roll back',
+      },
+      revision: {
+        type: 'number',
+        description: 'Revision number to restore',
+      },
+      reason: {
+        type: 'string',
+        description: "Why you are undoing the change; recorded in the agent's history",
+      },
+    },
+    required: ['agentKey', 'revision'],
+  },
+  true
+)(rollbackAgent);
@@ -5,6 +5,7 @@
  */
 import { toolFunction, ToolContext } from '../tool-function-decorator.js';
 import { CodeAgentSession, CLAUDE_CODE_CONFIG } from './code-agent-session.js';
+import { NO_TOOL_TIMEOUT } from '../tool-execution.js';
 
 // Module-level session - persists across calls for conversation continuity
 let claudeCodeSession: CodeAgentSession | null = null;
@@ -28,7 +29,7 @@ export async function claudeCodeDelegate(
     }
 
     // Execute the task - session maintains context across calls via --resume flag
-    const result = await claudeCodeSession.execute(params.task);
+    const result = await claudeCodeSession.execute(params.task, context?.signal);
 
     return result;
 
@@ -69,5 +70,8 @@ When NOT to use: Simple single-file edits, basic scripts, or tasks that don't re
     },
     required: ['task']
   },
-  true
+  true,
+  undefined,
+  // The CLI works on the task for as long as it needs; cancelling the turn stops it
+  NO_TOOL_TIMEOUT
 )(claudeCodeDelegate);
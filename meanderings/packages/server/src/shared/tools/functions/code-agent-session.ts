@@ -24,7 +24,7 @@ export class CodeAgentSession {
   /**
    * Execute a task with the code agent, maintaining session context
    */
-  async execute(task: string): Promise<string> {
+  async execute(task: string, signal?: AbortSignal): Promise<string> {
     try {
       console.log(`[${this.config.name}] Starting execution with task:`, task);
       console.log(`[${this.config.name}] CLI path:`, this.config.cliPath);
@@ -32,7 +32,7 @@ export class CodeAgentSession {
       const args = this.config.executeArgs(task, this.sessionId);
       console.log(`[${this.config.name}] Args:`, args);
 
-      const result = await this.runCommand(this.config.cliPath, args);
+      const result = await this.runCommand(this.config.cliPath, args, signal);
       console.log(`[${this.config.name}] Command completed with exit code:`, result.exitCode);
 
       // Parse response and extract session ID (even on failure to preserve session context)
@@ -73,12 +73,19 @@ export class CodeAgentSession {
 
   /**
    * Run a command and return stdout/stderr/exitCode
+   * The child process is killed if the signal is aborted (turn cancelled by the client)
    */
   private runCommand(
     command: string,
-    args: string[]
+    args: string[],
+    signal?: AbortSignal
   ): Promise<{ stdout: string; stderr: string; exitCode: number | null }> {
     return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new Error('Cancelled before start'));
+        return;
+      }
+
       // Create clean environment without ANTHROPIC_API_KEY to force OAuth usage
       const cleanEnv = { ...process.env };
       delete cleanEnv.ANTHROPIC_API_KEY;
@@ -92,6 +99,19 @@ export class CodeAgentSession {
       // Close stdin immediately - CLI tools don't need it in non-interactive mode
       childProcess.stdin.end();
 
+      const onAbort = () => {
+        console.log(`[${this.config.name}] Cancelled - killing process ${childProcess.pid}`);
+        childProcess.kill('SIGTERM');
+        // Escalate if the CLI ignores SIGTERM
+        setTimeout(() => {
+          if (childProcess.exitCode === null && childProcess.signalCode === null) {
+            childProcess.kill('SIGKILL');
+          }
+        }, 5000).unref();
+        reject(new Error('Cancelled'));
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
       let stdout = '';
       let stderr = '';
 
@@ -104,12 +124,14 @@ export class CodeAgentSession {
       });
 
       childProcess.on('close', (code) => {
+        signal?.removeEventListener('abort', onAbort);
         // Always resolve with stdout/stderr so parseResponse can extract session ID
         // The caller will check for errors in the response content
         resolve({ stdout, stderr, exitCode: code });
       });
 
       childProcess.on('error', (error) => {
+        signal?.removeEventListener('abort', onAbort);
         reject(error);
       });
     });
@@ -5,6 +5,7 @@
  */
 import { toolFunction, ToolContext } from '../tool-function-decorator.js';
 import { CodeAgentSession, CODEX_CONFIG } from './code-agent-session.js';
+import { NO_TOOL_TIMEOUT } from '../tool-execution.js';
 
 // Module-level session - persists across calls for conversation continuity
 let codexSession: CodeAgentSession | null = null;
@@ -28,7 +29,7 @@ export async function codexDelegate(
     }
 
     // Execute the task - session maintains context across calls
-    const result = await codexSession.execute(params.task);
+    const result = await codexSession.execute(params.task, context?.signal);
 
     return result;
 
@@ -69,5 +70,8 @@ When NOT to use: Complex refactoring of existing codebases or tasks requiring de
     },
     required: ['task']
   },
-  true
+  true,
+  undefined,
+  // The CLI works on the task for as long as it needs; cancelling the turn stops it
+  NO_TOOL_TIMEOUT
 )(codexDelegate);
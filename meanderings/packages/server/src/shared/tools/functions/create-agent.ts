@@ -6,19 +6,20 @@
  */
 
 import { toolFunction, ToolContext } from '../tool-function-decorator.js';
+import type { GenerationSettings } from '../../types/index.js';
 
 interface CreateAgentParameters {
   agentKey: string;
-  config: {
-    agent_name: string;            // Required by schema
-    service_provider: string;       // Required by schema
-    model_name: string;            // Required by schema
-    description: string;           // Required by schema
-    system_prompt: string;         // Required by schema
-    do_stream: boolean;            // Required by schema
+  template?: string;               // Agent to extend; the config then only needs what differs
+  config?: {
+    agent_name?: string;           // Required by schema unless inherited
+    service_provider?: string;     // Required by schema unless inherited
+    model_name?: string;           // Required by schema unless inherited
+    description?: string;          // Required by schema unless inherited
+    system_prompt?: string;        // Required by schema unless inherited
+    do_stream?: boolean;           // Required by schema unless inherited
     available_functions?: string[];
-    temperature?: number;
-    max_tokens?: number;
+    generation?: GenerationSettings;
     custom_settings?: Record<string, unknown>;
     mcp_servers?: string[];
   };
@@ -29,14 +30,15 @@ interface CreateAgentParameters {
  *
  * @param parameters - Agent creation configuration
  * @param parameters.agentKey - Unique key for the agent
- * @param parameters.config - Agent configuration object
+ * @param parameters.template - Key of an agent or template to extend
+ * @param parameters.config - Agent configuration object (only the differences when extending)
  * @returns Creation result with agent details
  */
 export async function createAgent(
   parameters: unknown = {},
-  _context?: ToolContext
+  context?: ToolContext
 ): Promise<string> {
-  const { agentKey, config } = parameters as CreateAgentParameters;
+  const { agentKey, template, config = {} } = parameters as CreateAgentParameters;
 
   const serverUrl = process.env.SERVER_URL || 'http://localhost:8000';
   const createEndpoint = `${serverUrl}/api/agents`;
@@ -46,8 +48,12 @@ export async function createAgent(
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...(context?.agentName && { 'X-Agent-Name': context.agentName }),
       },
-      body: JSON.stringify({ agentKey, config }),
+      body: JSON.stringify({
+        agentKey,
+        config: template ? { ...config, extends: template } : config,
+      }),
     });
 
     const result = await response.json() as any;
@@ -78,7 +84,7 @@ export async function createAgent(
 // Register the tool
 toolFunction(
   'create_agent',
-  'Create a new agent with specified configuration. Enables AI to spawn new agent variants with different capabilities, models, or purposes.',
+  'Create a new agent with specified configuration. Enables AI to spawn new agent variants with different capabilities, models, or purposes. Pass template to extend an existing agent or template: the new agent inherits its configuration, available_functions and mcp_servers are added to the inherited ones ("!name" removes one), and config only needs the fields that differ.',
   {
     type: 'object',
     properties: {
@@ -86,9 +92,13 @@ toolFunction(
         type: 'string',
         description: 'Unique key for the agent (e.g., "consciousness_explorer")',
       },
+      template: {
+        type: 'string',
+        description: 'Key of the agent or template to extend, optional',
+      },
       config: {
         type: 'object',
-        description: 'Agent configuration',
+        description: 'Agent configuration; with a template, only the fields to override',
         properties: {
           agent_name: {
             type: 'string',
@@ -119,13 +129,31 @@ toolFunction(
             description: 'Array of function names available to this agent',
             items: { type: 'string' },
           },
-          temperature: {
-            type: 'number',
-            description: 'Temperature for response generation (0.0-1.0), optional',
-          },
-          max_tokens: {
-            type: 'number',
-            description: 'Maximum tokens for responses, optional',
+          generation: {
+            type: 'object',
+            description: 'Model parameters for responses, optional',
+            properties: {
+              temperature: { type: 'number', description: 'Sampling temperature (0.0-2.0)' },
+              top_p: { type: 'number', description: 'Nucleus sampling probability (0.0-1.0)' },
+              max_tokens: { type: 'integer', description: 'Maximum tokens per response' },
+              stop: {
+                type: 'array',
+                description: 'Up to 4 sequences that end the response',
+                items: { type: 'string' },
+              },
+              seed: {
+                type: 'integer',
+                description: 'Seed for repeatable sampling, where supported',
+              },
+              tool_choice: {
+                description: '"auto", "none", "required", or {"name": "<tool>"} to force that tool',
+              },
+              response_format: {
+                type: 'object',
+                description:
+                  '{"type": "json_object"}, or {"type": "json_schema", "schema": {...}} for JSON matching a schema',
+              },
+            },
           },
           custom_settings: {
             type: 'object',
@@ -137,10 +165,9 @@ toolFunction(
             items: { type: 'string' },
           },
         },
-        required: ['agent_name', 'service_provider', 'model_name', 'description', 'system_prompt', 'do_stream'],
       },
     },
-    required: ['agentKey', 'config'],
+    required: ['agentKey'],
   },
   true
 )(createAgent);
@@ -297,7 +297,8 @@ toolFunction(
     },
     required: ['document_name', 'delta', 'replacement'],
   },
-  false // Disabled by default like Python version
+  false, // Disabled by default like Python version
+  'confirm'
 )(updateDocument);
 
 toolFunction(
@@ -318,5 +319,6 @@ toolFunction(
     },
     required: ['document_name'],
   },
-  false // Disabled by default like Python version
+  false, // Disabled by default like Python version
+  'confirm'
 )(deleteDocument);
@@ -0,0 +1,173 @@
+/**
+ * Delegate To Agent
+ *
+ * Hands a task to another agent from agents.json and runs it inside this server, in a
+ * conversation of its own. The sub-agent's streaming and tool events are forwarded to the
+ * caller's client as nested events, and its final answer comes back as the tool result.
+ */
+
+import { randomUUID } from 'crypto';
+import { toolFunction, ToolContext } from '../tool-function-decorator.js';
+import { NO_TOOL_TIMEOUT } from '../tool-execution.js';
+import { AgentConfigManager } from '../../config/agent-config.js';
+import { ServiceFactory } from '../../services/service-factory.js';
+import { ConversationStore } from '../../services/conversation-store.js';
+import type { Message } from '../../types/index.js';
+
+// How many agents deep a delegation may go, counting the agent the user talks to
+const MAX_DELEGATION_DEPTH = Number(process.env.MAX_DELEGATION_DEPTH) || 3;
+
+interface DelegateToAgentParameters {
+  agent_name: string;
+  message: string;
+  new_conversation?: boolean;
+}
+
+/**
+ * The sub-agent's conversation for this caller, so repeated delegations continue it
+ */
+function nestedConversationId(parentConversationId: string | undefined, agentName: string) {
+  if (!parentConversationId) {
+    return randomUUID();
+  }
+  return `${parentConversationId}-${agentName}`.replace(/[^A-Za-z0-9_-]/g, '_').slice(0, 128);
+}
+
+function finalAnswer(completeMessages: Message[]): string {
+  const last = completeMessages[completeMessages.length - 1] as { content?: unknown } | undefined;
+  if (typeof last?.content === 'string') {
+    return last.content;
+  }
+  return last?.content === undefined ? '' : JSON.stringify(last.content);
+}
+
+/**
+ * Run another agent on a task and return its answer
+ *
+ * @param parameters.agent_name - Key of the agent to delegate to
+ * @param parameters.message - The task, written as a message to that agent
+ * @param parameters.new_conversation - Start over instead of continuing earlier delegations
+ * @returns The sub-agent's final answer and the conversation it was given in
+ */
+export async function delegateToAgent(
+  parameters: unknown = {},
+  context?: ToolContext
+): Promise<string> {
+  const { agent_name, message, new_conversation } = parameters as DelegateToAgentParameters;
+  const chain = context?.delegationChain ?? (context ? [context.agentName] : []);
+
+  const refuse = (reason: string) =>
+    JSON.stringify(
+      { success: false, agent_name, error: 'Delegation refused', message: reason },
+      null,
+      2
+    );
+
+  const agentConfig = AgentConfigManager.getInstance().getAgentConfig(agent_name);
+  if (!agentConfig) {
+    return refuse(`Agent '${agent_name}' not found`);
+  }
+
+  // The chain holds agents' names, which can differ from their agents.json keys
+  const path = [...chain, agentConfig.agent_name].join(' -> ');
+  if (chain.includes(agentConfig.agent_name)) {
+    return refuse(`Delegation loop: ${path}`);
+  }
+  if (chain.length >= MAX_DELEGATION_DEPTH) {
+    return refuse(`Delegation is limited to ${MAX_DELEGATION_DEPTH} agents deep: ${path}`);
+  }
+
+  const provider = ServiceFactory.createServiceProvider(agentConfig);
+  provider.agent_key = agent_name;
+  provider.conversation_id = nestedConversationId(context?.sessionId, agent_name);
+  provider.delegation_chain = chain;
+  provider.setAbortSignal?.(context?.signal);
+  // The sub-agent's confirm-policy tools are put to the same user as the caller's
+  provider.setToolApprovalHandler?.(context?.requestApproval);
+
+  const history = new_conversation
+    ? []
+    : (ConversationStore.getInstance().get(provider.conversation_id)?.messages ?? []);
+
+  const parentSocket = context?.websocket;
+  const nestedSocket = parentSocket && {
+    send(data: string) {
+      let event: unknown = data;
+      try {
+        event = JSON.parse(data);
+      } catch {
+        // Forward anything that isn't JSON as it is
+      }
+      parentSocket.send(
+        JSON.stringify({
+          nested_event: {
+            agent_name,
+            conversation_id: provider.conversation_id,
+            depth: chain.length,
+            event,
+          },
+        })
+      );
+    },
+  };
+
+  try {
+    const { completeMessages } = (await provider.makeApiCall(
+      history,
+      message,
+      nestedSocket,
+      agentConfig.do_stream
+    )) as { completeMessages: Message[] };
+    provider.logConversationMemory(completeMessages);
+
+    return JSON.stringify(
+      {
+        success: true,
+        agent_name,
+        conversation_id: provider.conversation_id,
+        response: finalAnswer(completeMessages),
+      },
+      null,
+      2
+    );
+  } catch (error: unknown) {
+    return JSON.stringify(
+      {
+        success: false,
+        agent_name,
+        conversation_id: provider.conversation_id,
+        error: 'Delegation failed',
+        message: error instanceof Error ? error.message : String(error),
+      },
+      null,
+      2
+    );
+  }
+}
+
+toolFunction(
+  'delegate_to_agent',
+  'Hand a task to another configured agent and get its answer back. The agent runs with its own model, tools and system prompt, and remembers earlier delegations from this conversation unless new_conversation is set. Its progress is shown to the user as it works.',
+  {
+    type: 'object',
+    properties: {
+      agent_name: {
+        type: 'string',
+        description: 'Key of the agent to delegate to, as listed in agents.json',
+      },
+      message: {
+        type: 'string',
+        description: 'The task for the agent, with everything it needs to know',
+      },
+      new_conversation: {
+        type: 'boolean',
+        description: 'Start a fresh conversation with the agent instead of continuing the last one',
+      },
+    },
+    required: ['agent_name', 'message'],
+  },
+  true,
+  undefined,
+  // The sub-agent makes model and tool calls of its own, each with its own limits
+  NO_TOOL_TIMEOUT
+)(delegateToAgent);
@@ -20,7 +20,7 @@ interface DeleteAgentParameters {
  */
 export async function deleteAgent(
   parameters: unknown = {},
-  _context?: ToolContext
+  context?: ToolContext
 ): Promise<string> {
   const { agentKey } = parameters as DeleteAgentParameters;
 
@@ -30,6 +30,9 @@ export async function deleteAgent(
   try {
     const response = await fetch(deleteEndpoint, {
       method: 'DELETE',
+      headers: {
+        ...(context?.agentName && { 'X-Agent-Name': context.agentName }),
+      },
     });
 
     const result = await response.json() as any;
@@ -70,5 +73,6 @@ toolFunction(
     },
     required: ['agentKey'],
   },
-  true
+  true,
+  'confirm'
 )(deleteAgent);
@@ -71,5 +71,6 @@ toolFunction(
     },
     required: ['toolName'],
   },
-  true
+  true,
+  'confirm'
 )(deleteTool);
@@ -5,6 +5,7 @@
  */
 import { toolFunction, ToolContext } from '../tool-function-decorator.js';
 import { CodeAgentSession, GEMINI_CONFIG } from './code-agent-session.js';
+import { NO_TOOL_TIMEOUT } from '../tool-execution.js';
 
 // Module-level session - persists across calls for conversation continuity
 let geminiSession: CodeAgentSession | null = null;
@@ -28,7 +29,7 @@ export async function geminiCodeDelegate(
     }
 
     // Execute the task - session maintains context across calls
-    const result = await geminiSession.execute(params.task);
+    const result = await geminiSession.execute(params.task, context?.signal);
 
     return result;
 
@@ -68,5 +69,8 @@ When NOT to use: Pure text-based coding tasks or when visual context isn't helpf
     },
     required: ['task']
   },
-  true
+  true,
+  undefined,
+  // The CLI works on the task for as long as it needs; cancelling the turn stops it
+  NO_TOOL_TIMEOUT
 )(geminiCodeDelegate);
@@ -6,6 +6,7 @@
  */
 
 import { toolFunction, ToolContext } from '../tool-function-decorator.js';
+import type { GenerationSettings } from '../../types/index.js';
 
 interface UpdateAgentParameters {
   agentKey: string;
@@ -13,10 +14,10 @@ interface UpdateAgentParameters {
     description?: string;
     available_functions?: string[];
     system_prompt?: string;
-    temperature?: number;
-    max_tokens?: number;
+    generation?: GenerationSettings;
     model_name?: string;
   };
+  reason?: string;
 }
 
 /**
@@ -25,13 +26,14 @@ interface UpdateAgentParameters {
  * @param parameters - Update configuration
  * @param parameters.agentKey - Key of the agent to update
  * @param parameters.updates - Fields to update (partial configuration)
+ * @param parameters.reason - Why the change is being made, kept in the agent's history
  * @returns Update result with modified agent details
  */
 export async function updateAgent(
   parameters: unknown = {},
-  _context?: ToolContext
+  context?: ToolContext
 ): Promise<string> {
-  const { agentKey, updates } = parameters as UpdateAgentParameters;
+  const { agentKey, updates, reason } = parameters as UpdateAgentParameters;
 
   const serverUrl = process.env.SERVER_URL || 'http://localhost:8000';
   const updateEndpoint = `${serverUrl}/api/agents/${encodeURIComponent(agentKey)}`;
@@ -41,6 +43,8 @@ export async function updateAgent(
       method: 'PUT',
       headers: {
         'Content-Type': 'application/json',
+        ...(context?.agentName && { 'X-Agent-Name': context.agentName }),
+        ...(reason && { 'X-Change-Reason': encodeURIComponent(reason) }),
       },
       body: JSON.stringify(updates),
     });
@@ -73,7 +77,7 @@ export async function updateAgent(
 // Register the tool
 toolFunction(
   'update_agent',
-  'Update an existing agent\'s configuration. Can modify description, available functions, system prompt, temperature, max_tokens, or model. Enables AI to evolve agent capabilities over time.',
+  'Update an existing agent\'s configuration. Can modify description, available functions, system prompt, generation settings (temperature, max_tokens and other model parameters), or model. Enables AI to evolve agent capabilities over time. Every change is recorded and can be undone with rollback_agent.',
   {
     type: 'object',
     properties: {
@@ -98,13 +102,31 @@ toolFunction(
             type: 'string',
             description: 'Updated system prompt',
           },
-          temperature: {
-            type: 'number',
-            description: 'Updated temperature (0.0-1.0)',
-          },
-          max_tokens: {
-            type: 'number',
-            description: 'Updated max tokens',
+          generation: {
+            type: 'object',
+            description: 'Updated model parameters (replaces the existing generation settings)',
+            properties: {
+              temperature: { type: 'number', description: 'Sampling temperature (0.0-2.0)' },
+              top_p: { type: 'number', description: 'Nucleus sampling probability (0.0-1.0)' },
+              max_tokens: { type: 'integer', description: 'Maximum tokens per response' },
+              stop: {
+                type: 'array',
+                description: 'Up to 4 sequences that end the response',
+                items: { type: 'string' },
+              },
+              seed: {
+                type: 'integer',
+                description: 'Seed for repeatable sampling, where supported',
+              },
+              tool_choice: {
+                description: '"auto", "none", "required", or {"name": "<tool>"} to force that tool',
+              },
+              response_format: {
+                type: 'object',
+                description:
+                  '{"type": "json_object"}, or {"type": "json_schema", "schema": {...}} for JSON matching a schema',
+              },
+            },
           },
           model_name: {
             type: 'string',
@@ -112,6 +134,10 @@ toolFunction(
           },
         },
       },
+      reason: {
+        type: 'string',
+        description: 'Why you are making this change; recorded in the agent\'s history',
+      },
     },
     required: ['agentKey', 'updates'],
   },
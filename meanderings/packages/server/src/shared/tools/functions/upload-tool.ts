@@ -93,5 +93,6 @@ toolFunction(
     },
     required: ['toolZipPath'],
   },
-  true
+  true,
+  'confirm'
 )(uploadTool);
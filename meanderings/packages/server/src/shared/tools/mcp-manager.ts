@@ -1,7 +1,16 @@
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
 import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
-import { ServerConfig } from '../config/server-config.js';
+import {
+  CreateMessageRequest,
+  CreateMessageRequestSchema,
+  CreateMessageResult,
+  GetPromptResult,
+  Prompt,
+  ResourceUpdatedNotificationSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { MCPSamplingConfig, ServerConfig } from '../config/server-config.js';
+import type { ToolContext } from './tool-function-decorator.js';
 import { TRANSPORT_TYPES } from '../constants/message-constants.js';
 import winston from 'winston';
 
@@ -17,20 +26,147 @@ interface MCPServerClient {
   connected: boolean;
 }
 
+/**
+ * connected: up and answering health pings
+ * degraded: connected, but the last health ping or tool listing failed
+ * failed: not connected; another attempt is scheduled (next_retry_at)
+ */
+export type MCPServerState = 'connecting' | 'connected' | 'degraded' | 'failed' | 'disabled';
+
+export interface MCPServerStatus {
+  name: string;
+  transport_type: ServerConfig['transport_type'];
+  enabled: boolean;
+  status: MCPServerState;
+  last_error: string | null;
+  tool_count: number;
+  connected_at: string | null;
+  last_ping_at: string | null;
+  reconnect_attempts: number;
+  next_retry_at: string | null;
+}
+
+/**
+ * Called when a server's tools are (re)loaded, with null when they are gone
+ * because the server was disabled or removed
+ */
+export type MCPToolsChangeListener = (
+  serverName: string,
+  tools: Record<string, unknown> | null
+) => void;
+
+/**
+ * Called when a server reports that a subscribed resource changed, and for every
+ * subscribed resource when its server reconnects
+ */
+export type MCPResourceUpdateListener = (serverName: string, uri: string) => void;
+
+export interface MCPSamplingRequest {
+  serverName: string;
+  params: CreateMessageRequest['params'];
+  // The agent whose tool call the server is serving, if any
+  callerAgent?: string;
+  sampling: MCPSamplingConfig;
+  signal: AbortSignal;
+}
+
+/**
+ * Answers a server's sampling/createMessage request; see services/mcp-sampling.ts
+ */
+export type MCPSamplingHandler = (request: MCPSamplingRequest) => Promise<CreateMessageResult>;
+
+const DEFAULT_SAMPLING_REQUESTS_PER_MINUTE = 10;
+
+export interface MCPClientManagerOptions {
+  reconnectBaseMs?: number; // First retry delay, doubled after every failure (default 1000)
+  reconnectMaxMs?: number; // Longest retry delay (default 60000)
+  healthCheckIntervalMs?: number; // 0 turns health pings off (default 30000)
+  maxFailedPings?: number; // Failed pings in a row before reconnecting (default 3)
+}
+
+interface ServerConnectionState {
+  status: MCPServerState;
+  last_error: string | null;
+  connected_at: string | null;
+  last_ping_at: string | null;
+  failed_pings: number;
+  reconnect_attempts: number;
+  next_retry_at: string | null;
+  retryTimer?: ReturnType<typeof setTimeout>;
+  // Connects and disconnects of one server run one after another
+  queue: Promise<void>;
+}
+
+function describeConnectionError(error: unknown): string {
+  const errorMsg = error instanceof Error ? error.message : String(error);
+  if (errorMsg.includes('spawn') || errorMsg.includes('ENOENT')) {
+    return 'Command not found';
+  } else if (errorMsg.includes('timeout')) {
+    return 'Connection timeout';
+  }
+  return errorMsg;
+}
+
 /**
  * MCP Client Manager - TypeScript equivalent of Python MCPClientManager
+ *
+ * Servers can be added, changed, disabled and removed while running. A server that
+ * can't be reached, drops its connection or stops answering health pings is
+ * reconnected with exponential backoff; listeners hear about its tools each time
+ * they are reloaded.
  */
 export class MCPClientManager {
   private serverConfigs: Record<string, ServerConfig>;
   private sessions: Record<string, MCPServerClient> = {};
   private serverTools: Record<string, Record<string, unknown>> = {};
+  private serverStates: Record<string, ServerConnectionState> = {};
+  private toolListeners = new Set<MCPToolsChangeListener>();
+  private resourceListeners = new Set<MCPResourceUpdateListener>();
+  // Subscriber count per resource URI, per server; kept while the server is away
+  private resourceSubscriptions: Record<string, Map<string, number>> = {};
+  private samplingHandler?: MCPSamplingHandler;
+  // Start times of each server's sampling requests in the last minute
+  private samplingRequests: Record<string, number[]> = {};
+  // Agents with a tool call in progress on each server, most recent last
+  private activeCallers: Record<string, string[]> = {};
+  private healthTimer?: ReturnType<typeof setInterval>;
+  private options: Required<MCPClientManagerOptions>;
   private _shutdownEvent = false;
   private _readyEvent = false;
   private logger: winston.Logger;
 
-  constructor(logger: winston.Logger, serverConfigs: Record<string, ServerConfig>) {
+  constructor(
+    logger: winston.Logger,
+    serverConfigs: Record<string, ServerConfig>,
+    options: MCPClientManagerOptions = {}
+  ) {
     this.logger = logger;
-    this.serverConfigs = serverConfigs;
+    this.serverConfigs = { ...serverConfigs };
+    this.options = {
+      reconnectBaseMs:
+        options.reconnectBaseMs ?? parseInt(process.env.MCP_RECONNECT_BASE_MS || '1000'),
+      reconnectMaxMs:
+        options.reconnectMaxMs ?? parseInt(process.env.MCP_RECONNECT_MAX_MS || '60000'),
+      healthCheckIntervalMs:
+        options.healthCheckIntervalMs ?? parseInt(process.env.MCP_HEALTH_CHECK_INTERVAL || '30000'),
+      maxFailedPings: options.maxFailedPings ?? 3,
+    };
+    for (const serverName of Object.keys(this.serverConfigs)) {
+      this.serverStates[serverName] = MCPClientManager.newState(this.serverConfigs[serverName]);
+    }
+  }
+
+  private static newState(config: ServerConfig): ServerConnectionState {
+    return {
+      status: config.enabled === false ? 'disabled' : 'connecting',
+      last_error: null,
+      connected_at: null,
+      last_ping_at: null,
+      failed_pings: 0,
+      reconnect_attempts: 0,
+      next_retry_at: null,
+      queue: Promise.resolve(),
+    };
   }
 
   /**
@@ -40,66 +176,244 @@ export class MCPClientManager {
     this.logger.info('🚀 Starting MCP Client Manager...');
     this.logger.info(`📋 Configured servers: ${Object.keys(this.serverConfigs).join(', ')}`);
 
-    try {
-      this.logger.debug(`📊 Sessions before initialization: ${Object.keys(this.sessions).length}`);
-      await this.initializeSessions();
-      this.logger.debug(`📊 Sessions after initialization: ${Object.keys(this.sessions).length}`);
-      this.logger.debug(`📊 Active sessions: ${Object.keys(this.sessions).length}`);
-
-      // Load tools from active sessions
-      this.logger.info('🔧 Loading tools from active sessions...');
-      await this.loadTools();
+    // Servers connect side by side; ones that fail keep retrying in the background
+    const enabled = Object.keys(this.serverConfigs).filter((name) => this.isEnabled(name));
+    await Promise.all(
+      enabled.map((serverName) => this.enqueue(serverName, () => this.connect(serverName)))
+    );
 
-      this._readyEvent = true;
-    } catch (error: unknown) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      this.logger.error(`MCP client manager encountered an error during startup: ${errorMessage}`);
-      this._readyEvent = true; // Signal readiness even if initialization fails
+    const statuses = this.listServerStatuses();
+    const connected = statuses.filter((server) => server.status === 'connected');
+    const failed = statuses.filter((server) => server.status === 'failed');
+    if (connected.length > 0) {
+      this.logger.info(`✅ Connected to: ${connected.map((server) => server.name).join(', ')}`);
+    }
+    if (failed.length > 0) {
+      this.logger.info(
+        `⚠️  Failed connections (retrying): ${failed.map((server) => `${server.name} (${server.last_error})`).join(', ')}`
+      );
     }
 
+    this._readyEvent = true;
+    this.startHealthChecks();
     this.logger.info('✅ MCP Client Manager startup completed');
   }
 
+  private isEnabled(serverName: string): boolean {
+    return this.serverConfigs[serverName]?.enabled !== false;
+  }
+
+  private enqueue(serverName: string, operation: () => Promise<void>): Promise<void> {
+    const state = this.serverStates[serverName];
+    const run = state.queue.then(operation);
+    state.queue = run.catch(() => undefined);
+    return run;
+  }
+
   /**
-   * Initialize MCP sessions with robust error handling
+   * Connect one server and load its tools; on failure, schedule another attempt
    */
-  private async initializeSessions(): Promise<void> {
+  private async connect(serverName: string): Promise<void> {
+    const config = this.serverConfigs[serverName];
+    const state = this.serverStates[serverName];
+    if (!config || !state || this._shutdownEvent || !this.isEnabled(serverName)) {
+      return;
+    }
+
+    this.clearRetry(state);
+    await this.closeSession(serverName);
+    state.status = 'connecting';
+
     const connectionTimeout = parseInt(process.env.MCP_CONNECT_TIMEOUT || '15000'); // 15 second timeout
-    const connectionResults: { successful: string[]; failed: string[] } = {
-      successful: [],
-      failed: [],
-    };
+    try {
+      if (config.transport_type === TRANSPORT_TYPES.HTTP) {
+        await this.initializeHttpSession(serverName, config, connectionTimeout);
+      } else {
+        await this.initializeStdioSession(serverName, config, connectionTimeout);
+      }
+    } catch (error: unknown) {
+      // A connection that timed out may still have been set up late
+      await this.closeSession(serverName);
+      state.status = 'failed';
+      state.last_error = describeConnectionError(error);
+      this.logger.warn(`⚠️  ${serverName} (${config.transport_type}): ${state.last_error}`);
+      this.scheduleReconnect(serverName);
+      return;
+    }
 
-    for (const [serverName, config] of Object.entries(this.serverConfigs)) {
-      try {
-        if (config.transport_type === TRANSPORT_TYPES.HTTP) {
-          await this.initializeHttpSession(serverName, config, connectionTimeout);
-          connectionResults.successful.push(serverName);
-        } else {
-          await this.initializeStdioSession(serverName, config, connectionTimeout);
-          connectionResults.successful.push(serverName);
-        }
-      } catch (error: unknown) {
-        let errorMsg = error instanceof Error ? error.message : String(error);
-        if (errorMsg.includes('spawn') || errorMsg.includes('ENOENT')) {
-          errorMsg = 'Command not found';
-        } else if (errorMsg.includes('timeout')) {
-          errorMsg = 'Connection timeout';
+    const session = this.sessions[serverName];
+    session.client.onclose = () => this.handleConnectionClosed(serverName, session);
+
+    const toolsLoaded = await this.loadServerTools(serverName);
+    state.status = toolsLoaded ? 'connected' : 'degraded';
+    state.last_error = toolsLoaded ? null : 'Failed to list tools';
+    state.connected_at = new Date().toISOString();
+    state.failed_pings = 0;
+    state.reconnect_attempts = 0;
+    this.notifyToolsChanged(serverName);
+    await this.renewResourceSubscriptions(serverName);
+  }
+
+  private handleConnectionClosed(serverName: string, session: MCPServerClient): void {
+    // Sessions closed on purpose are removed before they close
+    if (this.sessions[serverName] !== session || this._shutdownEvent) {
+      return;
+    }
+
+    delete this.sessions[serverName];
+    session.connected = false;
+    const state = this.serverStates[serverName];
+    state.status = 'failed';
+    state.last_error = 'Connection closed';
+    this.logger.warn(`⚠️  ${serverName} closed its connection`);
+    this.scheduleReconnect(serverName);
+  }
+
+  private scheduleReconnect(serverName: string): void {
+    const state = this.serverStates[serverName];
+    if (!state || this._shutdownEvent || !this.isEnabled(serverName)) {
+      return;
+    }
+
+    this.clearRetry(state);
+    const delay = Math.min(
+      this.options.reconnectBaseMs * 2 ** state.reconnect_attempts,
+      this.options.reconnectMaxMs
+    );
+    state.reconnect_attempts++;
+    state.next_retry_at = new Date(Date.now() + delay).toISOString();
+    this.logger.info(
+      `🔁 Reconnecting to ${serverName} in ${delay}ms (attempt ${state.reconnect_attempts})`
+    );
+
+    state.retryTimer = setTimeout(() => {
+      state.retryTimer = undefined;
+      void this.enqueue(serverName, () => this.connect(serverName));
+    }, delay);
+    // A pending retry shouldn't keep the process alive on its own
+    state.retryTimer.unref?.();
+  }
+
+  private clearRetry(state: ServerConnectionState): void {
+    if (state.retryTimer) {
+      clearTimeout(state.retryTimer);
+      state.retryTimer = undefined;
+    }
+    state.next_retry_at = null;
+  }
+
+  private startHealthChecks(): void {
+    if (this.healthTimer || this.options.healthCheckIntervalMs <= 0) {
+      return;
+    }
+    this.healthTimer = setInterval(() => {
+      void this.checkHealth();
+    }, this.options.healthCheckIntervalMs);
+    this.healthTimer.unref?.();
+  }
+
+  /**
+   * Ping every connected server. A failed ping marks the server degraded; after
+   * maxFailedPings in a row the connection is rebuilt.
+   */
+  async checkHealth(): Promise<void> {
+    const pingTimeout = parseInt(process.env.MCP_PING_TIMEOUT || '10000');
+
+    await Promise.all(
+      Object.entries(this.sessions).map(async ([serverName, session]) => {
+        const state = this.serverStates[serverName];
+        try {
+          await session.client.ping({ timeout: pingTimeout });
+          state.last_ping_at = new Date().toISOString();
+          state.failed_pings = 0;
+          if (state.status === 'degraded') {
+            this.logger.info(`✅ ${serverName} is answering health pings again`);
+            state.status = 'connected';
+            state.last_error = null;
+          }
+        } catch (error: unknown) {
+          if (this.sessions[serverName] !== session) {
+            return;
+          }
+          state.failed_pings++;
+          state.status = 'degraded';
+          state.last_error = `Health check failed: ${error instanceof Error ? error.message : String(error)}`;
+          this.logger.warn(
+            `⚠️  ${serverName}: ${state.last_error} (${state.failed_pings} in a row)`
+          );
+
+          if (state.failed_pings >= this.options.maxFailedPings) {
+            void this.enqueue(serverName, () => this.connect(serverName));
+          }
         }
+      })
+    );
+  }
+
+  /**
+   * Set how sampling requests from servers are answered. Servers without a handler
+   * are still told the client supports sampling, but their requests are refused.
+   */
+  setSamplingHandler(handler?: MCPSamplingHandler): void {
+    this.samplingHandler = handler;
+  }
 
-        this.logger.warn(`⚠️  ${serverName} (${config.transport_type}): ${errorMsg}`);
-        connectionResults.failed.push(`${serverName} (${errorMsg})`);
-        continue;
+  private createClient(serverName: string, config: ServerConfig): Client {
+    const samplingEnabled = config.sampling?.enabled !== false;
+    const client = new Client(
+      {
+        name: `ailumina-mcp-client`,
+        version: '1.0.0',
+      },
+      {
+        capabilities: samplingEnabled ? { sampling: {} } : {},
       }
+    );
+
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+      this.notifyResourceUpdated(serverName, notification.params.uri);
+    });
+    if (samplingEnabled) {
+      client.setRequestHandler(CreateMessageRequestSchema, (request, extra) =>
+        this.handleSamplingRequest(serverName, request.params, extra.signal)
+      );
     }
+    return client;
+  }
 
-    // Report connection results
-    if (connectionResults.successful.length > 0) {
-      this.logger.info(`✅ Connected to: ${connectionResults.successful.join(', ')}`);
+  private async handleSamplingRequest(
+    serverName: string,
+    params: CreateMessageRequest['params'],
+    signal: AbortSignal
+  ): Promise<CreateMessageResult> {
+    if (!this.samplingHandler) {
+      throw new Error('Sampling is not available on this client');
     }
-    if (connectionResults.failed.length > 0) {
-      this.logger.info(`⚠️  Failed connections: ${connectionResults.failed.join(', ')}`);
+    const sampling = this.serverConfigs[serverName]?.sampling ?? {};
+
+    const limit = sampling.requests_per_minute ?? DEFAULT_SAMPLING_REQUESTS_PER_MINUTE;
+    const now = Date.now();
+    const recent = (this.samplingRequests[serverName] ?? []).filter((time) => now - time < 60000);
+    if (recent.length >= limit) {
+      this.logger.warn(`⚠️  Refused sampling request from ${serverName}: ${limit} per minute`);
+      throw new Error(`Sampling rate limit of ${limit} requests per minute reached`);
     }
+    recent.push(now);
+    this.samplingRequests[serverName] = recent;
+
+    const callers = this.activeCallers[serverName] ?? [];
+    return this.samplingHandler({
+      serverName,
+      params: {
+        ...params,
+        maxTokens: sampling.max_tokens
+          ? Math.min(params.maxTokens, sampling.max_tokens)
+          : params.maxTokens,
+      },
+      callerAgent: callers[callers.length - 1],
+      sampling,
+      signal,
+    });
   }
 
   /**
@@ -143,15 +457,7 @@ export class MCPClientManager {
         );
 
         // Create MCP client
-        const client = new Client(
-          {
-            name: `ailumina-mcp-client`,
-            version: '1.0.0',
-          },
-          {
-            capabilities: {},
-          }
-        );
+        const client = this.createClient(serverName, config);
 
         // Connect client to transport
         client
@@ -232,15 +538,7 @@ export class MCPClientManager {
         });
 
         // Create MCP client
-        const client = new Client(
-          {
-            name: `ailumina-mcp-client`,
-            version: '1.0.0',
-          },
-          {
-            capabilities: {},
-          }
-        );
+        const client = this.createClient(serverName, config);
 
         // Connect client to transport
         client
@@ -307,81 +605,18 @@ export class MCPClientManager {
    * Load tools from all connected MCP servers
    */
   async loadTools(): Promise<void> {
-    this.serverTools = {}; // Reset server tools
-
     const serverCount = Object.keys(this.sessions).length;
     this.logger.info(`🔧 Loading tools from ${serverCount} MCP servers...`);
 
     const toolCounts: Record<string, number> = {};
     const failedServers: string[] = [];
 
-    for (const [serverName, session] of Object.entries(this.sessions)) {
-      if (!session.connected) continue;
-
-      try {
-        // Initialize server entry
-        this.serverTools[serverName] = {};
-
-        // Get tools from server
-        this.logger.debug(`📡 Calling listTools() for ${serverName}`);
-        const toolsResult = await session.client.listTools({});
-        const tools = toolsResult.tools || [];
-        this.logger.debug(`📊 ${serverName} returned ${tools.length} tools`);
-
-        // Process tools and create functions
-        this.logger.debug(`🛠️ Processing ${tools.length} tools for ${serverName}`);
-        const toolNames: string[] = [];
-
-        for (const tool of tools) {
-          // Generate the prefixed tool name
-          const toolName = tool.name.startsWith(`${serverName}_`)
-            ? tool.name
-            : `${serverName}_${tool.name}`;
-
-          this.logger.debug(`➕ Creating tool: ${toolName} (original: ${tool.name})`);
-          toolNames.push(toolName);
-
-          // Create tool function that executes via MCP
-          const toolFunction = async (args: unknown): Promise<string> => {
-            try {
-              const result = await this.executeTool(serverName, tool.name, args);
-              return typeof result === 'string' ? result : JSON.stringify(result);
-            } catch (error: unknown) {
-              this.logger.error(`Error executing tool ${tool.name} on ${serverName}:`, error);
-              return `Error executing tool: ${error instanceof Error ? error.message : String(error)}`;
-            }
-          };
-
-          // Store in server-indexed structure with complete OpenAPI schema
-          this.serverTools[serverName][toolName] = {
-            definition: {
-              name: toolName,
-              description: tool.description || '',
-              // Preserve complete OpenAPI inputSchema instead of just properties
-              inputSchema: tool.inputSchema || {
-                type: 'object',
-                properties: {},
-                required: []
-              },
-              // Keep legacy parameters field for backward compatibility
-              parameters: tool.inputSchema?.properties || {},
-              enabled: true,
-            },
-            function: toolFunction,
-          };
-        }
-
-        toolCounts[serverName] = tools.length;
-        this.logger.debug(`Tool details for ${serverName}:`, toolNames);
-      } catch (error: unknown) {
-        this.logger.error(
-          `Error loading tools from ${serverName}: ${error instanceof Error ? error.message : String(error)}`
-        );
+    for (const serverName of Object.keys(this.sessions)) {
+      if (!(await this.loadServerTools(serverName))) {
         failedServers.push(serverName);
-        // Initialize empty entry for failed servers
-        this.serverTools[serverName] = {};
-        toolCounts[serverName] = 0;
       }
+      toolCounts[serverName] = Object.keys(this.serverTools[serverName]).length;
+      this.notifyToolsChanged(serverName);
     }
 
     // Calculate totals
@@ -402,9 +637,84 @@ export class MCPClientManager {
   }
 
   /**
-   * Execute a tool on a specific MCP server
+   * Load one connected server's tools; false if the server couldn't list them
+   */
+  private async loadServerTools(serverName: string): Promise<boolean> {
+    const session = this.sessions[serverName];
+    try {
+      // Get tools from server
+      this.logger.debug(`📡 Calling listTools() for ${serverName}`);
+      const toolsResult = await session.client.listTools({});
+      const tools = toolsResult.tools || [];
+      this.logger.debug(`📊 ${serverName} returned ${tools.length} tools`);
+
+      // Process tools and create functions; the server's entry is replaced once all are built
+      this.logger.debug(`🛠️ Processing ${tools.length} tools for ${serverName}`);
+      const serverTools: Record<string, unknown> = {};
+      const toolNames: string[] = [];
+
+      for (const tool of tools) {
+        // Generate the prefixed tool name
+        const toolName = tool.name.startsWith(`${serverName}_`)
+          ? tool.name
+          : `${serverName}_${tool.name}`;
+
+        this.logger.debug(`➕ Creating tool: ${toolName} (original: ${tool.name})`);
+        toolNames.push(toolName);
+
+        // Create tool function that executes via MCP
+        const toolFunction = async (args: unknown, context?: ToolContext): Promise<string> => {
+          try {
+            const result = await this.executeTool(serverName, tool.name, args, context?.agentName);
+            return typeof result === 'string' ? result : JSON.stringify(result);
+          } catch (error: unknown) {
+            this.logger.error(`Error executing tool ${tool.name} on ${serverName}:`, error);
+            return `Error executing tool: ${error instanceof Error ? error.message : String(error)}`;
+          }
+        };
+
+        // Store in server-indexed structure with complete OpenAPI schema
+        serverTools[toolName] = {
+          definition: {
+            name: toolName,
+            description: tool.description || '',
+            // Preserve complete OpenAPI inputSchema instead of just properties
+            inputSchema: tool.inputSchema || {
+              type: 'object',
+              properties: {},
+              required: []
+            },
+            // Keep legacy parameters field for backward compatibility
+            parameters: tool.inputSchema?.properties || {},
+            enabled: true,
+          },
+          function: toolFunction,
+        };
+      }
+
+      this.serverTools[serverName] = serverTools;
+      this.logger.debug(`Tool details for ${serverName}:`, toolNames);
+      return true;
+    } catch (error: unknown) {
+      this.logger.error(
+        `Error loading tools from ${serverName}: ${error instanceof Error ? error.message : String(error)}`
+      );
+      // Keep the tools listed last time, if any
+      this.serverTools[serverName] = this.serverTools[serverName] ?? {};
+      return false;
+    }
+  }
+
+  /**
+   * Execute a tool on a specific MCP server. Sampling requests the server makes during
+   * the call are answered for callerAgent.
    */
-  async executeTool(serverName: string, toolName: string, arguments_: unknown): Promise<string> {
+  async executeTool(
+    serverName: string,
+    toolName: string,
+    arguments_: unknown,
+    callerAgent?: string
+  ): Promise<string> {
     const session = this.sessions[serverName];
     if (!session || !session.connected) {
       const errorMessage = `Server ${serverName} not connected`;
@@ -412,6 +722,11 @@ export class MCPClientManager {
       return `Error: ${errorMessage}`;
     }
 
+    const callers = (this.activeCallers[serverName] ??= []);
+    if (callerAgent) {
+      callers.push(callerAgent);
+    }
+
     try {
       this.logger.debug(
         `Executing tool ${toolName} on server ${serverName} with arguments:`,
@@ -503,6 +818,10 @@ export class MCPClientManager {
       const errorMessage = error instanceof Error ? error.message : String(error);
       this.logger.error(`Error executing tool ${toolName} on ${serverName}: ${errorMessage}`);
       return `Error: ${errorMessage}`;
+    } finally {
+      if (callerAgent) {
+        callers.splice(callers.lastIndexOf(callerAgent), 1);
+      }
     }
   }
 
@@ -520,28 +839,199 @@ export class MCPClientManager {
     this.logger.debug('Shutting down MCP client manager...');
     this._shutdownEvent = true;
 
-    for (const [serverName, session] of Object.entries(this.sessions)) {
-      try {
-        // HTTP transports may support session termination
-        if (
-          session.transport instanceof StreamableHTTPClientTransport &&
-          session.transport.terminateSession
-        ) {
-          await session.transport.terminateSession();
-        }
-        await session.transport.close();
-        session.connected = false;
-      } catch (error: unknown) {
-        this.logger.debug(
-          `Error shutting down ${serverName}: ${error instanceof Error ? error.message : String(error)}`
-        );
-      }
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer);
+      this.healthTimer = undefined;
+    }
+    for (const state of Object.values(this.serverStates)) {
+      this.clearRetry(state);
+    }
+    for (const serverName of Object.keys(this.sessions)) {
+      await this.closeSession(serverName);
     }
 
     this.sessions = {};
     this.logger.info('✅ MCP client manager shut down cleanly');
   }
 
+  /**
+   * Close a server's session, if it has one. It is forgotten before it closes, so the
+   * close isn't mistaken for a dropped connection.
+   */
+  private async closeSession(serverName: string): Promise<void> {
+    const session = this.sessions[serverName];
+    if (!session) {
+      return;
+    }
+    delete this.sessions[serverName];
+    session.connected = false;
+
+    try {
+      // HTTP transports may support session termination
+      if (
+        session.transport instanceof StreamableHTTPClientTransport &&
+        session.transport.terminateSession
+      ) {
+        await session.transport.terminateSession();
+      }
+      await session.transport.close();
+    } catch (error: unknown) {
+      this.logger.debug(
+        `Error shutting down ${serverName}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Disconnect a server and drop its tools, keeping its configuration
+   */
+  private async disconnect(serverName: string): Promise<void> {
+    const state = this.serverStates[serverName];
+    this.clearRetry(state);
+    await this.closeSession(serverName);
+    state.reconnect_attempts = 0;
+    state.failed_pings = 0;
+
+    if (this.serverTools[serverName]) {
+      delete this.serverTools[serverName];
+      this.notifyToolsChanged(serverName);
+    }
+  }
+
+  hasServer(serverName: string): boolean {
+    return serverName in this.serverConfigs;
+  }
+
+  getServerStatus(serverName: string): MCPServerStatus | null {
+    const config = this.serverConfigs[serverName];
+    const state = this.serverStates[serverName];
+    if (!config || !state) {
+      return null;
+    }
+
+    return {
+      name: serverName,
+      transport_type: config.transport_type,
+      enabled: config.enabled !== false,
+      status: state.status,
+      last_error: state.last_error,
+      tool_count: Object.keys(this.serverTools[serverName] ?? {}).length,
+      connected_at: state.connected_at,
+      last_ping_at: state.last_ping_at,
+      reconnect_attempts: state.reconnect_attempts,
+      next_retry_at: state.next_retry_at,
+    };
+  }
+
+  listServerStatuses(): MCPServerStatus[] {
+    return Object.keys(this.serverConfigs).map(
+      (serverName) => this.getServerStatus(serverName) as MCPServerStatus
+    );
+  }
+
+  /**
+   * Add a server and make the first connection attempt. Throws if the name is taken.
+   */
+  async addServer(serverName: string, config: ServerConfig): Promise<MCPServerStatus> {
+    if (this.hasServer(serverName)) {
+      throw new Error(`MCP server '${serverName}' already exists`);
+    }
+
+    this.serverConfigs[serverName] = config;
+    this.serverStates[serverName] = MCPClientManager.newState(config);
+    this.logger.info(`➕ Added MCP server ${serverName} (${config.transport_type})`);
+
+    await this.enqueue(serverName, () => this.connect(serverName));
+    return this.getServerStatus(serverName) as MCPServerStatus;
+  }
+
+  /**
+   * Replace a server's configuration and reconnect with it; null if there is no such server
+   */
+  async updateServer(serverName: string, config: ServerConfig): Promise<MCPServerStatus | null> {
+    if (!this.hasServer(serverName)) {
+      return null;
+    }
+
+    await this.enqueue(serverName, async () => {
+      await this.disconnect(serverName);
+      this.serverConfigs[serverName] = config;
+      this.serverStates[serverName].status = config.enabled === false ? 'disabled' : 'connecting';
+      this.logger.info(`✏️  Updated MCP server ${serverName}`);
+      await this.connect(serverName);
+    });
+    return this.getServerStatus(serverName);
+  }
+
+  /**
+   * Disconnect a server and forget it; false if there is no such server
+   */
+  async removeServer(serverName: string): Promise<boolean> {
+    if (!this.hasServer(serverName)) {
+      return false;
+    }
+
+    await this.enqueue(serverName, () => this.disconnect(serverName));
+    delete this.serverConfigs[serverName];
+    delete this.serverStates[serverName];
+    this.logger.info(`➖ Removed MCP server ${serverName}`);
+    return true;
+  }
+
+  /**
+   * Connect a disabled server, or disconnect an enabled one and drop its tools;
+   * null if there is no such server
+   */
+  async setServerEnabled(serverName: string, enabled: boolean): Promise<MCPServerStatus | null> {
+    if (!this.hasServer(serverName)) {
+      return null;
+    }
+
+    await this.enqueue(serverName, async () => {
+      this.serverConfigs[serverName] = { ...this.serverConfigs[serverName], enabled };
+      if (enabled) {
+        this.logger.info(`▶️  Enabled MCP server ${serverName}`);
+        await this.connect(serverName);
+      } else {
+        await this.disconnect(serverName);
+        this.serverStates[serverName].status = 'disabled';
+        this.serverStates[serverName].last_error = null;
+        this.logger.info(`⏸️  Disabled MCP server ${serverName}`);
+      }
+    });
+    return this.getServerStatus(serverName);
+  }
+
+  /**
+   * Rebuild a server's connection now instead of waiting for the next retry;
+   * null if there is no such server
+   */
+  async reconnectServer(serverName: string): Promise<MCPServerStatus | null> {
+    if (!this.hasServer(serverName)) {
+      return null;
+    }
+
+    this.serverStates[serverName].reconnect_attempts = 0;
+    await this.enqueue(serverName, () => this.connect(serverName));
+    return this.getServerStatus(serverName);
+  }
+
+  onToolsChanged(listener: MCPToolsChangeListener): () => void {
+    this.toolListeners.add(listener);
+    return () => this.toolListeners.delete(listener);
+  }
+
+  private notifyToolsChanged(serverName: string): void {
+    const tools = this.serverTools[serverName] ?? null;
+    for (const listener of this.toolListeners) {
+      try {
+        listener(serverName, tools);
+      } catch (error) {
+        this.logger.error(`MCP tools listener failed for ${serverName}:`, error);
+      }
+    }
+  }
+
   /**
    * List all available tools from all connected servers
    */
@@ -596,4 +1086,123 @@ export class MCPClientManager {
       throw error;
     }
   }
+
+  private supportsResourceSubscriptions(session: MCPServerClient): boolean {
+    return session.client.getServerCapabilities()?.resources?.subscribe === true;
+  }
+
+  /**
+   * Ask a server to report changes to a resource. Subscriptions are counted per URI and
+   * renewed when the server reconnects; servers that can't report changes are not asked.
+   */
+  async subscribeResource(serverName: string, uri: string): Promise<void> {
+    const subscriptions = (this.resourceSubscriptions[serverName] ??= new Map<string, number>());
+    const count = subscriptions.get(uri) ?? 0;
+    subscriptions.set(uri, count + 1);
+
+    const session = this.sessions[serverName];
+    if (count > 0 || !session?.connected || !this.supportsResourceSubscriptions(session)) {
+      return;
+    }
+    try {
+      await session.client.subscribeResource({ uri });
+    } catch (error: unknown) {
+      this.logger.warn(
+        `Could not subscribe to ${uri} on ${serverName}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async unsubscribeResource(serverName: string, uri: string): Promise<void> {
+    const subscriptions = this.resourceSubscriptions[serverName];
+    const count = subscriptions?.get(uri);
+    if (!subscriptions || count === undefined) {
+      return;
+    }
+    if (count > 1) {
+      subscriptions.set(uri, count - 1);
+      return;
+    }
+    subscriptions.delete(uri);
+
+    const session = this.sessions[serverName];
+    if (!session?.connected || !this.supportsResourceSubscriptions(session)) {
+      return;
+    }
+    try {
+      await session.client.unsubscribeResource({ uri });
+    } catch (error: unknown) {
+      this.logger.debug(
+        `Could not unsubscribe from ${uri} on ${serverName}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  // Resources may have changed while the server was away, so their subscribers are told
+  private async renewResourceSubscriptions(serverName: string): Promise<void> {
+    const session = this.sessions[serverName];
+    for (const uri of this.resourceSubscriptions[serverName]?.keys() ?? []) {
+      if (session && this.supportsResourceSubscriptions(session)) {
+        try {
+          await session.client.subscribeResource({ uri });
+        } catch (error: unknown) {
+          this.logger.warn(
+            `Could not renew the subscription to ${uri} on ${serverName}: ${error instanceof Error ? error.message : String(error)}`
+          );
+        }
+      }
+      this.notifyResourceUpdated(serverName, uri);
+    }
+  }
+
+  onResourceUpdated(listener: MCPResourceUpdateListener): () => void {
+    this.resourceListeners.add(listener);
+    return () => this.resourceListeners.delete(listener);
+  }
+
+  private notifyResourceUpdated(serverName: string, uri: string): void {
+    for (const listener of this.resourceListeners) {
+      try {
+        listener(serverName, uri);
+      } catch (error) {
+        this.logger.error(`MCP resource listener failed for ${uri} on ${serverName}:`, error);
+      }
+    }
+  }
+
+  /**
+   * List a server's prompts; empty if it isn't connected or offers none
+   */
+  async listPrompts(serverName: string): Promise<Prompt[]> {
+    const session = this.sessions[serverName];
+    if (!session?.connected || !session.client.getServerCapabilities()?.prompts) {
+      return [];
+    }
+
+    try {
+      const result = await session.client.listPrompts();
+      return result.prompts;
+    } catch (error: unknown) {
+      this.logger.error(
+        `Error listing prompts for ${serverName}:`,
+        error instanceof Error ? error.message : String(error)
+      );
+      return [];
+    }
+  }
+
+  /**
+   * Get a prompt's messages from a server, filled in with the given arguments
+   */
+  async getPrompt(
+    serverName: string,
+    name: string,
+    args: Record<string, string>
+  ): Promise<GetPromptResult> {
+    const session = this.sessions[serverName];
+    if (!session?.connected) {
+      throw new Error(`Server ${serverName} not connected`);
+    }
+    return session.client.getPrompt({ name, arguments: args });
+  }
 }
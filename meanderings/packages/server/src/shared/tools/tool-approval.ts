@@ -0,0 +1,166 @@
+/**
+ * Tool approval policies
+ *
+ * Each tool call runs under a policy: `auto` (run it), `confirm` (ask the user first)
+ * or `deny` (never run it). The policy comes from the agent's `tool_policies` in
+ * agents.json, then from the tool's own metadata, then from built-in rules
+ * (Cypher queries that write to the graph need confirmation).
+ */
+
+import { randomUUID } from 'crypto';
+import { _TOOL_REGISTRY } from './tool-function-decorator.js';
+
+export const TOOL_APPROVAL_POLICIES = ['auto', 'confirm', 'deny'] as const;
+export type ToolApprovalPolicy = (typeof TOOL_APPROVAL_POLICIES)[number];
+
+/**
+ * A tool call that needs the user's decision
+ */
+export interface ToolApprovalCall {
+  tool_name: string;
+  arguments: Record<string, unknown>;
+}
+
+/**
+ * The request sent to the client; its reply carries the same approval_id
+ */
+export interface ToolApprovalRequest extends ToolApprovalCall {
+  approval_id: string;
+}
+
+export interface ToolApprovalDecision {
+  approved: boolean;
+  reason?: string;
+}
+
+/**
+ * Asks the user about a tool call; set on a provider by whoever owns the connection
+ */
+export type ToolApprovalHandler = (call: ToolApprovalCall) => Promise<ToolApprovalDecision>;
+
+const CYPHER_WRITE_CLAUSES = /\b(CREATE|MERGE|DELETE|DETACH|SET|REMOVE|DROP|LOAD\s+CSV)\b/i;
+
+/**
+ * Whether an execute_cypher call writes to the graph, by its mode argument or its clauses
+ */
+function isCypherWrite(toolName: string, args: Record<string, unknown>): boolean {
+  if (!toolName.endsWith('execute_cypher')) {
+    return false;
+  }
+  if (typeof args.mode === 'string') {
+    return args.mode.toUpperCase() === 'WRITE';
+  }
+  return typeof args.query === 'string' && CYPHER_WRITE_CLAUSES.test(args.query);
+}
+
+/**
+ * Policy for one call of a tool
+ */
+export function resolveToolApprovalPolicy(
+  toolName: string,
+  args: Record<string, unknown>,
+  agentPolicies: Record<string, ToolApprovalPolicy> = {}
+): ToolApprovalPolicy {
+  const agentPolicy = agentPolicies[toolName];
+  if (agentPolicy) {
+    return agentPolicy;
+  }
+
+  const toolPolicy = _TOOL_REGISTRY.get(toolName)?.definition.approval;
+  if (toolPolicy) {
+    return toolPolicy;
+  }
+
+  return isCypherWrite(toolName, args) ? 'confirm' : 'auto';
+}
+
+/**
+ * Tool result fed back to the model when a call is not run
+ */
+export function formatToolRefusal(toolName: string, reason: string): string {
+  return JSON.stringify({
+    success: false,
+    error: `Tool '${toolName}' was not run`,
+    message: reason,
+  });
+}
+
+interface PendingApproval {
+  resolve: (decision: ToolApprovalDecision) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Tracks approval requests sent to one client and matches them with its replies.
+ * Requests are denied if the client doesn't answer in time, or when the turn is
+ * cancelled or the connection closes.
+ */
+export class ToolApprovalBroker {
+  private pending = new Map<string, PendingApproval>();
+
+  constructor(
+    private sendRequest: (request: ToolApprovalRequest) => void,
+    private timeoutMs = Number(process.env.TOOL_APPROVAL_TIMEOUT_MS) || 300_000
+  ) {}
+
+  /**
+   * Send an approval request and wait for the decision
+   */
+  request(call: ToolApprovalCall, signal?: AbortSignal): Promise<ToolApprovalDecision> {
+    if (signal?.aborted) {
+      return Promise.resolve({ approved: false, reason: 'Turn cancelled' });
+    }
+
+    const request: ToolApprovalRequest = { approval_id: randomUUID(), ...call };
+
+    return new Promise((resolve) => {
+      const settle = (decision: ToolApprovalDecision) => {
+        const entry = this.pending.get(request.approval_id);
+        if (!entry) {
+          return;
+        }
+        clearTimeout(entry.timer);
+        this.pending.delete(request.approval_id);
+        signal?.removeEventListener('abort', onAbort);
+        resolve(decision);
+      };
+      const onAbort = () => settle({ approved: false, reason: 'Turn cancelled' });
+
+      this.pending.set(request.approval_id, {
+        resolve: settle,
+        timer: setTimeout(
+          () => settle({ approved: false, reason: 'No response from the user in time' }),
+          this.timeoutMs
+        ),
+      });
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.sendRequest(request);
+    });
+  }
+
+  /**
+   * Apply the client's reply; false if no such request is pending
+   */
+  respond(approvalId: string, decision: ToolApprovalDecision): boolean {
+    const entry = this.pending.get(approvalId);
+    if (!entry) {
+      return false;
+    }
+    entry.resolve(decision);
+    return true;
+  }
+
+  /**
+   * Deny everything still waiting, e.g. when the connection closes
+   */
+  denyAll(reason: string): void {
+    for (const entry of [...this.pending.values()]) {
+      entry.resolve({ approved: false, reason });
+    }
+  }
+
+  get size(): number {
+    return this.pending.size;
+  }
+}
@@ -0,0 +1,377 @@
+/**
+ * Tool argument validation
+ *
+ * Arguments from the model are checked against the tool's JSON schema before the tool
+ * runs: inputSchema for MCP tools, parameters for local ones. Values with only one
+ * sensible reading in the declared type are coerced, e.g. "42" for an integer, "true"
+ * for a boolean, a JSON string for an object, or a lone value for an array. Anything
+ * else fails the call with a result listing each problem and the expected schema, so
+ * the model can correct its arguments and call again.
+ */
+
+import winston from 'winston';
+
+type JsonSchema = Record<string, unknown>;
+
+export interface ToolArgumentIssue {
+  path: string; // e.g. "filters.limit" or "ids[2]"; empty for the arguments object itself
+  message: string;
+}
+
+export interface ToolArgumentValidation {
+  valid: boolean;
+  args: Record<string, unknown>; // the arguments after coercion
+  issues: ToolArgumentIssue[];
+  coerced: string[]; // paths of values that were coerced
+}
+
+export interface ToolValidationStats {
+  calls: number;
+  valid: number;
+  coerced: number;
+  invalid: number;
+  last_issues: ToolArgumentIssue[] | null;
+  last_invalid_at: string | null;
+}
+
+const NUMERIC = /^\s*-?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?\s*$/i;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+function join(path: string, key: string | number): string {
+  return typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+}
+
+/**
+ * The JSON schema of a registered tool. Local tools may also declare a bare map of
+ * properties, each marked `required: true`, as the OpenAI transform accepts.
+ */
+export function getToolArgumentSchema(definition: {
+  parameters?: Record<string, unknown>;
+  inputSchema?: Record<string, unknown>;
+}): JsonSchema {
+  if (isObject(definition.inputSchema)) {
+    return definition.inputSchema;
+  }
+  const parameters = definition.parameters ?? {};
+  if ('type' in parameters || 'properties' in parameters) {
+    return parameters;
+  }
+  return {
+    type: 'object',
+    properties: parameters,
+    required: Object.entries(parameters)
+      .filter(([, property]) => isObject(property) && property.required === true)
+      .map(([name]) => name),
+  };
+}
+
+// A value of another type read as the given type, or undefined if there's no safe reading
+function coerce(value: unknown, type: string): unknown {
+  if (typeof value === 'string') {
+    if ((type === 'number' || type === 'integer') && NUMERIC.test(value)) {
+      const number = Number(value);
+      return type === 'number' || Number.isInteger(number) ? number : undefined;
+    }
+    if (type === 'boolean' && (value === 'true' || value === 'false')) {
+      return value === 'true';
+    }
+    if (type === 'object' || type === 'array') {
+      try {
+        const parsed: unknown = JSON.parse(value);
+        if (matchesType(parsed, type)) {
+          return parsed;
+        }
+      } catch {
+        // Not JSON; a lone string can still be read as an array of one
+      }
+    }
+  }
+  if (type === 'string' && (typeof value === 'number' || typeof value === 'boolean')) {
+    return String(value);
+  }
+  if (type === 'array' && value !== null && value !== undefined && !Array.isArray(value)) {
+    return [value];
+  }
+  return undefined;
+}
+
+class Validator {
+  issues: ToolArgumentIssue[] = [];
+  coerced: string[] = [];
+
+  // Returns the value, coerced where needed; problems are collected in issues
+  check(value: unknown, schema: unknown, path: string): unknown {
+    if (!isObject(schema)) {
+      return value;
+    }
+
+    const alternatives = (schema.anyOf ?? schema.oneOf) as unknown[] | undefined;
+    if (Array.isArray(alternatives) && alternatives.length > 0) {
+      return this.checkAlternatives(value, alternatives, path);
+    }
+
+    const types = (Array.isArray(schema.type) ? schema.type : [schema.type]).filter(
+      (type): type is string => typeof type === 'string'
+    );
+    if (types.length > 0 && !types.some((type) => matchesType(value, type))) {
+      const coerced = types.map((type) => coerce(value, type)).find((v) => v !== undefined);
+      if (coerced === undefined) {
+        this.issues.push({
+          path,
+          message: `must be ${types.join(' or ')}, got ${typeOf(value)}`,
+        });
+        return value;
+      }
+      this.coerced.push(path);
+      value = coerced;
+    }
+
+    if (Array.isArray(schema.enum) && !schema.enum.some((option) => option === value)) {
+      this.issues.push({
+        path,
+        message: `must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}`,
+      });
+    }
+    if ('const' in schema && schema.const !== value) {
+      this.issues.push({ path, message: `must be ${JSON.stringify(schema.const)}` });
+    }
+
+    if (typeof value === 'number') {
+      this.checkNumber(value, schema, path);
+    } else if (typeof value === 'string') {
+      this.checkString(value, schema, path);
+    } else if (Array.isArray(value)) {
+      return this.checkArray(value, schema, path);
+    } else if (isObject(value)) {
+      return this.checkObject(value, schema, path);
+    }
+    return value;
+  }
+
+  private checkAlternatives(value: unknown, alternatives: unknown[], path: string): unknown {
+    let fewest: Validator | null = null;
+    let result = value;
+    for (const alternative of alternatives) {
+      const attempt = new Validator();
+      const checked = attempt.check(value, alternative, path);
+      if (attempt.issues.length === 0) {
+        this.coerced.push(...attempt.coerced);
+        return checked;
+      }
+      if (!fewest || attempt.issues.length < fewest.issues.length) {
+        fewest = attempt;
+        result = checked;
+      }
+    }
+    this.issues.push(...(fewest?.issues ?? []));
+    return result;
+  }
+
+  private checkNumber(value: number, schema: JsonSchema, path: string): void {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) {
+      this.issues.push({ path, message: `must be at least ${schema.minimum}` });
+    }
+    if (typeof schema.maximum === 'number' && value > schema.maximum) {
+      this.issues.push({ path, message: `must be at most ${schema.maximum}` });
+    }
+    if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) {
+      this.issues.push({ path, message: `must be greater than ${schema.exclusiveMinimum}` });
+    }
+    if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) {
+      this.issues.push({ path, message: `must be less than ${schema.exclusiveMaximum}` });
+    }
+  }
+
+  private checkString(value: string, schema: JsonSchema, path: string): void {
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+      this.issues.push({ path, message: `must be at least ${schema.minLength} characters` });
+    }
+    if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+      this.issues.push({ path, message: `must be at most ${schema.maxLength} characters` });
+    }
+    if (typeof schema.pattern === 'string') {
+      try {
+        if (!new RegExp(schema.pattern, 'u').test(value)) {
+          this.issues.push({ path, message: `must match ${schema.pattern}` });
+        }
+      } catch {
+        // A pattern JavaScript can't compile is the tool's problem, not the model's
+      }
+    }
+  }
+
+  private checkArray(value: unknown[], schema: JsonSchema, path: string): unknown[] {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      this.issues.push({ path, message: `must have at least ${schema.minItems} items` });
+    }
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+      this.issues.push({ path, message: `must have at most ${schema.maxItems} items` });
+    }
+    return isObject(schema.items)
+      ? value.map((item, index) => this.check(item, schema.items, join(path, index)))
+      : value;
+  }
+
+  private checkObject(
+    value: Record<string, unknown>,
+    schema: JsonSchema,
+    path: string
+  ): Record<string, unknown> {
+    const properties = isObject(schema.properties) ? schema.properties : {};
+    const required = (Array.isArray(schema.required) ? schema.required : []).filter(
+      (name): name is string => typeof name === 'string'
+    );
+    const result: Record<string, unknown> = {};
+
+    for (const name of required) {
+      if (value[name] === undefined) {
+        this.issues.push({ path: join(path, name), message: 'is required' });
+      }
+    }
+
+    for (const [name, item] of Object.entries(value)) {
+      // Models often send null for optional parameters they mean to leave out
+      if (item === null && name in properties && !required.includes(name)) {
+        const nullable = new Validator();
+        nullable.check(null, properties[name], name);
+        if (nullable.issues.length > 0) {
+          this.coerced.push(join(path, name));
+          continue;
+        }
+      }
+
+      if (name in properties) {
+        result[name] =
+          item === undefined ? item : this.check(item, properties[name], join(path, name));
+      } else if (schema.additionalProperties === false) {
+        this.issues.push({
+          path: join(path, name),
+          message: `is not a parameter of this tool; expected ${Object.keys(properties).join(', ') || 'none'}`,
+        });
+      } else {
+        result[name] = isObject(schema.additionalProperties)
+          ? this.check(item, schema.additionalProperties, join(path, name))
+          : item;
+      }
+    }
+    return result;
+  }
+}
+
+/**
+ * Check a tool call's arguments against the tool's schema, coercing where it is safe
+ */
+export function validateToolArguments(
+  schema: JsonSchema,
+  args: Record<string, unknown>
+): ToolArgumentValidation {
+  const validator = new Validator();
+  const checked = validator.check(args, { ...schema, type: 'object' }, '');
+  return {
+    valid: validator.issues.length === 0,
+    args: isObject(checked) ? checked : args,
+    issues: validator.issues,
+    coerced: validator.coerced,
+  };
+}
+
+/**
+ * Tool result fed back to the model when its arguments don't fit the tool's schema
+ */
+export function formatToolValidationError(
+  toolName: string,
+  issues: ToolArgumentIssue[],
+  schema: JsonSchema
+): string {
+  return JSON.stringify({
+    success: false,
+    error: `Invalid arguments for tool '${toolName}'`,
+    validation_errors: issues.map((issue) => ({
+      parameter: issue.path || '(arguments)',
+      problem: issue.message,
+    })),
+    expected_schema: schema,
+    message: `Fix the arguments listed in validation_errors and call '${toolName}' again.`,
+  });
+}
+
+/**
+ * Validate a call to a registered tool and record the outcome. Returns the arguments to
+ * run it with, or the result to give the model instead of running it.
+ */
+export function checkToolArguments(
+  logger: winston.Logger,
+  toolName: string,
+  definition: { parameters?: Record<string, unknown>; inputSchema?: Record<string, unknown> },
+  args: Record<string, unknown>
+): { args: Record<string, unknown> } | { result: string } {
+  const schema = getToolArgumentSchema(definition);
+  const validation = validateToolArguments(schema, args);
+  recordToolValidation(toolName, validation);
+
+  if (!validation.valid) {
+    logger.warn(
+      `⚠️ Invalid arguments for tool '${toolName}': ${validation.issues
+        .map((issue) => `${issue.path || '(arguments)'} ${issue.message}`)
+        .join('; ')}`
+    );
+    return { result: formatToolValidationError(toolName, validation.issues, schema) };
+  }
+  if (validation.coerced.length > 0) {
+    logger.debug(`Coerced arguments of tool '${toolName}': ${validation.coerced.join(', ')}`);
+  }
+  return { args: validation.args };
+}
+
+const stats = new Map<string, ToolValidationStats>();
+
+export function recordToolValidation(toolName: string, validation: ToolArgumentValidation): void {
+  const entry = stats.get(toolName) ?? {
+    calls: 0,
+    valid: 0,
+    coerced: 0,
+    invalid: 0,
+    last_issues: null,
+    last_invalid_at: null,
+  };
+  entry.calls++;
+  if (!validation.valid) {
+    entry.invalid++;
+    entry.last_issues = validation.issues;
+    entry.last_invalid_at = new Date().toISOString();
+  } else {
+    entry.valid++;
+    if (validation.coerced.length > 0) {
+      entry.coerced++;
+    }
+  }
+  stats.set(toolName, entry);
+}
+
+/**
+ * Validation counts per tool since the server started
+ */
+export function getToolValidationStats(): Record<string, ToolValidationStats> {
+  return Object.fromEntries(
+    [...stats.entries()].map(([toolName, entry]) => [toolName, { ...entry }])
+  );
+}
+
+export function resetToolValidationStats(): void {
+  stats.clear();
+}
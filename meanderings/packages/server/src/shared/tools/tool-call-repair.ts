@@ -0,0 +1,298 @@
+/**
+ * Tool call repair
+ *
+ * Smaller models often make tool calls the tool loop can't run as they are: arguments
+ * cut off mid-JSON or written loosely (single quotes, bare keys, trailing commas), and
+ * tool names that are misspelled or differ from the registered name only by the
+ * characters sanitizeToolName replaced. Such calls are repaired where there is one
+ * likely reading. A call that can't be repaired is answered with a correction so the
+ * model can try again, up to the agent's tool_call_retries.
+ */
+
+import { sanitizeToolName, ToolNameMapping } from '../utils/tool-name-sanitizer.js';
+
+export const DEFAULT_TOOL_CALL_RETRIES = Number(process.env.TOOL_CALL_RETRIES) || 2;
+
+export interface ToolCallRepair {
+  name: string | null; // the registered tool, or null if none matches
+  arguments: Record<string, unknown> | null; // null if they can't be read
+  repairs: string[]; // what was changed, e.g. "arguments: unclosed brackets closed"
+  problem: string | null; // why the call can't run, if it can't
+}
+
+const PYTHON_LITERALS = new Map([
+  ['True', 'true'],
+  ['False', 'false'],
+  ['None', 'null'],
+]);
+const CONTROL_ESCAPES: Record<string, string> = { '\n': '\\n', '\r': '\\r', '\t': '\\t' };
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function tryParse(text: string): { value: unknown } | null {
+  try {
+    return { value: JSON.parse(text) as unknown };
+  } catch {
+    return null;
+  }
+}
+
+// Rewrite loose or truncated JSON as strict JSON, noting each kind of change made
+function rewriteJson(text: string, repairs: Set<string>): string {
+  const closers: string[] = [];
+  let out = '';
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === '"' || char === "'") {
+      let value = '';
+      let j = i + 1;
+      while (j < text.length && text[j] !== char) {
+        if (text[j] === '\\') {
+          // An escape cut off at the end of the text is dropped
+          if (j + 1 < text.length) {
+            value += char === "'" && text[j + 1] === "'" ? "'" : text.slice(j, j + 2);
+          }
+          j += 2;
+        } else if (CONTROL_ESCAPES[text[j]]) {
+          repairs.add('line breaks in strings escaped');
+          value += CONTROL_ESCAPES[text[j]];
+          j++;
+        } else {
+          value += char === "'" && text[j] === '"' ? '\\"' : text[j];
+          j++;
+        }
+      }
+      if (char === "'") {
+        repairs.add('single quotes replaced');
+      }
+      if (j >= text.length) {
+        repairs.add('unclosed string closed');
+      }
+      out += `"${value}"`;
+      i = j + 1;
+      continue;
+    }
+
+    if (char === '{' || char === '[') {
+      closers.push(char === '{' ? '}' : ']');
+      out += char;
+    } else if (char === '}' || char === ']') {
+      if (closers[closers.length - 1] === char) {
+        closers.pop();
+        if (/,\s*$/.test(out)) {
+          repairs.add('trailing commas removed');
+          out = out.replace(/,\s*$/, '');
+        }
+        out += char;
+      } else {
+        repairs.add('unmatched brackets dropped');
+      }
+    } else if (/[A-Za-z_$]/.test(char)) {
+      const word = /^[A-Za-z_$][\w$]*/.exec(text.slice(i))?.[0] ?? char;
+      if (/^\s*:/.test(text.slice(i + word.length))) {
+        repairs.add('unquoted keys quoted');
+        out += `"${word}"`;
+      } else if (PYTHON_LITERALS.has(word)) {
+        repairs.add('Python literals replaced');
+        out += PYTHON_LITERALS.get(word);
+      } else {
+        out += word;
+      }
+      i += word.length;
+      continue;
+    } else {
+      out += char;
+    }
+    i++;
+  }
+
+  if (closers.length > 0) {
+    // Text cut off inside an object or array: drop an incomplete last entry and close it
+    const trimmed = out.replace(/\s+$/, '');
+    const complete = (
+      closers[closers.length - 1] === '}'
+        ? trimmed.replace(/([{,])\s*"(?:[^"\\]|\\.)*"\s*:?$/, '$1')
+        : trimmed
+    ).replace(/[,:]$/, '');
+    if (complete !== trimmed) {
+      repairs.add('incomplete last entry dropped');
+    }
+    repairs.add('unclosed brackets closed');
+    out = complete + closers.reverse().join('');
+  }
+  return out;
+}
+
+/**
+ * Read tool call arguments leniently. Returns the arguments object and what had to be
+ * repaired to read it, or null if there's no sensible reading.
+ */
+export function parseToolArguments(
+  text: string
+): { value: Record<string, unknown>; repairs: string[] } | null {
+  const repairs = new Set<string>();
+  let json = text.trim();
+
+  if (!json) {
+    return { value: {}, repairs: ['empty arguments read as {}'] };
+  }
+
+  const fenced = /^```[\w-]*\s*([\s\S]*?)\s*(```)?$/.exec(json);
+  if (fenced) {
+    repairs.add('code fence removed');
+    json = fenced[1];
+  }
+  const start = json.indexOf('{');
+  if (start > 0 && !tryParse(json)) {
+    repairs.add('text before the JSON removed');
+    json = json.slice(start);
+  }
+
+  let parsed = tryParse(json);
+  if (!parsed) {
+    json = rewriteJson(json, repairs);
+    parsed = tryParse(json);
+  }
+  if (parsed && typeof parsed.value === 'string') {
+    // Arguments encoded twice arrive as a JSON string holding the JSON object
+    const inner = tryParse(parsed.value);
+    if (inner && isObject(inner.value)) {
+      repairs.add('arguments encoded twice decoded');
+      parsed = inner;
+    }
+  }
+
+  return parsed && isObject(parsed.value) ? { value: parsed.value, repairs: [...repairs] } : null;
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Compared form of a tool name: sanitized, lower case, without a "functions." prefix
+function normalizeToolName(name: string): string {
+  return sanitizeToolName(name.trim().replace(/^(functions|tools?)[.:/]/i, ''))
+    .toLowerCase()
+    .replace(/_+/g, '_');
+}
+
+/**
+ * The registered tool a called name refers to: the same name, the original of a
+ * sanitized name, or failing those the one tool whose name is nearly the same.
+ * Null if no tool, or more than one, is a likely match.
+ */
+export function resolveToolName(
+  name: string,
+  knownNames: string[],
+  mapping: Map<string, ToolNameMapping>
+): { name: string; repair?: string } | null {
+  if (knownNames.includes(name)) {
+    return { name };
+  }
+  const original = mapping.get(name)?.original;
+  if (original && knownNames.includes(original)) {
+    return { name: original };
+  }
+
+  const called = normalizeToolName(name);
+  if (!called) {
+    return null;
+  }
+  const same = knownNames.filter((known) => normalizeToolName(known) === called);
+  const tolerance = Math.floor(called.length / 6);
+  const distances = knownNames.map((known) => editDistance(called, normalizeToolName(known)));
+  const closest = Math.min(...distances);
+  const near =
+    same.length > 0
+      ? same
+      : closest <= tolerance
+        ? knownNames.filter((_, index) => distances[index] === closest)
+        : [];
+
+  return near.length === 1
+    ? { name: near[0], repair: `tool name '${name}' read as '${near[0]}'` }
+    : null;
+}
+
+/**
+ * Repair a tool call's name and arguments where there is one likely reading
+ */
+export function repairToolCall(
+  name: string,
+  rawArguments: string,
+  knownNames: string[],
+  mapping: Map<string, ToolNameMapping>
+): ToolCallRepair {
+  const repairs: string[] = [];
+  const problems: string[] = [];
+
+  const resolved = resolveToolName(name, knownNames, mapping);
+  if (resolved?.repair) {
+    repairs.push(resolved.repair);
+  } else if (!resolved) {
+    problems.push(name ? `There is no tool named '${name}'` : 'The tool call has no tool name');
+  }
+
+  const parsed = parseToolArguments(rawArguments);
+  if (parsed && parsed.repairs.length > 0) {
+    repairs.push(`arguments: ${parsed.repairs.join(', ')}`);
+  } else if (!parsed) {
+    problems.push(
+      tryParse(rawArguments.trim())
+        ? 'The arguments must be a JSON object'
+        : 'The arguments are not valid JSON'
+    );
+  }
+
+  return {
+    name: resolved?.name ?? null,
+    arguments: parsed?.value ?? null,
+    repairs,
+    problem: problems.length > 0 ? problems.join('; ') : null,
+  };
+}
+
+/**
+ * Tool result fed back to the model when its call can't be repaired. Once its retries
+ * are used up the model is told to answer without the tool instead.
+ */
+export function formatToolCallCorrection(
+  toolName: string,
+  problem: string,
+  availableTools: string[],
+  retriesLeft: number
+): string {
+  return JSON.stringify({
+    success: false,
+    error: `Malformed call to tool '${toolName}'`,
+    problem,
+    available_tools: availableTools,
+    ...(retriesLeft > 0
+      ? {
+          retries_left: retriesLeft,
+          message:
+            'Call one of the available tools again, with its arguments as a complete JSON object.',
+        }
+      : {
+          retries_exhausted: true,
+          message: 'Stop calling tools and answer the user with what you have.',
+        }),
+  });
+}
@@ -0,0 +1,57 @@
+/**
+ * Tool execution limits
+ *
+ * Every tool call runs under a timeout, taken from the tool's metadata or the server
+ * default, unless the tool opts out with NO_TOOL_TIMEOUT. Several calls from one model response run side by side, up to a
+ * concurrency cap set per agent or for the whole server.
+ */
+
+import { _TOOL_REGISTRY } from './tool-function-decorator.js';
+
+export const DEFAULT_TOOL_TIMEOUT_MS = Number(process.env.TOOL_TIMEOUT_MS) || 60_000;
+export const DEFAULT_TOOL_CONCURRENCY = Number(process.env.TOOL_CONCURRENCY) || 4;
+
+// Timeout for tools that run until they finish, e.g. delegating to another agent or CLI;
+// a cancelled turn still aborts them
+export const NO_TOOL_TIMEOUT = 0;
+
+/**
+ * Timeout for one call of a tool, in milliseconds
+ */
+export function getToolTimeout(toolName: string): number {
+  return _TOOL_REGISTRY.get(toolName)?.definition.timeout_ms ?? DEFAULT_TOOL_TIMEOUT_MS;
+}
+
+/**
+ * Tool result fed back to the model when a call runs out of time
+ */
+export function formatToolTimeout(toolName: string, timeoutMs: number): string {
+  return JSON.stringify({
+    success: false,
+    error: `Tool '${toolName}' timed out after ${timeoutMs}ms`,
+    timed_out: true,
+  });
+}
+
+/**
+ * Run fn over items with at most `limit` calls in flight; results keep the input order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker);
+  await Promise.all(workers);
+  return results;
+}
@@ -3,6 +3,8 @@
  * TypeScript equivalent of Python's tool_function_decorator.py
  */
 
+import type { ToolApprovalHandler, ToolApprovalPolicy } from './tool-approval.js';
+
 /**
  * Tool function interface - all tools must implement this
  */
@@ -16,6 +18,14 @@ export interface ToolContext {
   sessionId?: string;
   workingDirectory?: string;
   customSettings?: Record<string, unknown>;
+  // Aborted when the client cancels the turn; long-running tools should stop early
+  signal?: AbortSignal;
+  // The caller's WebSocket, for tools that stream their own progress to the client
+  websocket?: { send(data: string): void };
+  // Agents that delegated their way to this call, outermost first, ending with agentName
+  delegationChain?: string[];
+  // Asks the user about tool calls with a confirm policy, as the calling agent would
+  requestApproval?: ToolApprovalHandler;
 }
 
 /**
@@ -33,6 +43,10 @@ export interface ToolMetadata {
     [key: string]: unknown;
   };
   enabled?: boolean;
+  // Whether calls run directly, need the user's confirmation, or are refused (default auto)
+  approval?: ToolApprovalPolicy;
+  // How long a call may run before its result is replaced by a timeout error
+  timeout_ms?: number;
 }
 
 /**
@@ -44,6 +58,8 @@ export interface StoredToolEntry {
     description: string;
     parameters: Record<string, unknown>;
     enabled: boolean;
+    approval?: ToolApprovalPolicy;
+    timeout_ms?: number;
   };
   function: ToolFunction;
 }
@@ -61,6 +77,8 @@ export const _TOOL_REGISTRY = new Map<string, StoredToolEntry>();
  * @param description - The description of the tool function
  * @param parameters - The parameters of the tool function (OpenAPI schema)
  * @param enabled - Whether the tool function is enabled (default: true)
+ * @param approval - Approval policy for calls: auto, confirm or deny (default: auto)
+ * @param timeoutMs - Time limit for one call, or NO_TOOL_TIMEOUT for none (default: TOOL_TIMEOUT_MS)
  *
  * @returns Function decorator that registers the tool
  */
@@ -68,7 +86,9 @@ export function toolFunction(
   name: string,
   description: string,
   parameters: Record<string, unknown>,
-  enabled = true
+  enabled = true,
+  approval?: ToolApprovalPolicy,
+  timeoutMs?: number
 ) {
   return function <T extends ToolFunction>(target: T): T {
     // Check if tool function with this name already exists
@@ -83,6 +103,8 @@ export function toolFunction(
         description,
         parameters,
         enabled,
+        approval,
+        timeout_ms: timeoutMs,
       },
       function: target, // Store the function reference directly
     });
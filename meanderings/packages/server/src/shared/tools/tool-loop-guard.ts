@@ -0,0 +1,102 @@
+/**
+ * Tool loop guard
+ *
+ * Every round of tool calls in a request is checked before it runs. The loop is
+ * stopped when the request has used up the agent's max_tool_iterations, when the model
+ * makes the same calls with the same arguments several rounds in a row, or when it keeps
+ * cycling through the same few rounds. A stopped loop is wrapped up with one final
+ * completion without tools, in which the model explains why it stopped.
+ */
+
+import { parseToolArguments } from './tool-call-repair.js';
+
+export const DEFAULT_MAX_TOOL_ITERATIONS = Number(process.env.MAX_TOOL_ITERATIONS) || 25;
+
+// The same round this many times in a row, or a cycle of rounds repeated this often, is a loop
+const REPEAT_LIMIT = 3;
+// Longest cycle of rounds checked for
+const MAX_CYCLE_LENGTH = 3;
+
+export interface ToolLoopCall {
+  name: string;
+  arguments: string;
+}
+
+// JSON with object keys in sorted order, so equal arguments compare equal
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+function roundKey(calls: ToolLoopCall[]): string {
+  return calls
+    .map((call) => {
+      const parsed = parseToolArguments(call.arguments);
+      return `${call.name}(${parsed ? canonicalJson(parsed.value) : call.arguments})`;
+    })
+    .sort()
+    .join(' ');
+}
+
+function roundNames(calls: ToolLoopCall[]): string {
+  return [...new Set(calls.map((call) => call.name))].join(', ');
+}
+
+export class ToolLoopGuard {
+  private rounds: string[] = [];
+  private names: string[] = [];
+
+  constructor(private maxIterations: number) {}
+
+  /**
+   * Check a round of tool calls before it runs. Returns why the loop should stop, or null
+   * if the round may run; only rounds that may run are counted.
+   */
+  check(calls: ToolLoopCall[]): string | null {
+    if (this.rounds.length >= this.maxIterations) {
+      return `it reached the limit of ${this.maxIterations} rounds of tool calls for one request`;
+    }
+
+    const rounds = [...this.rounds, roundKey(calls)];
+    const names = [...this.names, roundNames(calls)];
+    const recent = rounds.slice(-REPEAT_LIMIT);
+    if (recent.length === REPEAT_LIMIT && recent.every((round) => round === recent[0])) {
+      return `it called ${names[names.length - 1]} with the same arguments ${REPEAT_LIMIT} times in a row`;
+    }
+
+    for (let length = 2; length <= MAX_CYCLE_LENGTH; length++) {
+      const span = rounds.slice(-length * REPEAT_LIMIT);
+      const cycle = span.slice(0, length);
+      if (
+        span.length === length * REPEAT_LIMIT &&
+        new Set(cycle).size > 1 &&
+        span.every((round, index) => round === cycle[index % length])
+      ) {
+        const cycleNames = names.slice(-length).join(' → ');
+        return `it kept repeating the same ${length} rounds of tool calls (${cycleNames})`;
+      }
+    }
+
+    this.rounds = rounds;
+    this.names = names;
+    return null;
+  }
+}
+
+/**
+ * User message that asks for the final answer once the tool loop has been stopped
+ */
+export function formatToolLoopStop(reason: string): string {
+  return (
+    `[Tool use stopped: ${reason}. No more tools can be called for this request. ` +
+    `Answer with what you have found so far, and say briefly why you stopped.]`
+  );
+}
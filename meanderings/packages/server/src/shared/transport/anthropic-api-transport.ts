@@ -8,7 +8,24 @@
 
 import { Message } from '../types/message-types.js';
 import { MESSAGE_ROLES } from '../constants/message-constants.js';
-import { TransportResult, StreamingTransportResult } from '../types/transport-types.js';
+import {
+  FetchFunction,
+  GenerationOptions,
+  TransportResult,
+  StreamingTransportResult,
+} from '../types/transport-types.js';
+import { getProviderFetch } from './provider-cassette.js';
+import { responseFormatInstruction } from '../services/generation-settings.js';
+
+function anthropicToolChoice(
+  toolChoice: NonNullable<GenerationOptions['toolChoice']>
+): Record<string, string> {
+  if (typeof toolChoice === 'object') {
+    // eslint-disable-next-line no-restricted-syntax
+    return { type: 'tool', name: toolChoice.name };
+  }
+  return { type: toolChoice === 'required' ? 'any' : toolChoice };
+}
 
 /**
  * Anthropic API transport configuration
@@ -19,6 +36,7 @@ export interface AnthropicTransportConfig {
   baseUrl?: string;
   timeout?: number;
   maxRetries?: number;
+  fetch?: FetchFunction; // defaults to the global fetch, or the cassette when one is active
 }
 
 /**
@@ -38,6 +56,13 @@ export class AnthropicAPITransport {
     };
   }
 
+  /**
+   * Issue an HTTP request through the configured fetch
+   */
+  private fetch(url: string, init: RequestInit): Promise<Response> {
+    return (this.config.fetch ?? getProviderFetch())(url, init);
+  }
+
   /**
    * Send messages to Anthropic Claude API
    */
@@ -47,9 +72,9 @@ export class AnthropicAPITransport {
       tools?: unknown[];
       systemPrompt?: string;
       stream?: boolean;
-      temperature?: number;
-      maxTokens?: number;
-    } = {}
+      // Aborting this signal cancels the request (e.g. the client cancelled the turn)
+      signal?: AbortSignal;
+    } & GenerationOptions = {}
   ): Promise<TransportResult> {
     // Prepare Anthropic format
     const anthropicMessages = this.prepareAnthropicFormat(messages);
@@ -61,34 +86,49 @@ export class AnthropicAPITransport {
       max_tokens: options.maxTokens || 4096,
     };
 
-    // Add system prompt if provided
-    if (options.systemPrompt) {
-      requestParams.system = options.systemPrompt;
+    // Add system prompt if provided; Claude has no JSON mode, so a JSON format is asked for here
+    const system = [options.systemPrompt, responseFormatInstruction(options.responseFormat)]
+      .filter(Boolean)
+      .join('\n\n');
+    if (system) {
+      requestParams.system = system;
     }
 
     // Add tools
     if (options.tools && options.tools.length > 0) {
       requestParams.tools = options.tools;
+      if (options.toolChoice) {
+        requestParams.tool_choice = anthropicToolChoice(options.toolChoice);
+      }
     }
 
-    // Add temperature
+    // Add sampling parameters; Anthropic has no seed
     if (options.temperature !== undefined) {
       requestParams.temperature = options.temperature;
     }
+    if (options.topP !== undefined) {
+      requestParams.top_p = options.topP;
+    }
+    if (options.stop && options.stop.length > 0) {
+      requestParams.stop_sequences = options.stop;
+    }
 
     // Handle streaming vs non-streaming
     if (options.stream) {
       requestParams.stream = true;
-      return await this.sendStreaming(requestParams);
+      return await this.sendStreaming(requestParams, options.signal);
     } else {
-      return await this.sendNonStreaming(requestParams);
+      return await this.sendNonStreaming(requestParams, options.signal);
     }
   }
 
   /**
    * Send non-streaming request using direct HTTP
    */
-  private async sendNonStreaming(requestParams: Record<string, unknown>): Promise<TransportResult> {
+  private async sendNonStreaming(
+    requestParams: Record<string, unknown>,
+    signal?: AbortSignal
+  ): Promise<TransportResult> {
     const url = `${this.config.baseUrl}/v1/messages`;
 
     let retries = 0;
@@ -97,11 +137,13 @@ export class AnthropicAPITransport {
         this.abortController = new AbortController();
         const timeoutId = setTimeout(() => this.abortController?.abort(), this.config.timeout);
 
-        const response = await fetch(url, {
+        const response = await this.fetch(url, {
           method: 'POST',
           headers: this.buildHeaders(),
           body: JSON.stringify(requestParams),
-          signal: this.abortController.signal,
+          signal: signal
+            ? AbortSignal.any([this.abortController.signal, signal])
+            : this.abortController.signal,
         });
 
         clearTimeout(timeoutId);
@@ -119,6 +161,10 @@ export class AnthropicAPITransport {
           raw: data,
         };
       } catch (error: unknown) {
+        // A cancelled request must not be retried
+        if (signal?.aborted) {
+          throw new Error('Anthropic API request cancelled');
+        }
         retries++;
         if (retries > this.config.maxRetries!) {
           throw new Error(
@@ -137,18 +183,21 @@ export class AnthropicAPITransport {
    * Send streaming request using direct HTTP with Server-Sent Events
    */
   private async sendStreaming(
-    requestParams: Record<string, unknown>
+    requestParams: Record<string, unknown>,
+    signal?: AbortSignal
   ): Promise<StreamingTransportResult> {
     const url = `${this.config.baseUrl}/v1/messages`;
 
     try {
       this.abortController = new AbortController();
 
-      const response = await fetch(url, {
+      const response = await this.fetch(url, {
         method: 'POST',
         headers: this.buildHeaders(),
         body: JSON.stringify(requestParams),
-        signal: this.abortController.signal,
+        signal: signal
+          ? AbortSignal.any([this.abortController.signal, signal])
+          : this.abortController.signal,
       });
 
       if (!response.ok) {
@@ -330,7 +379,7 @@ export class AnthropicAPITransport {
     try {
       const url = `${this.config.baseUrl}/v1/messages`;
 
-      const response = await fetch(url, {
+      const response = await this.fetch(url, {
         method: 'POST',
         headers: this.buildHeaders(),
         body: JSON.stringify({
@@ -385,6 +434,8 @@ export class AnthropicAPITransport {
     usage?: {
       inputTokens: number;
       outputTokens: number;
+      cacheCreationInputTokens: number;
+      cacheReadInputTokens: number;
     };
   } {
     const result: {
@@ -394,6 +445,8 @@ export class AnthropicAPITransport {
       usage?: {
         inputTokens: number;
         outputTokens: number;
+        cacheCreationInputTokens: number;
+        cacheReadInputTokens: number;
       };
     } = {};
 
@@ -455,10 +508,18 @@ export class AnthropicAPITransport {
           const usage = dataObj.usage as {
             input_tokens?: unknown;
             output_tokens?: unknown;
+            cache_creation_input_tokens?: unknown;
+            cache_read_input_tokens?: unknown;
           };
           result.usage = {
             inputTokens: typeof usage.input_tokens === 'number' ? usage.input_tokens : 0,
             outputTokens: typeof usage.output_tokens === 'number' ? usage.output_tokens : 0,
+            cacheCreationInputTokens:
+              typeof usage.cache_creation_input_tokens === 'number'
+                ? usage.cache_creation_input_tokens
+                : 0,
+            cacheReadInputTokens:
+              typeof usage.cache_read_input_tokens === 'number' ? usage.cache_read_input_tokens : 0,
           };
         }
       }
@@ -571,10 +632,18 @@ export class AnthropicAPITransport {
           const usage = eventObj.usage as {
             input_tokens?: unknown;
             output_tokens?: unknown;
+            cache_creation_input_tokens?: unknown;
+            cache_read_input_tokens?: unknown;
           };
           finalUsage = {
             inputTokens: typeof usage.input_tokens === 'number' ? usage.input_tokens : 0,
             outputTokens: typeof usage.output_tokens === 'number' ? usage.output_tokens : 0,
+            cacheCreationInputTokens:
+              typeof usage.cache_creation_input_tokens === 'number'
+                ? usage.cache_creation_input_tokens
+                : 0,
+            cacheReadInputTokens:
+              typeof usage.cache_read_input_tokens === 'number' ? usage.cache_read_input_tokens : 0,
           };
         }
       } else if (eventObj.type === 'message_stop') {
@@ -8,8 +8,20 @@
 
 import { Message } from '../types/message-types.js';
 import { MESSAGE_ROLES } from '../constants/message-constants.js';
+import { FetchFunction, GenerationOptions } from '../types/transport-types.js';
+import { getProviderFetch } from './provider-cassette.js';
+import { responseFormatInstruction } from '../services/generation-settings.js';
 // StreamingTransportResult removed as unused
 
+function functionCallingConfig(
+  toolChoice: NonNullable<GenerationOptions['toolChoice']>
+): Record<string, unknown> {
+  if (typeof toolChoice === 'object') {
+    return { mode: 'ANY', allowedFunctionNames: [toolChoice.name] };
+  }
+  return { mode: toolChoice === 'required' ? 'ANY' : toolChoice.toUpperCase() };
+}
+
 /**
  * Google API transport configuration
  */
@@ -18,6 +30,7 @@ export interface GoogleTransportConfig {
   model: string;
   baseUrl?: string;
   timeout?: number;
+  fetch?: FetchFunction; // defaults to the global fetch, or the cassette when one is active
 }
 
 /**
@@ -36,6 +49,13 @@ export class GoogleAPITransport {
     };
   }
 
+  /**
+   * Issue an HTTP request through the configured fetch
+   */
+  private fetch(url: string, init: RequestInit): Promise<Response> {
+    return (this.config.fetch ?? getProviderFetch())(url, init);
+  }
+
   /**
    * Send messages to Google Gemini API
    */
@@ -45,9 +65,9 @@ export class GoogleAPITransport {
       tools?: unknown[];
       systemInstruction?: string;
       stream?: boolean;
-      temperature?: number;
-      maxTokens?: number;
-    } = {}
+      // Aborting this signal cancels the request (e.g. the client cancelled the turn)
+      signal?: AbortSignal;
+    } & GenerationOptions = {}
   ): Promise<unknown> {
     // Prepare Google format
     const { systemInstruction, googleMessages } = this.prepareGoogleFormat(messages);
@@ -57,10 +77,18 @@ export class GoogleAPITransport {
       contents: googleMessages,
     };
 
+    // Gemini can't combine function calling with a JSON response type, so with tools a
+    // JSON format is asked for in the system instruction instead
+    const hasTools = !!options.tools && options.tools.length > 0;
+    const formatInstruction = hasTools ? responseFormatInstruction(options.responseFormat) : null;
+
     // Add system instruction
-    if (options.systemInstruction || systemInstruction) {
+    const instruction = [options.systemInstruction || systemInstruction, formatInstruction]
+      .filter(Boolean)
+      .join('\n\n');
+    if (instruction) {
       requestBody.systemInstruction = {
-        parts: [{ text: options.systemInstruction || systemInstruction }],
+        parts: [{ text: instruction }],
       };
     }
 
@@ -71,6 +99,11 @@ export class GoogleAPITransport {
           functionDeclarations: options.tools,
         },
       ];
+      if (options.toolChoice) {
+        requestBody.toolConfig = {
+          functionCallingConfig: functionCallingConfig(options.toolChoice),
+        };
+      }
     }
 
     // Add generation config
@@ -78,38 +111,58 @@ export class GoogleAPITransport {
     if (options.temperature !== undefined) {
       generationConfig.temperature = options.temperature;
     }
+    if (options.topP !== undefined) {
+      generationConfig.topP = options.topP;
+    }
     if (options.maxTokens) {
       generationConfig.maxOutputTokens = options.maxTokens;
     }
+    if (options.stop && options.stop.length > 0) {
+      generationConfig.stopSequences = options.stop;
+    }
+    if (options.seed !== undefined) {
+      generationConfig.seed = options.seed;
+    }
+    if (!hasTools && options.responseFormat && options.responseFormat.type !== 'text') {
+      generationConfig.responseMimeType = 'application/json';
+      if (options.responseFormat.type === 'json_schema') {
+        generationConfig.responseJsonSchema = options.responseFormat.schema;
+      }
+    }
     if (Object.keys(generationConfig).length > 0) {
       requestBody.generationConfig = generationConfig;
     }
 
     // Handle streaming vs non-streaming
     if (options.stream) {
-      return await this.sendStreaming(requestBody);
+      return await this.sendStreaming(requestBody, options.signal);
     } else {
-      return await this.sendNonStreaming(requestBody);
+      return await this.sendNonStreaming(requestBody, options.signal);
     }
   }
 
   /**
    * Send non-streaming request using direct HTTP
    */
-  private async sendNonStreaming(requestBody: Record<string, unknown>): Promise<unknown> {
+  private async sendNonStreaming(
+    requestBody: Record<string, unknown>,
+    signal?: AbortSignal
+  ): Promise<unknown> {
     const url = `${this.config.baseUrl}/v1beta/models/${this.config.model}:generateContent?key=${this.config.apiKey}`;
 
     try {
       this.abortController = new AbortController();
       const timeoutId = setTimeout(() => this.abortController?.abort(), this.config.timeout);
 
-      const response = await fetch(url, {
+      const response = await this.fetch(url, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify(requestBody),
-        signal: this.abortController.signal,
+        signal: signal
+          ? AbortSignal.any([this.abortController.signal, signal])
+          : this.abortController.signal,
       });
 
       clearTimeout(timeoutId);
@@ -136,19 +189,24 @@ export class GoogleAPITransport {
   /**
    * Send streaming request using direct HTTP with Server-Sent Events
    */
-  private async sendStreaming(requestBody: Record<string, unknown>): Promise<unknown> {
+  private async sendStreaming(
+    requestBody: Record<string, unknown>,
+    signal?: AbortSignal
+  ): Promise<unknown> {
     const url = `${this.config.baseUrl}/v1beta/models/${this.config.model}:streamGenerateContent?key=${this.config.apiKey}&alt=sse`;
 
     try {
       this.abortController = new AbortController();
 
-      const response = await fetch(url, {
+      const response = await this.fetch(url, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify(requestBody),
-        signal: this.abortController.signal,
+        signal: signal
+          ? AbortSignal.any([this.abortController.signal, signal])
+          : this.abortController.signal,
       });
 
       if (!response.ok) {
@@ -342,7 +400,7 @@ export class GoogleAPITransport {
     try {
       const url = `${this.config.baseUrl}/v1beta/models/${this.config.model}:generateContent?key=${this.config.apiKey}`;
 
-      const response = await fetch(url, {
+      const response = await this.fetch(url, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -387,7 +445,7 @@ export class GoogleAPITransport {
     try {
       const url = `${this.config.baseUrl}/v1beta/models/${this.config.model}?key=${this.config.apiKey}`;
 
-      const response = await fetch(url, {
+      const response = await this.fetch(url, {
         method: 'GET',
         headers: {
           'Content-Type': 'application/json',
@@ -8,6 +8,8 @@
 
 import { Message } from '../types/message-types.js';
 import { MESSAGE_ROLES } from '../constants/message-constants.js';
+import { FetchFunction, GenerationOptions } from '../types/transport-types.js';
+import { getProviderFetch } from './provider-cassette.js';
 
 /**
  * OpenAI API transport configuration
@@ -19,6 +21,7 @@ export interface OpenAITransportConfig {
   timeout?: number;
   maxRetries?: number;
   organization?: string;
+  fetch?: FetchFunction; // defaults to the global fetch, or the cassette when one is active
 }
 
 /**
@@ -38,6 +41,13 @@ export class OpenAIAPITransport {
     };
   }
 
+  /**
+   * Issue an HTTP request through the configured fetch
+   */
+  private fetch(url: string, init: RequestInit): Promise<Response> {
+    return (this.config.fetch ?? getProviderFetch())(url, init);
+  }
+
   /**
    * Send messages to OpenAI-compatible API
    */
@@ -47,10 +57,9 @@ export class OpenAIAPITransport {
       tools?: unknown[];
       systemPrompt?: string;
       stream?: boolean;
-      temperature?: number;
-      maxTokens?: number;
-      toolChoice?: 'auto' | 'none' | { type: 'function'; function: { name: string } };
-    } = {}
+      // Aborting this signal cancels the request (e.g. the client cancelled the turn)
+      signal?: AbortSignal;
+    } & GenerationOptions = {}
   ): Promise<unknown> {
     console.log('🌐 [OpenAITransport] send() called');
     console.log('  - Base URL:', this.config.baseUrl);
@@ -72,7 +81,10 @@ export class OpenAIAPITransport {
     // Add tools
     if (options.tools && options.tools.length > 0) {
       requestParams.tools = options.tools;
-      requestParams.tool_choice = options.toolChoice || 'auto';
+      requestParams.tool_choice =
+        typeof options.toolChoice === 'object'
+          ? { type: 'function', function: { name: options.toolChoice.name } }
+          : options.toolChoice || 'auto';
     }
 
     // Add temperature - some models only support default temperature of 1
@@ -106,19 +118,42 @@ export class OpenAIAPITransport {
       }
     }
 
+    // Add the other sampling parameters and the response format
+    if (options.topP !== undefined) {
+      requestParams.top_p = options.topP;
+    }
+    if (options.stop && options.stop.length > 0) {
+      requestParams.stop = options.stop;
+    }
+    if (options.seed !== undefined) {
+      requestParams.seed = options.seed;
+    }
+    if (options.responseFormat?.type === 'json_schema') {
+      const { name, schema, strict } = options.responseFormat;
+      requestParams.response_format = {
+        type: 'json_schema',
+        json_schema: { name: name ?? 'response', schema, ...(strict !== undefined && { strict }) },
+      };
+    } else if (options.responseFormat) {
+      requestParams.response_format = { type: options.responseFormat.type };
+    }
+
     // Handle streaming vs non-streaming
     if (options.stream) {
       requestParams.stream = true;
-      return await this.sendStreaming(requestParams);
+      return await this.sendStreaming(requestParams, options.signal);
     } else {
-      return await this.sendNonStreaming(requestParams);
+      return await this.sendNonStreaming(requestParams, options.signal);
     }
   }
 
   /**
    * Send non-streaming request using direct HTTP
    */
-  private async sendNonStreaming(requestParams: Record<string, unknown>): Promise<unknown> {
+  private async sendNonStreaming(
+    requestParams: Record<string, unknown>,
+    signal?: AbortSignal
+  ): Promise<unknown> {
     const url = `${this.config.baseUrl}/chat/completions`;
     console.log('📨 [OpenAITransport] Sending non-streaming request');
     console.log('  - URL:', url);
@@ -133,11 +168,13 @@ export class OpenAIAPITransport {
         const headers = this.buildHeaders();
         console.log('  - Headers:', JSON.stringify(headers, null, 2));
 
-        const response = await fetch(url, {
+        const response = await this.fetch(url, {
           method: 'POST',
           headers: headers,
           body: JSON.stringify(requestParams),
-          signal: this.abortController.signal,
+          signal: signal
+            ? AbortSignal.any([this.abortController.signal, signal])
+            : this.abortController.signal,
         });
 
         clearTimeout(timeoutId);
@@ -161,6 +198,10 @@ export class OpenAIAPITransport {
           raw: data,
         };
       } catch (error: unknown) {
+        // A cancelled request must not be retried
+        if (signal?.aborted) {
+          throw new Error('OpenAI API request cancelled');
+        }
         console.error(
           `⚠️ [OpenAITransport] Request failed (attempt ${retries + 1}/${this.config.maxRetries! + 1})`
         );
@@ -185,17 +226,22 @@ export class OpenAIAPITransport {
   /**
    * Send streaming request using direct HTTP with Server-Sent Events
    */
-  private async sendStreaming(requestParams: Record<string, unknown>): Promise<unknown> {
+  private async sendStreaming(
+    requestParams: Record<string, unknown>,
+    signal?: AbortSignal
+  ): Promise<unknown> {
     const url = `${this.config.baseUrl}/chat/completions`;
 
     try {
       this.abortController = new AbortController();
 
-      const response = await fetch(url, {
+      const response = await this.fetch(url, {
         method: 'POST',
         headers: this.buildHeaders(),
         body: JSON.stringify(requestParams),
-        signal: this.abortController.signal,
+        signal: signal
+          ? AbortSignal.any([this.abortController.signal, signal])
+          : this.abortController.signal,
       });
 
       if (!response.ok) {
@@ -425,7 +471,7 @@ export class OpenAIAPITransport {
         requestBody.max_tokens = 10;
       }
 
-      const response = await fetch(url, {
+      const response = await this.fetch(url, {
         method: 'POST',
         headers: this.buildHeaders(),
         body: JSON.stringify(requestBody),
@@ -0,0 +1,226 @@
+/**
+ * Provider HTTP cassettes
+ *
+ * Records the HTTP traffic between the transports and the provider APIs into a
+ * cassette file, and serves it back later with no network. Set PROVIDER_CASSETTE to
+ * the cassette path and PROVIDER_CASSETTE_MODE to `record` or `replay`.
+ *
+ * Streamed responses keep their chunks, so replays go through the same parsing as
+ * the original run. Secrets are redacted before anything is written: API keys in
+ * URLs and bodies, and the values of *_API_KEY, *_SECRET, *_TOKEN and *_PASSWORD
+ * environment variables wherever they appear. Request headers are not recorded.
+ * Requests are matched on method, URL and body, with bodies normalised by sorting
+ * JSON keys, so formatting and key order don't matter.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { FetchFunction } from '../types/transport-types.js';
+
+export const CASSETTE_MODES = ['off', 'record', 'replay'] as const;
+export type CassetteMode = (typeof CASSETTE_MODES)[number];
+
+export interface CassetteInteraction {
+  request: {
+    method: string;
+    url: string;
+    body: string; // normalised and redacted
+  };
+  response: {
+    status: number;
+    headers: Record<string, string>;
+    chunks: string[]; // the body as it arrived; a single chunk for most plain responses
+  };
+}
+
+export interface Cassette {
+  version: 1;
+  interactions: CassetteInteraction[];
+}
+
+const REDACTED = '[REDACTED]';
+const SECRET_FIELD =
+  /^(key|api[_-]?key|x-api-key|x-goog-api-key|authorization|access[_-]?token|refresh[_-]?token|client[_-]?secret|secret|password)$/i;
+const SECRET_ENV_VAR = /(_API_KEY|_SECRET|_TOKEN|_PASSWORD)$/;
+const RECORDED_RESPONSE_HEADERS = ['content-type'];
+
+/**
+ * Replace the values of secret environment variables wherever they appear
+ */
+export function redactSecrets(text: string): string {
+  const secrets = Object.entries(process.env)
+    .filter(([name, value]) => SECRET_ENV_VAR.test(name) && value && value.length >= 8)
+    .map(([, value]) => value as string);
+
+  return secrets.reduce((redacted, secret) => redacted.split(secret).join(REDACTED), text);
+}
+
+/**
+ * URL with secret query parameters (e.g. Google's ?key=) redacted
+ */
+export function redactUrl(url: string): string {
+  const parsed = new URL(url);
+  for (const name of [...parsed.searchParams.keys()]) {
+    if (SECRET_FIELD.test(name)) {
+      parsed.searchParams.set(name, REDACTED);
+    }
+  }
+  return redactSecrets(parsed.toString());
+}
+
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(canonicalize);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [
+          key,
+          SECRET_FIELD.test(key) ? REDACTED : canonicalize((value as Record<string, unknown>)[key]),
+        ])
+    );
+  }
+  return value;
+}
+
+/**
+ * Request body in the form it is stored and matched in: JSON with sorted keys, secrets redacted
+ */
+export function normalizeRequestBody(body: RequestInit['body']): string {
+  if (body === undefined || body === null) {
+    return '';
+  }
+  const text = typeof body === 'string' ? body : JSON.stringify(body);
+  try {
+    return redactSecrets(JSON.stringify(canonicalize(JSON.parse(text))));
+  } catch {
+    return redactSecrets(text);
+  }
+}
+
+function describeRequest(url: string, init: RequestInit): CassetteInteraction['request'] {
+  return {
+    method: (init.method || 'GET').toUpperCase(),
+    url: redactUrl(url),
+    body: normalizeRequestBody(init.body),
+  };
+}
+
+async function readChunks(body: ReadableStream<Uint8Array>): Promise<string[]> {
+  const chunks: string[] = [];
+  const decoder = new TextDecoder();
+  const reader = body.getReader();
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(decoder.decode(value, { stream: true }));
+  }
+  const rest = decoder.decode();
+  if (rest) {
+    chunks.push(rest);
+  }
+  return chunks;
+}
+
+function toResponse(recorded: CassetteInteraction['response']): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of recorded.chunks) {
+        controller.enqueue(encoder.encode(chunk));
+      }
+      controller.close();
+    },
+  });
+  return new Response(body, { status: recorded.status, headers: recorded.headers });
+}
+
+/**
+ * A fetch that records into, or replays from, the cassette at cassettePath.
+ * Recording starts a new cassette and waits for each full response before
+ * passing it on; replaying serves each recorded interaction once, in order.
+ */
+export function createCassetteFetch(options: {
+  mode: Exclude<CassetteMode, 'off'>;
+  cassettePath: string;
+  fetch?: FetchFunction;
+}): FetchFunction {
+  const cassettePath = path.resolve(options.cassettePath);
+
+  if (options.mode === 'replay') {
+    const cassette = JSON.parse(fs.readFileSync(cassettePath, 'utf-8')) as Cassette;
+    const used = new Set<number>();
+
+    return (url, init) => {
+      const request = describeRequest(url, init);
+      const index = cassette.interactions.findIndex(
+        (interaction, i) =>
+          !used.has(i) &&
+          interaction.request.method === request.method &&
+          interaction.request.url === request.url &&
+          interaction.request.body === request.body
+      );
+      if (index === -1) {
+        return Promise.reject(
+          new Error(
+            `No recorded response in ${cassettePath} for ${request.method} ${request.url} with this body`
+          )
+        );
+      }
+      used.add(index);
+      return Promise.resolve(toResponse(cassette.interactions[index].response));
+    };
+  }
+
+  const realFetch = options.fetch ?? ((url, init) => fetch(url, init));
+  const cassette: Cassette = { version: 1, interactions: [] };
+
+  return async (url, init) => {
+    const response = await realFetch(url, init);
+    const recorded: CassetteInteraction['response'] = {
+      status: response.status,
+      headers: Object.fromEntries(
+        RECORDED_RESPONSE_HEADERS.flatMap((name) => {
+          const value = response.headers.get(name);
+          return value ? [[name, value]] : [];
+        })
+      ),
+      chunks: response.body ? (await readChunks(response.body)).map(redactSecrets) : [],
+    };
+
+    cassette.interactions.push({ request: describeRequest(url, init), response: recorded });
+    fs.mkdirSync(path.dirname(cassettePath), { recursive: true });
+    fs.writeFileSync(cassettePath, JSON.stringify(cassette, null, 2));
+
+    return toResponse(recorded);
+  };
+}
+
+let activeCassette: { key: string; fetch: FetchFunction } | undefined;
+
+/**
+ * The fetch the transports use by default: the cassette selected by
+ * PROVIDER_CASSETTE_MODE and PROVIDER_CASSETTE, or the global fetch
+ */
+export function getProviderFetch(): FetchFunction {
+  const mode = (process.env.PROVIDER_CASSETTE_MODE || 'off') as CassetteMode;
+  const cassettePath = process.env.PROVIDER_CASSETTE;
+
+  if (!CASSETTE_MODES.includes(mode)) {
+    throw new Error(
+      `Invalid PROVIDER_CASSETTE_MODE '${mode}'; expected one of ${CASSETTE_MODES.join(', ')}`
+    );
+  }
+  if (mode === 'off' || !cassettePath) {
+    return (url, init) => fetch(url, init);
+  }
+
+  const key = `${mode}:${cassettePath}`;
+  if (activeCassette?.key !== key) {
+    activeCassette = { key, fetch: createCassetteFetch({ mode, cassettePath }) };
+  }
+  return activeCassette.fetch;
+}
@@ -6,6 +6,7 @@ export { Message, MessagePart, ContentBlock } from './message-types.js';
 
 // Import Message type for use in interfaces below
 import type { Message } from './message-types.js';
+import type { ToolApprovalHandler, ToolApprovalPolicy } from '../tools/tool-approval.js';
 
 export interface ToolCall {
   id?: string;
@@ -24,11 +25,38 @@ export interface UserRequest {
   chat_messages: Message[];
   user_input: string;
   fileId?: string;
+  conversation_id?: string;
+  // Overrides the agent's generation settings for this request, within its generation_limits
+  generation?: GenerationSettings;
+}
+
+// Control frames a client can send on an agent WebSocket instead of a UserRequest
+export type ClientControlMessage = CancelTurnMessage | ToolApprovalReply | ListCommandsMessage;
+
+export interface CancelTurnMessage {
+  type: 'cancel';
+}
+
+// Asks for a slash_commands frame listing the prompts of the agent's MCP servers
+export interface ListCommandsMessage {
+  type: 'list_commands';
+}
+
+// The user's answer to a tool_approval_request frame
+export interface ToolApprovalReply {
+  type: 'tool_approval';
+  approval_id: string;
+  approved: boolean;
+  reason?: string;
 }
 
 // Agent configuration matching agents.json structure
 export interface AgentConfig {
   agent_name: string;
+  /** Agent to inherit configuration from; see config/agent-inheritance.ts for the merge rules */
+  extends?: string;
+  /** Only a base for other agents: may be incomplete and can't be connected to */
+  template?: boolean;
   service_provider: ServiceProviderType;
   model_name: string;
   description: string;
@@ -37,6 +65,73 @@ export interface AgentConfig {
   available_functions?: string[];
   custom_settings?: Record<string, unknown>;
   mcp_servers?: string[];
+  /** Providers to retry a turn on, in order, when the primary fails with a transient error */
+  fallbacks?: ProviderFallback[];
+  /** How the history is trimmed when it outgrows the model's context window */
+  context_management?: ContextManagementConfig;
+  /** Approval policy per tool name; overrides the tool's own policy */
+  tool_policies?: Record<string, ToolApprovalPolicy>;
+  /** How many tool calls from one response may run at once (default TOOL_CONCURRENCY or 4) */
+  tool_concurrency?: number;
+  /** Malformed tool calls in a row answered with a correction (default TOOL_CALL_RETRIES or 2) */
+  tool_call_retries?: number;
+  /** Rounds of tool calls one request may make (default MAX_TOOL_ITERATIONS or 25) */
+  max_tool_iterations?: number;
+  /** MCP resources read into the system prompt; see services/mcp-resource-context.ts */
+  mcp_resources?: MCPResourceRef[];
+  /** Model parameters sent with every completion; see services/generation-settings.ts */
+  generation?: GenerationSettings;
+  /** What a request may change of the generation settings */
+  generation_limits?: GenerationLimits;
+  /** JSON schema of the object the agent answers with; see services/structured-output.ts */
+  response_schema?: Record<string, unknown>;
+}
+
+export type GenerationToolChoice = 'auto' | 'none' | 'required' | { name: string };
+
+export type GenerationResponseFormat =
+  | { type: 'text' }
+  | { type: 'json_object' }
+  | { type: 'json_schema'; name?: string; schema: Record<string, unknown>; strict?: boolean };
+
+export interface GenerationSettings {
+  temperature?: number; // default DEFAULT_TEMPERATURE or 0.7
+  top_p?: number;
+  max_tokens?: number; // default: the provider's output limit
+  stop?: string[];
+  seed?: number; // ignored by Anthropic, which has no seed
+  tool_choice?: GenerationToolChoice; // a forced choice applies to the first round of tool calls
+  response_format?: GenerationResponseFormat;
+}
+
+export type GenerationSettingName = keyof GenerationSettings;
+
+export interface GenerationLimits {
+  overridable?: GenerationSettingName[]; // settings a request may set; default all but tool_choice and response_format
+  max_tokens?: number; // requests asking for more get this many; default the agent's max_tokens
+  min_temperature?: number;
+  max_temperature?: number;
+}
+
+export interface MCPResourceRef {
+  server: string;
+  /** A resource URI, or a URI template filled from arguments, agent_name and conversation_id */
+  uri: string;
+  arguments?: Record<string, string>;
+}
+
+export interface ProviderFallback {
+  service_provider: ServiceProviderType;
+  model_name: string;
+}
+
+export type ContextStrategy = 'sliding_window' | 'drop_tool_results' | 'summarize';
+
+export interface ContextManagementConfig {
+  strategy?: ContextStrategy; // default sliding_window
+  context_window?: number; // overrides the model's known window size
+  reserve_output_tokens?: number; // tokens kept free for the reply
+  keep_recent_turns?: number; // most recent turns that are never trimmed (default 2)
 }
 
 export type AgentConfigCollection = Record<string, AgentConfig>;
@@ -48,6 +143,10 @@ export interface ServiceProvider {
   model_name: string;
   tool_registry?: Record<string, unknown>;
   usage_info: UsageInfo;
+  conversation_id?: string;
+  // agents.json key the provider was created for; its conversations are stored under it
+  agent_key?: string;
+  delegation_chain?: string[];
 
   makeApiCall(
     messages: Message[],
@@ -59,6 +158,12 @@ export interface ServiceProvider {
   transformToolRegistry(): unknown;
   logConversationMemory(messages: Message[]): string | null;
   setToolRegistryAdapter?(adapter: unknown): void;
+  setAbortSignal?(signal?: AbortSignal): void;
+  setMaxTokens?(maxTokens?: number): void;
+  setGeneration?(settings?: GenerationSettings): void;
+  setToolApprovalHandler?(handler?: ToolApprovalHandler): void;
+  resetTurnUsage?(): void;
+  getTurnUsage?(): TurnUsage;
 }
 
 // Tool registry types
@@ -87,3 +192,16 @@ export interface UsageInfo {
   cache_creation_input_tokens?: number;
   cache_read_input_tokens?: number;
 }
+
+// Usage summed over every API call made while answering one user request
+export interface TurnUsage {
+  calls: number;
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_input_tokens: number;
+  cache_read_input_tokens: number;
+  total_tokens: number;
+  latency_ms: number;
+  cost: number | null; // null when none of the calls had a price
+  currency: string;
+}
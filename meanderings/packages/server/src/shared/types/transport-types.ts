@@ -4,6 +4,27 @@
  * Type definitions for transport layer responses
  */
 
+import type { GenerationResponseFormat } from './index.js';
+
+/**
+ * The subset of fetch the transports use; replaceable so requests can be served offline
+ */
+export type FetchFunction = (url: string, init: RequestInit) => Promise<Response>;
+
+/**
+ * Model parameters a transport maps to its API; see services/generation-settings.ts
+ */
+export interface GenerationOptions {
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+  stop?: string[];
+  seed?: number;
+  // required forces a call to some tool, a name a call to that tool
+  toolChoice?: 'auto' | 'none' | 'required' | { name: string };
+  responseFormat?: GenerationResponseFormat;
+}
+
 /**
  * Base transport result
  */
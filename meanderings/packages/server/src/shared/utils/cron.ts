@@ -0,0 +1,146 @@
+/**
+ * Cron schedules
+ *
+ * Parses standard five-field cron expressions (minute hour day-of-month month day-of-week)
+ * and finds the next time one fires, in the server's local time. Each field accepts `*`,
+ * numbers, ranges (`1-5`), steps on either (`0-30/10`) and comma-separated lists.
+ * Day of week runs 0-6 from Sunday; 7 is also Sunday. As in standard cron, when neither day
+ * field starts with `*` a day matches if either one does.
+ */
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 },
+];
+
+// Enough steps to reach a 29 February up to eight years away (e.g. "0 0 29 2 *")
+const MAX_SEARCH_STEPS = 8 * 366 * 24 * 60;
+
+function parseNumber(value: string, field: (typeof FIELDS)[number]): number {
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`Invalid ${field.name} '${value}'`);
+  }
+  const number = parseInt(value, 10);
+  if (number < field.min || number > field.max) {
+    throw new Error(`${field.name} ${number} is outside ${field.min}-${field.max}`);
+  }
+  return number;
+}
+
+function parseField(text: string, field: (typeof FIELDS)[number]): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of text.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : parseInt(stepText, 10);
+    if (stepText !== undefined && (!/^\d+$/.test(stepText) || step < 1)) {
+      throw new Error(`Invalid step '${stepText}' in ${field.name}`);
+    }
+
+    let start = field.min;
+    let end = field.max;
+    if (range !== '*') {
+      const [from, to] = range.split('-');
+      start = parseNumber(from, field);
+      end =
+        to === undefined ? (stepText === undefined ? start : field.max) : parseNumber(to, field);
+      if (end < start) {
+        throw new Error(`Invalid range '${range}' in ${field.name}`);
+      }
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+/**
+ * Parse a cron expression; throws with the offending field when it is invalid
+ */
+export function parseCron(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== FIELDS.length) {
+    throw new Error(
+      `Cron expression '${expression}' must have 5 fields (minute hour day-of-month month day-of-week)`
+    );
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((text, index) =>
+    parseField(text, FIELDS[index])
+  );
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    expression,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2].startsWith('*'),
+    anyDayOfWeek: fields[4].startsWith('*'),
+  };
+}
+
+export function isValidCron(expression: string): boolean {
+  try {
+    parseCron(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getDay());
+
+  if (schedule.anyDayOfMonth || schedule.anyDayOfWeek) {
+    return dayOfMonth && dayOfWeek;
+  }
+  return dayOfMonth || dayOfWeek;
+}
+
+/**
+ * The first time after `after` (to the minute) that the schedule fires, or null if it never does
+ */
+export function nextCronTime(schedule: CronSchedule, after: Date = new Date()): Date | null {
+  const candidate = new Date(after);
+  candidate.setSeconds(0, 0);
+  candidate.setMinutes(candidate.getMinutes() + 1);
+
+  for (let searched = 0; searched < MAX_SEARCH_STEPS; searched++) {
+    if (!schedule.months.has(candidate.getMonth() + 1) || !matchesDay(schedule, candidate)) {
+      candidate.setDate(candidate.getDate() + 1);
+      candidate.setHours(0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(candidate.getHours())) {
+      candidate.setHours(candidate.getHours() + 1, 0);
+      continue;
+    }
+    if (schedule.minutes.has(candidate.getMinutes())) {
+      return candidate;
+    }
+    candidate.setMinutes(candidate.getMinutes() + 1);
+  }
+  return null;
+}
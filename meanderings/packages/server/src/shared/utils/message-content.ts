@@ -0,0 +1,61 @@
+/**
+ * Reading results out of a finished turn's messages, whichever provider format they use
+ */
+
+import type { Message } from '../types/index.js';
+
+export interface ToolCallSummary {
+  name: string;
+  arguments: unknown;
+}
+
+/**
+ * Tool calls from any provider's message format
+ */
+export function extractToolCalls(messages: Message[]): ToolCallSummary[] {
+  const calls: ToolCallSummary[] = [];
+
+  for (const message of messages) {
+    for (const call of message.tool_calls ?? []) {
+      if (call.function) {
+        let args: unknown = call.function.arguments;
+        try {
+          args = JSON.parse(call.function.arguments || '{}');
+        } catch {
+          // Keep the raw string the model produced
+        }
+        calls.push({ name: call.function.name, arguments: args });
+      } else if (call.name) {
+        calls.push({ name: call.name, arguments: call.input ?? call.args ?? {} });
+      }
+    }
+    if (Array.isArray(message.content)) {
+      for (const block of message.content) {
+        if (block.type === 'tool_use' && block.name) {
+          calls.push({ name: block.name, arguments: block.input ?? {} });
+        }
+      }
+    }
+    for (const part of message.parts ?? []) {
+      const functionCall = part.functionCall as { name?: string; args?: unknown } | undefined;
+      if (functionCall?.name) {
+        calls.push({ name: functionCall.name, arguments: functionCall.args ?? {} });
+      }
+    }
+  }
+  return calls;
+}
+
+export function lastMessageText(messages: Message[]): string {
+  const last = messages[messages.length - 1];
+  if (typeof last?.content === 'string') {
+    return last.content;
+  }
+  if (Array.isArray(last?.content)) {
+    return last.content
+      .map((block) => block.text)
+      .filter((text) => typeof text === 'string')
+      .join('');
+  }
+  return (last?.parts ?? []).map((part) => part.text ?? '').join('');
+}
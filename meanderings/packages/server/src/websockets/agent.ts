@@ -1,12 +1,37 @@
 import { WebSocket } from 'ws';
-import { Message, UserRequest, ContentBlock, MessagePart } from '../shared/types/index.js';
-import { AgentConfigManager } from '../shared/config/agent-config.js';
+import { randomUUID } from 'crypto';
+import {
+  Message,
+  UserRequest,
+  ContentBlock,
+  MessagePart,
+  ClientControlMessage,
+  AgentConfig,
+} from '../shared/types/index.js';
+import { AgentConfigManager, AgentConfigChange } from '../shared/config/agent-config.js';
 import { ServiceFactory } from '../shared/services/service-factory.js';
+import { ContextManager } from '../shared/services/context-manager.js';
+import { ToolApprovalBroker } from '../shared/tools/tool-approval.js';
+import { ConversationStore, isValidConversationId } from '../shared/services/conversation-store.js';
+import { MCPResourceContext } from '../shared/services/mcp-resource-context.js';
+import { resolveGenerationSettings } from '../shared/services/generation-settings.js';
+import {
+  SlashCommand,
+  expandPromptCommand,
+  findSlashCommand,
+  listPromptCommands,
+} from '../shared/services/mcp-prompt-commands.js';
+import { ProviderMessageAdapter } from '../shared/adapters/provider-message-adapter.js';
 import { MESSAGE_ROLES } from '../shared/constants/message-constants.js';
 import winston from 'winston';
 
 export class AgentWebSocketHandler {
-  static handleConnection(logger: winston.Logger, ws: WebSocket, agentType: string): void {
+  static handleConnection(
+    logger: winston.Logger,
+    ws: WebSocket,
+    agentType: string,
+    conversationId?: string
+  ): void {
     logger.info(`WebSocket connection for agent type '${agentType}' opened.`);
 
     try {
@@ -28,61 +53,344 @@ export class AgentWebSocketHandler {
       }
 
       // Get agent configuration
-      const agentConfig = configManager.getAgentConfig(agentType);
-      if (!agentConfig) {
+      const initialConfig = configManager.getAgentConfig(agentType);
+      if (!initialConfig) {
         ws.send(JSON.stringify({ error: `Agent configuration not found: ${agentType}` }));
         ws.close();
         return;
       }
+      let agentConfig = initialConfig;
 
       // Create service provider directly using ServiceFactory
-      const serviceProvider = ServiceFactory.createServiceProvider(agentConfig);
+      let serviceProvider = ServiceFactory.createServiceProvider(agentConfig);
+      serviceProvider.agent_key = agentType;
+      let contextManager = AgentWebSocketHandler.createContextManager(agentConfig, serviceProvider);
+
+      // The agent's MCP resources join its system prompt before the first turn
+      const mcpManager = ServiceFactory.getMCPClientManager();
+      let resourceContext = new MCPResourceContext(
+        logger,
+        mcpManager,
+        agentConfig.mcp_resources ?? []
+      );
+
+      // One conversation id per connection: accept the client's (e.g. when resuming) or assign one
+      if (conversationId && !isValidConversationId(conversationId)) {
+        logger.warn(`Ignoring invalid conversation id '${conversationId}' for '${agentType}'`);
+        conversationId = undefined;
+      }
+      serviceProvider.conversation_id = conversationId || randomUUID();
+      logger.info(
+        `${conversationId ? 'Resuming' : 'Starting'} conversation '${serviceProvider.conversation_id}' for agent type '${agentType}'`
+      );
+      AgentWebSocketHandler.sendHandshake(ws, agentType, serviceProvider.conversation_id);
+
+      // Aborts the turn currently running on this connection, if any
+      let activeTurn: AbortController | null = null;
+
+      // Tool calls with a confirm policy are sent to the client, which answers with a
+      // tool_approval frame while the turn waits
+      const approvals = new ToolApprovalBroker((request) => {
+        if (ws.readyState === WebSocket.OPEN) {
+          ws.send(
+            JSON.stringify({
+              tool_approval_request: request,
+              conversation_id: serviceProvider.conversation_id,
+            })
+          );
+        }
+      });
+      const handleToolApprovals = () =>
+        serviceProvider.setToolApprovalHandler?.((call) =>
+          approvals.request(call, activeTurn?.signal)
+        );
+      handleToolApprovals();
+
+      // A new provider for the same conversation, with the agent's MCP resources read so far
+      const replaceProvider = (config: AgentConfig) => {
+        const withResources = resourceContext.apply(config);
+        const provider = ServiceFactory.createServiceProvider(withResources);
+        provider.agent_key = agentType;
+        provider.conversation_id = serviceProvider.conversation_id;
+        agentConfig = config;
+        serviceProvider = provider;
+        contextManager = AgentWebSocketHandler.createContextManager(withResources, provider);
+        handleToolApprovals();
+      };
+
+      // Prompts from the agent's MCP servers, offered to the client as slash-commands.
+      // The list is sent on connect when there is one, and whenever the client asks.
+      let slashCommands: SlashCommand[] = [];
+      const sendSlashCommands = async (always: boolean) => {
+        slashCommands = mcpManager
+          ? await listPromptCommands(mcpManager, agentConfig.mcp_servers ?? [])
+          : [];
+        if ((always || slashCommands.length > 0) && ws.readyState === WebSocket.OPEN) {
+          ws.send(
+            JSON.stringify({
+              slash_commands: slashCommands.map(({ command, description, arguments: args }) => ({
+                command,
+                description,
+                arguments: args,
+              })),
+              conversation_id: serviceProvider.conversation_id,
+            })
+          );
+        }
+      };
+      let slashCommandsLoaded = sendSlashCommands(false);
+
+      // Edits to this agent's configuration take effect between turns: the session gets a
+      // new provider for the same conversation, and the client an agent_config_updated frame.
+      // A removed agent keeps its last configuration until the connection closes.
+      let pendingConfigChange: AgentConfigChange | null = null;
+      const applyConfigChange = (change: AgentConfigChange) => {
+        if (change.config) {
+          // Changed resources are read before the next turn, which then gets another provider
+          if (change.changed_fields.includes('mcp_resources')) {
+            void resourceContext.close();
+            resourceContext = new MCPResourceContext(
+              logger,
+              mcpManager,
+              change.config.mcp_resources ?? []
+            );
+          }
+          try {
+            replaceProvider(change.config);
+          } catch (error) {
+            logger.error(
+              `Keeping the previous configuration for '${agentType}': the updated one failed to load`,
+              error
+            );
+            return;
+          }
+          if (change.changed_fields.includes('mcp_servers')) {
+            slashCommandsLoaded = sendSlashCommands(true);
+          }
+        }
+
+        logger.info(
+          `Agent '${agentType}' configuration ${change.config ? 'updated' : 'removed'} for conversation '${serviceProvider.conversation_id}' (${change.changed_fields.join(', ')})`
+        );
+        if (ws.readyState === WebSocket.OPEN) {
+          ws.send(
+            JSON.stringify({
+              agent_config_updated: {
+                agent_name: agentType,
+                changed_fields: change.changed_fields,
+                removed: change.config === null,
+              },
+              conversation_id: serviceProvider.conversation_id,
+            })
+          );
+        }
+      };
+      const stopWatchingConfig = configManager.onChange((change) => {
+        if (change.agent_name !== agentType) {
+          return;
+        }
+        if (!activeTurn) {
+          applyConfigChange(change);
+          return;
+        }
+        // Several edits during one turn are applied together once it ends
+        pendingConfigChange = {
+          ...change,
+          changed_fields: [
+            ...new Set([...(pendingConfigChange?.changed_fields ?? []), ...change.changed_fields]),
+          ],
+        };
+      });
 
       // Handle incoming messages
       ws.on('message', (data: Buffer) => {
         void (async () => {
           try {
             const message = data.toString();
-            logger.info(`Received Request: ${message} for agent type '${agentType}'`);
+            logger.info(
+              `Received Request: ${message} for agent type '${agentType}' (conversation '${serviceProvider.conversation_id}')`
+            );
 
-            let userRequest: UserRequest;
+            let payload: UserRequest | ClientControlMessage;
             try {
-              userRequest = JSON.parse(message) as UserRequest;
+              payload = JSON.parse(message) as UserRequest | ClientControlMessage;
             } catch (error) {
               logger.error('Invalid JSON payload:', error);
               ws.send(JSON.stringify({ error: 'Invalid request payload' }));
               return;
             }
 
+            if ('type' in payload && payload.type === 'cancel') {
+              if (activeTurn) {
+                logger.info(
+                  `Cancelling turn for agent type '${agentType}' (conversation '${serviceProvider.conversation_id}')`
+                );
+                activeTurn.abort();
+              } else {
+                logger.info(`Ignoring cancel for '${agentType}': no turn in progress`);
+              }
+              return;
+            }
+
+            if ('type' in payload && payload.type === 'tool_approval') {
+              const decision = { approved: payload.approved === true, reason: payload.reason };
+              if (!approvals.respond(payload.approval_id, decision)) {
+                logger.warn(
+                  `Ignoring tool approval for '${agentType}': no pending request '${payload.approval_id}'`
+                );
+              }
+              return;
+            }
+
+            if ('type' in payload && payload.type === 'list_commands') {
+              slashCommandsLoaded = sendSlashCommands(true);
+              await slashCommandsLoaded;
+              return;
+            }
+            const userRequest = payload as UserRequest;
+
+            // Generation overrides are checked before anything else about the request
+            const generation = resolveGenerationSettings(agentConfig, userRequest.generation);
+            if ('error' in generation) {
+              ws.send(JSON.stringify({ error: generation.error }));
+              return;
+            }
+
+            // A request may switch the connection to another conversation
+            if (
+              userRequest.conversation_id &&
+              userRequest.conversation_id !== serviceProvider.conversation_id
+            ) {
+              if (!isValidConversationId(userRequest.conversation_id)) {
+                ws.send(JSON.stringify({ error: 'Invalid conversation_id' }));
+                return;
+              }
+              logger.info(
+                `Switching '${agentType}' connection from conversation '${serviceProvider.conversation_id}' to '${userRequest.conversation_id}'`
+              );
+              serviceProvider.conversation_id = userRequest.conversation_id;
+              AgentWebSocketHandler.sendHandshake(ws, agentType, serviceProvider.conversation_id);
+            }
+
             // Handle file uploads
             if (userRequest.fileId) {
               // Set file path for processing (if needed by tools)
               process.env.CURRENT_FILE_PATH = `uploads/${userRequest.fileId}`;
             }
 
+            // When resuming without client-side history, continue from the stored conversation
+            let chatMessages = userRequest.chat_messages || [];
+            if (chatMessages.length === 0 && serviceProvider.conversation_id) {
+              const stored = ConversationStore.getInstance().get(serviceProvider.conversation_id);
+              if (stored) {
+                chatMessages = stored.messages;
+              }
+            }
+
+            // A slash-command is replaced by its MCP prompt's messages
+            let userInput = userRequest.user_input || '';
+            let promptHistory: Message[] = [];
+            if (mcpManager && userInput.trimStart().startsWith('/')) {
+              await slashCommandsLoaded;
+              const invoked = findSlashCommand(userInput, slashCommands);
+              if (invoked) {
+                try {
+                  const expanded = await expandPromptCommand(
+                    mcpManager,
+                    invoked.command,
+                    invoked.rest
+                  );
+                  userInput = expanded.userInput;
+                  promptHistory = new ProviderMessageAdapter({
+                    serviceProvider: agentConfig.service_provider,
+                  }).convertHistoryForProvider(expanded.history);
+                  logger.info(
+                    `Expanded ${invoked.command.command} for '${agentType}' (conversation '${serviceProvider.conversation_id}')`
+                  );
+                } catch (error) {
+                  const reason = error instanceof Error ? error.message : String(error);
+                  logger.warn(
+                    `Could not run ${invoked.command.command} for '${agentType}': ${reason}`
+                  );
+                  ws.send(JSON.stringify({ error: reason }));
+                  return;
+                }
+              }
+            }
+
+            // Read the agent's MCP resources before the first turn and after any of them change
+            const resourcesChanged = await resourceContext.refresh({
+              agent_name: agentType,
+              conversation_id: serviceProvider.conversation_id,
+            });
+            if (resourcesChanged) {
+              replaceProvider(agentConfig);
+            }
+
             // Filter and clean messages
-            const filteredMessages = AgentWebSocketHandler.filterMessages(
-              userRequest.chat_messages || []
-            );
+            const filteredMessages = [
+              ...AgentWebSocketHandler.filterMessages(chatMessages),
+              ...promptHistory,
+            ];
+
+            const turn = new AbortController();
+            activeTurn = turn;
+            serviceProvider.setAbortSignal?.(turn.signal);
+            serviceProvider.resetTurnUsage?.();
+            serviceProvider.setGeneration?.(generation.settings);
 
             try {
+              const context = await contextManager.fitToWindow(
+                filteredMessages,
+                userInput,
+                turn.signal
+              );
+              if (context.messages !== filteredMessages) {
+                logger.info(
+                  `Fitted context for '${agentType}' to ~${context.estimated_tokens}/${context.budget_tokens} tokens (${contextManager.getStrategy()}: ${context.dropped_turns} turns dropped, ${context.summarized_turns} summarised, ${context.dropped_tool_results} tool results dropped)`
+                );
+              }
+
               // Process the request and send the response
               const result = await serviceProvider.makeApiCall(
-                filteredMessages,
-                userRequest.user_input || '',
+                context.messages,
+                userInput,
                 ws,
                 agentConfig.do_stream
               );
 
-              logger.info(`Response sent for agent type '${agentType}'`);
+              logger.info(
+                `Response sent for agent type '${agentType}' (conversation '${serviceProvider.conversation_id}')`
+              );
 
               // Log conversation memory using complete API conversation history
               // This includes all tool calls and function responses that occurred during the API call
               // Type guard for result
               if (result && typeof result === 'object' && 'completeMessages' in result) {
-                serviceProvider.logConversationMemory(result.completeMessages as Message[]);
+                // Store the full history, not the trimmed one the model saw
+                const completeMessages = result.completeMessages as Message[];
+                serviceProvider.logConversationMemory([
+                  ...filteredMessages,
+                  ...completeMessages.slice(context.messages.length),
+                ]);
               }
             } catch (error: unknown) {
+              if (turn.signal.aborted) {
+                logger.info(
+                  `Turn cancelled for agent type '${agentType}' (conversation '${serviceProvider.conversation_id}')`
+                );
+                if (ws.readyState === WebSocket.OPEN) {
+                  ws.send(
+                    JSON.stringify({
+                      cancelled: true,
+                      conversation_id: serviceProvider.conversation_id,
+                    })
+                  );
+                  ws.send(JSON.stringify({ done: true }));
+                }
+                return;
+              }
+
               logger.error('Agent makeApiCall failed:', error);
 
               // Translate common errors to user-friendly messages
@@ -101,6 +409,25 @@ export class AgentWebSocketHandler {
               } catch (sendError) {
                 logger.error('Failed to send error message:', sendError);
               }
+            } finally {
+              // Tokens are spent even when the turn fails or is cancelled, so always report them
+              const usage = serviceProvider.getTurnUsage?.();
+              if (usage && usage.calls > 0 && ws.readyState === WebSocket.OPEN) {
+                ws.send(
+                  JSON.stringify({ usage, conversation_id: serviceProvider.conversation_id })
+                );
+              }
+
+              if (activeTurn === turn) {
+                activeTurn = null;
+                serviceProvider.setAbortSignal?.(undefined);
+
+                if (pendingConfigChange) {
+                  const change = pendingConfigChange;
+                  pendingConfigChange = null;
+                  applyConfigChange(change);
+                }
+              }
             }
           } catch (error) {
             logger.error('Error processing WebSocket message:', error);
@@ -110,7 +437,14 @@ export class AgentWebSocketHandler {
       });
 
       ws.on('close', () => {
-        logger.info(`WebSocket connection for agent type '${agentType}' has been disconnected.`);
+        // Nobody is left to read the answer, so stop spending tokens and tool time on it
+        activeTurn?.abort();
+        approvals.denyAll('Connection closed');
+        stopWatchingConfig();
+        void resourceContext.close();
+        logger.info(
+          `WebSocket connection for agent type '${agentType}' (conversation '${serviceProvider.conversation_id}') has been disconnected.`
+        );
       });
 
       ws.on('error', (error: Error) => {
@@ -123,7 +457,54 @@ export class AgentWebSocketHandler {
     }
   }
 
-  private static filterMessages(messages: Message[]): Message[] {
+  /**
+   * Keeps each turn's history inside the model's context window; summaries use the
+   * agent's own provider and model, without tools
+   */
+  static createContextManager(
+    agentConfig: AgentConfig,
+    serviceProvider: ReturnType<typeof ServiceFactory.createServiceProvider>
+  ): ContextManager {
+    return new ContextManager({
+      agentConfig,
+      toolRegistry: serviceProvider.tool_registry,
+      createSummarizer: (systemPrompt) =>
+        ServiceFactory.createServiceProvider(
+          {
+            ...agentConfig,
+            system_prompt: systemPrompt,
+            do_stream: false,
+            // Summaries are free text, not in the agent's answer format
+            generation: {
+              ...agentConfig.generation,
+              stop: undefined,
+              tool_choice: undefined,
+              response_format: undefined,
+            },
+            response_schema: undefined,
+          },
+          {}
+        ),
+    });
+  }
+
+  /**
+   * Tell the client which conversation this connection is writing to.
+   * Uses the status message shape so existing clients parse it without error.
+   */
+  private static sendHandshake(ws: WebSocket, agentType: string, conversationId: string): void {
+    ws.send(
+      JSON.stringify({
+        messageType: 'status',
+        connection: 'ai',
+        status: 'connected',
+        agent_name: agentType,
+        conversation_id: conversationId,
+      })
+    );
+  }
+
+  static filterMessages(messages: Message[]): Message[] {
     const filtered: Message[] = [];
 
     // Track tool_use IDs to ensure proper pairing with tool_result blocks
@@ -337,7 +718,7 @@ export class AgentWebSocketHandler {
     return filtered;
   }
 
-  private static translateError(error: unknown, serviceProvider: string): string {
+  static translateError(error: unknown, serviceProvider: string): string {
     let errorMsg = 'Unknown error';
 
     if (error instanceof Error) {
@@ -0,0 +1,122 @@
+/**
+ * Minimal STDIO MCP server for tests. It offers one echo tool per name in
+ * ECHO_TOOLS (default "say"); each returns its `text` argument. A tool named
+ * "sample" instead asks the client to sample a reply to the text, with the
+ * model hint in SAMPLING_HINT, and returns the reply and the model that wrote it.
+ *
+ * It also serves notes://<name> resources, which all read the text last passed to a
+ * tool named "note" (subscribers hear when it changes), and two prompts: "greet"
+ * with one argument and "review", which ends a short exchange with the user's turn.
+ */
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import {
+  CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+
+const toolNames = (process.env.ECHO_TOOLS || 'say').split(',');
+let note = 'Nothing yet';
+const subscribed = new Set<string>();
+
+const server = new Server(
+  { name: 'echo', version: '1.0.0' },
+  { capabilities: { tools: {}, resources: { subscribe: true }, prompts: {} } }
+);
+
+server.setRequestHandler(ReadResourceRequestSchema, (request) => ({
+  contents: [{ uri: request.params.uri, mimeType: 'text/plain', text: note }],
+}));
+
+server.setRequestHandler(SubscribeRequestSchema, (request) => {
+  subscribed.add(request.params.uri);
+  return {};
+});
+
+server.setRequestHandler(UnsubscribeRequestSchema, (request) => {
+  subscribed.delete(request.params.uri);
+  return {};
+});
+
+server.setRequestHandler(ListPromptsRequestSchema, () => ({
+  prompts: [
+    {
+      name: 'greet',
+      description: 'Greet someone',
+      arguments: [{ name: 'name', required: true }],
+    },
+    {
+      name: 'review',
+      description: 'Review some code',
+      arguments: [{ name: 'code', required: true }, { name: 'language' }],
+    },
+  ],
+}));
+
+server.setRequestHandler(GetPromptRequestSchema, (request) => {
+  const args = request.params.arguments ?? {};
+  if (request.params.name === 'greet') {
+    return {
+      messages: [{ role: 'user', content: { type: 'text', text: `Say hello to ${args.name}` } }],
+    };
+  }
+  return {
+    messages: [
+      { role: 'user', content: { type: 'text', text: 'Please review my code.' } },
+      { role: 'assistant', content: { type: 'text', text: 'Send it over.' } },
+      {
+        role: 'user',
+        content: { type: 'text', text: `${args.language ?? 'Some'} code: ${args.code}` },
+      },
+    ],
+  };
+});
+
+server.setRequestHandler(ListToolsRequestSchema, () => ({
+  tools: toolNames.map((name) => ({
+    name,
+    description: `Echo the text back (${name})`,
+    inputSchema: {
+      type: 'object' as const,
+      properties: { text: { type: 'string' } },
+      required: ['text'],
+    },
+  })),
+}));
+
+server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  const text = String(request.params.arguments?.text ?? '');
+  if (request.params.name === 'note') {
+    note = text;
+    for (const uri of subscribed) {
+      await server.sendResourceUpdated({ uri });
+    }
+  }
+  if (request.params.name !== 'sample') {
+    return { content: [{ type: 'text', text }] };
+  }
+
+  try {
+    const result = await server.createMessage({
+      messages: [{ role: 'user', content: { type: 'text', text } }],
+      maxTokens: 100,
+      ...(process.env.SAMPLING_HINT && {
+        modelPreferences: { hints: [{ name: process.env.SAMPLING_HINT }] },
+      }),
+    });
+    const reply = result.content.type === 'text' ? result.content.text : '';
+    return { content: [{ type: 'text', text: `${result.model}: ${reply}` }] };
+  } catch (error) {
+    return {
+      content: [{ type: 'text', text: error instanceof Error ? error.message : String(error) }],
+      isError: true,
+    };
+  }
+});
+
+await server.connect(new StdioServerTransport());
@@ -0,0 +1,34 @@
+/**
+ * In-memory stores for tests
+ *
+ * Providers save conversations and record their API calls through the shared
+ * ConversationStore and UsageLedger. Calling this at the top of a test file gives the
+ * file its own in-memory databases, so tests never read or write the ones in data/.
+ */
+
+import { afterAll, beforeAll, vi } from 'vitest';
+import { ConversationStore } from '../../src/shared/services/conversation-store.js';
+import { UsageLedger } from '../../src/shared/services/usage-ledger.js';
+
+export function useInMemoryStores(): void {
+  const conversations = new ConversationStore({ dbPath: ':memory:', sinks: [] });
+  const usage = new UsageLedger({ dbPath: ':memory:' });
+  const restore: (() => void)[] = [];
+
+  beforeAll(() => {
+    const conversationSpy = vi.spyOn(ConversationStore, 'getInstance');
+    const usageSpy = vi.spyOn(UsageLedger, 'getInstance');
+    conversationSpy.mockReturnValue(conversations);
+    usageSpy.mockReturnValue(usage);
+    restore.push(
+      () => conversationSpy.mockRestore(),
+      () => usageSpy.mockRestore()
+    );
+  });
+
+  afterAll(() => {
+    restore.forEach((undo) => undo());
+    conversations.close();
+    usage.close();
+  });
+}
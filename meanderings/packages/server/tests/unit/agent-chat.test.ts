@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import winston from 'winston';
+import { AgentConfigManager } from '../../src/shared/config/agent-config.js';
+import { agentChatRouter } from '../../src/http-server/routes/agent-chat.js';
+import { SERVICE_PROVIDERS } from '../../src/shared/constants/message-constants.js';
+import type { AgentConfig } from '../../src/shared/types/index.js';
+import { useInMemoryStores } from '../helpers/in-memory-stores.js';
+
+useInMemoryStores();
+
+const CHAT_SCRIPT = path.join(__dirname, '../fixtures/scripts/http-chat.yaml');
+
+const clock: AgentConfig = {
+  agent_name: 'clock',
+  service_provider: SERVICE_PROVIDERS.SCRIPTED,
+  model_name: CHAT_SCRIPT,
+  description: 'Offline clock agent',
+  system_prompt: 'You tell the time.',
+  do_stream: true,
+};
+
+function parseEvents(body: string): { event: string; data: Record<string, unknown> }[] {
+  return body
+    .split('\n\n')
+    .filter((block) => block.trim())
+    .map((block) => {
+      const [eventLine, dataLine] = block.split('\n');
+      return {
+        event: eventLine.replace('event: ', ''),
+        data: JSON.parse(dataLine.replace('data: ', '')) as Record<string, unknown>,
+      };
+    });
+}
+
+describe('POST /api/agents/:key/chat', () => {
+  let workDir: string;
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-chat-'));
+    const configPath = path.join(workDir, 'agents.json');
+    fs.writeFileSync(
+      configPath,
+      JSON.stringify({ AIlumina: { ...clock, agent_name: 'AIlumina' }, clock })
+    );
+    // The route reads the shared manager; keep this file's agents out of other tests
+    vi.spyOn(AgentConfigManager, 'getInstance').mockReturnValue(new AgentConfigManager(configPath));
+
+    const app = express();
+    app.use(express.json());
+    app.locals.state = { logger: winston.createLogger({ silent: true }) };
+    app.use('/api/agents', agentChatRouter);
+    server = await new Promise<Server>((resolve) => {
+      const listening = app.listen(0, () => resolve(listening));
+    });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/agents`;
+  });
+
+  afterAll(() => {
+    vi.restoreAllMocks();
+    server?.close();
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  function chat(agent: string, body: unknown, query = '') {
+    return fetch(`${baseUrl}/${agent}/chat${query}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+  }
+
+  it('answers with the final text, tool calls, usage and complete messages', async () => {
+    const res = await chat('clock', { user_input: 'What time is it?' });
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body).toMatchObject({
+      success: true,
+      agent_name: 'clock',
+      response: 'It is noon in London.',
+      tool_calls: [{ name: 'get_current_datetime', arguments: { timezone: 'UTC' } }],
+      usage: { calls: 2, input_tokens: 130, output_tokens: 16 },
+    });
+    expect(body.completeMessages[0]).toMatchObject({ content: 'What time is it?' });
+  });
+
+  it('continues the stored conversation named by conversation_id', async () => {
+    const first = await (await chat('clock', { user_input: 'What time is it?' })).json();
+
+    const second = await (
+      await chat('clock', { user_input: 'And now?', conversation_id: first.conversation_id })
+    ).json();
+
+    expect(second.conversation_id).toBe(first.conversation_id);
+    expect(second.completeMessages.slice(0, first.completeMessages.length)).toEqual(
+      first.completeMessages
+    );
+    expect(second.tool_calls).toHaveLength(1);
+  });
+
+  it('streams typed events ending with the result', async () => {
+    const res = await chat('clock', { user_input: 'What time is it?' }, '?stream=true');
+
+    expect(res.headers.get('content-type')).toContain('text/event-stream');
+    const events = parseEvents(await res.text());
+    const names = events.map((event) => event.event);
+
+    expect(names[0]).toBe('conversation');
+    expect(names).toContain('text_delta');
+    expect(names).toContain('tool_status');
+    expect(names).not.toContain('done');
+    expect(names.slice(-2)).toEqual(['usage', 'result']);
+    expect(events[events.length - 1].data).toMatchObject({
+      success: true,
+      conversation_id: events[0].data.conversation_id,
+      response: 'It is noon in London.',
+    });
+  });
+
+  it('rejects unknown agents and requests without user_input', async () => {
+    const missing = await chat('nobody', { user_input: 'Hello' });
+    const empty = await chat('clock', { chat_messages: [] });
+
+    expect(missing.status).toBe(404);
+    expect(empty.status).toBe(400);
+    expect(await empty.json()).toMatchObject({ message: 'user_input is required' });
+  });
+});
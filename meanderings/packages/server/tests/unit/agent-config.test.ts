@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AgentConfigManager, AgentConfigChange } from '../../src/shared/config/agent-config.js';
+import { SERVICE_PROVIDERS } from '../../src/shared/constants/message-constants.js';
+
+const agents = {
+  AIlumina: {
+    service_provider: SERVICE_PROVIDERS.ANTHROPIC,
+    model_name: 'claude-sonnet-4-20250514',
+    description: 'Main agent',
+    system_prompt: 'You are AIlumina.',
+    do_stream: true,
+  },
+  helper: {
+    service_provider: SERVICE_PROVIDERS.OPENAI,
+    model_name: 'gpt-4o-mini',
+    description: 'Helper',
+    system_prompt: 'You help.',
+    do_stream: false,
+  },
+};
+
+describe('AgentConfigManager reloading', () => {
+  let configPath: string;
+  let manager: AgentConfigManager;
+  let changes: AgentConfigChange[];
+
+  const writeAgents = (content: unknown) =>
+    fs.writeFileSync(configPath, JSON.stringify(content, null, 2));
+
+  beforeEach(() => {
+    configPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'agent-config-')), 'agents.json');
+    writeAgents(agents);
+    manager = new AgentConfigManager(configPath);
+    changes = [];
+    manager.onChange((change) => changes.push(change));
+  });
+
+  afterEach(() => {
+    manager.unwatch();
+    fs.rmSync(path.dirname(configPath), { recursive: true, force: true });
+  });
+
+  it('reports each changed and removed agent with the fields that changed', () => {
+    writeAgents({ AIlumina: { ...agents.AIlumina, system_prompt: 'You are terse.' } });
+
+    manager.reload();
+
+    expect(changes).toEqual([
+      {
+        agent_name: 'AIlumina',
+        config: expect.objectContaining({ system_prompt: 'You are terse.' }),
+        changed_fields: ['system_prompt'],
+      },
+      { agent_name: 'helper', config: null, changed_fields: expect.any(Array) },
+    ]);
+    expect(manager.hasAgent('helper')).toBe(false);
+  });
+
+  it('keeps the last good configuration when an edit is invalid', () => {
+    writeAgents({ ...agents, helper: { ...agents.helper, service_provider: 'nonexistent' } });
+    expect(() => manager.reload()).toThrow('Invalid agents configuration');
+
+    fs.writeFileSync(configPath, '{ "AIlumina": ');
+    expect(() => manager.reload()).toThrow();
+
+    expect(changes).toEqual([]);
+    expect(manager.getAgentConfig('helper')?.service_provider).toBe(SERVICE_PROVIDERS.OPENAI);
+  });
+
+  it('reloads when the file is edited on disk', async () => {
+    manager.watch();
+    writeAgents({ ...agents, helper: { ...agents.helper, do_stream: true } });
+
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+
+    expect(changes.map((change) => [change.agent_name, change.changed_fields])).toEqual([
+      ['helper', ['do_stream']],
+    ]);
+  });
+});
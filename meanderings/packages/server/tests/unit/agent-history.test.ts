@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import winston from 'winston';
+import { AgentManager } from '../../src/shared/services/agent-manager.js';
+import { AgentHistory } from '../../src/shared/services/agent-history.js';
+import { SERVICE_PROVIDERS } from '../../src/shared/constants/message-constants.js';
+import type { AgentConfig } from '../../src/shared/types/index.js';
+
+const assistant: AgentConfig = {
+  agent_name: 'assistant',
+  service_provider: SERVICE_PROVIDERS.OPENAI,
+  model_name: 'gpt-4o-mini',
+  description: 'General assistant',
+  system_prompt: 'You are helpful.',
+  do_stream: true,
+  available_functions: ['get_current_datetime'],
+};
+
+describe('agent history', () => {
+  const originalCwd = process.cwd();
+  let workDir: string;
+  let manager: AgentManager;
+
+  beforeEach(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-history-'));
+    fs.writeFileSync(
+      path.join(workDir, 'agents.json'),
+      JSON.stringify({ AIlumina: { ...assistant, agent_name: 'AIlumina' }, assistant })
+    );
+    process.chdir(workDir);
+    manager = new AgentManager(winston.createLogger({ silent: true }));
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it('records a baseline and each change with its author and reason', async () => {
+    await manager.updateAgent('assistant', { temperature: 0.2 });
+    await manager.addFunctionToAgent('assistant', 'get_the_weather', {
+      author: 'assistant',
+      author_type: 'agent',
+      reason: 'Users keep asking about the weather',
+    });
+
+    const { revisions } = await manager.getAgentHistory('assistant');
+
+    expect(revisions?.map((r) => [r.revision, r.action, r.author_type])).toEqual([
+      [3, 'add_function', 'agent'],
+      [2, 'update', 'human'],
+      [1, 'baseline', 'unknown'],
+    ]);
+    expect(revisions?.[0]).toMatchObject({
+      author: 'assistant',
+      reason: 'Users keep asking about the weather',
+    });
+    expect(revisions?.[2].config).toEqual(assistant);
+  });
+
+  it('diffs revisions field by field', async () => {
+    await manager.updateAgent('assistant', { temperature: 0.2 });
+    await manager.addFunctionToAgent('assistant', 'get_the_weather');
+
+    const latest = await manager.diffAgentRevisions('assistant');
+    expect(latest).toMatchObject({ success: true, from: 2, to: 3 });
+    expect(latest.changes).toEqual([
+      {
+        field: 'available_functions',
+        from: ['get_current_datetime'],
+        to: ['get_current_datetime', 'get_the_weather'],
+        added: ['get_the_weather'],
+        removed: [],
+      },
+    ]);
+
+    const overall = await manager.diffAgentRevisions('assistant', 1, 3);
+    expect(overall.changes?.map((change) => change.field)).toEqual([
+      'available_functions',
+      'temperature',
+    ]);
+
+    expect((await manager.diffAgentRevisions('assistant', 1, 9)).success).toBe(false);
+  });
+
+  it('rolls back to an earlier revision, including after deletion', async () => {
+    await manager.updateAgent('assistant', { system_prompt: 'You are terse.' });
+    await manager.deleteAgent('assistant');
+
+    expect((await manager.rollbackAgent('assistant', 3)).success).toBe(false);
+
+    const result = await manager.rollbackAgent('assistant', 1, {
+      author: 'human',
+      author_type: 'human',
+      reason: 'The terse prompt was a mistake',
+    });
+    expect(result.success).toBe(true);
+
+    const agents = JSON.parse(fs.readFileSync(path.join(workDir, 'agents.json'), 'utf-8'));
+    expect(agents.assistant).toEqual(assistant);
+
+    const { revisions } = await manager.getAgentHistory('assistant');
+    expect(revisions?.[0]).toMatchObject({
+      revision: 4,
+      action: 'rollback',
+      rolled_back_to: 1,
+      reason: 'The terse prompt was a mistake',
+    });
+  });
+
+  it('starts new agents at revision 1 without a baseline', async () => {
+    await manager.createAgent('helper', { ...assistant, agent_name: 'helper' });
+
+    const { revisions } = await manager.getAgentHistory('helper');
+    expect(revisions).toHaveLength(1);
+    expect(revisions?.[0]).toMatchObject({ revision: 1, action: 'create' });
+    expect(AgentHistory.diff(null, revisions![0].config)).toHaveLength(
+      Object.keys(assistant).length
+    );
+  });
+});
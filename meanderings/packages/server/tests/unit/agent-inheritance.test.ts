@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import {
+  resolveAgentConfig,
+  resolveAgentConfigs,
+} from '../../src/shared/config/agent-inheritance.js';
+import { AgentConfigManager } from '../../src/shared/config/agent-config.js';
+import { SERVICE_PROVIDERS } from '../../src/shared/constants/message-constants.js';
+
+const agents = {
+  base: {
+    template: true,
+    service_provider: SERVICE_PROVIDERS.ANTHROPIC,
+    system_prompt: 'You are part of AIlumina.',
+    do_stream: true,
+    available_functions: ['get_current_datetime', 'get_agent', 'delete_agent'],
+    mcp_servers: ['memory'],
+    custom_settings: { tone: 'warm', verbosity: 'high' },
+    fallbacks: [{ service_provider: SERVICE_PROVIDERS.OPENAI, model_name: 'gpt-4o' }],
+  },
+  AIlumina: {
+    extends: 'base',
+    model_name: 'claude-sonnet-4-20250514',
+    description: 'Main agent',
+    available_functions: ['!delete_agent', 'get_the_weather'],
+    custom_settings: { verbosity: 'low' },
+    fallbacks: [],
+  },
+  fast: {
+    extends: 'AIlumina',
+    model_name: 'claude-3-5-haiku-20241022',
+    description: 'Faster variant',
+    mcp_servers: ['search'],
+  },
+};
+
+describe('agent inheritance', () => {
+  it('merges lists, objects and scalars down the chain', () => {
+    expect(resolveAgentConfig(agents, 'fast')).toEqual({
+      service_provider: SERVICE_PROVIDERS.ANTHROPIC,
+      system_prompt: 'You are part of AIlumina.',
+      do_stream: true,
+      model_name: 'claude-3-5-haiku-20241022',
+      description: 'Faster variant',
+      available_functions: ['get_current_datetime', 'get_agent', 'get_the_weather'],
+      mcp_servers: ['memory', 'search'],
+      custom_settings: { tone: 'warm', verbosity: 'low' },
+      fallbacks: [],
+    });
+  });
+
+  it('leaves templates out of the agents that can be connected to', () => {
+    expect(Object.keys(resolveAgentConfigs(agents))).toEqual(['AIlumina', 'fast']);
+
+    const validated = AgentConfigManager.validateAgents(agents);
+    expect(Object.keys(validated)).toEqual(['AIlumina', 'fast']);
+    expect(validated.fast.agent_name).toBe('fast');
+  });
+
+  it('rejects unknown and circular parents', () => {
+    expect(() => resolveAgentConfig({ a: { extends: 'missing' } }, 'a')).toThrow(
+      'extends unknown agent "missing"'
+    );
+    expect(() =>
+      resolveAgentConfig({ a: { extends: 'b' }, b: { extends: 'c' }, c: { extends: 'a' } }, 'a')
+    ).toThrow('Circular extends: a -> b -> c -> a');
+  });
+});
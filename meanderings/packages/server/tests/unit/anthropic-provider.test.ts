@@ -3,6 +3,9 @@ import { AnthropicProvider } from '../../src/shared/services/anthropic-provider.
 import { AnthropicAPITransport } from '../../src/shared/transport/anthropic-api-transport.js';
 import { SERVICE_PROVIDERS, Message, AgentConfig, ToolDefinition } from '@ailumina/shared';
 import { MockWebSocket } from '../fixtures/websocket-mock.js';
+import { useInMemoryStores } from '../helpers/in-memory-stores.js';
+
+useInMemoryStores();
 
 // Mock the transport module
 vi.mock('../../src/shared/transport/anthropic-api-transport.js', () => {
@@ -339,7 +342,7 @@ describe('AnthropicProvider - Unit Tests', () => {
       const result = await provider.makeApiCall(messages, 'What time is it?', mockWebSocket, false);
 
       // Verify tool was invoked
-      expect(mockInvokeTool).toHaveBeenCalledWith('get_current_datetime', '{}');
+      expect(mockInvokeTool).toHaveBeenCalledWith('get_current_datetime', '{}', mockWebSocket);
 
       // Verify final response
       expect((result.response as { content: string }).content).toContain('2025-08-20T10:00:00Z');
@@ -349,6 +352,47 @@ describe('AnthropicProvider - Unit Tests', () => {
       expect(toolMessages.length).toBeGreaterThan(0);
     });
 
+    it('should run every tool use of a response and return a result for each', async () => {
+      const toolUse = [
+        { type: 'tool_use', id: 'toolu_1', name: 'get_current_datetime', input: {} },
+        { type: 'tool_use', id: 'toolu_2', name: 'get_current_datetime', input: { tz: 'UTC' } },
+      ];
+      mockTransport.send.mockResolvedValue({ type: 'non_streaming', data: {} });
+      mockTransport.parseResponse
+        .mockReturnValueOnce({ content: '', toolUse, usage: {}, stopReason: 'tool_use' })
+        .mockReturnValueOnce({
+          content: 'Both clocks agree.',
+          toolUse: [],
+          usage: {},
+          stopReason: 'end_turn',
+        });
+
+      const { completeMessages } = await provider.makeApiCall(
+        [],
+        'What time is it?',
+        mockWebSocket,
+        false
+      );
+
+      expect(mockInvokeTool).toHaveBeenCalledTimes(2);
+      expect(completeMessages[2]).toEqual({
+        role: 'user',
+        content: [
+          {
+            type: 'tool_result',
+            tool_use_id: 'toolu_1',
+            content: 'Current date and time: 2025-08-20T10:00:00Z',
+          },
+          {
+            type: 'tool_result',
+            tool_use_id: 'toolu_2',
+            content: 'Current date and time: 2025-08-20T10:00:00Z',
+          },
+        ],
+      });
+      expect(mockWebSocket.getMessagesByType('tool_message')).toHaveLength(2);
+    });
+
     it('should format tool response messages correctly', () => {
       const toolResult = provider.formatToolResponseMessage('Result: 42', 'calculate', 'tool_abc');
 
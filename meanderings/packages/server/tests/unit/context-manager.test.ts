@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ContextManager,
+  DROPPED_TOOL_RESULT,
+  getContextWindow,
+} from '../../src/shared/services/context-manager.js';
+import { SERVICE_PROVIDERS, MESSAGE_ROLES } from '../../src/shared/constants/message-constants.js';
+import type {
+  AgentConfig,
+  ContextManagementConfig,
+  Message,
+  ServiceProvider,
+} from '../../src/shared/types/index.js';
+
+function agentConfig(contextManagement: ContextManagementConfig): AgentConfig {
+  return {
+    agent_name: 'ailumina',
+    service_provider: SERVICE_PROVIDERS.ANTHROPIC,
+    model_name: 'claude-sonnet-4-20250514',
+    description: 'Test agent',
+    system_prompt: 'You are helpful.',
+    do_stream: false,
+    // Roughly 1000 tokens of history budget once the reply reserve is set aside
+    context_management: { context_window: 2000, reserve_output_tokens: 996, ...contextManagement },
+  };
+}
+
+// One turn of about 300 tokens: question, tool call, large tool result, answer
+function toolTurn(index: number): Message[] {
+  return [
+    { role: MESSAGE_ROLES.USER, content: `Question ${index}` },
+    {
+      role: MESSAGE_ROLES.ASSISTANT,
+      content: [{ type: 'tool_use', id: `toolu_${index}`, name: 'search', input: { index } }],
+    },
+    {
+      role: MESSAGE_ROLES.USER,
+      content: [{ type: 'tool_result', tool_use_id: `toolu_${index}`, content: 'x'.repeat(1000) }],
+    },
+    { role: MESSAGE_ROLES.ASSISTANT, content: `Answer ${index}` },
+  ];
+}
+
+const history = [1, 2, 3, 4, 5].flatMap(toolTurn);
+
+function toolUseIds(messages: Message[]): string[] {
+  return messages.flatMap((message) =>
+    Array.isArray(message.content)
+      ? message.content.map((block) => String(block.id ?? block.tool_use_id))
+      : []
+  );
+}
+
+describe('getContextWindow', () => {
+  it('matches the longest model prefix, then the provider default', () => {
+    expect(getContextWindow(SERVICE_PROVIDERS.OPENAI, 'gpt-4o-mini')).toBe(128_000);
+    expect(getContextWindow(SERVICE_PROVIDERS.OPENAI, 'gpt-4-0613')).toBe(8_192);
+    expect(getContextWindow(SERVICE_PROVIDERS.OLLAMA, 'llama3.2:3b')).toBe(8_192);
+  });
+});
+
+describe('ContextManager', () => {
+  it('leaves histories that fit unchanged', async () => {
+    const manager = new ContextManager({ agentConfig: agentConfig({}) });
+    const messages = toolTurn(1);
+
+    const fitted = await manager.fitToWindow(messages, 'hi');
+
+    expect(fitted.messages).toBe(messages);
+    expect(fitted.dropped_turns).toBe(0);
+  });
+
+  it('drops whole turns, oldest first, with the sliding window', async () => {
+    const manager = new ContextManager({ agentConfig: agentConfig({}) });
+
+    const fitted = await manager.fitToWindow(history, 'hi');
+
+    expect(fitted.dropped_turns).toBe(2);
+    expect(fitted.messages[0]).toEqual({ role: MESSAGE_ROLES.USER, content: 'Question 3' });
+    expect(toolUseIds(fitted.messages)).toEqual([
+      'toolu_3',
+      'toolu_3',
+      'toolu_4',
+      'toolu_4',
+      'toolu_5',
+      'toolu_5',
+    ]);
+    expect(fitted.estimated_tokens).toBeLessThanOrEqual(fitted.budget_tokens);
+  });
+
+  it('replaces old tool results before dropping turns', async () => {
+    const manager = new ContextManager({
+      agentConfig: agentConfig({ strategy: 'drop_tool_results' }),
+    });
+
+    const fitted = await manager.fitToWindow(history, 'hi');
+
+    expect(fitted.dropped_turns).toBe(0);
+    expect(fitted.dropped_tool_results).toBe(3);
+    expect(fitted.messages).toHaveLength(history.length);
+    expect(toolUseIds(fitted.messages)).toEqual(toolUseIds(history));
+    expect(JSON.stringify(fitted.messages[2].content)).toContain(DROPPED_TOOL_RESULT);
+    expect(JSON.stringify(fitted.messages[18].content)).not.toContain(DROPPED_TOOL_RESULT);
+  });
+
+  it('summarises older turns with the agent provider and reuses the summary', async () => {
+    const requests: string[] = [];
+    const summarizer = {
+      makeApiCall: async (_messages: Message[], userInput: string) => {
+        requests.push(userInput);
+        return {
+          completeMessages: [
+            { role: MESSAGE_ROLES.USER, content: userInput },
+            { role: MESSAGE_ROLES.ASSISTANT, content: 'The user asked three questions.' },
+          ],
+        };
+      },
+    } as unknown as ServiceProvider;
+    const manager = new ContextManager({
+      agentConfig: agentConfig({ strategy: 'summarize' }),
+      createSummarizer: () => summarizer,
+    });
+
+    const fitted = await manager.fitToWindow(history, 'hi');
+
+    expect(fitted.summarized_turns).toBe(3);
+    expect(fitted.messages[0].role).toBe(MESSAGE_ROLES.USER);
+    expect(fitted.messages[0].content).toContain('The user asked three questions.');
+    expect(fitted.messages[1]).toEqual({ role: MESSAGE_ROLES.USER, content: 'Question 4' });
+    expect(requests[0]).toContain('Question 1');
+
+    await manager.fitToWindow(history, 'hi');
+    expect(requests).toHaveLength(1);
+  });
+
+  it('falls back to the sliding window when summarising fails', async () => {
+    const manager = new ContextManager({
+      agentConfig: agentConfig({ strategy: 'summarize' }),
+      createSummarizer: () => {
+        throw new Error('no provider');
+      },
+    });
+
+    const fitted = await manager.fitToWindow(history, 'hi');
+
+    expect(fitted.summarized_turns).toBe(0);
+    expect(fitted.dropped_turns).toBe(2);
+  });
+});
@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Database } from 'bun:sqlite';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  ConversationStore,
+  ConversationRecord,
+  ConversationSink,
+  isValidConversationId,
+} from '../../src/shared/services/conversation-store.js';
+import { MESSAGE_ROLES, PART_TYPES } from '../../src/shared/constants/message-constants.js';
+
+class RecordingSink implements ConversationSink {
+  readonly name = 'recording';
+  records: ConversationRecord[] = [];
+
+  write(record: ConversationRecord): void {
+    this.records.push(record);
+  }
+}
+
+function saveConversation(store: ConversationStore, id: string, agent: string, text: string) {
+  return store.save({
+    conversation_id: id,
+    agent_name: agent,
+    service_provider: 'TEST',
+    model_name: 'test-model',
+    messages: [
+      { role: MESSAGE_ROLES.USER, content: text },
+      {
+        role: MESSAGE_ROLES.ASSISTANT,
+        content: [{ type: PART_TYPES.TEXT, text: `Reply about ${text}` }],
+      },
+    ],
+    usage_info: { total_tokens: 10 },
+  });
+}
+
+describe('ConversationStore', () => {
+  let store: ConversationStore;
+  let sink: RecordingSink;
+
+  beforeEach(() => {
+    sink = new RecordingSink();
+    store = new ConversationStore({ dbPath: ':memory:', sinks: [sink] });
+  });
+
+  afterEach(() => {
+    store.close();
+  });
+
+  it('saves and retrieves a conversation by id', () => {
+    saveConversation(store, 'conv-1', 'ailumina', 'Tell me about tides');
+
+    const conversation = store.get('conv-1');
+    expect(conversation).not.toBeNull();
+    expect(conversation?.agent_name).toBe('ailumina');
+    expect(conversation?.messages).toHaveLength(2);
+    expect(conversation?.usage_info).toEqual({ total_tokens: 10 });
+  });
+
+  it('keeps created_at stable when a conversation is updated', async () => {
+    const first = saveConversation(store, 'conv-1', 'ailumina', 'first');
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const second = saveConversation(store, 'conv-1', 'ailumina', 'second');
+
+    expect(second.created_at).toBe(first.created_at);
+    expect(store.count()).toBe(1);
+    expect(store.list()[0].title).toBe('second');
+  });
+
+  it('forwards every save to registered sinks', () => {
+    saveConversation(store, 'conv-1', 'ailumina', 'hello');
+    expect(sink.records).toHaveLength(1);
+    expect(sink.records[0].conversation_id).toBe('conv-1');
+
+    store.removeSink('recording');
+    saveConversation(store, 'conv-2', 'ailumina', 'hello again');
+    expect(sink.records).toHaveLength(1);
+  });
+
+  it('stores the conversation even when a sink throws', () => {
+    store.addSink({
+      name: 'broken',
+      write: () => {
+        throw new Error('disk full');
+      },
+    });
+
+    saveConversation(store, 'conv-1', 'ailumina', 'hello');
+    expect(store.get('conv-1')).not.toBeNull();
+  });
+
+  it('lists conversations filtered by agent', () => {
+    saveConversation(store, 'conv-1', 'ailumina', 'one');
+    saveConversation(store, 'conv-2', 'researcher', 'two');
+    saveConversation(store, 'conv-3', 'ailumina', 'three');
+
+    const ailumina = store.list({ agentName: 'ailumina' });
+    expect(ailumina.map((c) => c.conversation_id).sort()).toEqual(['conv-1', 'conv-3']);
+    expect(store.count('researcher')).toBe(1);
+  });
+
+  it('finds conversations by message text, including content blocks', () => {
+    saveConversation(store, 'conv-1', 'ailumina', 'Tell me about ocean tides');
+    saveConversation(store, 'conv-2', 'ailumina', 'Plan a mountain hike');
+
+    const results = store.search('tides');
+    expect(results).toHaveLength(1);
+    expect(results[0].conversation_id).toBe('conv-1');
+    expect(results[0].snippet).toContain('[tides]');
+
+    expect(store.search('Reply mountain')[0].conversation_id).toBe('conv-2');
+  });
+
+  it('treats FTS syntax in queries as plain text', () => {
+    saveConversation(store, 'conv-1', 'ailumina', 'hello world');
+    expect(() => store.search('hello" OR (')).not.toThrow();
+    expect(store.search('   ')).toEqual([]);
+  });
+
+  it('deletes conversations and their search index entries', () => {
+    saveConversation(store, 'conv-1', 'ailumina', 'ephemeral thought');
+
+    expect(store.delete('conv-1')).toBe(true);
+    expect(store.get('conv-1')).toBeNull();
+    expect(store.search('ephemeral')).toEqual([]);
+    expect(store.delete('conv-1')).toBe(false);
+  });
+
+  it('keeps the agents.json key a conversation ran under', () => {
+    store.save({
+      conversation_id: 'conv-1',
+      agent_name: 'OpenAI Agent',
+      agent_key: 'OpenAIAgent',
+      service_provider: 'TEST',
+      model_name: 'test-model',
+      messages: [],
+      usage_info: {},
+    });
+    saveConversation(store, 'conv-2', 'ailumina', 'no key');
+
+    expect(store.get('conv-1')?.agent_key).toBe('OpenAIAgent');
+    expect(store.get('conv-2')).not.toHaveProperty('agent_key');
+  });
+
+  it('adds the agent key column to databases created without it', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'conversation-store-'));
+    const dbPath = join(dir, 'conversations.db');
+    const legacy = new Database(dbPath, { create: true });
+    legacy.exec(`CREATE TABLE conversations (
+      id TEXT PRIMARY KEY, agent_name TEXT NOT NULL, service_provider TEXT NOT NULL,
+      model_name TEXT NOT NULL, title TEXT NOT NULL, message_count INTEGER NOT NULL,
+      messages TEXT NOT NULL, usage_info TEXT NOT NULL, created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL)`);
+    legacy.close();
+
+    const upgraded = new ConversationStore({ dbPath, sinks: [] });
+    try {
+      upgraded.save({
+        conversation_id: 'conv-1',
+        agent_name: 'OpenAI Agent',
+        agent_key: 'OpenAIAgent',
+        service_provider: 'TEST',
+        model_name: 'test-model',
+        messages: [],
+        usage_info: {},
+      });
+      expect(upgraded.get('conv-1')?.agent_key).toBe('OpenAIAgent');
+    } finally {
+      upgraded.close();
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('rejects conversation ids that are unsafe as file names', () => {
+    expect(isValidConversationId('2f1c9a4e-8d7b-4a9e-b1f2-0c3d4e5f6a7b')).toBe(true);
+    expect(isValidConversationId('../../etc/passwd')).toBe(false);
+    expect(isValidConversationId('')).toBe(false);
+    expect(() => saveConversation(store, '../escape', 'ailumina', 'hello')).toThrow(
+      'Invalid conversation id'
+    );
+  });
+});
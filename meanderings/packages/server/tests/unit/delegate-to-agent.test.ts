@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import winston from 'winston';
+import { AgentConfigManager } from '../../src/shared/config/agent-config.js';
+import { ConversationStore } from '../../src/shared/services/conversation-store.js';
+import { ScriptedProvider } from '../../src/shared/services/scripted-provider.js';
+import { delegateToAgent } from '../../src/shared/tools/functions/delegate-to-agent.js';
+import {
+  DynamicToolRegistry,
+  ToolRegistryManagerAdapter,
+} from '../../src/shared/tools/dynamic-tool-registry.js';
+import { SERVICE_PROVIDERS, MESSAGE_ROLES } from '../../src/shared/constants/message-constants.js';
+import { MockWebSocket } from '../fixtures/websocket-mock.js';
+import type { AgentConfig } from '../../src/shared/types/index.js';
+import { useInMemoryStores } from '../helpers/in-memory-stores.js';
+
+useInMemoryStores();
+
+const SCRIPTS = path.join(__dirname, '../fixtures/scripts');
+
+function scriptedAgent(agentName: string, script: string): AgentConfig {
+  return {
+    agent_name: agentName,
+    service_provider: SERVICE_PROVIDERS.SCRIPTED,
+    model_name: path.join(SCRIPTS, script),
+    description: `Offline ${agentName}`,
+    system_prompt: 'You are helpful.',
+    do_stream: false,
+  };
+}
+
+const coordinator = {
+  ...scriptedAgent('coordinator', 'delegation-coordinator.yaml'),
+  available_functions: ['delegate_to_agent'],
+};
+const researcher = scriptedAgent('researcher', 'delegation-researcher.yaml');
+
+describe('delegate_to_agent', () => {
+  let workDir: string;
+
+  beforeAll(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'delegate-to-agent-'));
+    const configPath = path.join(workDir, 'agents.json');
+    fs.writeFileSync(
+      configPath,
+      JSON.stringify({
+        AIlumina: { ...researcher, agent_name: 'AIlumina' },
+        'AIlumina:20240912': { ...researcher, agent_name: 'AIlumina (2024-09-12)' },
+        coordinator,
+        researcher,
+      })
+    );
+    AgentConfigManager.getInstance(configPath);
+  });
+
+  afterAll(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it('returns the sub-agent answer and forwards its frames as nested events', async () => {
+    const ws = new MockWebSocket();
+
+    const result = JSON.parse(
+      await delegateToAgent(
+        { agent_name: 'researcher', message: 'What is the capital of France?' },
+        { agentName: 'coordinator', sessionId: 'delegation-1', websocket: ws }
+      )
+    );
+
+    expect(result).toEqual({
+      success: true,
+      agent_name: 'researcher',
+      conversation_id: 'delegation-1-researcher',
+      response: 'The capital of France is Paris.',
+    });
+    const nested = ws.getMessages().map((message) => message.data);
+    expect(nested.length).toBeGreaterThan(0);
+    expect(nested.every((frame) => frame.nested_event?.agent_name === 'researcher')).toBe(true);
+    expect(nested[0].nested_event).toMatchObject({
+      conversation_id: 'delegation-1-researcher',
+      depth: 1,
+    });
+  });
+
+  it('continues the nested conversation unless asked to start over', async () => {
+    const context = { agentName: 'coordinator', sessionId: 'delegation-2' };
+    await delegateToAgent({ agent_name: 'researcher', message: 'First question' }, context);
+    await delegateToAgent({ agent_name: 'researcher', message: 'Second question' }, context);
+
+    const stored = ConversationStore.getInstance().get('delegation-2-researcher');
+    expect(
+      stored?.messages
+        .filter((message) => message.role === MESSAGE_ROLES.USER)
+        .map((message) => message.content)
+    ).toEqual(['First question', 'Second question']);
+
+    await delegateToAgent(
+      { agent_name: 'researcher', message: 'Fresh start', new_conversation: true },
+      context
+    );
+    const restarted = ConversationStore.getInstance().get('delegation-2-researcher');
+    expect(restarted?.messages[0].content).toBe('Fresh start');
+  });
+
+  it('refuses to delegate back to an agent already in the chain', async () => {
+    const result = JSON.parse(
+      await delegateToAgent(
+        { agent_name: 'coordinator', message: 'Over to you' },
+        { agentName: 'researcher', delegationChain: ['coordinator', 'researcher'] }
+      )
+    );
+
+    expect(result).toMatchObject({ success: false, error: 'Delegation refused' });
+    expect(result.message).toBe('Delegation loop: coordinator -> researcher -> coordinator');
+  });
+
+  it('recognises an agent in the chain by its name, not its key', async () => {
+    const result = JSON.parse(
+      await delegateToAgent(
+        { agent_name: 'AIlumina:20240912', message: 'Ask yourself' },
+        { agentName: 'AIlumina (2024-09-12)' }
+      )
+    );
+
+    expect(result).toMatchObject({ success: false, error: 'Delegation refused' });
+    expect(result.message).toBe('Delegation loop: AIlumina (2024-09-12) -> AIlumina (2024-09-12)');
+  });
+
+  it('refuses to go deeper than the delegation limit', async () => {
+    const result = JSON.parse(
+      await delegateToAgent(
+        { agent_name: 'researcher', message: 'Dig deeper' },
+        { agentName: 'c', delegationChain: ['a', 'b', 'c'] }
+      )
+    );
+
+    expect(result).toMatchObject({ success: false, error: 'Delegation refused' });
+    expect(result.message).toContain('limited to 3 agents deep');
+  });
+
+  it('runs as a tool call inside the calling agent turn', async () => {
+    const provider = new ScriptedProvider(coordinator);
+    provider.conversation_id = 'delegation-3';
+    provider.setToolRegistryAdapter(
+      new ToolRegistryManagerAdapter(
+        {} as DynamicToolRegistry,
+        winston.createLogger({ silent: true })
+      )
+    );
+    const ws = new MockWebSocket();
+
+    const { completeMessages } = await provider.makeApiCall([], 'Capital of France?', ws);
+
+    const toolResult = JSON.parse(completeMessages[2].content as string);
+    expect(toolResult).toMatchObject({
+      success: true,
+      conversation_id: 'delegation-3-researcher',
+      response: 'The capital of France is Paris.',
+    });
+    expect(completeMessages[3].content).toBe('The researcher says it is Paris.');
+    expect(ws.getMessages().some((message) => message.data.nested_event?.depth === 1)).toBe(true);
+  });
+});
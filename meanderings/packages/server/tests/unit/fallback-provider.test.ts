@@ -0,0 +1,246 @@
+import { describe, it, expect } from 'vitest';
+import {
+  FallbackServiceProvider,
+  isTransientProviderError,
+} from '../../src/shared/services/fallback-provider.js';
+import { ProviderMessageAdapter } from '../../src/shared/adapters/provider-message-adapter.js';
+import { SERVICE_PROVIDERS, MESSAGE_ROLES } from '../../src/shared/constants/message-constants.js';
+import type { Message, ServiceProvider } from '../../src/shared/types/index.js';
+
+class StubProvider implements ServiceProvider {
+  agent_name = 'ailumina';
+  usage_info = {};
+  conversation_id?: string;
+  received: Message[][] = [];
+  toolAdapter?: { executeTool(...args: unknown[]): Promise<unknown> };
+
+  constructor(
+    public service_provider: string,
+    public model_name: string,
+    private behaviour: (websocket?: { send(data: string): void }, messages?: Message[]) => unknown
+  ) {}
+
+  async makeApiCall(
+    messages: Message[],
+    _userInput: string,
+    websocket?: { send(data: string): void }
+  ): Promise<unknown> {
+    this.received.push(messages);
+    return this.behaviour(websocket, messages);
+  }
+
+  transformToolRegistry(): unknown {
+    return [];
+  }
+
+  logConversationMemory(): string | null {
+    return this.conversation_id ?? null;
+  }
+
+  setToolRegistryAdapter(adapter: unknown): void {
+    this.toolAdapter = adapter as StubProvider['toolAdapter'];
+  }
+}
+
+// An Anthropic history with one tool round trip, including the duplicate
+// assistant tool_calls message the base provider records
+const anthropicHistory: Message[] = [
+  { role: MESSAGE_ROLES.USER, content: 'What time is it?' },
+  {
+    role: MESSAGE_ROLES.ASSISTANT,
+    content: [
+      { type: 'text', text: 'Let me check.' },
+      { type: 'tool_use', id: 'toolu_1', name: 'get_time', input: { zone: 'UTC' } },
+    ],
+  },
+  {
+    role: MESSAGE_ROLES.ASSISTANT,
+    content: 'Let me check.',
+    tool_calls: [{ id: 'toolu_1', name: 'get_time', input: { zone: 'UTC' } }],
+  },
+  {
+    role: MESSAGE_ROLES.USER,
+    content: [{ type: 'tool_result', tool_use_id: 'toolu_1', content: '12:00' }],
+  },
+  { role: MESSAGE_ROLES.ASSISTANT, content: 'It is noon.' },
+];
+
+describe('isTransientProviderError', () => {
+  it('retries rate limits, server errors and connection failures', () => {
+    expect(isTransientProviderError(new Error('Anthropic API error: HTTP 429: rate limited'))).toBe(
+      true
+    );
+    expect(isTransientProviderError(new Error('OpenAI API error: HTTP 503: unavailable'))).toBe(
+      true
+    );
+    expect(
+      isTransientProviderError(new Error('Ollama API error: connect ECONNREFUSED 127.0.0.1:11434'))
+    ).toBe(true);
+  });
+
+  it('does not retry client errors', () => {
+    expect(isTransientProviderError(new Error('HTTP 400: invalid request'))).toBe(false);
+    expect(isTransientProviderError(new Error('HTTP 401: invalid API key'))).toBe(false);
+  });
+});
+
+describe('ProviderMessageAdapter.convertHistoryForProvider', () => {
+  it('converts Anthropic tool blocks to OpenAI tool_calls without duplicates', () => {
+    const adapter = new ProviderMessageAdapter({ serviceProvider: SERVICE_PROVIDERS.OPENAI });
+    const converted = adapter.convertHistoryForProvider(anthropicHistory);
+
+    expect(converted).toHaveLength(4);
+    expect(converted[1].tool_calls).toEqual([
+      {
+        id: 'toolu_1',
+        type: 'function',
+        function: { name: 'get_time', arguments: '{"zone":"UTC"}' },
+      },
+    ]);
+    expect(converted[1].content).toBe('Let me check.');
+    expect(converted[2]).toMatchObject({
+      role: MESSAGE_ROLES.TOOL,
+      tool_call_id: 'toolu_1',
+      name: 'get_time',
+      content: '12:00',
+    });
+  });
+
+  it('converts Google function parts to Anthropic blocks with paired ids', () => {
+    const adapter = new ProviderMessageAdapter({ serviceProvider: SERVICE_PROVIDERS.ANTHROPIC });
+    const converted = adapter.convertHistoryForProvider([
+      { role: MESSAGE_ROLES.USER, parts: [{ text: 'What time is it?' }] },
+      {
+        role: MESSAGE_ROLES.MODEL,
+        parts: [{ functionCall: { name: 'get_time', args: { zone: 'UTC' } } }],
+      },
+      {
+        role: MESSAGE_ROLES.USER,
+        parts: [{ functionResponse: { name: 'get_time', response: { content: '12:00' } } }],
+      },
+    ]);
+
+    const toolUse = (converted[1].content as Array<Record<string, unknown>>)[0];
+    const toolResult = (converted[2].content as Array<Record<string, unknown>>)[0];
+    expect(converted[1].role).toBe(MESSAGE_ROLES.ASSISTANT);
+    expect(toolUse).toMatchObject({ type: 'tool_use', name: 'get_time', input: { zone: 'UTC' } });
+    expect(toolResult).toMatchObject({ type: 'tool_result', content: '12:00' });
+    expect(toolResult.tool_use_id).toBe(toolUse.id);
+  });
+
+  it('converts tool results to Google function responses and drops orphans', () => {
+    const adapter = new ProviderMessageAdapter({ serviceProvider: SERVICE_PROVIDERS.GOOGLE });
+    const converted = adapter.convertHistoryForProvider([
+      ...anthropicHistory,
+      { role: MESSAGE_ROLES.TOOL, tool_call_id: 'missing', name: 'get_time', content: '13:00' },
+    ]);
+
+    expect(converted).toHaveLength(4);
+    expect(converted[2].parts).toEqual([
+      { functionResponse: { name: 'get_time', response: { content: '12:00' } } },
+    ]);
+  });
+});
+
+describe('FallbackServiceProvider', () => {
+  it('retries the turn on the next provider after a transient error', async () => {
+    const primary = new StubProvider(SERVICE_PROVIDERS.ANTHROPIC, 'claude-sonnet-4', () => {
+      throw new Error('Anthropic API error: HTTP 529: overloaded');
+    });
+    const fallback = new StubProvider(SERVICE_PROVIDERS.OPENAI, 'gpt-4o', () => ({
+      response: 'ok',
+      completeMessages: [],
+    }));
+    const provider = new FallbackServiceProvider([primary, fallback]);
+
+    const result = await provider.makeApiCall(anthropicHistory, 'hi');
+
+    expect(result).toEqual({ response: 'ok', completeMessages: anthropicHistory });
+    expect(provider.service_provider).toBe(SERVICE_PROVIDERS.OPENAI);
+    expect(fallback.received[0][1].tool_calls?.[0].id).toBe('toolu_1');
+  });
+
+  it('returns the turn on the caller’s history, not the converted one', async () => {
+    const answer: Message = { role: MESSAGE_ROLES.ASSISTANT, content: 'Still noon.' };
+    const fallback = new StubProvider(SERVICE_PROVIDERS.OPENAI, 'gpt-4o', (_ws, messages) => ({
+      response: answer,
+      completeMessages: [
+        ...(messages ?? []),
+        { role: MESSAGE_ROLES.USER, content: 'And now?' },
+        answer,
+      ],
+    }));
+    const provider = new FallbackServiceProvider([fallback]);
+
+    const result = (await provider.makeApiCall(anthropicHistory, 'And now?')) as {
+      completeMessages: Message[];
+    };
+
+    // The OpenAI history drops the duplicate tool_calls message
+    expect(fallback.received[0]).toHaveLength(anthropicHistory.length - 1);
+    expect(result.completeMessages).toEqual([
+      ...anthropicHistory,
+      { role: MESSAGE_ROLES.USER, content: 'And now?' },
+      answer,
+    ]);
+  });
+
+  it('does not fall back on permanent errors', async () => {
+    const primary = new StubProvider(SERVICE_PROVIDERS.ANTHROPIC, 'claude-sonnet-4', () => {
+      throw new Error('Anthropic API error: HTTP 401: invalid x-api-key');
+    });
+    const fallback = new StubProvider(SERVICE_PROVIDERS.OPENAI, 'gpt-4o', () => ({}));
+    const provider = new FallbackServiceProvider([primary, fallback]);
+
+    await expect(provider.makeApiCall([], 'hi')).rejects.toThrow('HTTP 401');
+    expect(fallback.received).toHaveLength(0);
+  });
+
+  it('does not fall back once output has reached the client', async () => {
+    const primary = new StubProvider(SERVICE_PROVIDERS.ANTHROPIC, 'claude-sonnet-4', (ws) => {
+      ws?.send(JSON.stringify({ content: 'partial' }));
+      throw new Error('Anthropic API streaming transport error: socket hang up');
+    });
+    const fallback = new StubProvider(SERVICE_PROVIDERS.OPENAI, 'gpt-4o', () => ({}));
+    const provider = new FallbackServiceProvider([primary, fallback]);
+    const sent: string[] = [];
+
+    await expect(
+      provider.makeApiCall([], 'hi', { send: (data: string) => sent.push(data) })
+    ).rejects.toThrow('socket hang up');
+    expect(sent).toHaveLength(1);
+    expect(fallback.received).toHaveLength(0);
+  });
+
+  it('does not fall back once a tool has run', async () => {
+    const executed: unknown[][] = [];
+    const primary: StubProvider = new StubProvider(
+      SERVICE_PROVIDERS.ANTHROPIC,
+      'claude-sonnet-4',
+      async () => {
+        await primary.toolAdapter?.executeTool('delete_agent', { agentKey: 'old' });
+        throw new Error('Anthropic API error: HTTP 529: overloaded');
+      }
+    );
+    const fallback = new StubProvider(SERVICE_PROVIDERS.OPENAI, 'gpt-4o', () => ({}));
+    const provider = new FallbackServiceProvider([primary, fallback]);
+    provider.setToolRegistryAdapter({
+      executeTool: (...args: unknown[]) => Promise.resolve(executed.push(args)),
+    });
+
+    await expect(provider.makeApiCall([], 'Delete the old agent')).rejects.toThrow('HTTP 529');
+    expect(executed).toEqual([['delete_agent', { agentKey: 'old' }]]);
+    expect(fallback.received).toHaveLength(0);
+  });
+
+  it('shares the conversation id with every provider', () => {
+    const primary = new StubProvider(SERVICE_PROVIDERS.ANTHROPIC, 'claude-sonnet-4', () => ({}));
+    const fallback = new StubProvider(SERVICE_PROVIDERS.OPENAI, 'gpt-4o', () => ({}));
+    const provider = new FallbackServiceProvider([primary, fallback]);
+
+    provider.conversation_id = 'conv-1';
+
+    expect(primary.conversation_id).toBe('conv-1');
+    expect(fallback.conversation_id).toBe('conv-1');
+  });
+});
@@ -0,0 +1,263 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as path from 'path';
+import winston from 'winston';
+import { resolveGenerationSettings } from '../../src/shared/services/generation-settings.js';
+import { AnthropicAPITransport } from '../../src/shared/transport/anthropic-api-transport.js';
+import { GoogleAPITransport } from '../../src/shared/transport/google-api-transport.js';
+import { OpenAIAPITransport } from '../../src/shared/transport/openai-api-transport.js';
+import { OpenAICompatibleProvider } from '../../src/shared/services/openai-compatible-provider.js';
+import {
+  createScriptedFetch,
+  loadProviderScript,
+} from '../../src/shared/services/scripted-provider.js';
+import { _TOOL_REGISTRY, toolFunction } from '../../src/shared/tools/tool-function-decorator.js';
+import {
+  DynamicToolRegistry,
+  ToolRegistryManagerAdapter,
+} from '../../src/shared/tools/dynamic-tool-registry.js';
+import { SERVICE_PROVIDERS, MESSAGE_ROLES } from '../../src/shared/constants/message-constants.js';
+import type { GenerationOptions } from '../../src/shared/types/transport-types.js';
+import type { AgentConfig } from '../../src/shared/types/index.js';
+import { useInMemoryStores } from '../helpers/in-memory-stores.js';
+
+useInMemoryStores();
+
+const SCRIPT = path.join(__dirname, '../fixtures/scripts/repeated-tool-calls.yaml');
+
+const agent: AgentConfig = {
+  agent_name: 'scripted',
+  service_provider: SERVICE_PROVIDERS.SCRIPTED,
+  model_name: SCRIPT,
+  description: 'Offline test agent',
+  system_prompt: 'You are helpful.',
+  do_stream: false,
+  generation: { temperature: 0.2, max_tokens: 1000, stop: ['END'] },
+};
+
+const options: GenerationOptions = {
+  temperature: 0.3,
+  topP: 0.9,
+  maxTokens: 500,
+  stop: ['END'],
+  seed: 7,
+  toolChoice: { name: 'lookup' },
+  responseFormat: { type: 'json_schema', name: 'answer', schema: { type: 'object' } },
+};
+const tools = [{ name: 'lookup' }];
+
+// Fetch that records each request body and answers with an empty completion
+function recordBodies(bodies: Record<string, unknown>[]) {
+  return (_url: string, init: RequestInit) => {
+    bodies.push(JSON.parse(init.body as string) as Record<string, unknown>);
+    return Promise.resolve(new Response('{}', { headers: { 'Content-Type': 'application/json' } }));
+  };
+}
+
+describe('resolveGenerationSettings', () => {
+  it('applies a request’s overrides within the agent’s limits', () => {
+    const limited: AgentConfig = {
+      ...agent,
+      generation_limits: { max_tokens: 2000, min_temperature: 0.1, max_temperature: 1 },
+    };
+
+    expect(resolveGenerationSettings(limited)).toEqual({ settings: agent.generation });
+    expect(
+      resolveGenerationSettings(limited, { temperature: 1.5, max_tokens: 8000, seed: 3 })
+    ).toEqual({
+      settings: { temperature: 1, max_tokens: 2000, stop: ['END'], seed: 3 },
+    });
+  });
+
+  it('refuses settings the agent keeps to itself and invalid ones', () => {
+    const limited: AgentConfig = { ...agent, generation_limits: { overridable: ['temperature'] } };
+
+    expect(resolveGenerationSettings(limited, { temperature: 0.5, seed: 3 })).toEqual({
+      error: "Agent 'scripted' does not allow requests to set seed",
+    });
+    expect(resolveGenerationSettings(agent, { top_p: 2, topK: 5 })).toEqual({
+      error:
+        "Invalid generation settings: top_p: Number must be less than or equal to 1; Unrecognized key(s) in object: 'topK'",
+    });
+  });
+
+  it('refuses a temperature the agent’s provider does not accept', () => {
+    const claude: AgentConfig = { ...agent, service_provider: SERVICE_PROVIDERS.ANTHROPIC };
+
+    expect(resolveGenerationSettings(claude, { temperature: 1.5 })).toEqual({
+      error: "Agent 'scripted' uses ANTHROPIC, which takes a temperature of at most 1",
+    });
+    expect(resolveGenerationSettings(claude, { temperature: 0.9 })).toEqual({
+      settings: { ...agent.generation, temperature: 0.9 },
+    });
+    expect(resolveGenerationSettings(agent, { temperature: 1.5 })).toEqual({
+      settings: { ...agent.generation, temperature: 1.5 },
+    });
+  });
+
+  it('keeps tool_choice, response_format and max_tokens to the agent without limits', () => {
+    expect(resolveGenerationSettings(agent, { tool_choice: 'none', seed: 3 })).toEqual({
+      error: "Agent 'scripted' does not allow requests to set tool_choice",
+    });
+    expect(resolveGenerationSettings(agent, { max_tokens: 8000 })).toEqual({
+      settings: { ...agent.generation, max_tokens: 1000 },
+    });
+
+    const open: AgentConfig = {
+      ...agent,
+      generation_limits: { overridable: ['tool_choice', 'response_format'] },
+    };
+    expect(
+      resolveGenerationSettings(open, { tool_choice: 'none', response_format: { type: 'text' } })
+    ).toEqual({
+      settings: { ...agent.generation, tool_choice: 'none', response_format: { type: 'text' } },
+    });
+  });
+});
+
+describe('Generation settings in the transports', () => {
+  it('maps them to the OpenAI chat completions parameters', async () => {
+    const bodies: Record<string, unknown>[] = [];
+    const transport = new OpenAIAPITransport({
+      apiKey: 'test',
+      model: 'llama-3.1-8b',
+      baseUrl: 'http://openai.invalid/v1',
+      fetch: recordBodies(bodies),
+    });
+    await transport.send([{ role: MESSAGE_ROLES.USER, content: 'Hi' }], { tools, ...options });
+
+    expect(bodies[0]).toMatchObject({
+      temperature: 0.3,
+      top_p: 0.9,
+      max_tokens: 500,
+      stop: ['END'],
+      seed: 7,
+      tool_choice: { type: 'function', function: { name: 'lookup' } },
+      response_format: {
+        type: 'json_schema',
+        json_schema: { name: 'answer', schema: { type: 'object' } },
+      },
+    });
+  });
+
+  it('maps them to the Anthropic messages parameters', async () => {
+    const bodies: Record<string, unknown>[] = [];
+    const transport = new AnthropicAPITransport({
+      apiKey: 'test',
+      model: 'claude-test',
+      fetch: recordBodies(bodies),
+    });
+    await transport.send([{ role: MESSAGE_ROLES.USER, content: 'Hi' }], {
+      tools,
+      systemPrompt: 'You are helpful.',
+      ...options,
+    });
+
+    expect(bodies[0]).toMatchObject({
+      temperature: 0.3,
+      top_p: 0.9,
+      max_tokens: 500,
+      stop_sequences: ['END'],
+      tool_choice: { type: 'tool', name: 'lookup' },
+      system: expect.stringMatching(/^You are helpful\.\n\nRespond with a single JSON object/),
+    });
+    expect(bodies[0]).not.toHaveProperty('seed');
+  });
+
+  it('maps them to the Gemini generation config', async () => {
+    const bodies: Record<string, unknown>[] = [];
+    const transport = new GoogleAPITransport({
+      apiKey: 'test',
+      model: 'gemini-test',
+      fetch: recordBodies(bodies),
+    });
+    await transport.send([{ role: MESSAGE_ROLES.USER, content: 'Hi' }], { ...options });
+    await transport.send([{ role: MESSAGE_ROLES.USER, content: 'Hi' }], { tools, ...options });
+
+    expect(bodies[0]).toMatchObject({
+      generationConfig: {
+        temperature: 0.3,
+        topP: 0.9,
+        maxOutputTokens: 500,
+        stopSequences: ['END'],
+        seed: 7,
+        responseMimeType: 'application/json',
+        responseJsonSchema: { type: 'object' },
+      },
+    });
+    // With tools the JSON format is asked for in the system instruction
+    expect(bodies[1]).toMatchObject({
+      toolConfig: { functionCallingConfig: { mode: 'ANY', allowedFunctionNames: ['lookup'] } },
+      systemInstruction: {
+        parts: [{ text: expect.stringMatching(/^Respond with a single JSON object/) }],
+      },
+    });
+    expect(bodies[1].generationConfig).not.toHaveProperty('responseMimeType');
+  });
+});
+
+describe('Generation settings in the tool loop', () => {
+  const requests: Record<string, unknown>[] = [];
+  const jobStatusTool = {
+    name: 'test_job_status',
+    description: 'Check on a job',
+    parameters: { type: 'object', properties: { job: { type: 'number' } }, required: ['job'] },
+    enabled: true,
+  };
+
+  class RecordingProvider extends OpenAICompatibleProvider {
+    constructor(agentConfig: AgentConfig) {
+      const scripted = createScriptedFetch(loadProviderScript(SCRIPT));
+      super(
+        agentConfig,
+        SERVICE_PROVIDERS.SCRIPTED,
+        {
+          apiKey: 'scripted',
+          baseUrl: 'http://scripted.invalid/v1',
+          fetch: (url, init) => {
+            requests.push(JSON.parse(init.body as string) as Record<string, unknown>);
+            return scripted(url, init);
+          },
+        },
+        { test_job_status: jobStatusTool }
+      );
+    }
+  }
+
+  beforeAll(() => {
+    toolFunction(
+      jobStatusTool.name,
+      jobStatusTool.description,
+      jobStatusTool.parameters
+    )(async () => 'running');
+  });
+
+  afterAll(() => {
+    _TOOL_REGISTRY.delete(jobStatusTool.name);
+  });
+
+  it('sends the request’s settings and forces the tool only in the first round', async () => {
+    const forcing: AgentConfig = {
+      ...agent,
+      generation: { ...agent.generation, tool_choice: { name: jobStatusTool.name } },
+    };
+    const provider = new RecordingProvider(forcing);
+    provider.setToolRegistryAdapter(
+      new ToolRegistryManagerAdapter(
+        {} as DynamicToolRegistry,
+        winston.createLogger({ silent: true })
+      )
+    );
+    const resolved = resolveGenerationSettings(forcing, { seed: 11 });
+    provider.setGeneration('settings' in resolved ? resolved.settings : undefined);
+
+    await provider.makeApiCall([], 'Is job 42 done?');
+
+    expect(requests.map((request) => request.tool_choice)).toEqual([
+      { type: 'function', function: { name: jobStatusTool.name } },
+      'auto',
+      'auto',
+      'none',
+    ]);
+    expect(requests[0]).toMatchObject({ temperature: 0.2, max_tokens: 1000, seed: 11 });
+  });
+});
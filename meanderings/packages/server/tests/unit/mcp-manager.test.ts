@@ -0,0 +1,333 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import winston from 'winston';
+import { MCPClientManager } from '../../src/shared/tools/mcp-manager.js';
+import { createMCPSamplingHandler } from '../../src/shared/services/mcp-sampling.js';
+import { MCPResourceContext } from '../../src/shared/services/mcp-resource-context.js';
+import {
+  SlashCommand,
+  expandPromptCommand,
+  findSlashCommand,
+  listPromptCommands,
+  parseCommandArguments,
+} from '../../src/shared/services/mcp-prompt-commands.js';
+import { AgentConfigManager } from '../../src/shared/config/agent-config.js';
+import { syncMCPServerTools } from '../../src/shared/tools/dynamic-tool-registry.js';
+import { _TOOL_REGISTRY } from '../../src/shared/tools/tool-function-decorator.js';
+import type { ServerConfig } from '../../src/shared/config/server-config.js';
+import type { AgentConfig } from '../../src/shared/types/index.js';
+import {
+  SERVICE_PROVIDERS,
+  TRANSPORT_TYPES,
+} from '../../src/shared/constants/message-constants.js';
+import { useInMemoryStores } from '../helpers/in-memory-stores.js';
+
+useInMemoryStores();
+
+const ECHO_SERVER = path.join(__dirname, '../fixtures/mcp-echo-server.ts');
+const REPLY_SCRIPT = path.join(__dirname, '../fixtures/scripts/sampling-reply.yaml');
+const HINTED_SCRIPT = path.join(__dirname, '../fixtures/scripts/sampling-hinted.yaml');
+
+function echoServer(tools?: string): ServerConfig {
+  return {
+    transport_type: TRANSPORT_TYPES.STDIO,
+    command: process.execPath,
+    args: [ECHO_SERVER],
+    env: tools ? { ECHO_TOOLS: tools } : undefined,
+  };
+}
+
+describe('MCPClientManager runtime server management', () => {
+  const logger = winston.createLogger({ silent: true });
+  let manager: MCPClientManager;
+  let changes: { serverName: string; tools: string[] | null }[];
+
+  beforeEach(async () => {
+    // Long retry delays and no health timer keep retries out of the way of assertions
+    manager = new MCPClientManager(
+      logger,
+      {},
+      { reconnectBaseMs: 60000, healthCheckIntervalMs: 0 }
+    );
+    changes = [];
+    manager.onToolsChanged((serverName, tools) =>
+      changes.push({ serverName, tools: tools && Object.keys(tools) })
+    );
+    await manager.startup();
+  });
+
+  afterEach(async () => {
+    await manager.shutdown();
+  });
+
+  it('connects an added server and loads its tools', async () => {
+    const status = await manager.addServer('echo', echoServer());
+
+    expect(status).toMatchObject({
+      name: 'echo',
+      enabled: true,
+      status: 'connected',
+      last_error: null,
+      tool_count: 1,
+    });
+    expect(changes).toEqual([{ serverName: 'echo', tools: ['echo_say'] }]);
+    expect(await manager.executeTool('echo', 'say', { text: 'hello' })).toBe('hello');
+    await expect(manager.addServer('echo', echoServer())).rejects.toThrow('already exists');
+  });
+
+  it('drops tools while a server is disabled and reloads them when it is enabled', async () => {
+    await manager.addServer('echo', echoServer());
+
+    const disabled = await manager.setServerEnabled('echo', false);
+    expect(disabled).toMatchObject({ enabled: false, status: 'disabled', tool_count: 0 });
+    expect(manager.getServerTools().echo).toBeUndefined();
+
+    const enabled = await manager.setServerEnabled('echo', true);
+    expect(enabled).toMatchObject({ enabled: true, status: 'connected', tool_count: 1 });
+    expect(changes.map((change) => change.tools)).toEqual([['echo_say'], null, ['echo_say']]);
+  });
+
+  it('reloads tools when a server is updated and forgets it when removed', async () => {
+    await manager.addServer('echo', echoServer());
+
+    const updated = await manager.updateServer('echo', echoServer('say,shout'));
+    expect(updated).toMatchObject({ status: 'connected', tool_count: 2 });
+
+    expect(await manager.removeServer('echo')).toBe(true);
+    expect(manager.getServerStatus('echo')).toBeNull();
+    expect(await manager.removeServer('echo')).toBe(false);
+    expect(changes.map((change) => change.tools)).toEqual([
+      ['echo_say'],
+      null,
+      ['echo_say', 'echo_shout'],
+      null,
+    ]);
+  });
+
+  it('reports a server that cannot start as failed and schedules a retry', async () => {
+    const status = await manager.addServer('missing', {
+      transport_type: TRANSPORT_TYPES.STDIO,
+      command: 'definitely-not-an-mcp-server',
+      args: [],
+    });
+
+    expect(status).toMatchObject({
+      status: 'failed',
+      last_error: expect.any(String),
+      reconnect_attempts: 1,
+    });
+    expect(Date.parse(status.next_retry_at as string)).toBeGreaterThan(Date.now() + 50000);
+    expect(changes).toEqual([]);
+  });
+
+  it('keeps disabled servers from the config file disconnected', async () => {
+    const configured = new MCPClientManager(
+      logger,
+      { echo: { ...echoServer(), enabled: false } },
+      { healthCheckIntervalMs: 0 }
+    );
+    await configured.startup();
+
+    expect(configured.listServerStatuses()).toEqual([
+      expect.objectContaining({ name: 'echo', enabled: false, status: 'disabled' }),
+    ]);
+    expect(configured.getServerTools()).toEqual({});
+    await configured.shutdown();
+  });
+});
+
+describe('MCP sampling', () => {
+  const logger = winston.createLogger({ silent: true });
+  let workDir: string;
+  let manager: MCPClientManager;
+
+  function samplingServer(
+    env: Record<string, string> = {},
+    sampling: ServerConfig['sampling'] = {}
+  ) {
+    return { ...echoServer(), env: { ECHO_TOOLS: 'sample', ...env }, sampling };
+  }
+
+  beforeAll(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-sampling-'));
+    const configPath = path.join(workDir, 'agents.json');
+    const agent = (agent_name: string, model_name: string) => ({
+      agent_name,
+      service_provider: SERVICE_PROVIDERS.SCRIPTED,
+      model_name,
+      description: 'Offline agent',
+      system_prompt: 'You write short replies.',
+      do_stream: false,
+    });
+    fs.writeFileSync(
+      configPath,
+      JSON.stringify({
+        AIlumina: agent('AIlumina', REPLY_SCRIPT),
+        writer: agent('writer', REPLY_SCRIPT),
+        poet: agent('poet', HINTED_SCRIPT),
+      })
+    );
+    // The sampling handler reads the shared manager; keep this file's agents out of other tests
+    vi.spyOn(AgentConfigManager, 'getInstance').mockReturnValue(new AgentConfigManager(configPath));
+  });
+
+  afterAll(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    manager = new MCPClientManager(logger, {}, { healthCheckIntervalMs: 0 });
+    manager.setSamplingHandler(createMCPSamplingHandler(logger));
+    await manager.startup();
+  });
+
+  afterEach(async () => {
+    await manager.shutdown();
+  });
+
+  it('answers with the calling agent, or the configured sampling agent', async () => {
+    await manager.addServer('echo', samplingServer({}, { agent: 'writer' }));
+
+    expect(await manager.executeTool('echo', 'sample', { text: 'Tea?' })).toBe(
+      `${REPLY_SCRIPT}: Steam rises from the cup.`
+    );
+    expect(await manager.executeTool('echo', 'sample', { text: 'Tea?' }, 'poet')).toBe(
+      `${HINTED_SCRIPT}: Picked by the model hint.`
+    );
+  });
+
+  it('prefers an agent named by the model hints', async () => {
+    await manager.addServer('echo', samplingServer({ SAMPLING_HINT: 'sampling-hinted' }));
+
+    expect(await manager.executeTool('echo', 'sample', { text: 'Tea?' }, 'writer')).toBe(
+      `${HINTED_SCRIPT}: Picked by the model hint.`
+    );
+  });
+
+  it('refuses requests over the rate limit or with no agent to answer them', async () => {
+    await manager.addServer('limited', samplingServer({}, { requests_per_minute: 1 }));
+    await manager.addServer('off', samplingServer({}, { enabled: false }));
+
+    expect(await manager.executeTool('limited', 'sample', { text: 'Tea?' })).toContain(
+      'No agent is configured to answer sampling requests from limited'
+    );
+    // The refused request still counts towards the limit
+    expect(await manager.executeTool('limited', 'sample', { text: 'Tea?' }, 'writer')).toContain(
+      'Sampling rate limit of 1 requests per minute reached'
+    );
+    // Without the sampling capability the client has no handler for the request
+    expect(await manager.executeTool('off', 'sample', { text: 'Tea?' }, 'writer')).toContain(
+      'Method not found'
+    );
+  });
+});
+
+describe('MCP resources and prompts', () => {
+  const logger = winston.createLogger({ silent: true });
+  let manager: MCPClientManager;
+
+  beforeEach(async () => {
+    manager = new MCPClientManager(logger, {}, { healthCheckIntervalMs: 0 });
+    await manager.startup();
+    await manager.addServer('echo', echoServer('note'));
+  });
+
+  afterEach(async () => {
+    await manager.shutdown();
+  });
+
+  it('reads resources into the system prompt and rereads them after an update', async () => {
+    const context = new MCPResourceContext(logger, manager, [
+      { server: 'echo', uri: 'notes://{agent_name}/{topic}', arguments: { topic: 'tea' } },
+      { server: 'echo', uri: 'notes://{unknown}' },
+    ]);
+    const agentConfig = { agent_name: 'writer', system_prompt: 'You write.' } as AgentConfig;
+    const variables = { agent_name: 'writer', conversation_id: 'conversation-1' };
+
+    expect(await context.refresh(variables)).toBe(true);
+    expect(context.apply(agentConfig).system_prompt).toBe(
+      'You write.\n\n<resource server="echo" uri="notes://writer/tea">\nNothing yet\n</resource>'
+    );
+    expect(await context.refresh(variables)).toBe(false);
+
+    // The server reports the change before the tool call returns
+    await manager.executeTool('echo', 'note', { text: 'Darjeeling' });
+    expect(await context.refresh(variables)).toBe(true);
+    expect(context.apply(agentConfig).system_prompt).toContain('\nDarjeeling\n');
+    await context.close();
+  });
+
+  it('renews resource subscriptions when a server reconnects', async () => {
+    const updates: string[] = [];
+    manager.onResourceUpdated((serverName, uri) => updates.push(`${serverName} ${uri}`));
+    await manager.subscribeResource('echo', 'notes://today');
+    await manager.subscribeResource('echo', 'notes://today');
+
+    await manager.reconnectServer('echo');
+    await manager.executeTool('echo', 'note', { text: 'Oolong' });
+    expect(updates).toEqual(['echo notes://today', 'echo notes://today']);
+
+    // Still held by the second subscriber
+    await manager.unsubscribeResource('echo', 'notes://today');
+    await manager.executeTool('echo', 'note', { text: 'Sencha' });
+    expect(updates).toHaveLength(3);
+
+    await manager.unsubscribeResource('echo', 'notes://today');
+    await manager.executeTool('echo', 'note', { text: 'Assam' });
+    expect(updates).toHaveLength(3);
+  });
+
+  it('offers prompts as slash-commands and expands them into messages', async () => {
+    const commands = await listPromptCommands(manager, ['echo', 'absent']);
+    expect(commands.map((command) => command.command)).toEqual(['/echo_greet', '/echo_review']);
+    expect(findSlashCommand('/echo_unknown hello', commands)).toBeNull();
+
+    const greet = findSlashCommand('/echo_greet Ada Lovelace', commands);
+    expect(greet?.rest).toBe('Ada Lovelace');
+    expect(
+      await expandPromptCommand(manager, greet?.command as SlashCommand, 'Ada Lovelace')
+    ).toEqual({ history: [], userInput: 'Say hello to Ada Lovelace' });
+
+    const review = commands[1];
+    expect(await expandPromptCommand(manager, review, 'code="x = 1" language=Python')).toEqual({
+      history: [
+        { role: 'user', content: 'Please review my code.' },
+        { role: 'assistant', content: 'Send it over.' },
+      ],
+      userInput: 'Python code: x = 1',
+    });
+    expect(() => parseCommandArguments(review, 'language=Go')).toThrow('/echo_review needs: code');
+    expect(() => parseCommandArguments(review, 'code=1 lang=Go')).toThrow(
+      "/echo_review has no argument 'lang'"
+    );
+  });
+});
+
+describe('syncMCPServerTools', () => {
+  const logger = winston.createLogger({ silent: true });
+  const tool = (name: string) => ({
+    definition: { name, description: '', parameters: {}, enabled: true },
+    function: () => Promise.resolve(name),
+  });
+
+  afterEach(() => {
+    syncMCPServerTools(logger, 'sync', null);
+  });
+
+  it("replaces a server's tools in the global registry", () => {
+    syncMCPServerTools(logger, 'sync', { sync_a: tool('sync_a'), sync_b: tool('sync_b') });
+    expect(_TOOL_REGISTRY.has('sync_a')).toBe(true);
+    expect(_TOOL_REGISTRY.has('sync_b')).toBe(true);
+
+    syncMCPServerTools(logger, 'sync', { sync_b: tool('sync_b'), sync_c: tool('sync_c') });
+    expect(_TOOL_REGISTRY.has('sync_a')).toBe(false);
+    expect(_TOOL_REGISTRY.has('sync_c')).toBe(true);
+
+    syncMCPServerTools(logger, 'sync', null);
+    expect(_TOOL_REGISTRY.has('sync_b')).toBe(false);
+    expect(_TOOL_REGISTRY.has('sync_c')).toBe(false);
+  });
+});
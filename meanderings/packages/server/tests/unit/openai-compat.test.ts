@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import winston from 'winston';
+import { AgentConfigManager } from '../../src/shared/config/agent-config.js';
+import { openaiCompatRouter } from '../../src/http-server/routes/openai-compat.js';
+import { SERVICE_PROVIDERS } from '../../src/shared/constants/message-constants.js';
+import type { AgentConfig } from '../../src/shared/types/index.js';
+import { useInMemoryStores } from '../helpers/in-memory-stores.js';
+
+useInMemoryStores();
+
+const CHAT_SCRIPT = path.join(__dirname, '../fixtures/scripts/http-chat.yaml');
+
+const clock: AgentConfig = {
+  agent_name: 'clock',
+  service_provider: SERVICE_PROVIDERS.SCRIPTED,
+  model_name: CHAT_SCRIPT,
+  description: 'Offline clock agent',
+  system_prompt: 'You tell the time.',
+  do_stream: true,
+};
+
+describe('OpenAI-compatible API', () => {
+  let workDir: string;
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'openai-compat-'));
+    const configPath = path.join(workDir, 'agents.json');
+    fs.writeFileSync(
+      configPath,
+      JSON.stringify({
+        AIlumina: { ...clock, agent_name: 'AIlumina' },
+        clock,
+        quiet_clock: { ...clock, agent_name: 'quiet_clock', do_stream: false },
+      })
+    );
+    // The routes read the shared manager; keep this file's agents out of other tests
+    vi.spyOn(AgentConfigManager, 'getInstance').mockReturnValue(new AgentConfigManager(configPath));
+
+    const app = express();
+    app.use(express.json());
+    app.locals.state = { logger: winston.createLogger({ silent: true }) };
+    app.use('/v1', openaiCompatRouter);
+    server = await new Promise<Server>((resolve) => {
+      const listening = app.listen(0, () => resolve(listening));
+    });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(() => {
+    vi.restoreAllMocks();
+    server?.close();
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  function complete(body: unknown) {
+    return fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+  }
+
+  async function readChunks(res: Response): Promise<Record<string, any>[]> {
+    const lines = (await res.text()).split('\n\n').filter((line) => line.startsWith('data: '));
+    expect(lines[lines.length - 1]).toBe('data: [DONE]');
+    return lines.slice(0, -1).map((line) => JSON.parse(line.slice('data: '.length)));
+  }
+
+  it('lists agents as models', async () => {
+    const body = await (await fetch(`${baseUrl}/models`)).json();
+
+    expect(body.object).toBe('list');
+    expect(body.data.map((model: { id: string }) => model.id)).toEqual([
+      'AIlumina',
+      'clock',
+      'quiet_clock',
+    ]);
+    expect(body.data[0]).toMatchObject({ object: 'model', owned_by: 'ailumina' });
+  });
+
+  it('answers a completion after running the agent tool loop', async () => {
+    const res = await complete({
+      model: 'clock',
+      messages: [
+        { role: 'system', content: 'Answer briefly.' },
+        { role: 'user', content: 'Hello' },
+        { role: 'assistant', content: 'Hi! How can I help?' },
+        { role: 'user', content: [{ type: 'text', text: 'What time is it?' }] },
+      ],
+    });
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body).toMatchObject({
+      object: 'chat.completion',
+      model: 'clock',
+      choices: [
+        {
+          index: 0,
+          message: { role: 'assistant', content: 'It is noon in London.' },
+          finish_reason: 'stop',
+        },
+      ],
+      usage: { prompt_tokens: 130, completion_tokens: 16, total_tokens: 146 },
+    });
+    expect(body.id).toMatch(/^chatcmpl-/);
+  });
+
+  it('streams completion chunks with usage before [DONE]', async () => {
+    const res = await complete({
+      model: 'clock',
+      stream: true,
+      stream_options: { include_usage: true },
+      messages: [{ role: 'user', content: 'What time is it?' }],
+    });
+
+    expect(res.headers.get('content-type')).toContain('text/event-stream');
+    const chunks = await readChunks(res);
+    const text = chunks.map((chunk) => chunk.choices[0]?.delta?.content ?? '').join('');
+
+    expect(chunks.every((chunk) => chunk.object === 'chat.completion.chunk')).toBe(true);
+    expect(chunks[0].choices[0].delta).toEqual({ role: 'assistant' });
+    expect(text).toContain('It is noon in London.');
+    expect(chunks[chunks.length - 2].choices[0]).toMatchObject({ finish_reason: 'stop' });
+    expect(chunks[chunks.length - 1]).toMatchObject({
+      choices: [],
+      usage: { prompt_tokens: 130, completion_tokens: 16 },
+    });
+  });
+
+  it('streams the whole answer at once for agents that do not stream', async () => {
+    const res = await complete({
+      model: 'quiet_clock',
+      stream: true,
+      messages: [{ role: 'user', content: 'What time is it?' }],
+    });
+
+    const contents = (await readChunks(res))
+      .map((chunk) => chunk.choices[0]?.delta?.content)
+      .filter(Boolean);
+
+    expect(contents).toEqual(['It is noon in London.']);
+  });
+
+  it('reports errors in the OpenAI error format', async () => {
+    const unknown = await complete({
+      model: 'gpt-4o',
+      messages: [{ role: 'user', content: 'Hi' }],
+    });
+    const noUser = await complete({
+      model: 'clock',
+      messages: [{ role: 'assistant', content: 'Hi' }],
+    });
+
+    expect(unknown.status).toBe(404);
+    expect(await unknown.json()).toEqual({
+      error: {
+        message: "The model 'gpt-4o' does not exist",
+        type: 'invalid_request_error',
+        param: 'model',
+        code: null,
+      },
+    });
+    expect(noUser.status).toBe(400);
+    expect((await noUser.json()).error.param).toBe('messages');
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  createCassetteFetch,
+  normalizeRequestBody,
+  redactUrl,
+  type Cassette,
+} from '../../src/shared/transport/provider-cassette.js';
+import { OpenAIAPITransport } from '../../src/shared/transport/openai-api-transport.js';
+import { MESSAGE_ROLES } from '../../src/shared/constants/message-constants.js';
+
+const SECRET = 'sk-test-cassette-secret';
+
+const sseChunks = [
+  'data: {"choices":[{"index":0,"delta":{"content":"Hello"}}]}\n\n',
+  'data: {"choices":[{"index":0,"delta":{"content":" there"}}]}\n\n',
+  'data: [DONE]\n\n',
+];
+
+// Stands in for the provider API: streams the chunks above, one per read
+async function upstream(): Promise<Response> {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      sseChunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+  return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+async function streamText(transport: OpenAIAPITransport): Promise<string> {
+  const result = await transport.send([{ role: MESSAGE_ROLES.USER, content: `Hi ${SECRET}` }], {
+    stream: true,
+  });
+  const { fullText } = await transport.processStreamingResponse(result);
+  return fullText;
+}
+
+describe('provider cassettes', () => {
+  let cassettePath: string;
+
+  beforeEach(() => {
+    cassettePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'cassette-')), 'chat.json');
+    process.env.TEST_PROVIDER_API_KEY = SECRET;
+  });
+
+  afterEach(() => {
+    delete process.env.TEST_PROVIDER_API_KEY;
+    fs.rmSync(path.dirname(cassettePath), { recursive: true, force: true });
+  });
+
+  it('records streamed chunks with secrets redacted and replays them offline', async () => {
+    const recording = new OpenAIAPITransport({
+      apiKey: SECRET,
+      model: 'gpt-4o-mini',
+      baseUrl: 'https://api.example.com/v1',
+      fetch: createCassetteFetch({ mode: 'record', cassettePath, fetch: upstream }),
+    });
+    expect(await streamText(recording)).toBe('Hello there');
+
+    const raw = fs.readFileSync(cassettePath, 'utf-8');
+    const cassette = JSON.parse(raw) as Cassette;
+    expect(raw).not.toContain(SECRET);
+    expect(cassette.interactions).toHaveLength(1);
+    expect(cassette.interactions[0].response.chunks).toEqual(sseChunks);
+
+    const replaying = new OpenAIAPITransport({
+      apiKey: 'a-different-key',
+      model: 'gpt-4o-mini',
+      baseUrl: 'https://api.example.com/v1',
+      fetch: createCassetteFetch({ mode: 'replay', cassettePath }),
+    });
+    expect(await streamText(replaying)).toBe('Hello there');
+  });
+
+  it('matches bodies regardless of key order and rejects unrecorded requests', async () => {
+    const url = 'https://api.example.com/v1/chat/completions';
+    const record = createCassetteFetch({ mode: 'record', cassettePath, fetch: upstream });
+    await record(url, { method: 'POST', body: JSON.stringify({ model: 'm', stream: true }) });
+
+    const replay = createCassetteFetch({ mode: 'replay', cassettePath });
+    const response = await replay(url, {
+      method: 'POST',
+      body: '{ "stream": true, "model": "m" }',
+    });
+    expect(await response.text()).toBe(sseChunks.join(''));
+
+    await expect(
+      replay(url, { method: 'POST', body: JSON.stringify({ model: 'other', stream: true }) })
+    ).rejects.toThrow('No recorded response');
+  });
+
+  it('normalises request bodies and redacts secret fields', () => {
+    expect(normalizeRequestBody('{"b":1,"a":{"api_key":"abc","d":[2,1]}}')).toBe(
+      '{"a":{"api_key":"[REDACTED]","d":[2,1]},"b":1}'
+    );
+    expect(normalizeRequestBody(`token ${SECRET}`)).toBe('token [REDACTED]');
+    expect(
+      redactUrl('https://api.example.com/v1beta/models/m:generateContent?key=abc&alt=sse')
+    ).toBe('https://api.example.com/v1beta/models/m:generateContent?key=%5BREDACTED%5D&alt=sse');
+  });
+});
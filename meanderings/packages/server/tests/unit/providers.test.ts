@@ -342,7 +342,7 @@ describe.skip.each(providerConfigs)('$name Provider', (config) => {
     it('should demonstrate missing assistant tool call message bug', async () => {
       const mockWebSocket = new MockWebSocket();
 
-      // Test the synchronizeMessageContextToClient method directly to demonstrate the bug
+      // Test the handleMultipleToolCalls method directly to demonstrate the bug
       const mockToolCall = {
         type: 'tool_use',
         id: 'tool_123',
@@ -363,21 +363,15 @@ describe.skip.each(providerConfigs)('$name Provider', (config) => {
       try {
         await (
           provider as unknown as {
-            synchronizeMessageContextToClient: (
+            handleMultipleToolCalls: (
               content: string,
-              toolCall: unknown,
+              toolCalls: unknown[],
               messages: Message[],
               ws: MockWebSocket,
               stream: boolean
             ) => Promise<void>;
           }
-        ).synchronizeMessageContextToClient(
-          emptyContent,
-          mockToolCall,
-          messages1,
-          mockWebSocket,
-          false
-        );
+        ).handleMultipleToolCalls(emptyContent, [mockToolCall], messages1, mockWebSocket, false);
       } catch (error) {
         // Expected to fail in some cases, we're testing message flow
       }
@@ -390,21 +384,15 @@ describe.skip.each(providerConfigs)('$name Provider', (config) => {
       try {
         await (
           provider as unknown as {
-            synchronizeMessageContextToClient: (
+            handleMultipleToolCalls: (
               content: string,
-              toolCall: unknown,
+              toolCalls: unknown[],
               messages: Message[],
               ws: MockWebSocket,
               stream: boolean
             ) => Promise<void>;
           }
-        ).synchronizeMessageContextToClient(
-          contentWithText,
-          mockToolCall,
-          messages2,
-          mockWebSocket,
-          false
-        );
+        ).handleMultipleToolCalls(contentWithText, [mockToolCall], messages2, mockWebSocket, false);
       } catch (error) {
         // Expected to fail in some cases, we're testing message flow
       }
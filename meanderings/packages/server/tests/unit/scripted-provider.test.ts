@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as path from 'path';
+import winston from 'winston';
+import {
+  createScriptedFetch,
+  loadProviderScript,
+  ScriptedProvider,
+} from '../../src/shared/services/scripted-provider.js';
+import { _TOOL_REGISTRY, toolFunction } from '../../src/shared/tools/tool-function-decorator.js';
+import {
+  DynamicToolRegistry,
+  ToolRegistryManagerAdapter,
+} from '../../src/shared/tools/dynamic-tool-registry.js';
+import { SERVICE_PROVIDERS, MESSAGE_ROLES } from '../../src/shared/constants/message-constants.js';
+import { MockWebSocket } from '../fixtures/websocket-mock.js';
+import type { AgentConfig, Message } from '../../src/shared/types/index.js';
+import { useInMemoryStores } from '../helpers/in-memory-stores.js';
+
+useInMemoryStores();
+
+const SCRIPT = path.join(__dirname, '../fixtures/scripts/weather-tool-flow.yaml');
+
+const weatherTool = {
+  name: 'test_lookup_weather',
+  description: 'Look up the weather in a city',
+  parameters: { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] },
+  enabled: true,
+};
+
+function createProvider(): ScriptedProvider {
+  const agentConfig: AgentConfig = {
+    agent_name: 'scripted',
+    service_provider: SERVICE_PROVIDERS.SCRIPTED,
+    model_name: SCRIPT,
+    description: 'Offline test agent',
+    system_prompt: 'You are helpful.',
+    do_stream: true,
+  };
+  const provider = new ScriptedProvider(agentConfig, { test_lookup_weather: weatherTool });
+  provider.setToolRegistryAdapter(
+    new ToolRegistryManagerAdapter(
+      {} as DynamicToolRegistry,
+      winston.createLogger({ silent: true })
+    )
+  );
+  return provider;
+}
+
+describe('ScriptedProvider', () => {
+  const lookups: string[] = [];
+
+  beforeAll(() => {
+    toolFunction(
+      weatherTool.name,
+      weatherTool.description,
+      weatherTool.parameters
+    )(async (params: unknown) => {
+      const { city } = params as { city: string };
+      lookups.push(city);
+      return `Sunny in ${city}`;
+    });
+  });
+
+  afterAll(() => {
+    _TOOL_REGISTRY.delete(weatherTool.name);
+  });
+
+  it('streams a tool round trip through the real tool loop', async () => {
+    const provider = createProvider();
+    const ws = new MockWebSocket();
+
+    const { completeMessages } = await provider.makeApiCall([], 'Weather in Paris?', ws, true);
+
+    expect(lookups).toEqual(['Paris']);
+    expect(completeMessages.map((message) => message.role)).toEqual([
+      MESSAGE_ROLES.USER,
+      MESSAGE_ROLES.ASSISTANT,
+      MESSAGE_ROLES.TOOL,
+      MESSAGE_ROLES.ASSISTANT,
+    ]);
+    expect(completeMessages[2].content).toBe('Sunny in Paris');
+    expect(completeMessages[3].content).toBe('It is sunny in Paris.');
+
+    const streamed = ws
+      .getMessagesByType('sentence')
+      .filter((message) => message.data.final_sentence === false)
+      .map((message) => message.data.sentence as string);
+    expect(streamed.join('')).toBe('Let me look that up.It is sunny in Paris.');
+    expect(provider.getTurnUsage()).toMatchObject({ calls: 2, input_tokens: 280 });
+  });
+
+  it('plays the next turn for the following request without streaming', async () => {
+    const provider = createProvider();
+    const first = await provider.makeApiCall([], 'Weather in Paris?');
+
+    const history: Message[] = first.completeMessages;
+    const second = await provider.makeApiCall(history, 'Thanks');
+
+    expect(second.response).toMatchObject({ content: "You're welcome!" });
+  });
+});
+
+describe('createScriptedFetch', () => {
+  it('fails once the script runs out, unless it loops', async () => {
+    const script = loadProviderScript(SCRIPT);
+    const body = JSON.stringify({ stream: false });
+
+    const once = createScriptedFetch({ turns: [script.turns[2]] }, 'short');
+    await once('http://scripted.invalid/v1/chat/completions', { body });
+    await expect(once('http://scripted.invalid/v1/chat/completions', { body })).rejects.toThrow(
+      "Provider script 'short' has no turns left"
+    );
+
+    const looping = createScriptedFetch({ loop: true, turns: [script.turns[2]] });
+    await looping('http://scripted.invalid/v1/chat/completions', { body });
+    const response = await looping('http://scripted.invalid/v1/chat/completions', { body });
+    expect((await response.json()).choices[0].message.content).toBe("You're welcome!");
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import * as path from 'path';
+import { readStructuredResult } from '../../src/shared/services/structured-output.js';
+import { OpenAICompatibleProvider } from '../../src/shared/services/openai-compatible-provider.js';
+import {
+  createScriptedFetch,
+  loadProviderScript,
+} from '../../src/shared/services/scripted-provider.js';
+import { SERVICE_PROVIDERS, MESSAGE_ROLES } from '../../src/shared/constants/message-constants.js';
+import { MockWebSocket } from '../fixtures/websocket-mock.js';
+import type { AgentConfig } from '../../src/shared/types/index.js';
+import { useInMemoryStores } from '../helpers/in-memory-stores.js';
+
+useInMemoryStores();
+
+const SCRIPT = path.join(__dirname, '../fixtures/scripts/structured-answer.yaml');
+
+const weatherSchema = {
+  type: 'object',
+  properties: {
+    city: { type: 'string' },
+    temperature: { type: 'number' },
+    conditions: { type: 'string' },
+  },
+  required: ['city', 'temperature'],
+};
+
+describe('readStructuredResult', () => {
+  it('reads the object from the answer, coercing values as tool arguments are', () => {
+    expect(readStructuredResult('{"city": "Oslo", "temperature": "-3"}', weatherSchema)).toEqual({
+      value: { city: 'Oslo', temperature: -3 },
+    });
+  });
+
+  it('says what is wrong with an answer that does not match', () => {
+    expect(readStructuredResult('Cold in Oslo.', weatherSchema)).toEqual({
+      problems: ['the answer is not a JSON object'],
+    });
+    expect(readStructuredResult('{"city": "Oslo"}', weatherSchema)).toEqual({
+      problems: [expect.stringContaining('temperature')],
+    });
+  });
+});
+
+describe('Structured output in the providers', () => {
+  const requests: Record<string, unknown>[] = [];
+
+  class RecordingProvider extends OpenAICompatibleProvider {
+    constructor(agentConfig: AgentConfig) {
+      const scripted = createScriptedFetch(loadProviderScript(SCRIPT));
+      super(agentConfig, SERVICE_PROVIDERS.SCRIPTED, {
+        apiKey: 'scripted',
+        baseUrl: 'http://scripted.invalid/v1',
+        fetch: (url, init) => {
+          requests.push(JSON.parse(init.body as string) as Record<string, unknown>);
+          return scripted(url, init);
+        },
+      });
+    }
+  }
+
+  const agent = (responseSchema: Record<string, unknown>): AgentConfig => ({
+    agent_name: 'scripted',
+    service_provider: SERVICE_PROVIDERS.SCRIPTED,
+    model_name: SCRIPT,
+    description: 'Offline test agent',
+    system_prompt: 'You are helpful.',
+    do_stream: true,
+    response_schema: responseSchema,
+  });
+
+  it('asks again until the answer matches the schema, and returns the object', async () => {
+    requests.length = 0;
+    const provider = new RecordingProvider(agent(weatherSchema));
+    const ws = new MockWebSocket();
+
+    const result = (await provider.makeApiCall([], 'Weather in Paris?', ws, true)) as {
+      completeMessages: { role: string; content: unknown }[];
+      structured_result?: unknown;
+    };
+
+    const expected = { city: 'Paris', temperature: 21, conditions: 'sunny' };
+    expect(result.structured_result).toEqual(expected);
+    expect(requests).toHaveLength(2);
+    expect(requests[0].response_format).toEqual({
+      type: 'json_schema',
+      json_schema: { name: 'response', schema: weatherSchema },
+    });
+    expect(result.completeMessages[2]).toEqual({
+      role: MESSAGE_ROLES.USER,
+      content: expect.stringMatching(
+        /^\[Your answer does not match the required JSON schema: the answer is not a JSON object\./
+      ),
+    });
+
+    const final = ws
+      .getMessages()
+      .filter((message) => message.data.final_sentence && message.data.role)
+      .map((message) => message.data as Record<string, unknown>);
+    expect(final).toHaveLength(1);
+    expect(final[0].structured_result).toEqual(expected);
+  });
+
+  it('gives up with a null result once the retries are used up', async () => {
+    requests.length = 0;
+    const strict = { ...weatherSchema, required: ['city', 'country'] };
+    const provider = new RecordingProvider(agent(strict));
+
+    const result = (await provider.makeApiCall([], 'Weather in Paris?')) as {
+      structured_result?: unknown;
+    };
+
+    expect(requests).toHaveLength(3);
+    expect(result.structured_result).toBeNull();
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect, afterAll, beforeAll } from 'vitest';
+import * as path from 'path';
+import winston from 'winston';
+import {
+  resolveToolApprovalPolicy,
+  ToolApprovalBroker,
+  ToolApprovalRequest,
+} from '../../src/shared/tools/tool-approval.js';
+import { ScriptedProvider } from '../../src/shared/services/scripted-provider.js';
+import { _TOOL_REGISTRY, toolFunction } from '../../src/shared/tools/tool-function-decorator.js';
+import {
+  DynamicToolRegistry,
+  ToolRegistryManagerAdapter,
+} from '../../src/shared/tools/dynamic-tool-registry.js';
+import { SERVICE_PROVIDERS } from '../../src/shared/constants/message-constants.js';
+import '../../src/shared/tools/functions/delete-agent.js';
+import { useInMemoryStores } from '../helpers/in-memory-stores.js';
+
+useInMemoryStores();
+
+const WRAPPED_WRITE_SCRIPT = path.join(__dirname, '../fixtures/scripts/wrapped-cypher-write.yaml');
+
+describe('resolveToolApprovalPolicy', () => {
+  it('uses the tool metadata, with agent policies taking precedence', () => {
+    expect(resolveToolApprovalPolicy('delete_agent', {})).toBe('confirm');
+    expect(resolveToolApprovalPolicy('delete_agent', {}, { delete_agent: 'deny' })).toBe('deny');
+    expect(resolveToolApprovalPolicy('get_current_datetime', {})).toBe('auto');
+  });
+
+  it('asks before Cypher queries that write to the graph', () => {
+    const tool = 'stonemonkey-memory_execute_cypher';
+
+    expect(resolveToolApprovalPolicy(tool, { query: 'MATCH (n) RETURN n', mode: 'READ' })).toBe(
+      'auto'
+    );
+    expect(resolveToolApprovalPolicy(tool, { query: 'MATCH (n) RETURN n', mode: 'WRITE' })).toBe(
+      'confirm'
+    );
+    expect(resolveToolApprovalPolicy(tool, { query: 'MATCH (n) DETACH DELETE n' })).toBe('confirm');
+    expect(resolveToolApprovalPolicy(tool, { query: 'MATCH (n) RETURN n' })).toBe('auto');
+  });
+});
+
+describe('ToolApprovalBroker', () => {
+  it('sends a request and resolves with the client reply', async () => {
+    const sent: ToolApprovalRequest[] = [];
+    const broker = new ToolApprovalBroker((request) => sent.push(request));
+
+    const decision = broker.request({ tool_name: 'delete_agent', arguments: { agentKey: 'old' } });
+    expect(sent).toHaveLength(1);
+    expect(sent[0].arguments).toEqual({ agentKey: 'old' });
+
+    expect(broker.respond(sent[0].approval_id, { approved: true })).toBe(true);
+    await expect(decision).resolves.toEqual({ approved: true });
+    expect(broker.respond(sent[0].approval_id, { approved: false })).toBe(false);
+  });
+
+  it('denies when the turn is cancelled or the reply does not come in time', async () => {
+    const broker = new ToolApprovalBroker(() => undefined, 10);
+    const turn = new AbortController();
+
+    const cancelled = broker.request({ tool_name: 'delete_tool', arguments: {} }, turn.signal);
+    turn.abort();
+    await expect(cancelled).resolves.toMatchObject({ approved: false, reason: 'Turn cancelled' });
+
+    const timedOut = await broker.request({ tool_name: 'delete_tool', arguments: {} });
+    expect(timedOut.approved).toBe(false);
+    expect(broker.size).toBe(0);
+  });
+
+  it('denies pending requests when the connection closes', async () => {
+    const broker = new ToolApprovalBroker(() => undefined);
+
+    const decision = broker.request({ tool_name: 'upload_tool', arguments: {} });
+    broker.denyAll('Connection closed');
+
+    await expect(decision).resolves.toEqual({ approved: false, reason: 'Connection closed' });
+  });
+});
+
+describe('Tool approval in the tool loop', () => {
+  const cypherTool = {
+    name: 'test-memory_execute_cypher',
+    description: 'Run a Cypher query against the memory graph',
+    parameters: {
+      type: 'object',
+      properties: { query: { type: 'string' }, mode: { type: 'string' } },
+      required: ['query'],
+    },
+    enabled: true,
+  };
+  const queries: string[] = [];
+
+  beforeAll(() => {
+    toolFunction(
+      cypherTool.name,
+      cypherTool.description,
+      cypherTool.parameters
+    )((params: unknown) => {
+      queries.push((params as { query: string }).query);
+      return 'Created 1 node';
+    });
+  });
+
+  afterAll(() => {
+    _TOOL_REGISTRY.delete(cypherTool.name);
+  });
+
+  it('asks about a write query the model wrapped in another object', async () => {
+    const provider = new ScriptedProvider(
+      {
+        agent_name: 'scripted',
+        service_provider: SERVICE_PROVIDERS.SCRIPTED,
+        model_name: WRAPPED_WRITE_SCRIPT,
+        description: 'Offline test agent',
+        system_prompt: 'You are helpful.',
+        do_stream: false,
+      },
+      { [cypherTool.name]: cypherTool }
+    );
+    provider.setToolRegistryAdapter(
+      new ToolRegistryManagerAdapter(
+        {} as DynamicToolRegistry,
+        winston.createLogger({ silent: true })
+      )
+    );
+    const asked: { tool_name: string; arguments: Record<string, unknown> }[] = [];
+    provider.setToolApprovalHandler((request) => {
+      asked.push(request);
+      return Promise.resolve({ approved: false });
+    });
+
+    await provider.makeApiCall([], 'Remember that I like tea');
+
+    expect(asked).toEqual([
+      {
+        tool_name: cypherTool.name,
+        arguments: { query: "CREATE (n:Note {text: 'tea'}) RETURN n" },
+      },
+    ]);
+    expect(queries).toEqual([]);
+  });
+});
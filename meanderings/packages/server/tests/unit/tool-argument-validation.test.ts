@@ -0,0 +1,163 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import winston from 'winston';
+import {
+  getToolArgumentSchema,
+  getToolValidationStats,
+  resetToolValidationStats,
+  validateToolArguments,
+} from '../../src/shared/tools/tool-argument-validation.js';
+import { _TOOL_REGISTRY, toolFunction } from '../../src/shared/tools/tool-function-decorator.js';
+import {
+  DynamicToolRegistry,
+  ToolRegistryManagerAdapter,
+} from '../../src/shared/tools/dynamic-tool-registry.js';
+
+const searchSchema = {
+  type: 'object',
+  properties: {
+    query: { type: 'string', minLength: 1 },
+    limit: { type: 'integer', minimum: 1, maximum: 50 },
+    exact: { type: 'boolean' },
+    tags: { type: 'array', items: { type: 'string' } },
+    sort: { type: 'string', enum: ['date', 'relevance'] },
+    filters: {
+      type: 'object',
+      properties: { since: { type: 'string' } },
+      additionalProperties: false,
+    },
+  },
+  required: ['query'],
+};
+
+describe('validateToolArguments', () => {
+  it('coerces values with one sensible reading', () => {
+    const validation = validateToolArguments(searchSchema, {
+      query: 42,
+      limit: '10',
+      exact: 'false',
+      tags: 'tea',
+      filters: '{"since":"2024-01-01"}',
+      sort: null,
+    });
+
+    expect(validation.valid).toBe(true);
+    expect(validation.args).toEqual({
+      query: '42',
+      limit: 10,
+      exact: false,
+      tags: ['tea'],
+      filters: { since: '2024-01-01' },
+    });
+    expect(validation.coerced).toEqual(['query', 'limit', 'exact', 'tags', 'filters', 'sort']);
+  });
+
+  it('reports every problem with its path', () => {
+    const validation = validateToolArguments(searchSchema, {
+      limit: '2.5',
+      tags: ['tea', { name: 'green' }],
+      sort: 'name',
+      filters: { since: '2024', until: '2025' },
+    });
+
+    expect(validation.valid).toBe(false);
+    expect(validation.issues).toEqual([
+      { path: 'query', message: 'is required' },
+      { path: 'limit', message: 'must be integer, got string' },
+      { path: 'tags[1]', message: 'must be string, got object' },
+      { path: 'sort', message: 'must be one of "date", "relevance"' },
+      {
+        path: 'filters.until',
+        message: 'is not a parameter of this tool; expected since',
+      },
+    ]);
+  });
+
+  it('reads legacy property maps with required flags as schemas', () => {
+    const schema = getToolArgumentSchema({
+      parameters: { city: { type: 'string', required: true }, days: { type: 'number' } },
+    });
+
+    expect(validateToolArguments(schema, { days: 3 }).issues).toEqual([
+      { path: 'city', message: 'is required' },
+    ]);
+    expect(validateToolArguments(getToolArgumentSchema({ parameters: {} }), { any: 1 }).valid).toBe(
+      true
+    );
+  });
+});
+
+describe('Tool argument validation before execution', () => {
+  const adapter = new ToolRegistryManagerAdapter(
+    {} as DynamicToolRegistry,
+    winston.createLogger({ silent: true })
+  );
+  const received: unknown[] = [];
+
+  afterEach(() => {
+    _TOOL_REGISTRY.delete('test_search');
+    received.length = 0;
+    resetToolValidationStats();
+  });
+
+  it('runs tools with coerced arguments and answers invalid calls with the problems', async () => {
+    toolFunction(
+      'test_search',
+      'Search notes',
+      searchSchema
+    )((params) => {
+      received.push(params);
+      return 'found';
+    });
+
+    expect(await adapter.executeTool('test_search', { query: 'tea', limit: '5' })).toBe('found');
+    expect(received).toEqual([{ query: 'tea', limit: 5 }]);
+
+    const result = JSON.parse(
+      (await adapter.executeTool('test_search', { limit: 500 })) as string
+    ) as Record<string, unknown>;
+    expect(received).toHaveLength(1);
+    expect(result).toMatchObject({
+      success: false,
+      error: "Invalid arguments for tool 'test_search'",
+      validation_errors: [
+        { parameter: 'query', problem: 'is required' },
+        { parameter: 'limit', problem: 'must be at most 50' },
+      ],
+      expected_schema: searchSchema,
+    });
+
+    expect(getToolValidationStats().test_search).toMatchObject({
+      calls: 2,
+      valid: 1,
+      coerced: 1,
+      invalid: 1,
+      last_issues: [
+        { path: 'query', message: 'is required' },
+        { path: 'limit', message: 'must be at most 50' },
+      ],
+    });
+  });
+
+  it('checks calls made through the dynamic registry too', async () => {
+    const registry = new DynamicToolRegistry(
+      winston.createLogger({ silent: true }),
+      [
+        {
+          name: 'test_search',
+          description: 'Search notes',
+          parameters: searchSchema,
+          enabled: true,
+        },
+      ],
+      { test_search: (params) => params }
+    );
+
+    expect(await registry.callFunction('test_search', { query: 'tea', exact: 'true' })).toEqual({
+      query: 'tea',
+      exact: true,
+    });
+    expect(await registry.callFunction('test_search', { query: '' })).toContain(
+      'must be at least 1 characters'
+    );
+  });
+});
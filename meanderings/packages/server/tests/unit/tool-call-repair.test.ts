@@ -0,0 +1,210 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as path from 'path';
+import winston from 'winston';
+import {
+  parseToolArguments,
+  repairToolCall,
+  resolveToolName,
+} from '../../src/shared/tools/tool-call-repair.js';
+import { createToolNameMapping } from '../../src/shared/utils/tool-name-sanitizer.js';
+import { ScriptedProvider } from '../../src/shared/services/scripted-provider.js';
+import { _TOOL_REGISTRY, toolFunction } from '../../src/shared/tools/tool-function-decorator.js';
+import {
+  DynamicToolRegistry,
+  ToolRegistryManagerAdapter,
+} from '../../src/shared/tools/dynamic-tool-registry.js';
+import { SERVICE_PROVIDERS, MESSAGE_ROLES } from '../../src/shared/constants/message-constants.js';
+import type { AgentConfig, ToolCall } from '../../src/shared/types/index.js';
+import { useInMemoryStores } from '../helpers/in-memory-stores.js';
+
+useInMemoryStores();
+
+const SCRIPT = path.join(__dirname, '../fixtures/scripts/malformed-tool-calls.yaml');
+const UNREADABLE_SCRIPT = path.join(__dirname, '../fixtures/scripts/unreadable-tool-calls.yaml');
+
+const weatherTool = {
+  name: 'test-lookup-weather',
+  description: 'Look up the weather in a city',
+  parameters: { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] },
+  enabled: true,
+};
+
+describe('parseToolArguments', () => {
+  it('reads truncated and loosely written JSON', () => {
+    expect(parseToolArguments('{"city": "Paris", "days": 3')).toEqual({
+      value: { city: 'Paris', days: 3 },
+      repairs: ['unclosed brackets closed'],
+    });
+    expect(parseToolArguments('{"city": "Par')?.value).toEqual({ city: 'Par' });
+    expect(parseToolArguments('{"city": "Paris", "da')).toEqual({
+      value: { city: 'Paris' },
+      repairs: [
+        'unclosed string closed',
+        'incomplete last entry dropped',
+        'unclosed brackets closed',
+      ],
+    });
+    expect(parseToolArguments("{city: 'Rome', tags: ['a', 'b',], exact: True,}")).toEqual({
+      value: { city: 'Rome', tags: ['a', 'b'], exact: true },
+      repairs: [
+        'unquoted keys quoted',
+        'single quotes replaced',
+        'trailing commas removed',
+        'Python literals replaced',
+      ],
+    });
+    expect(parseToolArguments('```json\n{"city": "Oslo"}\n```')?.value).toEqual({ city: 'Oslo' });
+    expect(parseToolArguments('"{\\"city\\": \\"Oslo\\"}"')?.repairs).toEqual([
+      'arguments encoded twice decoded',
+    ]);
+  });
+
+  it('gives up on arguments with no sensible reading', () => {
+    expect(parseToolArguments('Paris')).toBeNull();
+    expect(parseToolArguments('["Paris"]')).toBeNull();
+  });
+});
+
+describe('resolveToolName', () => {
+  const known = ['memory-search', 'memory-store', 'get_current_datetime'];
+  const mapping = createToolNameMapping(known);
+
+  it('maps sanitized names back and nearly-right names to the one close tool', () => {
+    expect(resolveToolName('memory_search', known, mapping)).toEqual({ name: 'memory-search' });
+    expect(resolveToolName('functions.get_current_datetime', known, mapping)).toEqual({
+      name: 'get_current_datetime',
+      repair: "tool name 'functions.get_current_datetime' read as 'get_current_datetime'",
+    });
+    expect(resolveToolName('get_curent_datetime', known, mapping)?.name).toBe(
+      'get_current_datetime'
+    );
+  });
+
+  it('does not guess between tools or at unrelated names', () => {
+    expect(resolveToolName('memory_stor', known, mapping)?.name).toBe('memory-store');
+    expect(resolveToolName('memory_s', known, mapping)).toBeNull();
+    expect(resolveToolName('send_email', known, mapping)).toBeNull();
+  });
+
+  it('names every problem with a call it cannot repair', () => {
+    expect(repairToolCall('send_email', '{"to": ', known, mapping)).toMatchObject({
+      name: null,
+      problem: "There is no tool named 'send_email'",
+    });
+    expect(repairToolCall('memory_store', 'remember this', known, mapping)).toMatchObject({
+      name: 'memory-store',
+      arguments: null,
+      problem: 'The arguments are not valid JSON',
+    });
+  });
+});
+
+describe('Tool call repair in the tool loop', () => {
+  const lookups: string[] = [];
+
+  function createProvider(toolCallRetries?: number, script = SCRIPT): ScriptedProvider {
+    const agentConfig: AgentConfig = {
+      agent_name: 'scripted',
+      service_provider: SERVICE_PROVIDERS.SCRIPTED,
+      model_name: script,
+      description: 'Offline test agent',
+      system_prompt: 'You are helpful.',
+      do_stream: false,
+      tool_call_retries: toolCallRetries,
+    };
+    const provider = new ScriptedProvider(agentConfig, { [weatherTool.name]: weatherTool });
+    provider.setToolRegistryAdapter(
+      new ToolRegistryManagerAdapter(
+        {} as DynamicToolRegistry,
+        winston.createLogger({ silent: true })
+      )
+    );
+    return provider;
+  }
+
+  beforeAll(() => {
+    toolFunction(
+      weatherTool.name,
+      weatherTool.description,
+      weatherTool.parameters
+    )(async (params: unknown) => {
+      const { city } = params as { city: string };
+      lookups.push(city);
+      return `Sunny in ${city}`;
+    });
+  });
+
+  afterAll(() => {
+    _TOOL_REGISTRY.delete(weatherTool.name);
+  });
+
+  it('runs repaired calls, corrects the rest and records the repairs', async () => {
+    lookups.length = 0;
+    const { completeMessages } = await createProvider().makeApiCall([], 'Paris and Rome?');
+
+    expect(lookups).toEqual(['Paris', 'Rome']);
+    const calls = completeMessages.flatMap((message) => message.tool_calls ?? []) as ToolCall[];
+    expect(calls.map((call) => call.function?.arguments)).toEqual([
+      '{"city":"Paris"}',
+      '{"city":"Rome"}',
+      '{"city":"Oslo"}',
+    ]);
+
+    const results = completeMessages
+      .filter((message) => message.role === MESSAGE_ROLES.TOOL)
+      .map((message) => message.content as string);
+    expect(results[0]).toBe(
+      'Sunny in Paris\n\n[Tool call repaired: arguments: unclosed string closed, unclosed brackets closed]'
+    );
+    expect(results[1]).toContain(
+      "[Tool call repaired: tool name 'test_lookup_wether' read as 'test-lookup-weather'; arguments:"
+    );
+    expect(JSON.parse(results[2])).toEqual({
+      success: false,
+      error: "Malformed call to tool 'get_forecast'",
+      problem: "There is no tool named 'get_forecast'",
+      available_tools: ['test_lookup_weather'],
+      retries_left: 2,
+      message:
+        'Call one of the available tools again, with its arguments as a complete JSON object.',
+    });
+    expect(completeMessages[completeMessages.length - 1].content).toBe(
+      'It is sunny in Paris and Rome.'
+    );
+  });
+
+  it('tells the model to stop calling tools once its retries are used up', async () => {
+    const { completeMessages } = await createProvider(0).makeApiCall([], 'Paris and Rome?');
+
+    const correction = JSON.parse(
+      completeMessages.filter((message) => message.role === MESSAGE_ROLES.TOOL)[2].content as string
+    ) as Record<string, unknown>;
+    expect(correction).toMatchObject({
+      retries_exhausted: true,
+      message: 'Stop calling tools and answer the user with what you have.',
+    });
+  });
+
+  it('stops the tool loop once the request has used up its retries', async () => {
+    const provider = createProvider(1, UNREADABLE_SCRIPT);
+    const corrections = (messages: { role: string; content?: unknown }[]) =>
+      messages
+        .filter((message) => message.role === MESSAGE_ROLES.TOOL)
+        .map((message) => JSON.parse(message.content as string) as Record<string, unknown>);
+
+    const first = await provider.makeApiCall([], 'Weather in Oslo?');
+
+    expect(corrections(first.completeMessages)).toEqual([
+      expect.objectContaining({ retries_left: 1 }),
+      expect.objectContaining({ retries_exhausted: true }),
+    ]);
+    expect(first.response).toEqual({
+      role: MESSAGE_ROLES.ASSISTANT,
+      content: 'I stopped because it made 3 tool calls that could not be read.',
+    });
+
+    // The next request starts with its own retries
+    const second = await provider.makeApiCall([], 'Weather in Bergen?');
+    expect(corrections(second.completeMessages)[0]).toMatchObject({ retries_left: 1 });
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import winston from 'winston';
+import {
+  DEFAULT_TOOL_TIMEOUT_MS,
+  mapWithConcurrency,
+} from '../../src/shared/tools/tool-execution.js';
+import { _TOOL_REGISTRY, toolFunction } from '../../src/shared/tools/tool-function-decorator.js';
+import {
+  DynamicToolRegistry,
+  ToolRegistryManagerAdapter,
+} from '../../src/shared/tools/dynamic-tool-registry.js';
+import '../../src/shared/tools/functions/claude-code-delegate.js';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('mapWithConcurrency', () => {
+  it('never runs more than the limit at once and keeps the input order', async () => {
+    let running = 0;
+    let peak = 0;
+
+    const results = await mapWithConcurrency([30, 10, 20, 5, 15], 2, async (ms, index) => {
+      running++;
+      peak = Math.max(peak, running);
+      await sleep(ms);
+      running--;
+      return index;
+    });
+
+    expect(results).toEqual([0, 1, 2, 3, 4]);
+    expect(peak).toBe(2);
+  });
+});
+
+describe('ToolRegistryManagerAdapter timeouts', () => {
+  const adapter = new ToolRegistryManagerAdapter(
+    {} as DynamicToolRegistry,
+    winston.createLogger({ silent: true })
+  );
+
+  afterEach(() => {
+    _TOOL_REGISTRY.delete('test_slow_tool');
+  });
+
+  it('answers a hung tool with a timeout result and aborts its signal', async () => {
+    let aborted = false;
+    toolFunction(
+      'test_slow_tool',
+      'Never finishes',
+      {},
+      true,
+      undefined,
+      20
+    )(async (_params, context) => {
+      context?.signal?.addEventListener('abort', () => (aborted = true));
+      await new Promise(() => undefined);
+    });
+
+    const result = await adapter.executeTool('test_slow_tool', {}, { agentName: 'ailumina' });
+
+    expect(JSON.parse(result as string)).toEqual({
+      success: false,
+      error: "Tool 'test_slow_tool' timed out after 20ms",
+      timed_out: true,
+    });
+    expect(aborted).toBe(true);
+  });
+
+  it('returns results that arrive in time', async () => {
+    toolFunction(
+      'test_slow_tool',
+      'Finishes quickly',
+      {},
+      true,
+      undefined,
+      200
+    )(async () => 'done');
+
+    await expect(adapter.executeTool('test_slow_tool', {})).resolves.toBe('done');
+  });
+
+  it('lets a delegate run past the default timeout', async () => {
+    const delegate = _TOOL_REGISTRY.get('claude_code_delegate')!;
+    const cliRun = delegate.function;
+    let started!: () => void;
+    let finish!: (result: string) => void;
+    const running = new Promise<void>((resolve) => (started = resolve));
+    let aborted = false;
+    delegate.function = (_params, context) => {
+      context?.signal?.addEventListener('abort', () => (aborted = true));
+      started();
+      return new Promise<string>((resolve) => (finish = resolve));
+    };
+    vi.useFakeTimers();
+
+    try {
+      const result = adapter.executeTool('claude_code_delegate', { task: 'Refactor the parser' });
+      await running;
+      vi.advanceTimersByTime(DEFAULT_TOOL_TIMEOUT_MS * 5);
+      finish('Refactored');
+
+      await expect(result).resolves.toBe('Refactored');
+      expect(aborted).toBe(false);
+    } finally {
+      vi.useRealTimers();
+      delegate.function = cliRun;
+    }
+  });
+});
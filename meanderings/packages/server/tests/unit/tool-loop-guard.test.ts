@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as path from 'path';
+import winston from 'winston';
+import { ToolLoopGuard } from '../../src/shared/tools/tool-loop-guard.js';
+import { OpenAICompatibleProvider } from '../../src/shared/services/openai-compatible-provider.js';
+import {
+  createScriptedFetch,
+  loadProviderScript,
+} from '../../src/shared/services/scripted-provider.js';
+import { _TOOL_REGISTRY, toolFunction } from '../../src/shared/tools/tool-function-decorator.js';
+import {
+  DynamicToolRegistry,
+  ToolRegistryManagerAdapter,
+} from '../../src/shared/tools/dynamic-tool-registry.js';
+import { SERVICE_PROVIDERS, MESSAGE_ROLES } from '../../src/shared/constants/message-constants.js';
+import type { AgentConfig } from '../../src/shared/types/index.js';
+import { useInMemoryStores } from '../helpers/in-memory-stores.js';
+
+useInMemoryStores();
+
+const SCRIPT = path.join(__dirname, '../fixtures/scripts/repeated-tool-calls.yaml');
+
+const call = (name: string, args: Record<string, unknown> = {}) => ({
+  name,
+  arguments: JSON.stringify(args),
+});
+
+describe('ToolLoopGuard', () => {
+  it('stops the third identical round, whatever the argument order', () => {
+    const guard = new ToolLoopGuard(25);
+
+    expect(guard.check([call('search', { query: 'tea', limit: 5 })])).toBeNull();
+    expect(guard.check([call('search', { limit: 5, query: 'tea' })])).toBeNull();
+    expect(guard.check([call('search', { query: 'tea', limit: 5 })])).toBe(
+      'it called search with the same arguments 3 times in a row'
+    );
+    // The stopped round isn't counted, and different arguments may still run
+    expect(guard.check([call('search', { query: 'coffee' })])).toBeNull();
+  });
+
+  it('stops rounds that keep cycling', () => {
+    const guard = new ToolLoopGuard(25);
+    const rounds = [call('open_file', { path: 'a' }), call('close_file', { path: 'a' })];
+
+    for (let index = 0; index < 5; index++) {
+      expect(guard.check([rounds[index % 2]])).toBeNull();
+    }
+    expect(guard.check([rounds[1]])).toBe(
+      'it kept repeating the same 2 rounds of tool calls (open_file → close_file)'
+    );
+  });
+
+  it('stops once the request has used up its iterations', () => {
+    const guard = new ToolLoopGuard(2);
+
+    expect(guard.check([call('step', { n: 1 })])).toBeNull();
+    expect(guard.check([call('step', { n: 2 })])).toBeNull();
+    expect(guard.check([call('step', { n: 3 })])).toBe(
+      'it reached the limit of 2 rounds of tool calls for one request'
+    );
+  });
+});
+
+describe('Tool loop wrap-up', () => {
+  const checks: number[] = [];
+  const requests: Record<string, unknown>[] = [];
+  const jobStatusTool = {
+    name: 'test_job_status',
+    description: 'Check on a job',
+    parameters: { type: 'object', properties: { job: { type: 'number' } }, required: ['job'] },
+    enabled: true,
+  };
+
+  class RecordingProvider extends OpenAICompatibleProvider {
+    constructor(agentConfig: AgentConfig) {
+      const scripted = createScriptedFetch(loadProviderScript(SCRIPT));
+      super(
+        agentConfig,
+        SERVICE_PROVIDERS.SCRIPTED,
+        {
+          apiKey: 'scripted',
+          baseUrl: 'http://scripted.invalid/v1',
+          fetch: (url, init) => {
+            requests.push(JSON.parse(init.body as string) as Record<string, unknown>);
+            return scripted(url, init);
+          },
+        },
+        { test_job_status: jobStatusTool }
+      );
+    }
+  }
+
+  beforeAll(() => {
+    toolFunction(
+      jobStatusTool.name,
+      jobStatusTool.description,
+      jobStatusTool.parameters
+    )(async (params: unknown) => {
+      checks.push((params as { job: number }).job);
+      return 'running';
+    });
+  });
+
+  afterAll(() => {
+    _TOOL_REGISTRY.delete(jobStatusTool.name);
+  });
+
+  it('answers without tools once the model repeats itself', async () => {
+    const provider = new RecordingProvider({
+      agent_name: 'scripted',
+      service_provider: SERVICE_PROVIDERS.SCRIPTED,
+      model_name: SCRIPT,
+      description: 'Offline test agent',
+      system_prompt: 'You are helpful.',
+      do_stream: false,
+    });
+    provider.setToolRegistryAdapter(
+      new ToolRegistryManagerAdapter(
+        {} as DynamicToolRegistry,
+        winston.createLogger({ silent: true })
+      )
+    );
+
+    const { response, completeMessages } = await provider.makeApiCall([], 'Is job 42 done?');
+
+    expect(checks).toEqual([42, 42]);
+    expect(requests.map((request) => request.tool_choice)).toEqual([
+      'auto',
+      'auto',
+      'auto',
+      'none',
+    ]);
+    expect(completeMessages.slice(-2)).toEqual([
+      {
+        role: MESSAGE_ROLES.USER,
+        content: expect.stringContaining(
+          'Tool use stopped: it called test_job_status with the same arguments 3 times in a row'
+        ),
+      },
+      {
+        role: MESSAGE_ROLES.ASSISTANT,
+        content: 'Job 42 is still running. I stopped checking because the status was not changing.',
+      },
+    ]);
+    expect(response).toEqual(completeMessages[completeMessages.length - 1]);
+  });
+});
@@ -0,0 +1,223 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Database } from 'bun:sqlite';
+import { AgentConfigManager } from '../../src/shared/config/agent-config.js';
+import { TriggerEventStore } from '../../src/shared/services/trigger-event-store.js';
+import { TriggerManager, renderTriggerPrompt } from '../../src/shared/services/trigger-manager.js';
+import { validateTriggersFile } from '../../src/shared/schemas/triggers-schema.js';
+import { parseCron, nextCronTime } from '../../src/shared/utils/cron.js';
+import { SERVICE_PROVIDERS } from '../../src/shared/constants/message-constants.js';
+import { useInMemoryStores } from '../helpers/in-memory-stores.js';
+
+useInMemoryStores();
+
+const DIGEST_SCRIPT = path.join(__dirname, '../fixtures/scripts/trigger-digest.yaml');
+
+describe('cron schedules', () => {
+  it('finds the next matching minute', () => {
+    const schedule = parseCron('*/15 9-17 * * 1-5');
+
+    // Friday 17:50 -> Monday 09:00
+    expect(nextCronTime(schedule, new Date(2026, 9, 16, 17, 50))).toEqual(
+      new Date(2026, 9, 19, 9, 0)
+    );
+    expect(nextCronTime(schedule, new Date(2026, 9, 19, 9, 0))).toEqual(
+      new Date(2026, 9, 19, 9, 15)
+    );
+  });
+
+  it('matches either day field when both are restricted', () => {
+    const schedule = parseCron('0 0 1 * 0');
+
+    // Thursday 1 October 2026 -> Sunday 4 October
+    expect(nextCronTime(schedule, new Date(2026, 9, 1, 12, 0))).toEqual(new Date(2026, 9, 4));
+  });
+
+  it('rejects malformed expressions', () => {
+    expect(() => parseCron('* * *')).toThrow('must have 5 fields');
+    expect(() => parseCron('60 * * * *')).toThrow('minute 60 is outside 0-59');
+    expect(() =>
+      validateTriggersFile({ nightly: { agent: 'a', prompt: 'p', schedule: 'daily' } })
+    ).toThrow('Schedule must be a five-field cron expression');
+    expect(() => validateTriggersFile({ idle: { agent: 'a', prompt: 'p' } })).toThrow(
+      'A trigger needs a schedule, webhook: true, or both'
+    );
+  });
+});
+
+describe('trigger names', () => {
+  it('rejects names taken by the trigger management routes', () => {
+    expect(() =>
+      validateTriggersFile({ reload: { agent: 'a', prompt: 'p', webhook: true } })
+    ).toThrow('reload: Trigger names may not be reload');
+    expect(
+      validateTriggersFile({ 'reload-cache': { agent: 'a', prompt: 'p', webhook: true } })
+    ).toHaveProperty('reload-cache');
+  });
+});
+
+describe('renderTriggerPrompt', () => {
+  it('fills placeholders from the event', () => {
+    const prompt = renderTriggerPrompt(
+      '{{trigger}}: {{payload.repo}} {{ payload.labels }}{{missing}}',
+      {
+        trigger: 'github',
+        payload: { repo: 'meanderings', labels: ['bug'] },
+      }
+    );
+
+    expect(prompt).toBe('github: meanderings ["bug"]');
+  });
+});
+
+describe('TriggerManager', () => {
+  let workDir: string;
+  let store: TriggerEventStore;
+  let agentConfigs: AgentConfigManager;
+
+  beforeAll(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'trigger-manager-'));
+    const digest = {
+      agent_name: 'digest',
+      service_provider: SERVICE_PROVIDERS.SCRIPTED,
+      model_name: DIGEST_SCRIPT,
+      description: 'Offline digest agent',
+      system_prompt: 'You summarise events.',
+      do_stream: false,
+    };
+    const configPath = path.join(workDir, 'agents.json');
+    fs.writeFileSync(
+      configPath,
+      JSON.stringify({ AIlumina: { ...digest, agent_name: 'AIlumina' }, digest })
+    );
+    agentConfigs = new AgentConfigManager(configPath);
+  });
+
+  afterEach(() => {
+    store?.close();
+  });
+
+  afterAll(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  function createManager(triggers: unknown): TriggerManager {
+    store = new TriggerEventStore({ dbPath: ':memory:' });
+    return new TriggerManager({ triggers: validateTriggersFile(triggers), store, agentConfigs });
+  }
+
+  it('records the transcript, tool calls and outcome of a run', async () => {
+    const manager = createManager({
+      'new-events': {
+        agent: 'digest',
+        prompt: 'Summarise events from {{payload.source}}',
+        webhook: true,
+      },
+    });
+
+    const started = manager.start('new-events', 'webhook', { source: 'memory' });
+    expect(started.run).toMatchObject({ status: 'running', source: 'webhook' });
+
+    const run = await started.finished;
+
+    expect(run).toMatchObject({
+      trigger_name: 'new-events',
+      agent_name: 'digest',
+      status: 'succeeded',
+      attempts: 1,
+      prompt: 'Summarise events from memory',
+      payload: { source: 'memory' },
+      outcome: 'There were 3 new events.',
+      conversation_id: `new-events-${run.id}`,
+      error: null,
+    });
+    expect(run.tool_calls).toEqual([
+      { name: 'test_count_events', arguments: { since: 'yesterday' } },
+    ]);
+    expect(run.transcript[0]).toMatchObject({ content: 'Summarise events from memory' });
+    expect(store.listRuns({ triggerName: 'new-events' }).map((summary) => summary.id)).toEqual([
+      run.id,
+    ]);
+  });
+
+  it('retries a failing run and records the last error', async () => {
+    const manager = createManager({
+      orphan: { agent: 'missing', prompt: 'Hello', webhook: true, retries: 2, retry_delay_ms: 0 },
+    });
+
+    const run = await manager.start('orphan', 'webhook').finished;
+
+    expect(run).toMatchObject({
+      status: 'failed',
+      attempts: 3,
+      error: "Agent 'missing' not found",
+    });
+    expect(store.listRuns({ status: 'failed' })).toHaveLength(1);
+  });
+
+  it('replays a run with the same prompt and payload', async () => {
+    const manager = createManager({
+      'new-events': { agent: 'digest', prompt: 'Summarise {{payload.n}} events', webhook: true },
+    });
+    const original = await manager.start('new-events', 'webhook', { n: 3 }).finished;
+
+    const replay = await manager.replay(original.id)?.finished;
+
+    expect(replay).toMatchObject({
+      source: 'replay',
+      replay_of: original.id,
+      prompt: 'Summarise 3 events',
+      payload: { n: 3 },
+      status: 'succeeded',
+    });
+    expect(manager.replay('run-unknown')).toBeNull();
+  });
+
+  it('lists scheduled triggers with their next run once the scheduler starts', () => {
+    const manager = createManager({
+      hourly: { agent: 'digest', prompt: 'Check in', schedule: '0 * * * *' },
+      hook: { agent: 'digest', prompt: 'Look', webhook: true },
+    });
+
+    manager.startScheduler();
+    const [hourly, hook] = manager.listTriggers();
+    manager.stopScheduler();
+
+    expect(new Date(hourly.next_run_at as string).getMinutes()).toBe(0);
+    expect(hook).toMatchObject({ name: 'hook', webhook: true, next_run_at: null });
+  });
+});
+
+describe('TriggerEventStore', () => {
+  it('adds the run columns to a trigger_events table made by log_trigger_event', () => {
+    const dbPath = path.join(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'trigger-events-')),
+      'events.db'
+    );
+    const legacy = new Database(dbPath, { create: true });
+    legacy.exec(`CREATE TABLE trigger_events (
+      id TEXT PRIMARY KEY, event_type TEXT NOT NULL, event_data TEXT NOT NULL,
+      analysis TEXT NOT NULL, timestamp TEXT NOT NULL, created_at TEXT DEFAULT (datetime('now'))
+    )`);
+    legacy.exec(`INSERT INTO trigger_events (id, event_type, event_data, analysis, timestamp)
+      VALUES ('evt-1', 'new_memory_created', '{}', 'Noted', '2026-01-01T00:00:00Z')`);
+    legacy.close();
+
+    const store = new TriggerEventStore({ dbPath });
+    const run = store.createRun({
+      trigger_name: 'nightly',
+      agent_name: 'digest',
+      source: 'schedule',
+      prompt: 'Go',
+      payload: null,
+    });
+
+    expect(store.getRun(run.id)).toMatchObject({ status: 'running', attempts: 0 });
+    expect(store.listRuns()).toHaveLength(1);
+    expect(store.getRun('evt-1')).toBeNull();
+    store.close();
+    fs.rmSync(path.dirname(dbPath), { recursive: true, force: true });
+  });
+});
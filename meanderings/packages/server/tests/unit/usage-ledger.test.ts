@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { UsageLedger, UsageEntry } from '../../src/shared/services/usage-ledger.js';
+import { ModelPricing } from '../../src/shared/config/model-pricing.js';
+import { validateModelPricingFile } from '../../src/shared/schemas/model-pricing-schema.js';
+import { SERVICE_PROVIDERS } from '../../src/shared/constants/message-constants.js';
+
+const pricing = new ModelPricing(
+  validateModelPricingFile({
+    models: {
+      'claude-sonnet-4': { input: 3, output: 15, cache_read: 0.3 },
+      'gpt-4o': { input: 2.5, output: 10 },
+      'gpt-4o-mini': { input: 0.15, output: 0.6 },
+    },
+    providers: {
+      [SERVICE_PROVIDERS.OLLAMA]: { input: 0, output: 0 },
+    },
+  })
+);
+
+function entry(overrides: Partial<UsageEntry> = {}): UsageEntry {
+  return {
+    agent_name: 'ailumina',
+    conversation_id: 'conv-1',
+    service_provider: SERVICE_PROVIDERS.ANTHROPIC,
+    model_name: 'claude-sonnet-4-20250514',
+    input_tokens: 1_000_000,
+    output_tokens: 100_000,
+    cache_creation_input_tokens: 0,
+    cache_read_input_tokens: 0,
+    total_tokens: 1_100_000,
+    latency_ms: 1200,
+    ...overrides,
+  };
+}
+
+describe('ModelPricing', () => {
+  it('prefers the longest matching model prefix', () => {
+    expect(pricing.getPrice(SERVICE_PROVIDERS.OPENAI, 'gpt-4o-mini-2024-07-18')?.input).toBe(0.15);
+    expect(pricing.getPrice(SERVICE_PROVIDERS.OPENAI, 'gpt-4o-2024-08-06')?.input).toBe(2.5);
+  });
+
+  it('falls back to the provider price, then to no price', () => {
+    expect(pricing.getPrice(SERVICE_PROVIDERS.OLLAMA, 'llama3.2:3b')).toEqual({
+      input: 0,
+      output: 0,
+    });
+    expect(pricing.getPrice(SERVICE_PROVIDERS.GOOGLE, 'gemini-2.5-flash')).toBeNull();
+  });
+
+  it('prices cache reads separately and cache writes at the input price by default', () => {
+    const cost = pricing.calculateCost(SERVICE_PROVIDERS.ANTHROPIC, 'claude-sonnet-4', {
+      input_tokens: 0,
+      output_tokens: 0,
+      cache_creation_input_tokens: 1_000_000,
+      cache_read_input_tokens: 1_000_000,
+    });
+    expect(cost).toBeCloseTo(3.3);
+  });
+});
+
+describe('UsageLedger', () => {
+  let ledger: UsageLedger;
+
+  beforeEach(() => {
+    ledger = new UsageLedger({ dbPath: ':memory:', pricing });
+  });
+
+  afterEach(() => {
+    ledger.close();
+  });
+
+  it('records calls with their cost', () => {
+    const record = ledger.record(entry());
+
+    expect(record.cost).toBeCloseTo(4.5);
+    expect(ledger.list()).toHaveLength(1);
+    expect(ledger.list()[0].latency_ms).toBe(1200);
+  });
+
+  it('stores a null cost for models without a price', () => {
+    const record = ledger.record(
+      entry({ service_provider: SERVICE_PROVIDERS.GOOGLE, model_name: 'gemini-2.5-flash' })
+    );
+    expect(record.cost).toBeNull();
+
+    const totals = ledger.totals();
+    expect(totals.calls).toBe(1);
+    expect(totals.unpriced_calls).toBe(1);
+    expect(totals.cost).toBe(0);
+  });
+
+  it('aggregates by agent and model', () => {
+    ledger.record(entry());
+    ledger.record(entry({ agent_name: 'researcher' }));
+    ledger.record(
+      entry({
+        agent_name: 'researcher',
+        service_provider: SERVICE_PROVIDERS.OPENAI,
+        model_name: 'gpt-4o-mini',
+      })
+    );
+
+    const byAgent = ledger.aggregate('agent');
+    expect(byAgent.map((group) => [group.key, group.calls])).toEqual([
+      ['researcher', 2],
+      ['ailumina', 1],
+    ]);
+
+    const byModel = ledger.aggregate('model');
+    expect(byModel[0].key).toBe('claude-sonnet-4-20250514');
+    expect(byModel[0].total_tokens).toBe(2_200_000);
+  });
+
+  it('aggregates by day and filters by date range and conversation', () => {
+    ledger.record(entry());
+    ledger.record(entry({ conversation_id: 'conv-2' }));
+
+    const today = new Date().toISOString().slice(0, 10);
+    const byDay = ledger.aggregate('day');
+    expect(byDay).toHaveLength(1);
+    expect(byDay[0].key).toBe(today);
+    expect(byDay[0].calls).toBe(2);
+
+    expect(ledger.totals({ from: '2000-01-01', to: today }).calls).toBe(0);
+    expect(ledger.totals({ conversationId: 'conv-2' }).calls).toBe(1);
+  });
+});
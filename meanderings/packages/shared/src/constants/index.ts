@@ -31,7 +31,8 @@ export const SERVICE_PROVIDERS = {
   OPENAI: 'OPENAI',
   GROQ: 'GROQ',
   OLLAMA: 'OLLAMA',
-  LMSTUDIO: 'LMSTUDIO'
+  LMSTUDIO: 'LMSTUDIO',
+  SCRIPTED: 'SCRIPTED'
 } as const;
 
 // Message composition types